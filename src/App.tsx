@@ -37,7 +37,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
 };
 
 const QuizRoute: React.FC = () => {
-  const { apiKey, loadApiKey, preferences, loadPreferences } = useQuizStore();
+  const { loadApiKey, preferences, loadPreferences } = useQuizStore();
   const { user, isLoggedIn } = useAuthStore();
   const location = useLocation();
 
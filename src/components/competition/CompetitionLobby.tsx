@@ -23,7 +23,7 @@ const CompetitionLobby: React.FC<CompetitionLobbyProps> = ({
   onLeave 
 }) => {
   const { user } = useAuthStore();
-  const { apiKey } = useQuizStore();
+  const { apiKeyFingerprint } = useQuizStore();
   const navigate = useNavigate();
   const { 
     participants, 
@@ -267,10 +267,10 @@ useEffect(() => {
   };
 
   const handleStartCompetition = async () => {
-    if (isCreator && canStart && isComponentMounted && apiKey) {
+    if (isCreator && canStart && isComponentMounted && apiKeyFingerprint) {
       try {
         setIsStarting(true);
-        await startCompetition(competition.id, apiKey);
+        await startCompetition(competition.id);
       } catch (error) {
         console.error('Failed to start competition:', error);
         setIsStarting(false);
@@ -486,7 +486,7 @@ if (timeToQuizStart !== null && competition.status === 'active') {
                       <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                         <Button
                           onClick={handleStartCompetition}
-                          disabled={!canStart || !apiKey}
+                          disabled={!canStart || !apiKeyFingerprint}
                           className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 transition-all duration-300 px-6 sm:px-8 py-3 sm:py-4 text-base sm:text-lg font-bold shadow-xl disabled:opacity-50 w-full sm:w-auto"
                         >
                           {isStarting ? (
@@ -640,7 +640,7 @@ if (timeToQuizStart !== null && competition.status === 'active') {
                       <div>
                         <span className="font-semibold text-base sm:text-lg">Gathering Warriors</span>
                         <p className="text-sm mt-1">
-                          {!apiKey 
+                          {!apiKeyFingerprint 
                             ? 'Please set up your Gemini API key in settings to start the competition'
                             : 'At least 2 participants needed to start the epic battle'
                           }
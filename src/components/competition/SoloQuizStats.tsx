@@ -2,13 +2,15 @@
 import React, { useEffect, useState } from 'react';
 import { useQuizStore } from '../../store/useQuizStore';
 import { Card, CardBody, CardHeader } from '../ui/Card';
-import { Trophy, Target, Clock, TrendingUp, Star, BookOpen, ChevronDown, ChevronUp, BarChart3, PieChart, Activity } from 'lucide-react';
+import { Trophy, Target, Clock, TrendingUp, Star, BookOpen, ChevronDown, ChevronUp, BarChart3, PieChart, Activity, Brain, Layers } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar,
   PieChart as RechartsPieChart, Pie, Cell, Legend
 } from 'recharts';
 import { Button } from '../ui/Button'; // Import the Button component
+import { BLOOM_LEVEL_LABELS, performanceByBloomLevel } from '../../services/bloom';
+import { SectionTotals, performanceBySectionName } from '../../services/examSections';
 
 interface SoloQuizStatsProps {
   userId: string;
@@ -27,6 +29,8 @@ const SoloQuizStats: React.FC<SoloQuizStatsProps> = ({ userId }) => {
   const [performanceData, setPerformanceData] = useState<any[]>([]);
   const [categoryData, setCategoryData] = useState<any[]>([]);
   const [questionTypePerformanceData, setQuestionTypePerformanceData] = useState<any[]>([]);
+  const [bloomLevelPerformanceData, setBloomLevelPerformanceData] = useState<{ name: string; correct: number; total: number; percentage: number }[]>([]);
+  const [sectionPerformanceData, setSectionPerformanceData] = useState<SectionTotals[]>([]);
   const [answerDistributionData, setAnswerDistributionData] = useState<any[]>([]); // New state for answer distribution
   const [showDetailedStats, setShowDetailedStats] = useState(false);
 
@@ -67,6 +71,8 @@ const SoloQuizStats: React.FC<SoloQuizStatsProps> = ({ userId }) => {
       setPerformanceData([]);
       setCategoryData([]);
       setQuestionTypePerformanceData([]);
+      setBloomLevelPerformanceData([]);
+      setSectionPerformanceData([]);
       setAnswerDistributionData([]); // Reset new data
     }
   }, [soloQuizHistory]);
@@ -109,6 +115,18 @@ const SoloQuizStats: React.FC<SoloQuizStatsProps> = ({ userId }) => {
     const qtpData = Array.from(qtpMap.entries()).map(([name, data]) => ({ name: name.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()), correct: data.correct, total: data.total, percentage: data.total > 0 ? (data.correct / data.total) * 100 : 0 }));
     setQuestionTypePerformanceData(qtpData);
 
+    // Cognitive Level Performance, from the level tag on each question
+    const bloomData = performanceByBloomLevel(history.flatMap(quiz => quiz.questions || [])).map(perf => ({
+      name: BLOOM_LEVEL_LABELS[perf.level],
+      correct: perf.correct,
+      total: perf.total,
+      percentage: (perf.marks / perf.total) * 100,
+    }));
+    setBloomLevelPerformanceData(bloomData);
+
+    // Section Performance, with same-named sections of different exams counted together
+    setSectionPerformanceData(performanceBySectionName(history));
+
     // Answer Distribution (Correct, Incorrect, Skipped)
     let totalCorrect = 0;
     let totalIncorrect = 0;
@@ -316,6 +334,46 @@ const SoloQuizStats: React.FC<SoloQuizStatsProps> = ({ userId }) => {
                           </ResponsiveContainer>
                         </div>
 
+                        {/* Cognitive Level Performance Bar Chart */}
+                        {bloomLevelPerformanceData.length > 0 && (
+                          <div>
+                            <h4 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+                              <Brain className="w-5 h-5 mr-2 text-purple-600" />
+                              Performance by Cognitive Level
+                            </h4>
+                            <ResponsiveContainer width="100%" height={250}>
+                              <BarChart data={bloomLevelPerformanceData}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="name" />
+                                <YAxis domain={[0, 100]} />
+                                <Tooltip formatter={(value: number) => [`${value.toFixed(1)}%`, 'Score']} />
+                                <Legend />
+                                <Bar dataKey="percentage" fill="#8B5CF6" name="Score (%)" />
+                              </BarChart>
+                            </ResponsiveContainer>
+                          </div>
+                        )}
+
+                        {/* Section Performance Bar Chart */}
+                        {sectionPerformanceData.length > 0 && (
+                          <div>
+                            <h4 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+                              <Layers className="w-5 h-5 mr-2 text-indigo-600" />
+                              Performance by Section
+                            </h4>
+                            <ResponsiveContainer width="100%" height={250}>
+                              <BarChart data={sectionPerformanceData}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="name" />
+                                <YAxis domain={[0, 100]} />
+                                <Tooltip formatter={(value: number) => [`${value.toFixed(1)}%`, 'Accuracy']} />
+                                <Legend />
+                                <Bar dataKey="accuracy" fill="#6366F1" name="Accuracy (%)" />
+                              </BarChart>
+                            </ResponsiveContainer>
+                          </div>
+                        )}
+
                         {/* New: Answer Distribution Bar Chart */}
                         <div>
                           <h4 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
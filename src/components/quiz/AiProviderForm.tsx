@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { useQuizStore } from '../../store/useQuizStore';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { Cpu, Save } from 'lucide-react';
+import { AiProviderId, AiProviderSettings } from '../../types';
+import { aiProviderLabels, DEFAULT_GEMINI_MODEL, DEFAULT_OLLAMA_BASE_URL, DEFAULT_OLLAMA_MODEL } from '../../services/llm';
+
+interface AiProviderFormProps {
+  userId: string;
+  onSave?: () => void;
+}
+
+const providerOptions = (Object.keys(aiProviderLabels) as AiProviderId[]).map(id => ({
+  value: id,
+  label: aiProviderLabels[id],
+}));
+
+const AiProviderForm: React.FC<AiProviderFormProps> = ({ userId, onSave }) => {
+  const {
+    aiProviderSettings, saveAiProviderSettings, openaiKeyFingerprint, saveOpenAiKey, removeOpenAiKey, isLoading, error
+  } = useQuizStore();
+  const [settings, setSettings] = useState<AiProviderSettings>(aiProviderSettings);
+  const [openaiKey, setOpenaiKey] = useState(''); // Sent to the server once on save, never kept in settings
+
+  useEffect(() => {
+    setSettings(aiProviderSettings);
+  }, [aiProviderSettings]);
+
+  const updateSetting = <K extends keyof AiProviderSettings>(key: K, value: AiProviderSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const usesProvider = (id: AiProviderId) =>
+    settings.provider === id || settings.fallbackProvider === id;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveAiProviderSettings(userId, settings);
+    if (openaiKey.trim()) {
+      await saveOpenAiKey(openaiKey.trim());
+      setOpenaiKey('');
+    }
+    if (onSave) onSave();
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="bg-purple-100 p-2 rounded-lg">
+            <Cpu className="w-6 h-6 text-purple-600" />
+          </div>
+          <h2 className="text-2xl font-semibold text-gray-800">AI Provider</h2>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-6">
+        <div className="bg-purple-50 p-4 rounded-lg">
+          <p className="text-purple-800">
+            Choose which model generates your quizzes, explanations and evaluations. A fallback provider
+            is used automatically when the primary one is rate-limited.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-1">
+                Primary provider
+              </label>
+              <Select
+                id="provider"
+                options={providerOptions}
+                value={settings.provider}
+                onChange={(e) => updateSetting('provider', e.target.value as AiProviderId)}
+                isFullWidth
+              />
+            </div>
+            <div>
+              <label htmlFor="fallbackProvider" className="block text-sm font-medium text-gray-700 mb-1">
+                Fallback provider
+              </label>
+              <Select
+                id="fallbackProvider"
+                options={[
+                  { value: '', label: 'None' },
+                  ...providerOptions.filter(option => option.value !== settings.provider),
+                ]}
+                value={settings.fallbackProvider || ''}
+                onChange={(e) => updateSetting('fallbackProvider', (e.target.value || null) as AiProviderId | null)}
+                isFullWidth
+              />
+            </div>
+          </div>
+
+          {usesProvider('gemini') && (
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-gray-900">{aiProviderLabels['gemini']}</h3>
+              <div>
+                <label htmlFor="geminiModel" className="block text-sm font-medium text-gray-700 mb-1">
+                  Model
+                </label>
+                <Input
+                  id="geminiModel"
+                  placeholder={DEFAULT_GEMINI_MODEL}
+                  value={settings.geminiModel || ''}
+                  onChange={(e) => updateSetting('geminiModel', e.target.value)}
+                  isFullWidth
+                  className="font-mono"
+                />
+              </div>
+            </div>
+          )}
+
+          {usesProvider('openai-compatible') && (
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-gray-900">{aiProviderLabels['openai-compatible']}</h3>
+              <div>
+                <label htmlFor="openaiBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  Base URL
+                </label>
+                <Input
+                  id="openaiBaseUrl"
+                  placeholder="https://api.openai.com/v1"
+                  value={settings.openaiBaseUrl || ''}
+                  onChange={(e) => updateSetting('openaiBaseUrl', e.target.value)}
+                  required
+                  isFullWidth
+                  className="font-mono"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Requests go through our server, so this must be a public https address. For a model on your own machine, use Ollama.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="openaiModel" className="block text-sm font-medium text-gray-700 mb-1">
+                    Model
+                  </label>
+                  <Input
+                    id="openaiModel"
+                    placeholder="gpt-4o-mini"
+                    value={settings.openaiModel || ''}
+                    onChange={(e) => updateSetting('openaiModel', e.target.value)}
+                    required
+                    isFullWidth
+                    className="font-mono"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="openaiApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+                    API key
+                  </label>
+                  <Input
+                    id="openaiApiKey"
+                    type="password"
+                    placeholder={openaiKeyFingerprint ? 'Enter a new key to replace it' : 'sk-...'}
+                    value={openaiKey}
+                    onChange={(e) => setOpenaiKey(e.target.value)}
+                    autoComplete="off"
+                    isFullWidth
+                    className="font-mono"
+                  />
+                  {openaiKeyFingerprint && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Saved key <span className="font-mono">{openaiKeyFingerprint}</span>
+                      <button
+                        type="button"
+                        onClick={removeOpenAiKey}
+                        disabled={isLoading}
+                        className="ml-2 text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {usesProvider('ollama') && (
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-gray-900">{aiProviderLabels['ollama']}</h3>
+              <p className="text-sm text-gray-600">
+                Requests go straight from your browser to the server, so start Ollama with
+                <code className="mx-1 px-1 bg-gray-100 rounded">OLLAMA_ORIGINS</code>
+                allowing this site.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="ollamaBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                    Server URL
+                  </label>
+                  <Input
+                    id="ollamaBaseUrl"
+                    placeholder={DEFAULT_OLLAMA_BASE_URL}
+                    value={settings.ollamaBaseUrl || ''}
+                    onChange={(e) => updateSetting('ollamaBaseUrl', e.target.value)}
+                    isFullWidth
+                    className="font-mono"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ollamaModel" className="block text-sm font-medium text-gray-700 mb-1">
+                    Model
+                  </label>
+                  <Input
+                    id="ollamaModel"
+                    placeholder={DEFAULT_OLLAMA_MODEL}
+                    value={settings.ollamaModel || ''}
+                    onChange={(e) => updateSetting('ollamaModel', e.target.value)}
+                    isFullWidth
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+        </form>
+      </CardBody>
+
+      <CardFooter className="flex justify-end bg-gray-50">
+        <Button
+          type="submit"
+          onClick={handleSubmit}
+          disabled={isLoading}
+          className="min-w-[120px]"
+        >
+          {isLoading ? 'Saving...' : 'Save Provider'}
+          <Save className="ml-2 h-4 w-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AiProviderForm;
@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { BarChart3, RefreshCw, Save } from 'lucide-react';
+import { AiUsageCaps, AiUsageDay } from '../../types';
+import { aiFeatureLabels } from '../../services/llm';
+import { getAiUsageCaps, getAiUsageDaily, saveAiUsageCaps } from '../../services/supabase';
+
+interface AiUsagePanelProps {
+  userId: string;
+}
+
+const USAGE_DAYS = 7;
+
+const noCaps: AiUsageCaps = { dailyRequests: null, dailyTokens: null };
+
+const parseCap = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const CapProgress: React.FC<{ label: string; used: number; cap: number | null }> = ({ label, used, cap }) => {
+  const percent = cap ? Math.min(100, Math.round((used / cap) * 100)) : 0;
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex justify-between text-sm mb-2">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span className="text-gray-600">
+          {used.toLocaleString()}{cap ? ` / ${cap.toLocaleString()}` : ''}
+        </span>
+      </div>
+      {cap ? (
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-orange-500' : 'bg-blue-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No daily cap</p>
+      )}
+    </div>
+  );
+};
+
+const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ userId }) => {
+  const [usage, setUsage] = useState<AiUsageDay[]>([]);
+  const [caps, setCaps] = useState<AiUsageCaps>(noCaps);
+  const [requestCapInput, setRequestCapInput] = useState('');
+  const [tokenCapInput, setTokenCapInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [days, savedCaps] = await Promise.all([
+        getAiUsageDaily(userId, USAGE_DAYS),
+        getAiUsageCaps(userId),
+      ]);
+      const loadedCaps = { ...noCaps, ...(savedCaps || {}) };
+      setUsage(days);
+      setCaps(loadedCaps);
+      setRequestCapInput(loadedCaps.dailyRequests ? String(loadedCaps.dailyRequests) : '');
+      setTokenCapInput(loadedCaps.dailyTokens ? String(loadedCaps.dailyTokens) : '');
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load AI usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  // Rows arrive newest day first, one per feature
+  const usageByDay = useMemo(() => {
+    const days = new Map<string, AiUsageDay[]>();
+    usage.forEach(row => days.set(row.day, [...(days.get(row.day) || []), row]));
+    return Array.from(days.entries());
+  }, [usage]);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const todayRows = usage.filter(row => row.day === today);
+  const todayRequests = todayRows.reduce((sum, row) => sum + row.requests, 0);
+  const todayTokens = todayRows.reduce((sum, row) => sum + row.totalTokens, 0);
+
+  const handleSaveCaps = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextCaps: AiUsageCaps = {
+      dailyRequests: parseCap(requestCapInput),
+      dailyTokens: parseCap(tokenCapInput),
+    };
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveAiUsageCaps(userId, nextCaps);
+      setCaps(nextCaps);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save usage caps');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <BarChart3 className="w-6 h-6 text-blue-600" />
+            </div>
+            <h2 className="text-2xl font-semibold text-gray-800">AI Usage</h2>
+          </div>
+          <Button variant="ghost" onClick={loadUsage} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <CapProgress label="Requests today" used={todayRequests} cap={caps.dailyRequests} />
+          <CapProgress label="Tokens today" used={todayTokens} cap={caps.dailyTokens} />
+        </div>
+
+        <div>
+          <h3 className="font-medium text-gray-900 mb-3">Last {USAGE_DAYS} days</h3>
+          {usageByDay.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {isLoading ? 'Loading usage...' : 'No AI requests recorded yet.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 font-medium">Feature</th>
+                    <th className="py-2 font-medium text-right">Requests</th>
+                    <th className="py-2 font-medium text-right">Tokens</th>
+                    <th className="py-2 font-medium text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usageByDay.map(([day, rows]) => (
+                    <React.Fragment key={day}>
+                      <tr className="bg-gray-50">
+                        <td colSpan={4} className="py-1.5 px-2 font-medium text-gray-700">
+                          {day === today ? 'Today' : formatDay(day)}
+                        </td>
+                      </tr>
+                      {rows.map(row => (
+                        <tr key={`${day}-${row.feature}`} className="border-b border-gray-100">
+                          <td className="py-2 pl-4 text-gray-800">{aiFeatureLabels[row.feature] || row.feature}</td>
+                          <td className="py-2 text-right text-gray-700">{row.requests.toLocaleString()}</td>
+                          <td className="py-2 text-right text-gray-700">{row.totalTokens.toLocaleString()}</td>
+                          <td className="py-2 text-right text-gray-700">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={handleSaveCaps} className="space-y-3 border-t pt-4">
+          <h3 className="font-medium text-gray-900">Daily caps</h3>
+          <p className="text-sm text-gray-600">
+            New AI requests are refused once either cap is reached. Leave a field empty for no cap.
+            Requests to a local Ollama server go straight from your browser, so they are not counted or capped.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="dailyRequests" className="block text-sm font-medium text-gray-700 mb-1">
+                Requests per day
+              </label>
+              <Input
+                id="dailyRequests"
+                type="number"
+                min={1}
+                placeholder="No cap"
+                value={requestCapInput}
+                onChange={(e) => setRequestCapInput(e.target.value)}
+                isFullWidth
+              />
+            </div>
+            <div>
+              <label htmlFor="dailyTokens" className="block text-sm font-medium text-gray-700 mb-1">
+                Tokens per day
+              </label>
+              <Input
+                id="dailyTokens"
+                type="number"
+                min={1}
+                placeholder="No cap"
+                value={tokenCapInput}
+                onChange={(e) => setTokenCapInput(e.target.value)}
+                isFullWidth
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Days are counted in UTC. Calls to a local Ollama server go straight from your browser and are not metered.
+          </p>
+
+          {error && (
+            <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+        </form>
+      </CardBody>
+
+      <CardFooter className="flex justify-end bg-gray-50">
+        <Button
+          type="submit"
+          onClick={handleSaveCaps}
+          disabled={isSaving}
+          className="min-w-[120px]"
+        >
+          {isSaving ? 'Saving...' : 'Save Caps'}
+          <Save className="ml-2 h-4 w-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AiUsagePanel;
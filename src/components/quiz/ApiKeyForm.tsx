@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useQuizStore } from '../../store/useQuizStore';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
-import { Key, Save, ExternalLink, Copy, CheckCircle } from 'lucide-react';
+import { Key, Save, ExternalLink, Copy, CheckCircle, ShieldCheck, Trash2, XCircle, Zap } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface ApiKeyFormProps {
@@ -12,15 +12,30 @@ interface ApiKeyFormProps {
 }
 
 const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ userId, onSave }) => {
-  const { apiKey, saveApiKey, isLoading, error } = useQuizStore();
-  const [key, setKey] = useState(apiKey || '');
+  const { apiKeyFingerprint, saveApiKey, testApiKey, removeApiKey, isLoading, error } = useQuizStore();
+  const [key, setKey] = useState('');
   const [copied, setCopied] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // The typed key is only held until it is saved; afterwards just the fingerprint is shown
+  useEffect(() => {
+    setKey('');
+    setTestResult(null);
+  }, [apiKeyFingerprint]);
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     await saveApiKey(userId, key);
     if (onSave) onSave();
   };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    setTestResult(await testApiKey());
+    setIsTesting(false);
+  };
   
   const copyToClipboard = async (text: string) => {
     await navigator.clipboard.writeText(text);
@@ -113,13 +128,55 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ userId, onSave }) => {
         </div>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          {apiKeyFingerprint && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-green-50 border border-green-200 p-4 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <ShieldCheck className="w-5 h-5 text-green-600 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-green-800">Key saved and encrypted</p>
+                  <p className="font-mono text-sm text-green-700">{apiKeyFingerprint}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleTest}
+                  disabled={isTesting || isLoading}
+                  className="text-sm"
+                >
+                  <Zap className="w-4 h-4 mr-1" />
+                  {isTesting ? 'Testing...' : 'Test key'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={removeApiKey}
+                  disabled={isLoading}
+                  className="text-sm text-red-600"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {testResult && (
+            <div className={`flex items-center text-sm font-medium py-2 px-3 rounded-md ${testResult.ok ? 'text-green-700 bg-green-50' : 'text-red-600 bg-red-50'}`}>
+              {testResult.ok ? <CheckCircle className="w-4 h-4 mr-2" /> : <XCircle className="w-4 h-4 mr-2" />}
+              {testResult.message}
+            </div>
+          )}
+
           <div>
             <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-1">
-              Your API Key
+              {apiKeyFingerprint ? 'Replace API Key' : 'Your API Key'}
             </label>
             <Input
               id="apiKey"
               type="password"
+              autoComplete="off"
               placeholder="Enter your Gemini API key"
               value={key}
               onChange={(e) => setKey(e.target.value)}
@@ -127,6 +184,9 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ userId, onSave }) => {
               isFullWidth
               className="font-mono"
             />
+            <p className="text-xs text-gray-500 mt-1">
+              Your key is encrypted on our server and is never sent back to your browser.
+            </p>
           </div>
           
           {error && (
@@ -0,0 +1,195 @@
+import React from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { ExamSection, QuestionType, QuizPreferences } from '../../types';
+import { MAX_EXAM_QUESTIONS, MAX_EXAM_SECTIONS, examSectionsProblem, newExamSection, sectionQuestionTotal } from '../../services/examSections';
+
+interface ExamSectionsEditorProps {
+  preferences: QuizPreferences;
+  onChange: (sections: ExamSection[] | null) => void;
+}
+
+// Long answers are left out: exams are marked on the server, without the AI grader
+const SECTION_QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'multiple-choice', label: 'Multiple Choice' },
+  { value: 'true-false', label: 'True/False' },
+  { value: 'short-answer', label: 'Short Answer' },
+  { value: 'fill-blank', label: 'Fill Blanks' },
+  { value: 'multi-select', label: 'Multi-Select' },
+  { value: 'sequence', label: 'Sequence' },
+  { value: 'case-study', label: 'Case Study' },
+  { value: 'situation', label: 'Situation' }
+];
+
+// Splits an exam into sections such as Physics / Chemistry / Maths, each with its own rules and clock.
+// Sectioned exams use these settings in place of the quiz-wide question types, count, timer and negative marking.
+const ExamSectionsEditor: React.FC<ExamSectionsEditorProps> = ({ preferences, onChange }) => {
+  const sections = preferences.sections || [];
+  const problem = sections.length > 0 ? examSectionsProblem(sections) : null;
+
+  const updateSection = (id: string, changes: Partial<ExamSection>) =>
+    onChange(sections.map(section => section.id === id ? { ...section, ...changes } : section));
+
+  // Only the types offered here are kept, so a long answer saved earlier cannot linger unseen
+  const toggleType = (section: ExamSection, type: QuestionType) => {
+    const offered = section.questionTypes.filter(existing => SECTION_QUESTION_TYPES.some(option => option.value === existing));
+    updateSection(section.id, {
+      questionTypes: offered.includes(type) ? offered.filter(existing => existing !== type) : [...offered, type]
+    });
+  };
+
+  if (sections.length === 0) {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-xl border-2 border-dashed border-purple-200 bg-purple-50/50">
+        <div>
+          <p className="font-semibold text-gray-800 flex items-center">
+            <Layers className="w-4 h-4 mr-2 text-purple-600" />
+            Exam Sections
+          </p>
+          <p className="text-sm text-gray-600">Split the exam into parts, each with its own question types, count, timer and negative marking</p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([newExamSection(preferences, 1), newExamSection(preferences, 2)])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Sections
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl border-2 border-purple-200 bg-purple-50/50">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold text-gray-800 flex items-center">
+            <Layers className="w-4 h-4 mr-2 text-purple-600" />
+            Exam Sections
+          </p>
+          <p className="text-sm text-gray-600">
+            Taken in order; a finished or timed-out section cannot be reopened. {sectionQuestionTotal(sections)}/{MAX_EXAM_QUESTIONS} questions.
+          </p>
+        </div>
+        <Button type="button" variant="outline" onClick={() => onChange(null)}>
+          Remove Sections
+        </Button>
+      </div>
+
+      {sections.map((section, index) => (
+        <div key={section.id} className="p-4 rounded-lg bg-white border border-gray-200 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold text-purple-700 w-6">{index + 1}.</span>
+            <Input
+              value={section.name}
+              onChange={(e) => updateSection(section.id, { name: e.target.value })}
+              placeholder="Section name, e.g. Physics"
+              isFullWidth
+            />
+            <button
+              type="button"
+              onClick={() => onChange(sections.filter(existing => existing.id !== section.id))}
+              className="p-2 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${section.name || 'section'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-sm text-gray-700">
+              Topic
+              <Input
+                value={section.topic || ''}
+                onChange={(e) => updateSection(section.id, { topic: e.target.value })}
+                placeholder={preferences.topic || 'Same as the quiz'}
+                isFullWidth
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Questions
+              <Input
+                type="number"
+                min={1}
+                max={MAX_EXAM_QUESTIONS}
+                value={section.questionCount}
+                onChange={(e) => updateSection(section.id, { questionCount: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                isFullWidth
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Time limit (minutes)
+              <Input
+                type="number"
+                min={1}
+                value={section.timeLimit ? Math.round(section.timeLimit / 60) : ''}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  updateSection(section.id, { timeLimit: minutes > 0 ? minutes * 60 : null });
+                }}
+                placeholder="Untimed"
+                isFullWidth
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {SECTION_QUESTION_TYPES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggleType(section, value)}
+                className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                  section.questionTypes.includes(value)
+                    ? 'border-purple-500 bg-purple-100 text-purple-800'
+                    : 'border-gray-200 text-gray-600 hover:border-purple-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={section.negativeMarking}
+                onChange={(e) => updateSection(section.id, { negativeMarking: e.target.checked })}
+              />
+              Negative marking
+            </label>
+            {section.negativeMarking && (
+              <select
+                value={section.negativeMarks}
+                onChange={(e) => updateSection(section.id, { negativeMarks: parseFloat(e.target.value) })}
+                className="py-1 px-2 rounded-md border border-gray-300"
+              >
+                <option value={-0.25}>-0.25 marks</option>
+                <option value={-0.5}>-0.5 marks</option>
+                <option value={-1}>-1 mark</option>
+              </select>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {problem && <p className="text-sm text-red-600">{problem}</p>}
+
+      {sections.length < MAX_EXAM_SECTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...sections, newExamSection(preferences, sections.length + 1)])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Section
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ExamSectionsEditor;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { QuestionValidationIssue } from '../../services/gemini';
+
+interface GenerationReportNoticeProps {
+  issues: QuestionValidationIssue[];
+  onDismiss?: () => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Tells the user which generated questions failed the checks and whether they were repaired or replaced
+const GenerationReportNotice: React.FC<GenerationReportNoticeProps> = ({ issues, onDismiss }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  if (issues.length === 0) return null;
+
+  const repairedCount = issues.filter(issue => issue.repaired).length;
+  const droppedCount = issues.length - repairedCount;
+  const summary = [
+    repairedCount > 0 && `${plural(repairedCount, 'question')} repaired`,
+    droppedCount > 0 && `${plural(droppedCount, 'question')} dropped`
+  ].filter(Boolean).join(' and ');
+
+  return (
+    <div className="mb-4 p-3 sm:p-4 rounded-xl border border-amber-200 bg-amber-50 text-amber-800">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm sm:text-base font-medium">
+            {summary} while checking the generated quiz. Dropped questions were replaced where possible.
+          </p>
+          <button
+            type="button"
+            onClick={() => setShowDetails(!showDetails)}
+            className="mt-1 inline-flex items-center text-xs sm:text-sm font-medium text-amber-700 hover:text-amber-900"
+          >
+            {showDetails ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+            {showDetails ? 'Hide details' : 'Show details'}
+          </button>
+          {showDetails && (
+            <ul className="mt-2 space-y-1 text-xs sm:text-sm">
+              {issues.map((issue, index) => (
+                <li key={`${issue.index}-${issue.rule}-${index}`}>
+                  <span className="font-medium">#{issue.index + 1} {issue.type}</span>
+                  {' · '}{issue.message}
+                  {' · '}<span className={issue.repaired ? 'text-emerald-700' : 'text-amber-700'}>{issue.repaired ? 'repaired' : 'dropped'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {onDismiss && (
+          <button type="button" onClick={onDismiss} className="text-amber-600 hover:text-amber-800" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationReportNotice;
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send } from 'lucide-react';
+import { ChatMessage, Question } from '../../types';
+import { Button } from '../ui/Button';
+import { askAboutQuestion } from '../../services/gemini';
+import { getQuestionThread, saveQuestionThreadMessage } from '../../services/supabase';
+
+interface QuestionFollowUpChatProps {
+  question: Question;
+  userId: string;
+  quizResultId?: string; // Threads are only saved once the result itself has been saved
+  language: string;
+  explanation?: string;
+}
+
+// Threaded conversation about one answered question, anchored to the quiz result it came from
+const QuestionFollowUpChat: React.FC<QuestionFollowUpChatProps> = ({
+  question,
+  userId,
+  quizResultId,
+  language,
+  explanation
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!quizResultId) return;
+    let cancelled = false;
+
+    setIsLoadingThread(true);
+    getQuestionThread(userId, quizResultId, question.id)
+      // Sending waits for the thread, but keep anything already on screen rather than replace it
+      .then(thread => {
+        if (!cancelled) setMessages(current => [...thread, ...current]);
+      })
+      .catch(error => {
+        console.error('Failed to load follow-up thread:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingThread(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, quizResultId, question.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length]);
+
+  // Saving is best-effort; the conversation still works if the result was never stored
+  const persist = (message: ChatMessage) => {
+    if (!quizResultId) return;
+    saveQuestionThreadMessage(userId, quizResultId, question.id, message).catch(error => {
+      console.error('Failed to save follow-up message:', error);
+    });
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || isSending || isLoadingThread) return;
+
+    const userMessage: ChatMessage = { type: 'user', content, timestamp: new Date() };
+    const history = messages;
+    setMessages([...history, userMessage]);
+    setDraft('');
+    setIsSending(true);
+    setChatError(null);
+    persist(userMessage);
+
+    try {
+      const reply = await askAboutQuestion(question, history, content, language, explanation);
+      const assistantMessage: ChatMessage = { type: 'assistant', content: reply, timestamp: new Date() };
+      setMessages(current => [...current, assistantMessage]);
+      persist(assistantMessage);
+    } catch (error) {
+      console.error('Follow-up chat error:', error);
+      setChatError(error instanceof Error ? error.message : 'Failed to get a reply');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-2xl border border-indigo-200 shadow-lg">
+      <h5 className="font-bold text-indigo-800 flex items-center text-base sm:text-lg mb-4">
+        <MessageCircle className="w-5 h-5 sm:w-6 sm:h-6 mr-2" />
+        Ask about this question
+      </h5>
+
+      <div className="space-y-3 max-h-80 overflow-y-auto mb-4">
+        {isLoadingThread ? (
+          <p className="text-sm text-gray-500">Loading conversation...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Ask why your answer was wrong, why another option doesn't fit, or for another example.
+          </p>
+        ) : (
+          messages.map((message, index) => (
+            <div
+              key={message.id || index}
+              className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
+            >
+              <div
+                className={`max-w-[85%] px-3 py-2 rounded-xl text-sm sm:text-base whitespace-pre-wrap break-words ${
+                  message.type === 'user'
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-indigo-50 text-gray-800 border border-indigo-100'
+                }`}
+              >
+                {message.content}
+              </div>
+            </div>
+          ))
+        )}
+        {isSending && (
+          <p className="text-sm text-gray-500 italic">Thinking...</p>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {chatError && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md mb-3">
+          {chatError}
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type your question..."
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          disabled={isSending || isLoadingThread}
+        />
+        <Button type="submit" disabled={isSending || isLoadingThread || !draft.trim()} className="flex-shrink-0">
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default QuestionFollowUpChat;
@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  LineChart, Line, PieChart, Pie, Cell,
+} from 'recharts';
+import { ChartSpec, QuestionMedia } from '../../types';
+import { svgDataUrl } from '../../services/questionMedia';
+
+interface QuestionMediaViewProps {
+  media: QuestionMedia;
+  compact?: boolean; // Smaller rendering for result lists
+}
+
+const PIE_COLORS = ['#8B5CF6', '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#06B6D4', '#84CC16'];
+
+const MediaChart: React.FC<{ chart: ChartSpec }> = ({ chart }) => {
+  switch (chart.type) {
+    case 'pie':
+      return (
+        <PieChart>
+          <Pie data={chart.data} dataKey="value" nameKey="label" outerRadius="75%" label={({ label }) => label}>
+            {chart.data.map((point, index) => (
+              <Cell key={point.label} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+        </PieChart>
+      );
+    case 'line':
+      return (
+        <LineChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" label={chart.xLabel ? { value: chart.xLabel, position: 'insideBottom', offset: -4 } : undefined} />
+          <YAxis label={chart.yLabel ? { value: chart.yLabel, angle: -90, position: 'insideLeft' } : undefined} />
+          <Tooltip />
+          <Line type="monotone" dataKey="value" name={chart.yLabel || 'Value'} stroke="#8B5CF6" strokeWidth={2} />
+        </LineChart>
+      );
+    case 'bar':
+    default:
+      return (
+        <BarChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" label={chart.xLabel ? { value: chart.xLabel, position: 'insideBottom', offset: -4 } : undefined} />
+          <YAxis label={chart.yLabel ? { value: chart.yLabel, angle: -90, position: 'insideLeft' } : undefined} />
+          <Tooltip />
+          <Bar dataKey="value" name={chart.yLabel || 'Value'} fill="#8B5CF6" />
+        </BarChart>
+      );
+  }
+};
+
+// Shows the image, diagram or chart that belongs to a question
+const QuestionMediaView: React.FC<QuestionMediaViewProps> = ({ media, compact = false }) => {
+  const maxHeight = compact ? 'max-h-56' : 'max-h-80 sm:max-h-96';
+
+  return (
+    <figure className="bg-white rounded-xl border border-gray-200 shadow-sm p-3 sm:p-4">
+      {media.kind === 'chart' ? (
+        <div role="img" aria-label={media.alt}>
+          {media.chart.title && (
+            <p className="text-center text-sm sm:text-base font-medium text-gray-700 mb-2">{media.chart.title}</p>
+          )}
+          <div className={compact ? 'h-52' : 'h-64 sm:h-80'}>
+            <ResponsiveContainer width="100%" height="100%">
+              <MediaChart chart={media.chart} />
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ) : (
+        <img
+          src={media.kind === 'svg' ? svgDataUrl(media.svg) : media.url}
+          alt={media.alt}
+          loading="lazy"
+          className={`mx-auto w-auto max-w-full ${maxHeight} object-contain`}
+        />
+      )}
+      {media.caption && (
+        <figcaption className="text-center text-xs sm:text-sm text-gray-500 mt-2">{media.caption}</figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default QuestionMediaView;
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { QuizImage } from '../../types';
+import { Button } from '../ui/Button';
+import { uploadQuizImage } from '../../services/supabase';
+import { MAX_QUIZ_IMAGE_BYTES, MAX_QUIZ_IMAGES, QUIZ_IMAGE_ACCEPT } from '../../services/questionMedia';
+
+interface QuizImageInputProps {
+  userId: string;
+  images: QuizImage[];
+  onChange: (images: QuizImage[]) => void;
+}
+
+// Diagrams, charts or maps the quiz should ask about; they are uploaded so results can show them later
+const QuizImageInput: React.FC<QuizImageInputProps> = ({ userId, images, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+
+    if (images.length + files.length > MAX_QUIZ_IMAGES) {
+      setUploadError(`You can attach up to ${MAX_QUIZ_IMAGES} images`);
+      return;
+    }
+    const oversized = files.find(file => file.size > MAX_QUIZ_IMAGE_BYTES);
+    if (oversized) {
+      setUploadError(`"${oversized.name}" is larger than ${MAX_QUIZ_IMAGE_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const uploaded = await Promise.all(files.map(file => uploadQuizImage(userId, file)));
+      onChange([...images, ...uploaded]);
+    } catch (error) {
+      console.error('Failed to upload quiz image:', error);
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload the image');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div>
+          <h4 className="text-base sm:text-lg font-bold text-slate-800">Question Images</h4>
+          <p className="text-xs sm:text-sm text-slate-600">
+            Upload up to {MAX_QUIZ_IMAGES} diagrams, charts or maps and some questions will be about them
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={QUIZ_IMAGE_ACCEPT}
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading || images.length >= MAX_QUIZ_IMAGES}
+          className="text-sm flex-shrink-0"
+        >
+          <ImagePlus className="w-4 h-4 mr-2" />
+          {isUploading ? 'Uploading...' : 'Add Images'}
+        </Button>
+      </div>
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div key={image.url} className="relative rounded-lg border border-slate-200 bg-white overflow-hidden">
+              <img src={image.url} alt={image.name} className="h-24 w-full object-cover" />
+              <div className="px-2 py-1 text-xs text-slate-600 truncate">{index + 1}. {image.name}</div>
+              <button
+                type="button"
+                onClick={() => onChange(images.filter(other => other.url !== image.url))}
+                className="absolute top-1 right-1 bg-white/90 rounded-full p-1 text-slate-600 hover:text-red-600"
+                aria-label={`Remove ${image.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {uploadError && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+          {uploadError}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizImageInput;
@@ -1,16 +1,31 @@
 import React, { useState } from 'react';
 import { Button } from '../ui/Button'; 
 import { Card, CardBody } from '../ui/Card';
-import { BookOpen, Crown, Hash, Users, Zap, Target, Brain, Trophy, Sparkles, ArrowRight, Star, Clock, Award, TrendingUp, Play, Gamepad2, Rocket, Shield, Globe, Bolt, Settings } from 'lucide-react';
+import { BookOpen, Crown, Hash, Repeat, Users, Zap, Target, Brain, Trophy, Sparkles, ArrowRight, Star, Clock, Award, TrendingUp, Play, Gamepad2, Rocket, Shield, Globe, Bolt, Settings } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
+import { QuizSessionSnapshot } from '../../types';
+import ResumeSessionCard from './ResumeSessionCard';
 
 interface QuizModeSelectorProps {
-  onSelectMode: (mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match') => void;
+  onSelectMode: (mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match' | 'review') => void;
   onShowCompetitionManagement?: () => void;
+  dueReviewCount?: number; // Review cards due now, shown on the review card's badge
+  resumableSession?: QuizSessionSnapshot | null; // Quiz left part-way, offered above the modes
+  onResumeSession?: () => void;
+  onDiscardSession?: () => void;
+  isResumingSession?: boolean;
 }
 
-const QuizModeSelector: React.FC<QuizModeSelectorProps> = ({ onSelectMode, onShowCompetitionManagement }) => {
+const QuizModeSelector: React.FC<QuizModeSelectorProps> = ({
+  onSelectMode,
+  onShowCompetitionManagement,
+  dueReviewCount = 0,
+  resumableSession,
+  onResumeSession,
+  onDiscardSession,
+  isResumingSession = false
+}) => {
   const [hoveredMode, setHoveredMode] = useState<string | null>(null);
   const navigate = useNavigate();
   const modes = [
@@ -69,6 +84,20 @@ const QuizModeSelector: React.FC<QuizModeSelectorProps> = ({ onSelectMode, onSho
       stats: '1M+ matches daily',
       badge: 'Global Play',
       badgeColor: 'bg-orange-500'
+    },
+    {
+      id: 'review',
+      title: 'Review Due',
+      subtitle: 'Remember for good',
+      description: 'Revisit questions you got wrong or saved, spaced out so they stick',
+      icon: Repeat,
+      gradient: 'from-teal-500 to-cyan-600',
+      bgGradient: 'from-teal-50 to-cyan-50',
+      borderColor: 'border-teal-200',
+      features: ['Built from your mistakes', 'Includes favourites', 'Spaced repetition'],
+      stats: dueReviewCount > 0 ? `${dueReviewCount} card${dueReviewCount === 1 ? '' : 's'} due now` : 'Nothing due right now',
+      badge: dueReviewCount > 0 ? `${dueReviewCount} Due` : 'Up to Date',
+      badgeColor: dueReviewCount > 0 ? 'bg-teal-500' : 'bg-slate-400'
     }
   ];
 
@@ -152,6 +181,17 @@ const QuizModeSelector: React.FC<QuizModeSelectorProps> = ({ onSelectMode, onSho
 
         </motion.div> 
 
+        {resumableSession && onResumeSession && (
+          <div className="mb-8 sm:mb-12">
+            <ResumeSessionCard
+              session={resumableSession}
+              onResume={onResumeSession}
+              onDiscard={onDiscardSession}
+              isResuming={isResumingSession}
+            />
+          </div>
+        )}
+
         {/* Mode Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 lg:gap-8 mb-8 sm:mb-12">
           {modes.map((mode, index) => (
@@ -1,19 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useQuizStore } from '../../store/useQuizStore';
+import { MAX_HINTS_PER_QUESTION } from '../../services/gemini';
+import { DEFAULT_HINT_PENALTY, DEFAULT_SCORING_SCHEME } from '../../services/scoring';
+import { activeExamSections, examSectionsProblem, examSettingsProblem } from '../../services/examSections';
+import { BLOOM_LEVELS, BLOOM_LEVEL_DESCRIPTIONS, BLOOM_LEVEL_LABELS, DEFAULT_BLOOM_DISTRIBUTION, bloomLevelCounts } from '../../services/bloom';
 import { useCompetitionStore } from '../../store/useCompetitionStore';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Card, CardBody, CardHeader } from '../ui/Card';
-import { QuizPreferences, QuestionType } from '../../types';
+import { BloomLevel, QuizPreferences, QuestionType, ScoringScheme } from '../../types';
 import { 
   Brain, Users, Clock, Globe, Target, Zap, 
   BookOpen, GraduationCap, Settings, Play,
   ChevronRight, Star, Trophy, Timer, Award,
   Sparkles, CheckCircle, AlertCircle, Crown,
   Rocket, Shield, Activity, TrendingUp,
-  ChevronDown, Search, ChevronUp, Infinity
+  ChevronDown, Search, ChevronUp, Infinity, ShieldCheck, Image as ImageIcon, Lightbulb, PenLine
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import StudyMaterialInput from './StudyMaterialInput';
+import QuizImageInput from './QuizImageInput';
+import ExamSectionsEditor from './ExamSectionsEditor';
 
 interface QuizPreferencesFormProps {
   userId: string;
@@ -46,6 +53,15 @@ const QuizPreferencesForm: React.FC<QuizPreferencesFormProps> = ({
   const [timeInputMode, setTimeInputMode] = useState<'perQuestion' | 'totalTime'>('perQuestion');
 
   const isCompetitionMode = !!onStartCompetition;
+  const scoring = preferences.scoring || DEFAULT_SCORING_SCHEME;
+  const updateScoring = (changes: Partial<ScoringScheme>) =>
+    setPreferences(prev => ({ ...prev, scoring: { ...(prev.scoring || DEFAULT_SCORING_SCHEME), ...changes } }));
+  const bloomDistribution = preferences.bloomDistribution || null;
+  const bloomCounts = bloomDistribution ? bloomLevelCounts(bloomDistribution, preferences.questionCount) : {};
+  const updateBloomShare = (level: BloomLevel, share: number) =>
+    setPreferences(prev => ({ ...prev, bloomDistribution: { ...(prev.bloomDistribution || {}), [level]: share } }));
+  // Competition questions are generated server-side, so only solo quizzes can use the user's material
+  const usesMaterial = !isCompetitionMode && preferences.source === 'material';
 
   useEffect(() => {
     setPreferences(initialPreferences);
@@ -129,6 +145,14 @@ const QuizPreferencesForm: React.FC<QuizPreferencesFormProps> = ({
       icon: Brain,
       color: 'from-green-500 to-teal-500'
     },
+    { 
+      value: 'long-answer', 
+      label: 'Long Answer', 
+      description: 'Descriptive, rubric-marked',
+      icon: PenLine,
+      color: 'from-amber-500 to-orange-500',
+      soloOnly: true // Competitions are scored instantly, without AI marking
+    },
     { 
       value: 'fill-blank', 
       label: 'Fill Blanks', 
@@ -187,9 +211,16 @@ const QuizPreferencesForm: React.FC<QuizPreferencesFormProps> = ({
 
   const finalPreferences = {
   ...preferences,
+  // Material quizzes are labelled after the material when no course is given
+  course: usesMaterial && !preferences.course?.trim() ? preferences.material?.name : preferences.course,
   // Force exam mode for competitions
   mode: onStartCompetition ? 'exam' : preferences.mode,
-  answerMode: onStartCompetition ? 'end' : preferences.answerMode
+  answerMode: onStartCompetition ? 'end' : preferences.answerMode,
+  questionTypes: isCompetitionMode
+    ? preferences.questionTypes.filter(type => type !== 'long-answer')
+    : preferences.questionTypes,
+  bloomDistribution: isCompetitionMode ? null : preferences.bloomDistribution,
+  sections: isCompetitionMode ? null : preferences.sections
 };
 
 const handleSubmit = async (e: React.FormEvent) => {
@@ -201,6 +232,35 @@ const handleSubmit = async (e: React.FormEvent) => {
     return;
   }
 
+  if (finalPreferences.questionTypes.length === 0) {
+    alert(isCompetitionMode
+      ? "Long answers are not available in competitions. Please select another question type"
+      : "Please select at least one question type");
+    return;
+  }
+
+  if (!isCompetitionMode && bloomDistribution && Object.keys(bloomCounts).length === 0) {
+    alert("Give at least one cognitive level a share, or turn off the cognitive level mix");
+    return;
+  }
+
+  const sectionsProblem = !isCompetitionMode && examSectionsProblem(activeExamSections(preferences));
+  if (sectionsProblem) {
+    alert(sectionsProblem);
+    return;
+  }
+
+  const examProblem = !isCompetitionMode && preferences.mode === 'exam' && examSettingsProblem(preferences);
+  if (examProblem) {
+    alert(examProblem);
+    return;
+  }
+
+  if (usesMaterial && !preferences.material?.text.trim()) {
+    alert("Please paste or upload your study material");
+    return;
+  }
+
   try {
     // 2. Save quiz preferences
     await savePreferences(userId, finalPreferences);
@@ -472,16 +532,39 @@ const decrementTime = () => {
           >
             <Card className="shadow-2xl border-2 border-blue-100 overflow-hidden">
               <CardHeader className="bg-gradient-to-r from-blue-50 to-cyan-50">
-                <h3 className="text-xl sm:text-2xl font-bold text-slate-800 flex items-center">
-                  <GraduationCap className="w-6 h-6 sm:w-7 sm:h-7 mr-2 sm:mr-3 text-blue-600" />
-                  Subject & Topic
-                </h3>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <h3 className="text-xl sm:text-2xl font-bold text-slate-800 flex items-center">
+                    <GraduationCap className="w-6 h-6 sm:w-7 sm:h-7 mr-2 sm:mr-3 text-blue-600" />
+                    Subject & Topic
+                  </h3>
+                  {!isCompetitionMode && (
+                    <div className="flex bg-white rounded-xl border-2 border-blue-100 p-1 text-sm font-medium">
+                      {[
+                        { value: 'topic', label: 'From a topic' },
+                        { value: 'material', label: 'From my material' }
+                      ].map(option => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setPreferences(prev => ({ ...prev, source: option.value as QuizPreferences['source'] }))}
+                          className={`px-3 sm:px-4 py-2 rounded-lg transition-all duration-300 ${
+                            (preferences.source || 'topic') === option.value
+                              ? 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white shadow'
+                              : 'text-slate-600 hover:bg-blue-50'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </CardHeader>
-              <CardBody className="p-4 sm:p-8">
+              <CardBody className="p-4 sm:p-8 space-y-6 sm:space-y-8">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 md:gap-8">
                   <div>
                     <label className="block text-base sm:text-lg font-semibold text-slate-700 mb-2 sm:mb-3">
-                      Course/Subject *
+                      {usesMaterial ? 'Course/Subject (Optional)' : 'Course/Subject *'}
                     </label>
                     <div className="relative group">
                       <Input
@@ -489,7 +572,7 @@ const decrementTime = () => {
                         value={preferences.course}
                         onChange={(e) => setPreferences(prev => ({ ...prev, course: e.target.value }))}
                         placeholder="e.g., Computer Science"
-                        required
+                        required={!usesMaterial}
                         className="w-full py-3 sm:py-4 text-base sm:text-lg rounded-xl border-2 border-slate-200 focus:border-blue-500 transition-all duration-300 pl-10 sm:pl-12 group-hover:shadow-lg"
                       />
                       <div className="absolute left-3 sm:left-4 top-1/2 transform -translate-y-1/2 text-blue-500">
@@ -537,6 +620,13 @@ const decrementTime = () => {
                     </div>
                   </div>
                 </div>
+
+                {usesMaterial && (
+                  <StudyMaterialInput
+                    material={preferences.material || null}
+                    onChange={(material) => setPreferences(prev => ({ ...prev, material }))}
+                  />
+                )}
               </CardBody>
             </Card>
           </motion.div>
@@ -579,7 +669,11 @@ const decrementTime = () => {
                         </div>
                         <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-green-500/5 to-emerald-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
                       </div>
-                      <p className="text-xs sm:text-sm text-slate-500 mt-2">Choose between 1-50 questions</p>
+                      <p className="text-xs sm:text-sm text-slate-500 mt-2">
+                        {!isCompetitionMode && preferences.mode === 'adaptive'
+                          ? 'At most this many questions; adaptive quizzes can end sooner'
+                          : 'Choose between 1-50 questions'}
+                      </p>
                     </div>
 
                     <div>
@@ -902,7 +996,7 @@ const decrementTime = () => {
               </CardHeader>
               <CardBody className="p-4 sm:p-8">
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 sm:gap-6">
-                  {questionTypeOptions.map((option) => {
+                  {questionTypeOptions.filter(option => !isCompetitionMode || !option.soloOnly).map((option) => {
                     const isSelected = preferences.questionTypes.includes(option.value);
                     return (
                       <motion.button
@@ -957,6 +1051,67 @@ const decrementTime = () => {
                     <p className="text-xs sm:text-sm text-orange-700 font-medium">Please select at least one question type</p>
                   </motion.div>
                 )}
+
+                {!isCompetitionMode && (
+                  <div className="mt-6 sm:mt-8 pt-6 sm:pt-8 border-t border-slate-200">
+                    <div className="flex items-center justify-between mb-3 sm:mb-4">
+                      <div>
+                        <h4 className="text-base sm:text-lg font-bold text-slate-800">Cognitive Levels</h4>
+                        <p className="text-xs sm:text-sm text-slate-600">
+                          Choose how many questions test recall versus analysis and judgement (Bloom's taxonomy)
+                        </p>
+                      </div>
+                      <motion.button
+                        type="button"
+                        onClick={() => setPreferences(prev => ({
+                          ...prev,
+                          bloomDistribution: prev.bloomDistribution ? null : DEFAULT_BLOOM_DISTRIBUTION
+                        }))}
+                        className={`relative w-12 sm:w-16 h-6 sm:h-8 rounded-full transition-all duration-300 flex-shrink-0 ${
+                          bloomDistribution ? 'bg-purple-500' : 'bg-slate-300'
+                        }`}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <motion.div
+                          className="absolute top-1 sm:top-1 w-4 h-4 sm:w-6 sm:h-6 bg-white rounded-full shadow-lg"
+                          animate={{ x: bloomDistribution ? (window.innerWidth < 640 ? 28 : 36) : 4 }}
+                          transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                        />
+                      </motion.button>
+                    </div>
+                    {bloomDistribution ? (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {BLOOM_LEVELS.map(level => (
+                          <div key={level} className="p-3 sm:p-4 rounded-xl border border-slate-200 bg-white">
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-sm sm:text-base font-semibold text-slate-800">{BLOOM_LEVEL_LABELS[level]}</span>
+                              <span className="text-xs sm:text-sm text-purple-700 font-medium">
+                                {bloomCounts[level] || 0} question{bloomCounts[level] === 1 ? '' : 's'}
+                              </span>
+                            </div>
+                            <p className="text-xs text-slate-500 mb-2">{BLOOM_LEVEL_DESCRIPTIONS[level]}</p>
+                            <input
+                              type="range"
+                              min={0}
+                              max={100}
+                              step={5}
+                              value={bloomDistribution[level] || 0}
+                              onChange={(e) => updateBloomShare(level, parseInt(e.target.value))}
+                              className="w-full accent-purple-600"
+                              aria-label={`${BLOOM_LEVEL_LABELS[level]} share`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs sm:text-sm text-slate-500">Off: the AI mixes levels on its own. Questions are tagged with their level either way.</p>
+                    )}
+                    {bloomDistribution && Object.keys(bloomCounts).length === 0 && (
+                      <p className="mt-3 text-xs sm:text-sm text-orange-700 font-medium">Give at least one level a share</p>
+                    )}
+                  </div>
+                )}
               </CardBody>
             </Card>
           </motion.div>
@@ -973,7 +1128,7 @@ const decrementTime = () => {
       <Target className="w-5 h-5 mr-2 text-purple-600" />
       Quiz Mode
     </h3>
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
       {[
         {
           value: 'practice',
@@ -985,9 +1140,16 @@ const decrementTime = () => {
         {
           value: 'exam',
           label: 'Exam Mode',
-          description: 'See results only at the end',
+          description: 'Timed and marked on the server; see results only at the end',
           icon: Award,
           color: 'from-red-500 to-pink-500'
+        },
+        {
+          value: 'adaptive',
+          label: 'Adaptive Mode',
+          description: 'Questions get harder or easier as you answer, ending with a proficiency level',
+          icon: Activity,
+          color: 'from-blue-500 to-indigo-500'
         }
       ].map((mode) => (
         <motion.button
@@ -995,7 +1157,7 @@ const decrementTime = () => {
           type="button"
           onClick={() => setPreferences(prev => ({ 
             ...prev, 
-            mode: mode.value as 'practice' | 'exam',
+            mode: mode.value as QuizPreferences['mode'],
             answerMode: mode.value === 'practice' ? 'immediate' : 'end'
           }))}
           className={`p-4 rounded-xl border-2 transition-all duration-300 text-left ${
@@ -1016,6 +1178,24 @@ const decrementTime = () => {
         </motion.button>
       ))}
     </div>
+    {preferences.mode === 'adaptive' && preferences.questionTypes.includes('long-answer') && (
+      <p className="text-sm text-amber-700 flex items-center">
+        <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+        Long-answer questions are left out of adaptive quizzes, which are marked without the AI grader.
+      </p>
+    )}
+    {preferences.mode === 'exam' && (
+      <p className="text-sm text-amber-700 flex items-center">
+        <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+        Exams are written on the server so the answers stay hidden: long answers, diagrams, attached images, answer checks and a cognitive level mix cannot be used, and a local Ollama server cannot write them.
+      </p>
+    )}
+    {preferences.mode === 'exam' && (
+      <ExamSectionsEditor
+        preferences={preferences}
+        onChange={(sections) => setPreferences(prev => ({ ...prev, sections: sections && sections.length > 0 ? sections : null }))}
+      />
+    )}
   </motion.div>
 )}
 
@@ -1092,6 +1272,159 @@ const decrementTime = () => {
                       </motion.div>
                     )}
                   </AnimatePresence>
+
+                  {!isCompetitionMode && preferences.mode === 'practice' && (
+                    <div className="max-w-md">
+                      <label className="block text-base sm:text-lg font-semibold text-slate-700 mb-1">
+                        Hint Penalty
+                      </label>
+                      <p className="text-xs sm:text-sm text-slate-600 mb-3 sm:mb-4">
+                        Up to {MAX_HINTS_PER_QUESTION} hints per question in practice mode; each one reduces the marks for a correct answer
+                      </p>
+                      <div className="relative group">
+                        <select
+                          value={preferences.hintPenalty ?? DEFAULT_HINT_PENALTY}
+                          onChange={(e) => setPreferences(prev => ({ ...prev, hintPenalty: parseFloat(e.target.value) }))}
+                          className="w-full py-3 sm:py-4 px-10 sm:px-12 text-base sm:text-lg rounded-xl border-2 border-slate-200 focus:border-amber-500 focus:outline-none transition-all duration-300 group-hover:shadow-lg"
+                        >
+                          <option value={0}>No penalty</option>
+                          <option value={0.1}>-0.1 marks per hint</option>
+                          <option value={0.25}>-0.25 marks per hint</option>
+                          <option value={0.33}>-0.33 marks per hint</option>
+                        </select>
+                        <div className="absolute left-3 sm:left-4 top-1/2 transform -translate-y-1/2 text-amber-500">
+                          <Lightbulb className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {!isCompetitionMode && (
+                    <div>
+                      <label className="block text-base sm:text-lg font-semibold text-slate-700 mb-1">
+                        Partial Credit
+                      </label>
+                      <p className="text-xs sm:text-sm text-slate-600 mb-3 sm:mb-4">
+                        How answers that are partly right are scored; each question is worth at most one mark
+                      </p>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                          <span className="block text-sm font-medium text-slate-600 mb-1">Multi-select</span>
+                          <select
+                            value={scoring.multiSelect}
+                            onChange={(e) => updateScoring({ multiSelect: e.target.value as ScoringScheme['multiSelect'] })}
+                            className="w-full py-3 px-4 text-sm sm:text-base rounded-xl border-2 border-slate-200 focus:border-red-500 focus:outline-none"
+                          >
+                            <option value="proportional">Share per correct pick, minus wrong picks</option>
+                            <option value="all-or-nothing">All or nothing</option>
+                          </select>
+                        </div>
+                        <div>
+                          <span className="block text-sm font-medium text-slate-600 mb-1">Sequence</span>
+                          <select
+                            value={scoring.sequence}
+                            onChange={(e) => updateScoring({ sequence: e.target.value as ScoringScheme['sequence'] })}
+                            className="w-full py-3 px-4 text-sm sm:text-base rounded-xl border-2 border-slate-200 focus:border-red-500 focus:outline-none"
+                          >
+                            <option value="kendall-tau">Pairs in the right order</option>
+                            <option value="position">Steps in the right place</option>
+                            <option value="all-or-nothing">All or nothing</option>
+                          </select>
+                        </div>
+                        <div>
+                          <span className="block text-sm font-medium text-slate-600 mb-1">Short answer & fill-blank</span>
+                          <select
+                            value={scoring.textAnswer}
+                            onChange={(e) => updateScoring({ textAnswer: e.target.value as ScoringScheme['textAnswer'] })}
+                            className="w-full py-3 px-4 text-sm sm:text-base rounded-xl border-2 border-slate-200 focus:border-red-500 focus:outline-none"
+                          >
+                            <option value="threshold">AI score above a threshold</option>
+                            <option value="all-or-nothing">All or nothing</option>
+                          </select>
+                        </div>
+                        {scoring.textAnswer === 'threshold' && (
+                          <div>
+                            <span className="block text-sm font-medium text-slate-600 mb-1">Minimum score for credit</span>
+                            <select
+                              value={scoring.textThreshold}
+                              onChange={(e) => updateScoring({ textThreshold: parseInt(e.target.value) })}
+                              className="w-full py-3 px-4 text-sm sm:text-base rounded-xl border-2 border-slate-200 focus:border-red-500 focus:outline-none"
+                            >
+                              <option value={25}>25%</option>
+                              <option value={50}>50%</option>
+                              <option value={75}>75%</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {!isCompetitionMode && (
+                    <div className="flex items-center justify-between p-4 sm:p-6 bg-gradient-to-r from-emerald-50 to-teal-50 rounded-xl sm:rounded-2xl border border-emerald-200 shadow-sm">
+                      <div className="flex items-center space-x-3 sm:space-x-4">
+                        <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-lg sm:rounded-xl flex items-center justify-center shadow-md">
+                          <ShieldCheck className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                        </div>
+                        <div>
+                          <h4 className="text-base sm:text-lg font-bold text-slate-800">Verify Answer Keys</h4>
+                          <p className="text-xs sm:text-sm text-slate-600">A second AI pass re-solves every question; slower but catches wrong keys</p>
+                        </div>
+                      </div>
+                      <motion.button
+                        type="button"
+                        onClick={() => setPreferences(prev => ({ ...prev, verifyQuestions: !prev.verifyQuestions }))}
+                        className={`relative w-12 sm:w-16 h-6 sm:h-8 rounded-full transition-all duration-300 flex-shrink-0 ${
+                          preferences.verifyQuestions ? 'bg-emerald-500' : 'bg-slate-300'
+                        }`}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <motion.div
+                          className="absolute top-1 sm:top-1 w-4 h-4 sm:w-6 sm:h-6 bg-white rounded-full shadow-lg"
+                          animate={{ x: preferences.verifyQuestions ? (window.innerWidth < 640 ? 28 : 36) : 4 }}
+                          transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                        />
+                      </motion.button>
+                    </div>
+                  )}
+
+                  {!isCompetitionMode && (
+                    <div className="p-4 sm:p-6 bg-gradient-to-r from-sky-50 to-cyan-50 rounded-xl sm:rounded-2xl border border-sky-200 shadow-sm space-y-4 sm:space-y-6">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 sm:space-x-4">
+                          <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-r from-sky-500 to-cyan-500 rounded-lg sm:rounded-xl flex items-center justify-center shadow-md">
+                            <ImageIcon className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
+                          </div>
+                          <div>
+                            <h4 className="text-base sm:text-lg font-bold text-slate-800">Diagrams & Charts</h4>
+                            <p className="text-xs sm:text-sm text-slate-600">Add generated diagrams and charts to questions where a visual helps</p>
+                          </div>
+                        </div>
+                        <motion.button
+                          type="button"
+                          onClick={() => setPreferences(prev => ({ ...prev, includeDiagrams: !prev.includeDiagrams }))}
+                          className={`relative w-12 sm:w-16 h-6 sm:h-8 rounded-full transition-all duration-300 flex-shrink-0 ${
+                            preferences.includeDiagrams ? 'bg-sky-500' : 'bg-slate-300'
+                          }`}
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <motion.div
+                            className="absolute top-1 sm:top-1 w-4 h-4 sm:w-6 sm:h-6 bg-white rounded-full shadow-lg"
+                            animate={{ x: preferences.includeDiagrams ? (window.innerWidth < 640 ? 28 : 36) : 4 }}
+                            transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                          />
+                        </motion.button>
+                      </div>
+
+                      <QuizImageInput
+                        userId={userId}
+                        images={preferences.images || []}
+                        onChange={(images) => setPreferences(prev => ({ ...prev, images }))}
+                      />
+                    </div>
+                  )}
                 </div>
               </CardBody>
             </Card>
@@ -1122,7 +1455,7 @@ const decrementTime = () => {
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Button
                 type="submit"
-                disabled={isLoading || isCreatingCompetition || preferences.questionTypes.length === 0 || !preferences.course}
+                disabled={isLoading || isCreatingCompetition || preferences.questionTypes.length === 0 || (!preferences.course && !usesMaterial)}
                 className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-4 sm:py-6 px-8 sm:px-12 text-lg sm:text-xl rounded-xl sm:rounded-2xl shadow-xl sm:shadow-2xl disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 relative overflow-hidden group"
               >
                 <div className="absolute inset-0 bg-gradient-to-r from-white/0 via-white/20 to-white/0 transform -skew-x-12 -translate-x-full group-hover:translate-x-full transition-transform duration-1000" />
@@ -12,8 +12,15 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { speechService } from '../../services/speech';
-import { getAnswerExplanation, evaluateTextAnswer } from '../../services/gemini'; // Import gemini service for evaluation
+import { getAnswerExplanation, evaluateTextAnswer, MAX_HINTS_PER_QUESTION } from '../../services/gemini'; // Import gemini service for evaluation
+import { providerNeedsGeminiKey } from '../../services/llm';
 import { useQuizStore } from '../../store/useQuizStore'; // Import useQuizStore to get API key
+import QuestionMediaView from './QuestionMediaView';
+import { DEFAULT_SCORING_SCHEME, scoreAnswer, scoreTextEvaluation } from '../../services/scoring';
+import { isSettledMatch, matchTextAnswer } from '../../services/answerMatcher';
+import { formatExplanation } from '../../services/formatExplanation';
+
+const countWords = (text: string): number => text.trim() ? text.trim().split(/\s+/).length : 0;
 
 interface QuizQuestionProps {
   question: Question;
@@ -37,6 +44,16 @@ interface QuizQuestionProps {
   showQuitButton?: boolean;
   displayHeader?: boolean; // Add this line
   showPreviousButton: boolean;
+  // Hints are offered only in practice mode and only when the parent handles requests
+  hints?: string[];
+  onRequestHint?: () => void;
+  isHintLoading?: boolean;
+  hintPenalty?: number;
+  // Sectioned exams: question numbers are within the open section, which has its own clock
+  sections?: { name: string; answered: number; total: number }[];
+  currentSectionIndex?: number;
+  sectionTimeRemaining?: number | null;
+  onFinishSection?: () => void;
 }
 
 const QuizQuestion: React.FC<QuizQuestionProps> = ({
@@ -60,12 +77,25 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
   totalTimeElapsed = 0,
   showQuitButton = true,
   displayHeader = true, // Add this with a default value
+  hints = [],
+  onRequestHint,
+  isHintLoading = false,
+  hintPenalty = 0,
+  sections,
+  currentSectionIndex = 0,
+  sectionTimeRemaining = null,
+  onFinishSection,
 }) => {
-  const { apiKey, preferences } = useQuizStore(); // Get apiKey and preferences from store
+  const { apiKeyFingerprint, aiProviderSettings, preferences } = useQuizStore(); // Get API key status and preferences from store
+  const canUseAi = !!apiKeyFingerprint || !providerNeedsGeminiKey(aiProviderSettings);
   const [questionTimeLeft, setQuestionTimeLeft] = useState<number | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [showHint, setShowHint] = useState(false);
+  const hintsEnabled = mode === 'practice' && !!onRequestHint;
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
+  const [confirmFinishSection, setConfirmFinishSection] = useState(false);
+  const isSectioned = !!sections && sections.length > 0;
+  const isLastInSection = isSectioned && !isLastQuestion && questionNumber === totalQuestions;
   const [isAnswered, setIsAnswered] = useState(false);
   const [selectedAnswer, setSelectedAnswer] = useState(userAnswer);
   const prevQuestionId = useRef<number | null>(null);
@@ -77,6 +107,7 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
   // New states for practice mode feedback
   const [showFeedback, setShowFeedback] = useState(false);
   const [isCorrectAnswer, setIsCorrectAnswer] = useState<boolean | null>(null);
+  const [practiceMarks, setPracticeMarks] = useState(0); // Partial credit for answers that are not fully right
   const [practiceExplanation, setPracticeExplanation] = useState<string | null>(null);
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [isAnswerSubmitted, setIsAnswerSubmitted] = useState(false); // New state for submit button
@@ -98,9 +129,11 @@ useEffect(() => {
   // Reset feedback states for new question
   setShowFeedback(false);
   setIsCorrectAnswer(null);
+  setPracticeMarks(0);
   setPracticeExplanation(null);
   setIsEvaluating(false);
   setIsAnswerSubmitted(false); // Reset submit state for new question
+  setShowHint(false);
 
   return () => {
     isComponentMountedRef.current = false;
@@ -170,57 +203,49 @@ useEffect(() => {
 
     setIsAnswerSubmitted(true);
 
-    if (mode === 'practice' && apiKey && preferences) {
+    if (mode === 'practice' && canUseAi && preferences) {
       setIsEvaluating(true);
-      let correct = false;
+      const scoring = preferences.scoring || DEFAULT_SCORING_SCHEME;
+      let score = scoreAnswer(question, selectedAnswer, scoring);
       let explanationText = question.explanation || 'No explanation available.';
 
       try {
         switch (question.type) {
-          case 'multiple-choice':
-          case 'true-false':
-          case 'case-study':
-          case 'situation':
-            correct = selectedAnswer && question.correctAnswer && 
-                   selectedAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
-            break;
-          case 'multi-select':
-            if (selectedAnswer && question.correctOptions) {
-              const userOptions = selectedAnswer.split(',').sort();
-              const correctOptions = question.correctOptions.sort();
-              correct = userOptions.length === correctOptions.length &&
-                        userOptions.every((opt, index) => opt === correctOptions[index]);
-            }
-            break;
-          case 'sequence':
-            if (selectedAnswer && question.correctSequence) {
-              try {
-                const userSequence = JSON.parse(selectedAnswer); // Parse the JSON string
-                correct = userSequence.length === question.correctSequence.length &&
-                          userSequence.every((step: string, index: number) => step === question.correctSequence![index]);
-              } catch (e) {
-                console.error("Failed to parse sequence answer:", e);
-                correct = false;
-              }
-            }
-            break;
           case 'short-answer':
-          case 'fill-blank':
+          case 'fill-blank': {
             const evaluation = await evaluateTextAnswer(
-              apiKey,
               question.text,
               selectedAnswer,
               question.correctAnswer || '',
               question.keywords || [],
               language
             );
-            correct = evaluation.isCorrect;
+            // An exact or numeric match of the key stands even if the evaluator is stricter
+            if (!isSettledMatch(matchTextAnswer(selectedAnswer, question.correctAnswer || '', question.keywords))) {
+              score = scoreTextEvaluation(evaluation, scoring);
+            }
             explanationText = evaluation.feedback + '\n\n' + (question.explanation || '');
             break;
-          default:
-            correct = false;
+          }
+          case 'long-answer': {
+            const grading = await evaluateTextAnswer(
+              question.text,
+              selectedAnswer,
+              question.modelAnswer,
+              question.keywords || [],
+              language,
+              { criteria: question.rubric, wordLimit: question.wordLimit }
+            );
+            score = { marks: grading.score / 100, isCorrect: grading.isCorrect };
+            const criteriaLines = (grading.criteria || [])
+              .map(item => `• ${item.criterion}: ${item.marks}/${item.maxMarks}${item.feedback ? ` – ${item.feedback}` : ''}`);
+            explanationText = [`**Marks: ${grading.score / 100} / 1**`, ...criteriaLines, '', grading.feedback, '', question.explanation || '']
+              .join('\n');
+            break;
+          }
         }
-        setIsCorrectAnswer(correct);
+        setIsCorrectAnswer(score?.isCorrect ?? false);
+        setPracticeMarks(score?.marks ?? 0);
         setPracticeExplanation(explanationText);
         setShowFeedback(true);
       } catch (err) {
@@ -233,7 +258,7 @@ useEffect(() => {
       }
     }
   onQuestionSubmit(selectedAnswer); // Trigger submission and advance
-  }, [selectedAnswer, onQuestionSubmit, mode, apiKey, preferences, question, language, isAnswerSubmitted, isEvaluating]);
+  }, [selectedAnswer, onQuestionSubmit, mode, canUseAi, preferences, question, language, isAnswerSubmitted, isEvaluating]);
 
   const handleSpeech = useCallback(() => {
     if (isSpeaking) {
@@ -735,6 +760,48 @@ useEffect(() => {
           </div>
         );
 
+      case 'long-answer': {
+        const wordCount = countWords(selectedAnswer);
+        const isOverLimit = wordCount > question.wordLimit;
+        return (
+          <div className="space-y-4 sm:space-y-6">
+            <div className="bg-green-50 p-3 sm:p-4 rounded-xl border border-green-200">
+              <p className="text-green-800 font-medium text-sm sm:text-base">
+                <Lightbulb className="w-4 h-4 sm:w-5 sm:h-5 inline mr-2" />
+                Write a structured answer in up to {question.wordLimit} words. It is marked against {question.rubric.length} criteria.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <textarea
+                placeholder="Write your answer here..."
+                value={selectedAnswer}
+                onChange={(e) => handleOptionSelect(e.target.value)}
+                rows={10}
+                className={`w-full p-3 sm:p-4 text-sm sm:text-base border-2 rounded-2xl focus:ring-4 focus:ring-purple-200 focus:outline-none transition-all duration-300 bg-white shadow-sm resize-y ${
+                  isOptionDisabled ? 'opacity-70 cursor-not-allowed' : ''
+                } ${
+                  mode === 'practice' && showFeedback
+                    ? (isCorrectAnswer ? 'border-emerald-500' : 'border-red-500')
+                    : 'border-gray-300 focus:border-purple-500'
+                }`}
+                disabled={isOptionDisabled}
+              />
+              <div className="flex items-center justify-between text-xs sm:text-sm">
+                {isEvaluating ? (
+                  <span className="text-blue-600">Marking your answer...</span>
+                ) : (
+                  <span />
+                )}
+                <span className={isOverLimit ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                  {wordCount} / {question.wordLimit} words
+                </span>
+              </div>
+            </div>
+          </div>
+        );
+      }
+
       default:
         return (
           <div className="text-center py-8">
@@ -758,7 +825,9 @@ useEffect(() => {
                 </div>
                 <div className="flex items-center space-x-1 sm:space-x-2"> {/* Adjusted space-x */}
                   <Target className="w-4 h-4 sm:w-5 h-5 text-blue-400" /> {/* Reduced icon size */}
-                  <span className="text-sm sm:text-base text-white">Question {questionNumber}/{totalQuestions}</span> {/* Adjusted font size */}
+                  <span className="text-sm sm:text-base text-white">
+                    {isSectioned && `${sections[currentSectionIndex]?.name} · `}Question {questionNumber}/{totalQuestions}
+                  </span> {/* Adjusted font size */}
                 </div>
               </div>
 
@@ -777,6 +846,19 @@ useEffect(() => {
                   </div>
                 )}
 
+                {/* Section Timer */}
+                {isSectioned && sectionTimeRemaining !== null && (
+                  <div className={`flex items-center space-x-1 px-2 py-1 rounded-lg ${
+                    sectionTimeRemaining <= 60 ? 'bg-red-500 bg-opacity-30' : 'bg-white bg-opacity-20'
+                  }`}>
+                    <Clock className={`w-4 h-4 ${sectionTimeRemaining <= 60 ? 'text-red-300' : 'text-white'}`} />
+                    <span className="text-xs text-white">Section</span>
+                    <span className={`font-mono text-sm font-bold ${sectionTimeRemaining <= 60 ? 'text-red-300' : 'text-white'}`}>
+                      {formatTime(sectionTimeRemaining)}
+                    </span>
+                  </div>
+                )}
+
                 {/* Total Timer */}
                 {timeLimitEnabled && totalTimeLimit && !timeLimit && (
                   <div className={`flex items-center space-x-1 px-2 py-1 rounded-lg ${ /* Adjusted padding and space-x */
@@ -833,6 +915,42 @@ useEffect(() => {
                 <span>{totalQuestions - questionNumber} remaining</span>
               </div>
             </div>
+
+            {/* Sections: finished ones are closed for good, later ones open in turn */}
+            {isSectioned && (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                {sections.map((section, index) => (
+                  <span
+                    key={index}
+                    className={`px-2 py-1 rounded-lg text-xs ${
+                      index === currentSectionIndex
+                        ? 'bg-purple-500 bg-opacity-60 text-white font-semibold'
+                        : index < currentSectionIndex
+                          ? 'bg-white bg-opacity-10 text-gray-400 line-through'
+                          : 'bg-white bg-opacity-20 text-gray-200'
+                    }`}
+                  >
+                    {section.name} · {section.answered}/{section.total}
+                  </span>
+                ))}
+                {onFinishSection && (
+                  <button
+                    onClick={() => {
+                      if (!confirmFinishSection) {
+                        setConfirmFinishSection(true);
+                        return;
+                      }
+                      setConfirmFinishSection(false);
+                      if (selectedAnswer && selectedAnswer !== userAnswer) onAnswer(selectedAnswer);
+                      onFinishSection();
+                    }}
+                    className="ml-auto px-2 py-1 rounded-lg text-xs bg-amber-500 bg-opacity-30 hover:bg-opacity-50 transition-all text-amber-100"
+                  >
+                    {confirmFinishSection ? 'Finish section? You cannot come back to it' : 'Finish Section'}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -863,7 +981,12 @@ useEffect(() => {
                   <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs sm:text-sm font-medium rounded-full">
                     {question.type.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                   </span>
-                  <span className="px-3 py-1 bg-blue-100 text-blue-700 text-xs sm:text-sm font-medium rounded-full capitalize">
+                  <span
+                    className="px-3 py-1 bg-blue-100 text-blue-700 text-xs sm:text-sm font-medium rounded-full capitalize"
+                    title={question.calibration
+                      ? `Measured from ${question.calibration.responses} answers (${Math.round(question.calibration.pCorrect * 100)}% correct)`
+                      : undefined}
+                  >
                     {question.difficulty || 'Medium'}
                   </span>
                   {isAnswered && (mode === 'exam' || (mode === 'practice' && isAnswerSubmitted && !isEvaluating && isCorrectAnswer !== null)) && (
@@ -896,6 +1019,13 @@ useEffect(() => {
                 </div>
               </div>
  
+              {/* Question Media */}
+              {question.media && (
+                <div className="mb-6 sm:mb-8 px-4">
+                  <QuestionMediaView media={question.media} />
+                </div>
+              )}
+
               {/* Question Content */}
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -906,6 +1036,62 @@ useEffect(() => {
                 {renderQuestionContent()}
               </motion.div>
 
+              {/* Progressive Hints */}
+              {hintsEnabled && (!isAnswerSubmitted || hints.length > 0) && (
+                <div className="mb-6 px-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    {!isAnswerSubmitted && hints.length < MAX_HINTS_PER_QUESTION && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                          setShowHint(true);
+                          onRequestHint?.();
+                        }}
+                        disabled={isHintLoading}
+                        className="border-amber-300 text-amber-700 hover:bg-amber-50 text-sm"
+                      >
+                        <Lightbulb className="w-4 h-4 mr-2" />
+                        {isHintLoading
+                          ? 'Getting hint...'
+                          : hints.length === 0 ? 'Get a Hint' : `Stronger Hint (${hints.length + 1}/${MAX_HINTS_PER_QUESTION})`}
+                      </Button>
+                    )}
+                    {hints.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setShowHint(!showHint)}
+                        className="text-sm text-amber-700 hover:underline"
+                      >
+                        {showHint ? 'Hide hints' : `Show hints (${hints.length})`}
+                      </button>
+                    )}
+                    {hintPenalty > 0 && !isAnswerSubmitted && (
+                      <span className="text-xs text-gray-500">
+                        Each hint costs {hintPenalty} marks if you answer correctly
+                      </span>
+                    )}
+                  </div>
+
+                  <AnimatePresence>
+                    {showHint && hints.length > 0 && (
+                      <motion.ol
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="mt-3 space-y-2 overflow-hidden"
+                      >
+                        {hints.map((hint, index) => (
+                          <li key={index} className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-sm sm:text-base text-amber-900">
+                            <span className="font-semibold">Hint {index + 1}:</span> {hint}
+                          </li>
+                        ))}
+                      </motion.ol>
+                    )}
+                  </AnimatePresence>
+                </div>
+              )}
+
               {/* Submit Answer Button for Practice Mode */}
               {mode === 'practice' && !isAnswerSubmitted && selectedAnswer && (
                 <motion.div
@@ -948,11 +1134,13 @@ useEffect(() => {
                         ) : (
                           <XCircle className="w-5 h-5 sm:w-6 sm:h-6 mr-2 text-red-600" />
                         )}
-                        {isCorrectAnswer ? 'Correct Answer!' : 'Incorrect Answer!'}
+                        {isCorrectAnswer ? 'Correct Answer!' :
+                         practiceMarks > 0 ? `Partially Correct (${practiceMarks} marks)` :
+                         'Incorrect Answer!'}
                       </h5>
                       <div 
                         className="prose prose-purple max-w-none text-gray-700 leading-relaxed text-sm sm:text-base"
-                        dangerouslySetInnerHTML={{ __html: practiceExplanation }}
+                        dangerouslySetInnerHTML={{ __html: formatExplanation(practiceExplanation) }}
                       />
                     </div>
                   </motion.div>
@@ -1005,7 +1193,7 @@ useEffect(() => {
                       }`}
                     >
                       <div className="flex items-center space-x-2">
-                        <span>{isLastQuestion ? 'Finish Quiz' : 'Next Question'}</span>
+                        <span>{isLastQuestion ? 'Finish Quiz' : isLastInSection ? 'Next Section' : 'Next Question'}</span>
                         {isLastQuestion ? (
                           <Flag className="w-4 h-4 sm:w-5 h-5" />
                         ) : (
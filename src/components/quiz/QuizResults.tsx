@@ -1,24 +1,40 @@
 // src/components/quiz/QuizResults.tsx
 import React, { useState } from 'react';
-import { QuizResult, QuizPreferences } from '../../types';
+import { Question, QuizResult, QuizPreferences } from '../../types';
 import { Button } from '../ui/Button';
 import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
 import {
   CheckCircle, HelpCircle, RefreshCw, XCircle, Trophy, Target,
   Clock, Brain, TrendingUp, Award, Star, Zap, BookOpen,
   ChevronDown, ChevronUp, BarChart3, PieChart, Activity,
-  Lightbulb, ThumbsUp, AlertTriangle, Sparkles, Share2, Copy, User, Calendar
+  Lightbulb, ThumbsUp, AlertTriangle, Sparkles, Share2, Copy, User, Calendar, FileText,
+  ShieldCheck, ShieldAlert, MessageCircle, Layers
 } from 'lucide-react';
 import { useQuizStore } from '../../store/useQuizStore'; // Keep for explanation logic
 import { useAuthStore } from '../../store/useAuthStore'; // Import useAuthStore
 import { motion, AnimatePresence } from 'framer-motion';
+import QuestionMediaView from './QuestionMediaView';
+import QuestionFollowUpChat from './QuestionFollowUpChat';
+import GenerationReportNotice from './GenerationReportNotice';
+import { QuestionValidationIssue } from '../../services/gemini';
+import { BLOOM_LEVEL_LABELS, performanceByBloomLevel } from '../../services/bloom';
+import { PROFICIENCY_LABELS } from '../../services/adaptive';
+import { formatExplanation } from '../../services/formatExplanation';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
   LineChart, Line, PieChart as RechartsPieChart, Cell, Area, AreaChart, Pie,
 } from 'recharts';
 
+// Badges for the optional answer-key verification pass
+const verificationBadges = {
+  verified: { label: 'Key verified', className: 'bg-emerald-100 text-emerald-700' },
+  regenerated: { label: 'Replaced & verified', className: 'bg-blue-100 text-blue-700' },
+  flagged: { label: 'Key disputed', className: 'bg-amber-100 text-amber-700' },
+};
+
 interface QuizResultsProps {
   result: QuizResult;
+  generationReport?: QuestionValidationIssue[]; // Checks the quiz's questions failed when it was generated
   // preferences: QuizPreferences; // Now part of result
   onNewQuiz?: () => void; // Optional for solo quiz flow
   onChangePreferences?: () => void; // Optional for solo quiz flow
@@ -28,6 +44,7 @@ interface QuizResultsProps {
 
 const QuizResults: React.FC<QuizResultsProps> = ({
   result,
+  generationReport = [],
   onNewQuiz,
   onChangePreferences,
   onClose,
@@ -35,8 +52,10 @@ const QuizResults: React.FC<QuizResultsProps> = ({
 }) => {
   const { user } = useAuthStore(); // Get user from auth store
   const [selectedQuestionId, setSelectedQuestionId] = useState<number | null>(null);
+  const [chatQuestionId, setChatQuestionId] = useState<number | null>(null);
   const [showDetailedAnalysis, setShowDetailedAnalysis] = useState(false);
   const [showQuestionTypePerformance, setShowQuestionTypePerformance] = useState(false);
+  const [showBloomLevelPerformance, setShowBloomLevelPerformance] = useState(false);
   const [showAnswerDistribution, setShowAnswerDistribution] = useState(false);
   const [showScoreProgression, setShowScoreProgression] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
@@ -45,13 +64,13 @@ const QuizResults: React.FC<QuizResultsProps> = ({
 
   const { getExplanation, explanation, isLoading, resetExplanation, soloQuizHistory } = useQuizStore(); // Use store for explanation
 
-  const handleGetExplanation = async (questionId: number) => {
-    if (selectedQuestionId === questionId) {
+  const handleGetExplanation = async (question: Question) => {
+    if (selectedQuestionId === question.id) {
       setSelectedQuestionId(null);
       resetExplanation();
     } else {
-      setSelectedQuestionId(questionId);
-      await getExplanation(questionId);
+      setSelectedQuestionId(question.id);
+      await getExplanation(question);
     }
   };
 
@@ -63,11 +82,13 @@ const QuizResults: React.FC<QuizResultsProps> = ({
     const skippedAnswers = (result.questions || []).filter(q => !q.userAnswer || q.userAnswer.trim() === '').length;
     const answeredQuestions = totalQuestions - skippedAnswers;
 
-    // Calculate final score considering negative marking
-    let finalScore = correctAnswers;
+    // Calculate final score considering negative marking; rawScore includes part marks from rubric grading
+    const earnedMarks = result.rawScore ?? correctAnswers;
+    let finalScore = earnedMarks;
     if (result?.negativeMarking && result?.negativeMarks) {
-      finalScore = correctAnswers + (incorrectAnswers * result.negativeMarks);
+      finalScore = earnedMarks + (incorrectAnswers * result.negativeMarks);
     }
+    finalScore -= result.hintPenaltyDeducted || 0;
 
     const finalPercentage = totalQuestions > 0 ? Math.max(0, (finalScore / totalQuestions) * 100) : 0;
 
@@ -157,11 +178,21 @@ const QuizResults: React.FC<QuizResultsProps> = ({
     return {
       name: type.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase()),
       accuracy: perf.total > 0 ? (perf.correct / perf.total) * 100 : 0,
+      score: perf.total > 0 ? ((perf.marks ?? perf.correct) / perf.total) * 100 : 0, // Includes partial credit
       correct: perf.correct,
       total: perf.total,
     };
   });
 
+  // Only quizzes generated with level tags have this breakdown
+  const bloomLevelPerformanceData = performanceByBloomLevel(result.questions).map(perf => ({
+    name: BLOOM_LEVEL_LABELS[perf.level],
+    accuracy: (perf.correct / perf.total) * 100,
+    score: (perf.marks / perf.total) * 100,
+    correct: perf.correct,
+    total: perf.total,
+  }));
+
   const answerDistributionData = [
     { name: 'Correct', value: stats.correctAnswers, color: '#10B981' },
     { name: 'Incorrect', value: stats.incorrectAnswers, color: '#EF4444' },
@@ -183,19 +214,6 @@ const QuizResults: React.FC<QuizResultsProps> = ({
   }
 
 
-  // Format explanation text
-  const formatExplanation = (text: string) => {
-    if (!text) return text;
-
-    return text
-      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*([^*]+)\*/g, '<em>$1</em>')
-      .replace(/`([^`]+)`/g, '<code class="bg-purple-100 text-purple-800 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
-      .replace(/\n/g, '<br>')
-      .replace(/^\d+\.\s/gm, '<span class="font-semibold text-purple-600">$&</span>')
-      .replace(/^[-•]\s/gm, '<span class="text-purple-600">• </span>');
-  };
-
   const handleShareResult = () => {
     // Construct the shareable URL using the new route and hardcoded domain
     const shareUrl = `https://aistudyaids.com/shared-quiz-result/${result.id}`;
@@ -281,10 +299,21 @@ const QuizResults: React.FC<QuizResultsProps> = ({
             </div>
             <h2 className="text-2xl sm:text-4xl font-bold text-gray-800 mb-2">Quiz Complete!</h2>
             <p className={`text-lg sm:text-2xl font-bold ${performance.color}`}>{performance.level}</p>
+            {result?.examSessionId && (
+              <span
+                className="mt-3 inline-flex items-center px-3 py-1 rounded-full text-xs sm:text-sm font-medium bg-emerald-100 text-emerald-800"
+                title="Answers were timed and marked on the server, so this score cannot have been edited"
+              >
+                <ShieldCheck className="w-4 h-4 mr-1" />
+                Server-verified exam
+              </span>
+            )}
           </motion.div>
         </CardHeader>
 
         <CardBody className="py-4 sm:py-8 px-4 sm:px-6">
+          <GenerationReportNotice issues={generationReport} />
+
           {/* User and Quiz Details - Three Panels */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 mb-6 sm:mb-8">
             {/* Panel 1: User & Quiz Info */}
@@ -354,6 +383,33 @@ const QuizResults: React.FC<QuizResultsProps> = ({
               {/* Removed the Sparkles icon as requested */}
             </motion.div>
 
+            {/* Adaptive quizzes ask different questions to different students, so the ability estimate is the headline */}
+            {result?.proficiency && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.55 }}
+                className="mt-4 sm:mt-6 p-4 sm:p-6 rounded-2xl border-2 border-blue-200 bg-blue-50 shadow-lg"
+              >
+                <div className="flex items-center justify-center mb-2">
+                  <Activity className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600 mr-2" />
+                  <h3 className="text-lg sm:text-xl font-bold text-blue-800">Estimated Proficiency</h3>
+                </div>
+                <div className="text-2xl sm:text-4xl font-bold text-blue-700 mb-2">
+                  {PROFICIENCY_LABELS[result.proficiency.level]}
+                </div>
+                <p className="text-xs sm:text-sm text-gray-600">
+                  Ability {result.proficiency.ability.toFixed(2)} ± {result.proficiency.standardError.toFixed(2)} (0 is an average student)
+                  {' · '}{result.proficiency.questionsAsked} question{result.proficiency.questionsAsked === 1 ? '' : 's'} asked
+                </p>
+                {!result.proficiency.stable && (
+                  <p className="text-xs sm:text-sm text-amber-700 mt-1">
+                    The quiz ended before the estimate settled, so treat this level as a rough guide.
+                  </p>
+                )}
+              </motion.div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6 mt-6 sm:mt-8">
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -437,6 +493,12 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                     * Negative marking applied: {result.negativeMarks} per wrong answer
                   </p>
                 )}
+                {!!result?.hintsUsed && (
+                  <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                    * {result.hintsUsed} hint{result.hintsUsed === 1 ? '' : 's'} used
+                    {result.hintPenaltyDeducted ? ` (-${Number(result.hintPenaltyDeducted.toFixed(2))} marks)` : ''}
+                  </p>
+                )}
               </div>
             </motion.div>
           </div>
@@ -568,6 +630,7 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                                 <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
                                 <Legend />
                                 <Bar dataKey="accuracy" fill="#8884d8" name="Accuracy (%)" />
+                                <Bar dataKey="score" fill="#10B981" name="Score incl. partial credit (%)" />
                               </BarChart>
                             </ResponsiveContainer>
                           </motion.div>
@@ -575,6 +638,105 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                       </AnimatePresence>
                     </div>
 
+                    {/* Cognitive Level Performance Chart */}
+                    {bloomLevelPerformanceData.length > 0 && (
+                      <div className="lg:col-span-2 bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-200">
+                        <div className="flex items-center justify-between mb-4 gap-2">
+                          <h4 className="text-base sm:text-lg font-semibold text-gray-800 flex items-center">
+                            <Brain className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-purple-600" />
+                            Performance by Cognitive Level
+                          </h4>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowBloomLevelPerformance(!showBloomLevelPerformance)}
+                            className="text-purple-600 hover:text-purple-700 hover:bg-purple-50 text-sm"
+                          >
+                            {showBloomLevelPerformance ? (
+                              <>
+                                <ChevronUp className="w-4 h-4 mr-2" />
+                                Hide Chart
+                              </>
+                            ) : (
+                              <>
+                                <ChevronDown className="w-4 h-4 mr-2" />
+                                Show Chart
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                        <AnimatePresence>
+                          {showBloomLevelPerformance && (
+                            <motion.div
+                              initial={{ opacity: 0, height: 0 }}
+                              animate={{ opacity: 1, height: 'auto' }}
+                              exit={{ opacity: 0, height: 0 }}
+                              transition={{ duration: 0.3 }}
+                              className="mt-4 overflow-hidden"
+                            >
+                              <ResponsiveContainer width="100%" height={250}>
+                                <BarChart data={bloomLevelPerformanceData}>
+                                  <CartesianGrid strokeDasharray="3 3" />
+                                  <XAxis dataKey="name" />
+                                  <YAxis domain={[0, 100]} />
+                                  <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                                  <Legend />
+                                  <Bar dataKey="accuracy" fill="#8B5CF6" name="Accuracy (%)" />
+                                  <Bar dataKey="score" fill="#10B981" name="Score incl. partial credit (%)" />
+                                </BarChart>
+                              </ResponsiveContainer>
+                              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-4">
+                                {bloomLevelPerformanceData.map(level => (
+                                  <div key={level.name} className="text-xs sm:text-sm text-gray-600 bg-purple-50 rounded-lg px-3 py-2">
+                                    <span className="font-semibold text-purple-700">{level.name}:</span> {level.correct}/{level.total} correct
+                                  </div>
+                                ))}
+                              </div>
+                            </motion.div>
+                          )}
+                        </AnimatePresence>
+                      </div>
+                    )}
+
+                    {/* Section breakdown, marked by the server for sectioned exams */}
+                    {result.sectionPerformance && result.sectionPerformance.length > 0 && (
+                      <div className="lg:col-span-2 bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-200">
+                        <h4 className="text-base sm:text-lg font-semibold text-gray-800 flex items-center mb-4">
+                          <Layers className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-indigo-600" />
+                          Performance by Section
+                        </h4>
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm text-left">
+                            <thead>
+                              <tr className="text-gray-500 border-b border-gray-200">
+                                <th className="py-2 pr-4 font-medium">Section</th>
+                                <th className="py-2 pr-4 font-medium">Correct</th>
+                                <th className="py-2 pr-4 font-medium">Attempted</th>
+                                <th className="py-2 pr-4 font-medium">Marks</th>
+                                <th className="py-2 pr-4 font-medium">Negative</th>
+                                <th className="py-2 font-medium">Time</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {result.sectionPerformance.map(section => (
+                                <tr key={section.sectionId} className="border-b border-gray-100 text-gray-700">
+                                  <td className="py-2 pr-4 font-semibold text-indigo-700">{section.name}</td>
+                                  <td className="py-2 pr-4">{section.correct}/{section.totalQuestions}</td>
+                                  <td className="py-2 pr-4">{section.attempted}</td>
+                                  <td className="py-2 pr-4">{section.marks}</td>
+                                  <td className="py-2 pr-4">{section.negativeMarksDeducted > 0 ? `-${section.negativeMarksDeducted}` : '—'}</td>
+                                  <td className="py-2">
+                                    {Math.floor(section.timeTaken / 60)}m {section.timeTaken % 60}s
+                                    {section.timeLimit ? ` of ${Math.round(section.timeLimit / 60)}m` : ''}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Answer Distribution Chart */}
                     <div className="lg:col-span-2 bg-white p-4 sm:p-6 rounded-2xl shadow-lg border border-gray-200">
                       <div className="flex items-center justify-between mb-4 gap-2">
@@ -789,6 +951,8 @@ const QuizResults: React.FC<QuizResultsProps> = ({
             // Use the pre-calculated isCorrect from the question object
             const isCorrect = question.isCorrect || false;
             const isSkipped = !question.userAnswer || question.userAnswer.trim() === '';
+            const netMarks = Number(((question.marksAwarded ?? (isCorrect ? 1 : 0)) - (question.hintPenalty || 0)).toFixed(2));
+            const isPartial = !isCorrect && !isSkipped && (question.marksAwarded || 0) > 0;
 
             return (
               <motion.div
@@ -799,6 +963,7 @@ const QuizResults: React.FC<QuizResultsProps> = ({
               >
                 <Card className={`w-full transition-all duration-300 hover:shadow-xl border-2 ${
                   isCorrect ? 'border-emerald-200 bg-emerald-50' :
+                  isPartial ? 'border-amber-200 bg-amber-50' :
                   isSkipped ? 'border-gray-200 bg-gray-50' :
                   'border-red-200 bg-red-50'
                 }`}>
@@ -809,6 +974,7 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                           whileHover={{ scale: 1.1 }}
                           className={`w-10 h-10 sm:w-12 sm:h-12 rounded-full flex items-center justify-center mr-3 sm:mr-4 flex-shrink-0 ${
                             isCorrect ? 'bg-emerald-500' :
+                            isPartial ? 'bg-amber-500' :
                             isSkipped ? 'bg-gray-400' :
                             'bg-red-500'
                           }`}
@@ -828,30 +994,76 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                             </span>
                             <span className={`px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium ${
                               isCorrect ? 'bg-emerald-100 text-emerald-700' :
+                              isPartial ? 'bg-amber-100 text-amber-700' :
                               isSkipped ? 'bg-gray-100 text-gray-700' :
                               'bg-red-100 text-red-700'
                             }`}>
-                              {isCorrect ? 'Correct (+1 mark)' :
+                              {question.rubricGrades && !isSkipped ? `${netMarks} / 1 marks` :
+                               isCorrect ? `Correct (+${netMarks} mark)` :
+                               isPartial ? `Partially correct (+${netMarks} marks)` :
                                isSkipped ? 'Skipped (0 marks)' :
                                result?.negativeMarking ?
                                  `Incorrect (${result.negativeMarks} marks)` :
                                  'Incorrect (0 marks)'
                               }
                             </span>
+                            {!!question.hintsUsed && (
+                              <span className="flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                                <Lightbulb className="w-3 h-3 mr-1" />
+                                {question.hintsUsed} hint{question.hintsUsed === 1 ? '' : 's'}
+                              </span>
+                            )}
+                            {question.verification && question.verification.status !== 'unverified' && (
+                              <span
+                                title={question.verification.note}
+                                className={`flex items-center px-2 py-1 rounded-full text-xs font-medium ${verificationBadges[question.verification.status].className}`}
+                              >
+                                {question.verification.status === 'flagged' ? (
+                                  <ShieldAlert className="w-3 h-3 mr-1" />
+                                ) : (
+                                  <ShieldCheck className="w-3 h-3 mr-1" />
+                                )}
+                                {verificationBadges[question.verification.status].label}
+                              </span>
+                            )}
+                            {question.bloomLevel && BLOOM_LEVEL_LABELS[question.bloomLevel] && (
+                              <span
+                                title={question.skill ? `Skill: ${question.skill}` : undefined}
+                                className="flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700"
+                              >
+                                <Brain className="w-3 h-3 mr-1" />
+                                {BLOOM_LEVEL_LABELS[question.bloomLevel]}{question.skill ? ` · ${question.skill}` : ''}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
-                      <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} className="flex-shrink-0">
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          onClick={() => handleGetExplanation(question.id)}
-                          className="hover:bg-purple-100 text-purple-600 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2"
-                        >
-                          <HelpCircle className="w-4 h-4 mr-1 sm:mr-2" />
-                          {selectedQuestionId === question.id ? 'Hide' : 'Explain'}
-                        </Button>
-                      </motion.div>
+                      <div className="flex flex-col sm:flex-row gap-1 flex-shrink-0">
+                        <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => handleGetExplanation(question)}
+                            className="hover:bg-purple-100 text-purple-600 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2"
+                          >
+                            <HelpCircle className="w-4 h-4 mr-1 sm:mr-2" />
+                            {selectedQuestionId === question.id ? 'Hide' : 'Explain'}
+                          </Button>
+                        </motion.div>
+                        {!isSharedPage && user && (
+                          <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              onClick={() => setChatQuestionId(chatQuestionId === question.id ? null : question.id)}
+                              className="hover:bg-indigo-100 text-indigo-600 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2"
+                            >
+                              <MessageCircle className="w-4 h-4 mr-1 sm:mr-2" />
+                              {chatQuestionId === question.id ? 'Close chat' : 'Ask about this'}
+                            </Button>
+                          </motion.div>
+                        )}
+                      </div>
                     </div>
 
                     {/* Question Text and Answers */}
@@ -859,13 +1071,14 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                       <h4 className="text-sm sm:text-lg font-medium text-gray-800 leading-relaxed break-words">
                         {question.text}
                       </h4>
+                      {question.media && <QuestionMediaView media={question.media} compact />}
                       {question.userAnswer && (
                         <div className="bg-white p-3 sm:p-4 rounded-xl border border-gray-200 shadow-sm">
                           <div className="flex items-center mb-2">
                             <span className="text-xs sm:text-sm font-medium text-gray-600">Your answer:</span>
                           </div>
-                          <span className={`text-sm sm:text-lg font-medium break-words ${
-                            isCorrect ? 'text-emerald-600' : 'text-red-600'
+                          <span className={`text-sm sm:text-lg font-medium break-words whitespace-pre-wrap ${
+                            isCorrect ? 'text-emerald-600' : isPartial ? 'text-amber-600' : 'text-red-600'
                           }`}>
                             {question.userAnswer}
                           </span>
@@ -878,17 +1091,52 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                         </div>
                       )}
 
+                      {question.type === 'long-answer' && question.rubricGrades && (
+                        <div className="bg-white p-3 sm:p-4 rounded-xl border border-gray-200 shadow-sm space-y-3">
+                          <span className="text-xs sm:text-sm font-medium text-gray-600">Marking:</span>
+                          <ul className="space-y-2">
+                            {question.rubricGrades.map(grade => (
+                              <li key={grade.criterion} className="text-sm sm:text-base">
+                                <div className="flex items-start justify-between gap-3">
+                                  <span className="text-gray-800 break-words">{grade.criterion}</span>
+                                  <span className="font-semibold text-purple-700 flex-shrink-0">{grade.marks} / {grade.maxMarks}</span>
+                                </div>
+                                {grade.feedback && <p className="text-xs sm:text-sm text-gray-500 mt-1">{grade.feedback}</p>}
+                              </li>
+                            ))}
+                          </ul>
+                          {question.gradingFeedback && (
+                            <p className="text-sm sm:text-base text-gray-700 border-t border-gray-100 pt-3 break-words">{question.gradingFeedback}</p>
+                          )}
+                        </div>
+                      )}
+
                       <div className="bg-white p-3 sm:p-4 rounded-xl border border-gray-200 shadow-sm">
                         <div className="flex items-center mb-2">
-                          <span className="text-xs sm:text-sm font-medium text-gray-600">Correct answer:</span>
+                          <span className="text-xs sm:text-sm font-medium text-gray-600">
+                            {question.type === 'long-answer' ? 'Model answer:' : 'Correct answer:'}
+                          </span>
                           </div>
                         <span className="text-sm sm:text-lg font-medium text-emerald-600 break-words">
-                           {question.correctAnswer ||
+                           {(question.type === 'long-answer' && question.modelAnswer) ||
+                           question.correctAnswer ||
                            (question.correctOptions ? question.correctOptions.join(', ') : '') ||
                            (question.correctSequence ? question.correctSequence.join(' → ') : '') ||
                            'N/A'}
                         </span>
                       </div>
+
+                      {question.sourcePassage && (
+                        <div className="bg-blue-50 p-3 sm:p-4 rounded-xl border border-blue-200 shadow-sm">
+                          <div className="flex items-center mb-2">
+                            <FileText className="w-4 h-4 mr-2 text-blue-600" />
+                            <span className="text-xs sm:text-sm font-medium text-blue-700">From your material:</span>
+                          </div>
+                          <blockquote className="border-l-4 border-blue-300 pl-3 text-sm sm:text-base text-gray-700 italic break-words">
+                            {question.sourcePassage}
+                          </blockquote>
+                        </div>
+                      )}
                     </div>
 
                     <AnimatePresence>
@@ -907,10 +1155,22 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                             </div>
                           ) : (
                             <div className="bg-gradient-to-r from-purple-50 to-indigo-50 p-4 sm:p-6 rounded-2xl border border-purple-200 shadow-lg">
-                              <h5 className="font-bold text-purple-800 mb-4 flex items-center text-base sm:text-lg">
-                                <Lightbulb className="w-5 h-5 sm:w-6 sm:h-6 mr-2" />
-                                Detailed Explanation
-                              </h5>
+                              <div className="flex items-center justify-between mb-4 gap-2">
+                                <h5 className="font-bold text-purple-800 flex items-center text-base sm:text-lg">
+                                  <Lightbulb className="w-5 h-5 sm:w-6 sm:h-6 mr-2" />
+                                  Detailed Explanation
+                                </h5>
+                                {/* Explanations are cached per question, so this is the way to ask for a fresh one */}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => getExplanation(question, { regenerate: true })}
+                                  className="text-purple-700 hover:bg-purple-100 text-xs sm:text-sm flex-shrink-0"
+                                >
+                                  <RefreshCw className="w-4 h-4 mr-1" />
+                                  Regenerate
+                                </Button>
+                              </div>
                               <div
                                 className="prose prose-purple max-w-none text-gray-700 leading-relaxed text-sm sm:text-base"
                                 dangerouslySetInnerHTML={{ __html: formatExplanation(explanation || question.explanation || 'No explanation available.') }}
@@ -920,6 +1180,19 @@ const QuizResults: React.FC<QuizResultsProps> = ({
                         </motion.div>
                       )}
                     </AnimatePresence>
+
+                    {/* Follow-up threads are private to the quiz taker, so never on shared pages */}
+                    {!isSharedPage && user && chatQuestionId === question.id && (
+                      <div className="mt-4 sm:mt-6">
+                        <QuestionFollowUpChat
+                          question={question}
+                          userId={user.id}
+                          quizResultId={result.id || undefined}
+                          language={result.language || 'English'}
+                          explanation={selectedQuestionId === question.id && explanation ? explanation : question.explanation}
+                        />
+                      </div>
+                    )}
                   </CardBody>
                 </Card>
               </motion.div>
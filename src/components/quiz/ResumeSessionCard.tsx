@@ -0,0 +1,76 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Clock, History, Play, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardBody } from '../ui/Card';
+import { QuizSessionSnapshot } from '../../types';
+
+interface ResumeSessionCardProps {
+  session: QuizSessionSnapshot;
+  onResume: () => void;
+  onDiscard?: () => void;
+  isResuming?: boolean;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  practice: 'Practice',
+  exam: 'Exam',
+  adaptive: 'Adaptive'
+};
+
+const formatTimeLeft = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} left`;
+
+// "Continue where you left off": the quiz saved on this or another device, with how far it got
+const ResumeSessionCard: React.FC<ResumeSessionCardProps> = ({ session, onResume, onDiscard, isResuming = false }) => {
+  const preferences = session.preferences;
+  const mode = preferences?.mode || 'practice';
+  // Adaptive quizzes only hold the questions asked so far, so the planned length comes from the preferences
+  const totalQuestions = mode === 'adaptive' && preferences ? preferences.questionCount : session.questions.length;
+  const answeredCount = Object.values(session.answers || {}).filter(answer => answer && answer.trim()).length;
+  const title = [preferences?.course, preferences?.topic].filter(Boolean).join(' · ') || 'Your quiz';
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+      <Card className="border-2 border-indigo-200 shadow-xl bg-white/90 backdrop-blur-sm">
+        <div className="h-1 sm:h-2 bg-gradient-to-r from-indigo-500 to-purple-600" />
+        <CardBody className="p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-indigo-500 to-purple-600 flex items-center justify-center flex-shrink-0 shadow-lg">
+            <History className="w-6 h-6 text-white" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-indigo-600">Continue where you left off</p>
+            <h3 className="text-lg sm:text-xl font-bold text-slate-800 truncate">{title}</h3>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-600 mt-1">
+              <span>{MODE_LABELS[mode] || mode} mode</span>
+              <span>Question {Math.min(session.currentQuestionIndex + 1, totalQuestions)} of {totalQuestions}</span>
+              <span>{answeredCount} answered</span>
+              {session.examSession?.deadlineAt ? (
+                <span className="flex items-center"><Clock className="w-4 h-4 mr-1" />Exam clock still running</span>
+              ) : session.totalTimeRemaining !== null && session.totalTimeRemaining !== undefined && (
+                <span className="flex items-center"><Clock className="w-4 h-4 mr-1" />{formatTimeLeft(session.totalTimeRemaining)}</span>
+              )}
+            </div>
+            <p className="text-xs text-slate-400 mt-1">Saved {new Date(session.savedAt).toLocaleString()}</p>
+          </div>
+
+          <div className="flex gap-2 sm:flex-col">
+            <Button onClick={onResume} disabled={isResuming} className="flex-1 bg-gradient-to-r from-indigo-500 to-purple-600">
+              <Play className="w-4 h-4 mr-2" />
+              {isResuming ? 'Loading...' : 'Continue'}
+            </Button>
+            {onDiscard && (
+              <Button variant="outline" onClick={onDiscard} disabled={isResuming} className="flex-1">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Start Fresh
+              </Button>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ResumeSessionCard;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import { Card, CardBody, CardHeader } from '../ui/Card';
+import { CheckCircle, Eye, Heart, Repeat, XCircle } from 'lucide-react';
+import { ReviewCard, ReviewQuality } from '../../types';
+import { REVIEW_GRADES, scheduleReview } from '../../services/spacedRepetition';
+import { useReviewStore } from '../../store/useReviewStore';
+import QuestionMediaView from './QuestionMediaView';
+
+interface ReviewSessionProps {
+  userId: string;
+  onDone: () => void;
+}
+
+const formatInterval = (days: number) => (days === 1 ? '1 day' : `${days} days`);
+
+// Front of the card: the stem plus whatever the original question showed with it
+const CardFront: React.FC<{ card: ReviewCard }> = ({ card }) => {
+  const question = card.question;
+  const scenario = question?.type === 'case-study' ? question.caseStudy : question?.type === 'situation' ? question.situation : undefined;
+  const options = question && 'options' in question ? question.options : question?.type === 'sequence' ? question.sequence : [];
+
+  return (
+    <div className="space-y-4">
+      {scenario && <p className="text-gray-700 bg-gray-50 rounded-lg p-4 whitespace-pre-line">{scenario}</p>}
+      <p className="text-lg font-medium text-gray-900 whitespace-pre-line">{card.prompt}</p>
+      {question && 'question' in question && question.question && (
+        <p className="text-gray-800 font-medium">{question.question}</p>
+      )}
+      {question?.media && <QuestionMediaView media={question.media} />}
+      {options.length > 0 && (
+        <ul className="space-y-2">
+          {options.map((option, index) => (
+            <li key={index} className="px-4 py-2 rounded-lg border border-gray-200 text-gray-700">
+              {option}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ userId, onDone }) => {
+  const { dueCards, currentIndex, reviewedCount, dueCount, isLoading, error, startReview, gradeCard, resetReview } = useReviewStore();
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+
+  useEffect(() => {
+    startReview(userId);
+    return () => resetReview();
+  }, [userId, startReview, resetReview]);
+
+  const card = dueCards[currentIndex];
+
+  const handleGrade = async (quality: ReviewQuality) => {
+    setIsGrading(true);
+    await gradeCard(quality);
+    setIsGrading(false);
+    setIsRevealed(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[calc(100vh-200px)] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-lg text-gray-600">Gathering your review cards...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      {card && (
+        <p className="text-sm text-gray-500 text-right">
+          Card {currentIndex + 1} of {dueCards.length}
+        </p>
+      )}
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">{error}</div>
+      )}
+
+      {!card ? (
+        <Card>
+          <CardBody className="p-8 text-center space-y-4">
+            <CheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-gray-800">
+              {reviewedCount > 0 ? 'Review complete' : 'Nothing due for review'}
+            </h2>
+            <p className="text-gray-600">
+              {reviewedCount > 0
+                ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}.${dueCount > 0 ? ` ${dueCount} more ${dueCount === 1 ? 'is' : 'are'} due.` : ''}`
+                : 'Questions you get wrong and questions you save as favourites show up here when they are due.'}
+            </p>
+            <div className="flex justify-center gap-3">
+              {reviewedCount > 0 && dueCount > 0 && (
+                <Button onClick={() => startReview(userId)}>
+                  <Repeat className="w-4 h-4 mr-2" />
+                  Review More
+                </Button>
+              )}
+              <Button variant="outline" onClick={onDone}>Done</Button>
+            </div>
+          </CardBody>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="flex items-center justify-between">
+            <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
+              card.source === 'mistake' ? 'bg-red-100 text-red-700' : 'bg-pink-100 text-pink-700'
+            }`}>
+              {card.source === 'mistake'
+                ? <><XCircle className="w-3 h-3 mr-1" />Missed in a quiz</>
+                : <><Heart className="w-3 h-3 mr-1" />Favourite</>}
+            </span>
+            {card.topic && <span className="text-sm text-gray-500">{card.topic}</span>}
+          </CardHeader>
+          <CardBody className="p-6 space-y-6">
+            <CardFront card={card} />
+
+            {!isRevealed ? (
+              <Button onClick={() => setIsRevealed(true)} className="w-full">
+                <Eye className="w-4 h-4 mr-2" />
+                Show Answer
+              </Button>
+            ) : (
+              <div className="space-y-4">
+                <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-200">
+                  <p className="text-sm font-semibold text-emerald-800 mb-1">Answer</p>
+                  <p className="text-gray-800 whitespace-pre-line">{card.answer}</p>
+                </div>
+                {card.question?.userAnswer && (
+                  <p className="text-sm text-gray-600">Last time you answered: {card.question.userAnswer}</p>
+                )}
+                {card.explanation && (
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{card.explanation}</p>
+                )}
+
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">How well did you remember it?</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {REVIEW_GRADES.map(({ quality, label }) => (
+                      <Button
+                        key={quality}
+                        variant={quality < 3 ? 'danger' : 'outline'}
+                        onClick={() => handleGrade(quality)}
+                        disabled={isGrading}
+                        className="flex flex-col items-center py-2"
+                      >
+                        <span className="font-semibold">{label}</span>
+                        <span className="text-xs opacity-75">{formatInterval(scheduleReview(card, quality).intervalDays)}</span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardBody>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { FileText, Upload, X } from 'lucide-react';
+import { StudyMaterial } from '../../types';
+import { Button } from '../ui/Button';
+import { extractMaterialText, MATERIAL_FILE_ACCEPT, MAX_MATERIAL_CHARS } from '../../services/materialExtractor';
+
+interface StudyMaterialInputProps {
+  material: StudyMaterial | null;
+  onChange: (material: StudyMaterial | null) => void;
+}
+
+const StudyMaterialInput: React.FC<StudyMaterialInputProps> = ({ material, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractError, setExtractError] = useState<string | null>(null);
+
+  const text = material?.text || '';
+  const isTruncated = text.length >= MAX_MATERIAL_CHARS;
+
+  const handleTextChange = (value: string) => {
+    onChange(value ? { name: material?.name || 'Pasted notes', text: value.slice(0, MAX_MATERIAL_CHARS) } : null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsExtracting(true);
+    setExtractError(null);
+    try {
+      const extracted = await extractMaterialText(file);
+      onChange({ name: file.name, text: extracted.slice(0, MAX_MATERIAL_CHARS) });
+    } catch (error) {
+      console.error('Failed to extract study material:', error);
+      setExtractError(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <label className="block text-base sm:text-lg font-semibold text-slate-700">
+          Your Study Material *
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={MATERIAL_FILE_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isExtracting}
+            className="text-sm"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {isExtracting ? 'Reading file...' : 'Upload PDF, DOCX or TXT'}
+          </Button>
+          {material && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onChange(null)}
+              className="text-sm text-slate-500"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {material && material.name !== 'Pasted notes' && (
+        <div className="flex items-center text-sm text-blue-700 bg-blue-50 px-3 py-2 rounded-lg">
+          <FileText className="w-4 h-4 mr-2 flex-shrink-0" />
+          <span className="truncate">{material.name}</span>
+        </div>
+      )}
+
+      <textarea
+        value={text}
+        onChange={(e) => handleTextChange(e.target.value)}
+        placeholder="Paste your notes, a textbook chapter or an article here. Questions will only be asked about this text."
+        rows={10}
+        className="w-full py-3 sm:py-4 px-4 text-sm sm:text-base rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:outline-none transition-all duration-300 resize-y"
+      />
+
+      <div className="flex justify-between text-xs sm:text-sm text-slate-500">
+        <span>Text is extracted in your browser; files are not uploaded.</span>
+        <span className={isTruncated ? 'text-orange-600 font-medium' : ''}>
+          {text.length.toLocaleString()} / {MAX_MATERIAL_CHARS.toLocaleString()} characters
+          {isTruncated && ' (truncated)'}
+        </span>
+      </div>
+
+      {extractError && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+          {extractError}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyMaterialInput;
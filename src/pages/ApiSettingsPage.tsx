@@ -1,17 +1,29 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAuthStore } from '../store/useAuthStore';
+import { useQuizStore } from '../store/useQuizStore';
 import ApiKeyForm from '../components/quiz/ApiKeyForm';
+import AiProviderForm from '../components/quiz/AiProviderForm';
+import AiUsagePanel from '../components/quiz/AiUsagePanel';
 
 const ApiSettingsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { loadApiKey } = useQuizStore();
+
+  useEffect(() => {
+    if (user) {
+      loadApiKey(user.id);
+    }
+  }, [user, loadApiKey]);
 
   if (!user) return null;
 
   return (
-    <div className="max-w-2xl mx-auto">
+    <div className="max-w-2xl mx-auto space-y-8">
+      <AiProviderForm userId={user.id} />
       <ApiKeyForm userId={user.id} />
+      <AiUsagePanel userId={user.id} />
     </div>
   );
 };
 
-export default ApiSettingsPage;
\ No newline at end of file
+export default ApiSettingsPage;
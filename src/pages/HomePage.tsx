@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../store/useAuthStore';
+import { useQuizStore } from '../store/useQuizStore';
 import { Button } from '../components/ui/Button';
+import ResumeSessionCard from '../components/quiz/ResumeSessionCard';
 import { 
   Brain, GraduationCap, 
   FileQuestion, PenTool, BookOpen, Calendar, 
@@ -16,9 +18,23 @@ import {
 import { motion } from 'framer-motion';
 
 const HomePage: React.FC = () => {
-  const { isLoggedIn } = useAuthStore();
+  const { isLoggedIn, user } = useAuthStore();
+  const { resumableSession, loadResumableSession, resumeQuizSession, discardResumableSession } = useQuizStore();
   const navigate = useNavigate();
   const location = useLocation();
+  const [isResumingSession, setIsResumingSession] = useState(false);
+
+  // A quiz left part-way, on this device or another, is offered at the top of the page
+  useEffect(() => {
+    if (user) loadResumableSession(user.id);
+  }, [user, loadResumableSession]);
+
+  const handleResumeSession = async () => {
+    setIsResumingSession(true);
+    await resumeQuizSession();
+    setIsResumingSession(false);
+    navigate('/quiz');
+  };
 
   const handleGetStarted = () => {
       if (isLoggedIn) {
@@ -286,6 +302,17 @@ const HomePage: React.FC = () => {
               </div>
             </Button>
           </motion.div>
+
+          {isLoggedIn && resumableSession && (
+            <div className="max-w-3xl mx-auto text-left">
+              <ResumeSessionCard
+                session={resumableSession}
+                onResume={handleResumeSession}
+                onDiscard={discardResumableSession}
+                isResuming={isResumingSession}
+              />
+            </div>
+          )}
         </div>
       </div>
 
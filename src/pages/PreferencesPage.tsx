@@ -3,10 +3,12 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../store/useAuthStore';
 import { useQuizStore, defaultPreferences } from '../store/useQuizStore';
 import { useCompetitionStore } from '../store/useCompetitionStore';
+import { useReviewStore } from '../store/useReviewStore';
 import QuizModeSelector from '../components/quiz/QuizModeSelector';
 import QuizPreferencesForm from '../components/quiz/QuizPreferences';
 import JoinCompetitionForm from '../components/quiz/JoinCompetitionForm';
 import RandomMatchmaking from '../components/competition/RandomMatchmaking';
+import ReviewSession from '../components/quiz/ReviewSession';
 import { Button } from '../components/ui/Button';
 import { ArrowLeft } from 'lucide-react';
 
@@ -14,10 +16,12 @@ const PreferencesPage: React.FC = () => {
   const { user } = useAuthStore();
   const navigate = useNavigate();
   const location = useLocation();
-  const { preferences, loadPreferences, generateQuiz } = useQuizStore();
+  const { preferences, loadPreferences, generateQuiz, resumableSession, resumeQuizSession, discardResumableSession } = useQuizStore();
   const { currentCompetition } = useCompetitionStore();
+  const { dueCount, loadDueCount } = useReviewStore();
   
-  const [selectedMode, setSelectedMode] = useState<'solo' | 'create-competition' | 'join-competition' | 'random-match' | null>(null);
+  const [selectedMode, setSelectedMode] = useState<'solo' | 'create-competition' | 'join-competition' | 'random-match' | 'review' | null>(null);
+  const [isResumingSession, setIsResumingSession] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -25,7 +29,13 @@ const PreferencesPage: React.FC = () => {
     }
   }, [user]);
 
-  const handleModeSelect = (mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match') => {
+  useEffect(() => {
+    if (user && !selectedMode) {
+      loadDueCount(user.id);
+    }
+  }, [user, selectedMode, loadDueCount]);
+
+  const handleModeSelect = (mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match' | 'review') => {
     setSelectedMode(mode);
   };
 
@@ -39,6 +49,13 @@ const PreferencesPage: React.FC = () => {
     navigate('/quiz');
   };
 
+  const handleResumeSession = async () => {
+    setIsResumingSession(true);
+    await resumeQuizSession();
+    setIsResumingSession(false);
+    navigate('/quiz');
+  };
+
   const handleStartCompetition = () => {
     navigate('/quiz', { 
       state: { 
@@ -70,7 +87,16 @@ const PreferencesPage: React.FC = () => {
 
   // Show mode selector if no mode is selected
   if (!selectedMode) {
-    return <QuizModeSelector onSelectMode={handleModeSelect} />;
+    return (
+      <QuizModeSelector
+        onSelectMode={handleModeSelect}
+        dueReviewCount={dueCount}
+        resumableSession={resumableSession}
+        onResumeSession={handleResumeSession}
+        onDiscardSession={discardResumableSession}
+        isResumingSession={isResumingSession}
+      />
+    );
   }
 
   return (
@@ -119,6 +145,10 @@ const PreferencesPage: React.FC = () => {
               onCancel={handleBackToModeSelector}
             />
           )}
+
+          {selectedMode === 'review' && (
+            <ReviewSession userId={user.id} onDone={handleBackToModeSelector} />
+          )}
         </div>
       </div>
     </div>
@@ -2,38 +2,50 @@
 import { supabase } from '../services/supabase';
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { useAuthStore } from '../store/useAuthStore';
-import { useQuizStore, defaultPreferences } from '../store/useQuizStore';
+import { useQuizStore, defaultPreferences, SESSION_SYNC_INTERVAL_MS, examSecondsLeft } from '../store/useQuizStore';
+import { DEFAULT_HINT_PENALTY } from '../services/scoring';
 import { useCompetitionStore } from '../store/useCompetitionStore';
+import { useReviewStore } from '../store/useReviewStore';
 import { Navigate, useNavigate, useLocation } from 'react-router-dom';
 import ApiKeyForm from '../components/quiz/ApiKeyForm';
 import QuizModeSelector from '../components/quiz/QuizModeSelector';
+import ReviewSession from '../components/quiz/ReviewSession';
 import QuizPreferencesForm from '../components/quiz/QuizPreferences';
 import JoinCompetitionForm from '../components/quiz/JoinCompetitionForm';
 import RandomMatchmaking from '../components/competition/RandomMatchmaking';
 import QuizQuestion from '../components/quiz/QuizQuestion';
 import QuizResults from '../components/quiz/QuizResults';
+import GenerationReportNotice from '../components/quiz/GenerationReportNotice';
 import CompetitionLobby from '../components/competition/CompetitionLobby';
 import CompetitionQuiz from '../components/competition/CompetitionQuiz';
 import CompetitionResults from '../components/competition/CompetitionResults';
 import CompetitionManagement from '../components/competition/CompetitionManagement';
 import { Button } from '../components/ui/Button';
 import { Card, CardBody } from '../components/ui/Card';
-import { ArrowLeft, Trophy, Users, Clock } from 'lucide-react';
+import { ArrowLeft, Trophy, Users, Clock, X } from 'lucide-react';
 import { Question } from '../types';
+import { providerNeedsGeminiKey } from '../services/llm';
+import { activeExamSections, sectionBounds } from '../services/examSections';
 import { motion } from 'framer-motion';
 
 const QuizPage: React.FC = () => {
   const { user, isLoggedIn } = useAuthStore();
   const { 
-    apiKey, loadApiKey, 
+    apiKeyFingerprint, loadApiKey, aiProviderSettings,
     preferences, loadPreferences, 
     questions, generateQuiz, 
     currentQuestionIndex, answers, answerQuestion, 
-    nextQuestion, prevQuestion, 
+    nextQuestion, prevQuestion, nextAdaptiveQuestion,
     finishQuiz, resetQuiz, result,
     totalTimeElapsed, setTotalTimeElapsed, // Added
     totalTimeRemaining, setTotalTimeRemaining, // Added
+    isStreamingQuestions, cancelGeneration,
+    hints, requestHint, hintLoadingId,
+    resumableSession, resumeQuizSession, discardResumableSession, syncQuizSession,
+    examSession, advanceExamSection,
+    generationReport,
   } = useQuizStore();
+  const examSections = activeExamSections(preferences);
   
   const {
     currentCompetition,
@@ -48,6 +60,8 @@ const QuizPage: React.FC = () => {
     cleanupSubscriptions,
     setCleanupFlag
   } = useCompetitionStore();
+
+  const { dueCount: dueReviewCount, loadDueCount } = useReviewStore();
   
   const navigate = useNavigate();
   const location = useLocation();
@@ -63,13 +77,17 @@ const [step, setStep] = useState<
   'api-key' | 'mode-selector' | 'solo-preferences' | 'create-competition' | 
   'join-competition' | 'random-match' | 'quiz' | 'results' | 
   'competition-lobby' | 'competition-quiz' | 'competition-results' |
-  'competition-management' | 'active-competitions-selector'
+  'competition-management' | 'active-competitions-selector' | 'review'
 >('mode-selector');
 
 // Add a new state for tracking quiz generation
   const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
   const [selectedMode, setSelectedMode] = useState<string | null>(null);
+  const [awaitingNextQuestion, setAwaitingNextQuestion] = useState(false); // User is ahead of the question stream
+  const [isResumingSession, setIsResumingSession] = useState(false);
+  const [isReportDismissed, setIsReportDismissed] = useState(false);
   const quizStartTimeRef = useRef<number | null>(null); // Added for solo quiz timer
+  const sectionTimedOutRef = useRef<string | null>(null); // Exam section whose time already ran out, as session:index
 
 
   // Component lifecycle management
@@ -159,7 +177,7 @@ useEffect(() => {
 
       // CRITICAL FIX: Don't override manual step changes from mode selection
       if (selectedMode && (step === 'solo-preferences' || step === 'create-competition' ||
-          step === 'join-competition' || step === 'random-match')) {
+          step === 'join-competition' || step === 'random-match' || step === 'review')) {
         console.log('User has selected a mode, maintaining current step:', step);
         return;
       }
@@ -299,7 +317,7 @@ useEffect(() => {
         } else if (questions.length > 0 && !result) {
           newStep = 'quiz';
           // Initialize total time if set
-          if (preferences?.timeLimitEnabled && preferences?.totalTimeLimit && totalTimeRemaining === null) {
+          if (preferences?.timeLimitEnabled && preferences?.totalTimeLimit && totalTimeRemaining === null && examSections.length === 0) {
             setTotalTimeRemaining(parseInt(preferences.totalTimeLimit));
           }
         } else {
@@ -323,13 +341,14 @@ useEffect(() => {
 
   const timeoutId = setTimeout(determineStep, 100);
   return () => clearTimeout(timeoutId);
-}, [questions, result, location.state, currentCompetition, navigate, user, isInitializedRef.current, isGeneratingQuiz, preferences, step, selectedMode, totalTimeRemaining]);
+}, [questions, result, location.state, currentCompetition, navigate, user, isInitializedRef.current, isGeneratingQuiz, preferences, examSections.length, step, selectedMode, totalTimeRemaining]);
 
 
   const handleFinishQuiz = useCallback(() => {
     if (!isComponentMountedRef.current) return;
     
     console.log('Finishing quiz...');
+    setAwaitingNextQuestion(false);
     finishQuiz();
     // Force step change to results
     setStep('results');
@@ -337,12 +356,20 @@ useEffect(() => {
     setTotalTimeRemaining(null);
   }, [finishQuiz, setTotalTimeRemaining]);
 
+  // The step effect moves on to the quiz (or its result) once the resumed questions are in the store
+  const handleResumeSession = useCallback(async () => {
+    if (!isComponentMountedRef.current) return;
+    setIsResumingSession(true);
+    await resumeQuizSession();
+    setIsResumingSession(false);
+  }, [resumeQuizSession]);
+
   
   // Total quiz timer effect
 useEffect(() => {
   let timer: NodeJS.Timeout | null = null;
   // Only run if totalTimeLimit is enabled and per-question timeLimit is NOT set
-  if (preferences?.timeLimitEnabled && preferences?.totalTimeLimit && preferences?.timeLimit === null && step === 'quiz' && questions.length > 0 && isComponentMountedRef.current) {
+  if (preferences?.timeLimitEnabled && preferences?.totalTimeLimit && preferences?.timeLimit === null && examSections.length === 0 && step === 'quiz' && questions.length > 0 && isComponentMountedRef.current) {
     // Initialize totalTimeRemaining if it's null or quiz just started
     if (totalTimeRemaining === null) {
       setTotalTimeRemaining(parseInt(preferences.totalTimeLimit));
@@ -371,7 +398,29 @@ useEffect(() => {
       clearInterval(timer);
     }
   };
-}, [step, questions.length, handleFinishQuiz, preferences, totalTimeRemaining, setTotalTimeRemaining]);
+}, [step, questions.length, handleFinishQuiz, preferences, examSections.length, totalTimeRemaining, setTotalTimeRemaining]);
+
+  // Sectioned exams count down to the server's deadline for the open section; when it passes, the exam
+  // moves on to the next section, or ends after the last one
+  useEffect(() => {
+    if (step !== 'quiz' || !examSession?.deadlineAt || examSections.length === 0) return;
+
+    const tick = () => {
+      const secondsLeft = examSecondsLeft(examSession);
+      setTotalTimeRemaining(secondsLeft);
+      const sectionKey = `${examSession.id}:${examSession.sectionIndex}`;
+      if (secondsLeft !== 0 || sectionTimedOutRef.current === sectionKey) return;
+      sectionTimedOutRef.current = sectionKey;
+      if (examSession.sectionIndex < examSections.length - 1) {
+        advanceExamSection();
+      } else {
+        handleFinishQuiz();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [step, examSession, examSections.length, advanceExamSection, handleFinishQuiz, setTotalTimeRemaining]);
 
     // Total time elapsed timer for solo quiz
   useEffect(() => {
@@ -400,6 +449,58 @@ useEffect(() => {
     };
   }, [step, questions.length, setTotalTimeElapsed, totalTimeElapsed]);
 
+  // Copy progress to the server so the quiz can be continued on another device; hiding the page
+  // (switching tabs or apps, closing the laptop) also saves the timers
+  useEffect(() => {
+    if (step !== 'quiz' || !user) return;
+
+    const timer = setInterval(() => syncQuizSession(user.id), SESSION_SYNC_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') syncQuizSession(user.id, true);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [step, user, syncQuizSession]);
+
+  // Save right away once the questions are in and after each move, rather than waiting for the timer
+  useEffect(() => {
+    if (step === 'quiz' && user && !isStreamingQuestions) {
+      syncQuizSession(user.id);
+    }
+  }, [step, user, isStreamingQuestions, currentQuestionIndex, syncQuizSession]);
+
+  // Start the quiz as soon as the first streamed question arrives
+  useEffect(() => {
+    if (isGeneratingQuiz && questions.length > 0 && step === 'solo-preferences' && isComponentMountedRef.current) {
+      setStep('quiz');
+      currentStepRef.current = 'quiz';
+    }
+  }, [isGeneratingQuiz, questions.length, step]);
+
+  // Refresh the review badge whenever the mode selector is shown, e.g. after finishing a review session
+  useEffect(() => {
+    if (step === 'mode-selector' && user) {
+      loadDueCount(user.id);
+    }
+  }, [step, user, loadDueCount]);
+
+  // Move on once the question the user is waiting for has been generated
+  useEffect(() => {
+    if (!awaitingNextQuestion || !isComponentMountedRef.current) return;
+
+    if (currentQuestionIndex < questions.length - 1) {
+      setAwaitingNextQuestion(false);
+      nextQuestion();
+    } else if (!isStreamingQuestions) {
+      // The stream ended without producing more questions
+      setAwaitingNextQuestion(false);
+      handleFinishQuiz();
+    }
+  }, [awaitingNextQuestion, currentQuestionIndex, questions.length, isStreamingQuestions, nextQuestion, handleFinishQuiz]);
   
   if (!isLoggedIn) {
     return <Navigate to="/auth" />;
@@ -411,12 +512,13 @@ useEffect(() => {
     currentStepRef.current = 'mode-selector';
   }, []);
 
-  const handleModeSelect = useCallback((mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match') => {
+  const handleModeSelect = useCallback((mode: 'solo' | 'create-competition' | 'join-competition' | 'random-match' | 'review') => {
     if (!isComponentMountedRef.current) return;
     setSelectedMode(mode);
     const newStep = mode === 'solo' ? 'solo-preferences' :
                    mode === 'create-competition' ? 'create-competition' :
-                   mode === 'join-competition' ? 'join-competition' : 'random-match';
+                   mode === 'join-competition' ? 'join-competition' :
+                   mode === 'review' ? 'review' : 'random-match';
     setStep(newStep);
     currentStepRef.current = newStep;
   }, []);
@@ -430,6 +532,7 @@ useEffect(() => {
     competitionCompletedRef.current = false;
     isOnResultsPageRef.current = false;
     setSelectedMode(null);
+    setAwaitingNextQuestion(false);
     setTotalTimeElapsed(0); // Reset total time elapsed
     setTotalTimeRemaining(null); // Reset total time remaining
     setStep('mode-selector');
@@ -446,16 +549,18 @@ useEffect(() => {
       if (!user || !isComponentMountedRef.current) return;
       
       // Check if API key is required and available
-      if (!apiKey) {
+      if (!apiKeyFingerprint && providerNeedsGeminiKey(aiProviderSettings)) {
         setStep('api-key');
         currentStepRef.current = 'api-key';
         return;
       }
       
       setIsGeneratingQuiz(true);
+      setIsReportDismissed(false);
       try {
         await generateQuiz(user.id);
-        if (isComponentMountedRef.current) {
+        // The user may have quit while later questions were still streaming in
+        if (isComponentMountedRef.current && useQuizStore.getState().questions.length > 0) {
           setStep('quiz');
           currentStepRef.current = 'quiz';
         }
@@ -465,7 +570,7 @@ useEffect(() => {
       } finally {
         setIsGeneratingQuiz(false);
       }
-    }, [user, generateQuiz, apiKey]);
+    }, [user, generateQuiz, apiKeyFingerprint, aiProviderSettings]);
 
   
   const handleNewQuiz = useCallback(() => {
@@ -513,7 +618,7 @@ useEffect(() => {
   }, []);
 
 const handleStartCompetitionQuiz = useCallback(async () => {
-  if (!currentCompetition || !user || !apiKey || !isComponentMountedRef.current) return;
+  if (!currentCompetition || !user || !apiKeyFingerprint || !isComponentMountedRef.current) return;
 
   try {
     setStep('competition-quiz');
@@ -521,7 +626,7 @@ const handleStartCompetitionQuiz = useCallback(async () => {
   } catch (error) {
     console.error('Failed to start competition quiz:', error);
   }
-}, [currentCompetition, user, apiKey]);
+}, [currentCompetition, user, apiKeyFingerprint]);
 
   // FIXED: Enhanced completion handler with stronger flag setting
   const handleCompetitionComplete = useCallback(() => {
@@ -609,6 +714,12 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
     currentStepRef.current = 'mode-selector';
   }, [clearCurrentCompetition, setCleanupFlag, cleanupSubscriptions]);
   
+  const isAdaptive = preferences?.mode === 'adaptive';
+  // Sectioned exams number questions within the open section and move on section by section
+  const currentSection = examSession ? examSections[examSession.sectionIndex] : undefined;
+  const sectionRange = currentSection ? sectionBounds(questions, currentSection.id) : null;
+  const isLastSection = !!examSession && examSession.sectionIndex >= examSections.length - 1;
+
   const renderContent = () => {
     if (!user) return null;
     
@@ -704,9 +815,31 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
           <QuizModeSelector 
             onSelectMode={handleModeSelect} 
             onShowCompetitionManagement={handleShowCompetitionManagement}
+            dueReviewCount={dueReviewCount}
+            resumableSession={resumableSession}
+            onResumeSession={handleResumeSession}
+            onDiscardSession={discardResumableSession}
+            isResumingSession={isResumingSession}
           />
         );
 
+      case 'review':
+        return (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between mb-6">
+              <Button
+                variant="ghost"
+                onClick={handleBackToModeSelector}
+                className="text-gray-600 hover:text-gray-800"
+              >
+                <ArrowLeft className="w-5 h-5 mr-2" />
+                Back to Quiz Modes
+              </Button>
+            </div>
+            <ReviewSession userId={user.id} onDone={handleBackToModeSelector} />
+          </div>
+        );
+
       case 'competition-management':
         return (
           <div className="space-y-6">
@@ -743,6 +876,14 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
                   <div className="text-center">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
                     <p className="text-lg text-gray-600">Generating your quiz...</p>
+                    <Button
+                      variant="outline"
+                      onClick={cancelGeneration}
+                      className="mt-6"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
                   </div>
                 </div>
               ) : (
@@ -851,10 +992,29 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
           return null;
         }
 
+        if (awaitingNextQuestion) {
+          return (
+            <div className="min-h-[calc(100vh-200px)] flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+                <p className="text-lg text-gray-600">Generating the next question...</p>
+              </div>
+            </div>
+          );
+        }
+
         // Define the new handleSoloQuestionSubmit function
         const handleSoloQuestionSubmit = (answer: string) => {
           answerQuestion(currentQuestion.id, answer); // Record the answer
-          if (currentQuestionIndex === questions.length - 1) {
+          if (isAdaptive) {
+            // The store picks the next question from the answers so far, or says the estimate is settled
+            if (!nextAdaptiveQuestion()) handleFinishQuiz();
+          } else if (sectionRange && currentQuestionIndex === sectionRange.last) {
+            if (isLastSection) handleFinishQuiz();
+            else advanceExamSection();
+          } else if (isStreamingQuestions && currentQuestionIndex === questions.length - 1) {
+            setAwaitingNextQuestion(true); // Wait for the stream to catch up
+          } else if (currentQuestionIndex === questions.length - 1) {
             handleFinishQuiz(); // Finish if it's the last question
           } else {
             nextQuestion(); // Move to the next question
@@ -863,28 +1023,51 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
         
         return (
            <div className="w-full px-0 py-8">
+              {!isReportDismissed && (
+                <GenerationReportNotice issues={generationReport} onDismiss={() => setIsReportDismissed(true)} />
+              )}
               <QuizQuestion
                 question={currentQuestion}
-                questionNumber={currentQuestionIndex + 1}
-                totalQuestions={questions.length}
+                questionNumber={sectionRange ? currentQuestionIndex - sectionRange.first + 1 : currentQuestionIndex + 1}
+                totalQuestions={sectionRange
+                  ? sectionRange.last - sectionRange.first + 1
+                  : isAdaptive ? preferences.questionCount : isStreamingQuestions ? Math.max(questions.length, preferences.questionCount) : questions.length}
                 userAnswer={answers[currentQuestion.id]}
                 onAnswer={(answer) => answerQuestion(currentQuestion.id, answer)} // Keep this for internal state update
                 onPrevious={handlePrevious}
-                isLastQuestion={currentQuestionIndex === questions.length - 1}
+                isLastQuestion={sectionRange
+                  ? isLastSection && currentQuestionIndex === sectionRange.last
+                  : !isAdaptive && !isStreamingQuestions && currentQuestionIndex === questions.length - 1}
                 onFinish={handleFinishQuiz}
                 language={preferences.language || 'en'}
-                timeLimitEnabled={preferences.timeLimitEnabled || false}
+                timeLimitEnabled={examSections.length === 0 && (preferences.timeLimitEnabled || false)}
                 timeLimit={preferences.timeLimit}
                 totalTimeLimit={preferences.totalTimeLimit}
                 totalTimeRemaining={totalTimeRemaining}
-                mode={preferences.mode || 'practice'}
+                mode={isAdaptive || preferences.mode === 'exam' ? 'exam' : 'practice'}
                 answerMode={preferences.mode === 'practice' ? 'immediate' : 'end'}
                 onQuitQuiz={handleBackToModeSelector}
                 totalTimeElapsed={totalTimeElapsed}
                 showQuitButton={true}
                 displayHeader={true} // Changed from showHeader to displayHeader
-                showPreviousButton={!(preferences.timeLimitEnabled && preferences.timeLimit)}
+                showPreviousButton={!isAdaptive && !(preferences.timeLimitEnabled && preferences.timeLimit)}
                 onQuestionSubmit={handleSoloQuestionSubmit} // Pass the new handler
+                hints={hints[currentQuestion.id]}
+                onRequestHint={preferences.mode === 'practice' ? () => requestHint(currentQuestion.id) : undefined}
+                isHintLoading={hintLoadingId === currentQuestion.id}
+                hintPenalty={preferences.hintPenalty ?? DEFAULT_HINT_PENALTY}
+                sections={sectionRange ? examSections.map(section => {
+                  const bounds = sectionBounds(questions, section.id);
+                  const sectionQuestions = bounds ? questions.slice(bounds.first, bounds.last + 1) : [];
+                  return {
+                    name: section.name,
+                    total: sectionQuestions.length,
+                    answered: sectionQuestions.filter(question => answers[question.id]?.trim()).length
+                  };
+                }) : undefined}
+                currentSectionIndex={examSession?.sectionIndex}
+                sectionTimeRemaining={sectionRange && examSession?.deadlineAt ? totalTimeRemaining : null}
+                onFinishSection={sectionRange && !isLastSection ? advanceExamSection : undefined}
               />
 
           </div>
@@ -897,6 +1080,7 @@ const handleCreateCompetitionSuccess = useCallback(async (preferences, title, de
           <div className="w-full px-4">
             <QuizResults
               result={result}
+              generationReport={generationReport}
               onNewQuiz={handleNewQuiz}
               onChangePreferences={handleChangePreferences}
             />
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../types';
+import { AdaptiveResponse, ADAPTIVE_MIN_QUESTIONS, estimateAbility, isEstimateStable, itemParameters, pickNextQuestion, proficiencyLevel, toProficiencyEstimate } from './adaptive';
+
+const question = (id: number, difficulty: Question['difficulty']): Question => ({
+  id,
+  type: 'true-false',
+  text: `Statement ${id}`,
+  difficulty,
+  options: ['True', 'False'],
+  correctAnswer: 'True'
+});
+
+const pool = [question(1, 'basic'), question(2, 'intermediate'), question(3, 'advanced')];
+
+describe('itemParameters', () => {
+  it('places uncalibrated questions by their claimed level', () => {
+    expect(pool.map(item => itemParameters(item).difficulty)).toEqual([-1, 0, 1]);
+  });
+
+  it('prefers measured parameters', () => {
+    const calibrated: Question = {
+      ...question(4, 'basic'),
+      calibration: { difficulty: 2, discrimination: 1.5, responses: 50, pCorrect: 0.2, label: 'advanced', calibratedAt: new Date() }
+    };
+    expect(itemParameters(calibrated)).toEqual({ difficulty: 2, discrimination: 1.5 });
+  });
+});
+
+describe('estimateAbility', () => {
+  it('starts at the average student', () => {
+    const { ability, standardError } = estimateAbility([]);
+    expect(ability).toBeCloseTo(0, 6);
+    expect(standardError).toBeCloseTo(1, 1);
+  });
+
+  it('rises with right answers and falls with wrong ones', () => {
+    const right = estimateAbility(pool.map(item => ({ question: item, correct: true })));
+    const wrong = estimateAbility(pool.map(item => ({ question: item, correct: false })));
+    expect(right.ability).toBeGreaterThan(0.5);
+    expect(wrong.ability).toBeLessThan(-0.5);
+    expect(right.standardError).toBeLessThan(1);
+  });
+});
+
+describe('pickNextQuestion', () => {
+  it('picks the question closest to the current ability', () => {
+    expect(pickNextQuestion(pool, [], 0)?.id).toBe(2);
+    expect(pickNextQuestion(pool, [], 1.2)?.id).toBe(3);
+    expect(pickNextQuestion(pool, [], -1.2)?.id).toBe(1);
+  });
+
+  it('skips questions already asked and runs out cleanly', () => {
+    expect(pickNextQuestion(pool, [2], 0)?.id).not.toBe(2);
+    expect(pickNextQuestion(pool, [1, 2, 3], 0)).toBeNull();
+  });
+});
+
+describe('proficiency', () => {
+  it('maps ability to a level', () => {
+    expect([-2, -1, 0, 1, 2].map(proficiencyLevel)).toEqual(['beginner', 'developing', 'proficient', 'advanced', 'expert']);
+  });
+
+  it('is never stable before the minimum number of questions', () => {
+    expect(isEstimateStable(0.1, ADAPTIVE_MIN_QUESTIONS - 1)).toBe(false);
+    expect(isEstimateStable(0.1, ADAPTIVE_MIN_QUESTIONS)).toBe(true);
+    expect(isEstimateStable(0.8, ADAPTIVE_MIN_QUESTIONS)).toBe(false);
+  });
+
+  it('rounds the reported estimate and counts the answers', () => {
+    const responses: AdaptiveResponse[] = [{ question: pool[1], correct: true }];
+    const estimate = toProficiencyEstimate(responses);
+    expect(estimate.questionsAsked).toBe(1);
+    expect(estimate.stable).toBe(false);
+    expect(estimate.ability).toBe(Math.round(estimateAbility(responses).ability * 100) / 100);
+  });
+});
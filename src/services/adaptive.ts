@@ -0,0 +1,94 @@
+// src/services/adaptive.ts
+import { ProficiencyEstimate, ProficiencyLevel, Question } from '../types';
+
+// The adaptive quiz asks at least this many questions, then stops once the ability estimate is this precise
+export const ADAPTIVE_MIN_QUESTIONS = 5;
+export const STABLE_STANDARD_ERROR = 0.5;
+// Twice as many questions are generated as can be asked, so every level still has some left late in the quiz
+export const ADAPTIVE_POOL_FACTOR = 2;
+
+// Where the AI's own label puts a question on the ability scale, until answers have calibrated it
+const CLAIMED_DIFFICULTY: Record<Question['difficulty'], number> = {
+  basic: -1,
+  intermediate: 0,
+  advanced: 1
+};
+
+export const PROFICIENCY_LABELS: Record<ProficiencyLevel, string> = {
+  beginner: 'Beginner',
+  developing: 'Developing',
+  proficient: 'Proficient',
+  advanced: 'Advanced',
+  expert: 'Expert'
+};
+
+export type AdaptiveResponse = {
+  question: Question;
+  correct: boolean;
+};
+
+// Difficulty and discrimination on the same two-parameter scale the calibration uses
+export const itemParameters = (question: Question): { difficulty: number; discrimination: number } => ({
+  difficulty: question.calibration?.difficulty ?? CLAIMED_DIFFICULTY[question.difficulty] ?? 0,
+  discrimination: question.calibration?.discrimination ?? 1
+});
+
+const probabilityCorrect = (ability: number, question: Question): number => {
+  const { difficulty, discrimination } = itemParameters(question);
+  return 1 / (1 + Math.exp(-discrimination * (ability - difficulty)));
+};
+
+// Ability grid from -4 to 4; fine enough for an estimate that is only reported to one decimal
+const GRID = Array.from({ length: 81 }, (_, index) => -4 + index * 0.1);
+
+// Expected a posteriori estimate with a standard normal prior, so it is defined even before the first wrong answer
+export const estimateAbility = (responses: AdaptiveResponse[]): { ability: number; standardError: number } => {
+  const weights = GRID.map(ability => responses.reduce(
+    (weight, { question, correct }) => {
+      const p = probabilityCorrect(ability, question);
+      return weight * (correct ? p : 1 - p);
+    },
+    Math.exp(-ability * ability / 2)
+  ));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const ability = GRID.reduce((sum, point, index) => sum + point * weights[index], 0) / total;
+  const variance = GRID.reduce((sum, point, index) => sum + (point - ability) ** 2 * weights[index], 0) / total;
+  return { ability, standardError: Math.sqrt(variance) };
+};
+
+// The unasked question that tells us most about a student of this ability (highest Fisher information)
+export const pickNextQuestion = (pool: Question[], askedIds: number[], ability: number): Question | null => {
+  let best: Question | null = null;
+  let bestInformation = -1;
+  for (const question of pool) {
+    if (askedIds.includes(question.id)) continue;
+    const p = probabilityCorrect(ability, question);
+    const information = itemParameters(question).discrimination ** 2 * p * (1 - p);
+    if (information > bestInformation) {
+      best = question;
+      bestInformation = information;
+    }
+  }
+  return best;
+};
+
+export const isEstimateStable = (standardError: number, questionsAsked: number): boolean =>
+  questionsAsked >= ADAPTIVE_MIN_QUESTIONS && standardError <= STABLE_STANDARD_ERROR;
+
+export const proficiencyLevel = (ability: number): ProficiencyLevel =>
+  ability < -1.5 ? 'beginner'
+    : ability < -0.5 ? 'developing'
+    : ability < 0.5 ? 'proficient'
+    : ability < 1.5 ? 'advanced'
+    : 'expert';
+
+export const toProficiencyEstimate = (responses: AdaptiveResponse[]): ProficiencyEstimate => {
+  const { ability, standardError } = estimateAbility(responses);
+  return {
+    ability: Math.round(ability * 100) / 100,
+    standardError: Math.round(standardError * 100) / 100,
+    level: proficiencyLevel(ability),
+    questionsAsked: responses.length,
+    stable: isEstimateStable(standardError, responses.length)
+  };
+};
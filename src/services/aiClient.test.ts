@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiCancelledError, AiTimeoutError, aiFetch } from './aiClient';
+
+// A response that sends one chunk and then nothing until the request is aborted
+const stallingFetch = vi.fn(async (_url: string, init: RequestInit) =>
+  new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"partial":'));
+      init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+    }
+  }))
+);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('aiFetch', () => {
+  it('times out a body that stalls after the headers arrived', async () => {
+    vi.stubGlobal('fetch', stallingFetch);
+    const response = await aiFetch('https://example.com', {}, { timeoutMs: 20 });
+    await expect(response.text()).rejects.toBeInstanceOf(AiTimeoutError);
+  });
+
+  it('cancels a body that is being read when the caller aborts', async () => {
+    vi.stubGlobal('fetch', stallingFetch);
+    const controller = new AbortController();
+    const response = await aiFetch('https://example.com', {}, { signal: controller.signal, timeoutMs: 1000 });
+    const reading = response.text();
+    controller.abort();
+    await expect(reading).rejects.toBeInstanceOf(AiCancelledError);
+  });
+
+  it('lets go of the caller\'s signal once the body has been read', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"ok":true}')));
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    const response = await aiFetch('https://example.com', {}, { signal: controller.signal });
+    expect(await response.json()).toEqual({ ok: true });
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
@@ -0,0 +1,243 @@
+// src/services/aiClient.ts
+// Transport shared by every AI call: typed errors, retries on rate limits, timeouts and cancellation
+
+export class AiError extends Error {
+  status?: number;
+  detail?: string; // Raw provider message, kept for logs
+
+  constructor(message: string, status?: number, detail?: string) {
+    super(message);
+    this.name = 'AiError';
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export class AiQuotaError extends AiError {
+  constructor(status = 429, detail?: string) {
+    super('API rate limit exceeded. Please wait a moment and try again.', status, detail);
+    this.name = 'AiQuotaError';
+  }
+}
+
+export class AiAuthError extends AiError {
+  constructor(status = 401, detail?: string) {
+    super(
+      status === 403
+        ? 'Your API key does not have permission to use this model. Please check your API key settings.'
+        : 'Invalid API key. Please check your API key in settings.',
+      status,
+      detail
+    );
+    this.name = 'AiAuthError';
+  }
+}
+
+export class AiUnavailableError extends AiError {
+  constructor(status = 503, detail?: string) {
+    super('The AI provider is temporarily unavailable. Please try again later.', status, detail);
+    this.name = 'AiUnavailableError';
+  }
+}
+
+// The user's own daily cap from API settings; retrying would only hit it again
+export class AiUsageCapError extends AiError {
+  constructor(detail?: string) {
+    super(detail || 'You have reached your daily AI usage cap. You can change it in API settings.', 429, detail);
+    this.name = 'AiUsageCapError';
+  }
+}
+
+export class AiSafetyError extends AiError {
+  constructor(detail?: string) {
+    super('The AI provider blocked this request for safety reasons. Try rephrasing the topic.', undefined, detail);
+    this.name = 'AiSafetyError';
+  }
+}
+
+export class AiMalformedOutputError extends AiError {
+  constructor(detail?: string) {
+    super('The AI returned a response in an unexpected format. Please try again.', undefined, detail);
+    this.name = 'AiMalformedOutputError';
+  }
+}
+
+export class AiTimeoutError extends AiError {
+  constructor() {
+    super('The AI provider took too long to respond. Please try again.');
+    this.name = 'AiTimeoutError';
+  }
+}
+
+export class AiCancelledError extends AiError {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'AiCancelledError';
+  }
+}
+
+export class AiNetworkError extends AiError {
+  constructor(detail?: string) {
+    super('Network error. Please check your internet connection and try again.', undefined, detail);
+    this.name = 'AiNetworkError';
+  }
+}
+
+// Single place where HTTP statuses become error types, so every caller reports them the same way
+export const aiErrorFromStatus = (status: number, detail?: string, code?: string): AiError => {
+  if (code === 'usage_cap_reached') return new AiUsageCapError(detail);
+  if (status === 401 || status === 403) return new AiAuthError(status, detail);
+  if (status === 429) return new AiQuotaError(status, detail);
+  if (status >= 500) return new AiUnavailableError(status, detail);
+  return new AiError(detail || `Request failed with status ${status}`, status, detail);
+};
+
+// Rate limits and overloads are worth retrying; everything else fails fast
+export const isRetryableAiError = (error: unknown): boolean =>
+  error instanceof AiQuotaError || (error instanceof AiUnavailableError && error.status === 503);
+
+export type AiRequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number; // How long to wait for the response to start, and for each further part of its body
+  retries?: number;
+};
+
+export const DEFAULT_AI_TIMEOUT_MS = 60000;
+const DEFAULT_AI_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+
+type ErrorBody = {
+  detail: string;
+  code?: string; // Set by our edge functions, e.g. usage_cap_reached
+};
+
+const readErrorBody = async (response: Response): Promise<ErrorBody> => {
+  try {
+    const text = await response.text();
+    try {
+      const data = JSON.parse(text);
+      const message = typeof data.error === 'string' ? data.error : data.error?.message;
+      return { detail: message || text, code: typeof data.code === 'string' ? data.code : undefined };
+    } catch {
+      return { detail: text };
+    }
+  } catch {
+    return { detail: response.statusText };
+  }
+};
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AiCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Honours Retry-After when the provider sends it, otherwise backs off exponentially with jitter
+const retryDelay = (response: Response, attempt: number): number => {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250, MAX_RETRY_DELAY_MS);
+};
+
+const fetchOnce = async (url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Restarted whenever part of the body arrives, so a stream that stalls times out but a long one does not
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort();
+  const release = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const failure = (error: unknown): AiError => {
+    if (signal?.aborted) return new AiCancelledError();
+    if (timedOut) return new AiTimeoutError();
+    return new AiNetworkError(error instanceof Error ? error.message : String(error));
+  };
+
+  restartTimer();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    release();
+    throw failure(error);
+  }
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  // The caller's signal and the timer stay attached until the body has been read, so a cancel or a stall
+  // also stops a stream that is being read
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(bodyController) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          bodyController.close();
+          return;
+        }
+        restartTimer();
+        bodyController.enqueue(value);
+      } catch (error) {
+        release();
+        bodyController.error(failure(error));
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    }
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+// fetch for AI endpoints: resolves with an ok response or throws a typed AiError
+export const aiFetch = async (url: string, init: RequestInit, options: AiRequestOptions = {}): Promise<Response> => {
+  const { signal, timeoutMs = DEFAULT_AI_TIMEOUT_MS, retries = DEFAULT_AI_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new AiCancelledError();
+
+    const response = await fetchOnce(url, init, signal, timeoutMs);
+    if (response.ok) return response;
+
+    const { detail, code } = await readErrorBody(response);
+    const error = aiErrorFromStatus(response.status, detail, code);
+    if (attempt >= retries || !isRetryableAiError(error)) {
+      throw error;
+    }
+    console.warn(`AI request failed with ${response.status}, retrying (attempt ${attempt + 1} of ${retries})`);
+    await waitFor(retryDelay(response, attempt), signal);
+  }
+};
+
+// Cancellation is expected during normal use and should not be reported as a failure
+export const isAiCancelled = (error: unknown): boolean =>
+  error instanceof AiCancelledError || (error instanceof DOMException && error.name === 'AbortError');
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import browserCopy from './answerMatcher.ts?raw';
+import serverCopy from '../../supabase/functions/_shared/answerMatcher.ts?raw';
+import { isSettledMatch, matchTextAnswer } from './answerMatcher';
+
+describe('matchTextAnswer', () => {
+  it('matches regardless of case, spacing and punctuation', () => {
+    expect(matchTextAnswer('  o(LOG n) ', 'O(log n)')).toEqual({ isMatch: true, method: 'exact' });
+    expect(matchTextAnswer("Newtons law", "Newton's law")).toEqual({ isMatch: true, method: 'exact' });
+  });
+
+  it('reads fractions, percentages and units as numbers', () => {
+    expect(matchTextAnswer('1/2', '0.5').method).toBe('numeric');
+    expect(matchTextAnswer('50%', '0.5').method).toBe('numeric');
+    expect(matchTextAnswer('2500 m', '2.5 km').method).toBe('numeric');
+    expect(matchTextAnswer('5', '5 km').method).toBe('numeric');
+  });
+
+  it('never lets numbers or units differ', () => {
+    expect(matchTextAnswer('1991', '1990').isMatch).toBe(false);
+    expect(matchTextAnswer('5 m', '5 km').isMatch).toBe(false);
+  });
+
+  it('allows typos only in long words', () => {
+    expect(matchTextAnswer('photosynthsis', 'photosynthesis')).toEqual({ isMatch: true, method: 'fuzzy' });
+    expect(matchTextAnswer('alkene', 'alkane').isMatch).toBe(false);
+  });
+
+  it('does not spend the typos of a long word on a short one', () => {
+    expect(matchTextAnswer('cell photosynthesis', 'call photosynthesis').isMatch).toBe(false);
+  });
+
+  it('rejects an answer that negates the key', () => {
+    expect(matchTextAnswer('not O(log n)', 'O(log n)').isMatch).toBe(false);
+  });
+
+  it('reports a keyword alone as partial evidence, not a match', () => {
+    expect(matchTextAnswer('Ionic bond', 'Covalent bond', ['bond'])).toEqual({ isMatch: false, method: 'keyword' });
+    expect(matchTextAnswer('no bond at all', 'Covalent bond', ['bond'])).toEqual({ isMatch: false, method: null });
+  });
+
+  it('compares Indic script with its romanized spelling', () => {
+    expect(matchTextAnswer('Bharat', 'भारत').isMatch).toBe(true);
+  });
+
+  it('matches nothing for an empty answer', () => {
+    expect(matchTextAnswer('   ', 'anything')).toEqual({ isMatch: false, method: null });
+  });
+});
+
+describe('isSettledMatch', () => {
+  it('settles only exact and numeric matches', () => {
+    expect(isSettledMatch({ isMatch: true, method: 'exact' })).toBe(true);
+    expect(isSettledMatch({ isMatch: true, method: 'numeric' })).toBe(true);
+    expect(isSettledMatch({ isMatch: true, method: 'fuzzy' })).toBe(false);
+    expect(isSettledMatch({ isMatch: false, method: 'keyword' })).toBe(false);
+  });
+});
+
+// The edge function copy marks exams on the server, so it must not drift from the browser's
+describe('edge function copy', () => {
+  const body = (source: string, headerLines: number) => source.split('\n').slice(headerLines).join('\n');
+
+  it('matches src/services/answerMatcher.ts after its header', () => {
+    expect(body(serverCopy, 2)).toBe(body(browserCopy, 2));
+  });
+});
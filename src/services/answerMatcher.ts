@@ -0,0 +1,252 @@
+// src/services/answerMatcher.ts
+// supabase/functions/_shared/answerMatcher.ts is a copy for edge functions; change both together.
+// Deterministic matching of free-text answers against an answer key. It runs before the AI evaluator
+// and is the whole check when no AI is available, so it must never accept an answer the key rejects.
+
+export type AnswerMatch = {
+  isMatch: boolean; // Only exact, numeric and near-miss spellings of the key; a keyword alone never is
+  method: 'exact' | 'numeric' | 'fuzzy' | 'keyword' | null;
+};
+
+// Evaluator-style 0-100 score for an answer that only contains a keyword: "Ionic bond" contains the
+// keyword "bond" of "Covalent bond", so a keyword is partial evidence at best
+export const KEYWORD_MATCH_SCORE = 50;
+
+const NO_MATCH: AnswerMatch = { isMatch: false, method: null };
+
+// Brahmic scripts share one layout, so a single table indexed by the offset inside each
+// 128-code-point block covers Devanagari, Bengali, Gurmukhi, Gujarati, Odia, Tamil, Telugu, Kannada and Malayalam
+const INDIC_FIRST = 0x0900;
+const INDIC_LAST = 0x0d7f;
+const INDIC_VIRAMA = 0x4d;
+const INDIC_NUKTA = 0x3c;
+
+const INDIC_VOWELS: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri', 0x0c: 'li',
+  0x0d: 'e', 0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x11: 'o', 0x12: 'o', 0x13: 'o', 0x14: 'au'
+};
+
+const INDIC_CONSONANTS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'ng', 0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh',
+  0x1e: 'ny', 0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n', 0x24: 't', 0x25: 'th', 0x26: 'd',
+  0x27: 'dh', 0x28: 'n', 0x29: 'n', 0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm', 0x2f: 'y',
+  0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v', 0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h'
+};
+
+const INDIC_VOWEL_SIGNS: Record<number, string> = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri', 0x44: 'ri',
+  0x45: 'e', 0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x49: 'o', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au'
+};
+
+// Anusvara, visarga and Malayalam chillu letters (consonants without a vowel)
+const INDIC_OTHERS: Record<number, string> = {
+  0x01: 'n', 0x02: 'm', 0x03: 'h', 0x7a: 'n', 0x7b: 'n', 0x7c: 'r', 0x7d: 'l', 0x7e: 'l', 0x7f: 'k'
+};
+
+const isIndic = (codePoint: number): boolean => codePoint >= INDIC_FIRST && codePoint <= INDIC_LAST;
+
+const hasIndicScript = (text: string): boolean =>
+  Array.from(text).some(char => isIndic(char.codePointAt(0)!));
+
+// Romanizes Indic text; consonants carry an inherent "a" unless a vowel sign or virama follows
+const transliterateIndic = (text: string): string => {
+  let output = '';
+  let inherentVowel = false;
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    const offset = isIndic(codePoint) ? codePoint & 0x7f : -1;
+
+    if (offset === INDIC_NUKTA) continue;
+    if (offset in INDIC_VOWEL_SIGNS) {
+      output += INDIC_VOWEL_SIGNS[offset];
+      inherentVowel = false;
+      continue;
+    }
+    if (offset === INDIC_VIRAMA) {
+      inherentVowel = false;
+      continue;
+    }
+    if (inherentVowel) {
+      output += 'a';
+      inherentVowel = false;
+    }
+
+    if (offset === -1) {
+      output += char;
+    } else if (offset in INDIC_CONSONANTS) {
+      output += INDIC_CONSONANTS[offset];
+      inherentVowel = true;
+    } else if (offset in INDIC_VOWELS) {
+      output += INDIC_VOWELS[offset];
+    } else if (offset in INDIC_OTHERS) {
+      output += INDIC_OTHERS[offset];
+    } else if (offset >= 0x66 && offset <= 0x6f) {
+      output += String(offset - 0x66); // Native digits
+    } else if (offset === 0x64 || offset === 0x65) {
+      output += ' '; // Danda
+    }
+  }
+  return inherentVowel ? `${output}a` : output;
+};
+
+// Spelling-level differences that romanized Indic answers are full of: vowel length, aspiration,
+// doubled letters, w/v, and the inherent "a" at the end of a word
+const looseRomanization = (text: string): string =>
+  text
+    .replace(/([bcdgjkptsr])h/g, '$1')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/a\b/g, '');
+
+// NFKC folds width and compatibility forms; diacritics are dropped only after Indic text is romanized,
+// because Indic vowel signs are combining marks too
+const normalizeAnswer = (text: string, loose: boolean): string => {
+  let normalized = text.normalize('NFKC').toLowerCase();
+  if (loose) normalized = transliterateIndic(normalized);
+  normalized = normalized
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return loose ? looseRomanization(normalized) : normalized;
+};
+
+// Optimal string alignment distance: Levenshtein plus swaps of neighbouring letters
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+};
+
+// Typos allowed in an expected word of this many letters. Words under 8 letters must be exact,
+// since one letter is often the whole difference between two terms (alkene and alkane).
+const typoTolerance = (length: number): number => Math.min(3, Math.floor(length / 8));
+
+// Digits are never fuzzy: 1990 and 1991 are different answers
+const isCloseEnough = (given: string, expected: string): boolean => {
+  if (given === expected) return true;
+  if (/\d/.test(expected) || /\d/.test(given)) return false;
+  return editDistance(given, expected) <= typoTolerance(expected.length);
+};
+
+// Word by word, so the typos allowed for a long word cannot be spent on changing a short one
+const isCloseText = (givenTokens: string[], expectedTokens: string[]): boolean =>
+  givenTokens.length === expectedTokens.length &&
+  expectedTokens.every((token, index) => isCloseEnough(givenTokens[index], token));
+
+type Quantity = {
+  value: number;     // In the dimension's base unit
+  written: number;   // As written, before unit conversion
+  dimension: string | null;
+};
+
+// Units convert to the first unit of their dimension
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  m: { dimension: 'length', factor: 1 }, mm: { dimension: 'length', factor: 0.001 },
+  cm: { dimension: 'length', factor: 0.01 }, km: { dimension: 'length', factor: 1000 },
+  g: { dimension: 'mass', factor: 1 }, mg: { dimension: 'mass', factor: 0.001 }, kg: { dimension: 'mass', factor: 1000 },
+  s: { dimension: 'time', factor: 1 }, sec: { dimension: 'time', factor: 1 }, ms: { dimension: 'time', factor: 0.001 },
+  min: { dimension: 'time', factor: 60 }, h: { dimension: 'time', factor: 3600 }, hr: { dimension: 'time', factor: 3600 },
+  l: { dimension: 'volume', factor: 1 }, ml: { dimension: 'volume', factor: 0.001 }
+};
+
+// Reads "0.5", "1/2", "50%", "1,000" or "2.5 km" as a number, with its unit if it has one
+const parseQuantity = (text: string): Quantity | null => {
+  const compact = transliterateIndic(text.normalize('NFKC').toLowerCase())
+    .replace(/⁄/g, '/')
+    .replace(/(\d),(\d{3})(?!\d)/g, '$1$2')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .trim();
+  const match = compact.match(/^([-+]?\d*\.?\d+)(?:\s*\/\s*(\d*\.?\d+))?\s*(%|percent|[a-z]+)?$/);
+  if (!match) return null;
+
+  const denominator = match[2] !== undefined ? Number(match[2]) : 1;
+  if (denominator === 0) return null;
+  const written = Number(match[1]) / denominator;
+  const unit = match[3];
+
+  if (unit === '%' || unit === 'percent') return { value: written / 100, written: written / 100, dimension: null };
+  if (!unit) return { value: written, written, dimension: null };
+  const known = UNITS[unit];
+  if (!known) return null;
+  return { value: written * known.factor, written, dimension: known.dimension };
+};
+
+const sameNumber = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b));
+
+// Units are converted when both sides have one; a bare number is read in the other side's unit,
+// so "5" is accepted for "5 km" but "5 m" is not
+const sameQuantity = (given: Quantity, expected: Quantity): boolean => {
+  if (given.dimension && expected.dimension) {
+    return given.dimension === expected.dimension && sameNumber(given.value, expected.value);
+  }
+  return sameNumber(given.written, expected.written);
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'neither', 'nor', 'cannot', 'cant', 'isnt', 'arent', 'wasnt', 'werent',
+  'dont', 'doesnt', 'didnt', 'wont', 'without', 'nahi', 'nahin', 'mat', 'illa', 'ledu'
+]);
+
+// "not O(log n)" contains the key but says the opposite
+const addsNegation = (givenTokens: string[], expectedTokens: string[]): boolean =>
+  givenTokens.some(token => NEGATIONS.has(token) && !expectedTokens.includes(token));
+
+// Whole-token containment of a keyword in the answer, each token allowed its own typos
+const containsKeyword = (givenTokens: string[], keywordTokens: string[]): boolean => {
+  if (keywordTokens.length === 0 || keywordTokens.length > givenTokens.length) return false;
+  for (let start = 0; start + keywordTokens.length <= givenTokens.length; start++) {
+    if (keywordTokens.every((token, index) => isCloseEnough(givenTokens[start + index], token))) return true;
+  }
+  return false;
+};
+
+export const matchTextAnswer = (userAnswer: string, correctAnswer: string, keywords: string[] = []): AnswerMatch => {
+  if (!userAnswer.trim() || !correctAnswer.trim()) return NO_MATCH;
+  const loose = [userAnswer, correctAnswer, ...keywords].some(hasIndicScript);
+  const given = normalizeAnswer(userAnswer, loose);
+  const expected = normalizeAnswer(correctAnswer, loose);
+  const givenTokens = given.split(' ');
+  const expectedTokens = expected.split(' ');
+
+  if (addsNegation(givenTokens, expectedTokens)) return NO_MATCH;
+
+  if (given === expected || given.replace(/ /g, '') === expected.replace(/ /g, '')) {
+    return { isMatch: true, method: 'exact' };
+  }
+
+  const givenQuantity = parseQuantity(userAnswer);
+  const expectedQuantity = parseQuantity(correctAnswer);
+  if (givenQuantity && expectedQuantity) {
+    // Two numbers decide it on their own; a typo check on digits would only add false matches
+    return sameQuantity(givenQuantity, expectedQuantity) ? { isMatch: true, method: 'numeric' } : NO_MATCH;
+  }
+
+  if (isCloseText(givenTokens, expectedTokens)) return { isMatch: true, method: 'fuzzy' };
+
+  const keywordHit = keywords.some(keyword => {
+    const keywordTokens = normalizeAnswer(keyword, loose).split(' ').filter(Boolean);
+    return !addsNegation(givenTokens, keywordTokens) && containsKeyword(givenTokens, keywordTokens);
+  });
+  return keywordHit ? { isMatch: false, method: 'keyword' } : NO_MATCH;
+};
+
+// Exact and numeric matches are certain; near-miss spellings and keyword hits are worth a second look
+// from the AI evaluator whenever it is available
+export const isSettledMatch = (match: AnswerMatch): boolean => match.method === 'exact' || match.method === 'numeric';
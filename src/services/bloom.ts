@@ -0,0 +1,118 @@
+// src/services/bloom.ts
+import { BloomDistribution, BloomLevel, Question } from '../types';
+
+// Lowest to highest cognitive demand
+export const BLOOM_LEVELS: BloomLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  remember: 'Remember',
+  understand: 'Understand',
+  apply: 'Apply',
+  analyze: 'Analyze',
+  evaluate: 'Evaluate',
+  create: 'Create'
+};
+
+export const BLOOM_LEVEL_DESCRIPTIONS: Record<BloomLevel, string> = {
+  remember: 'Recall facts, terms and definitions',
+  understand: 'Explain ideas in your own words',
+  apply: 'Use a method in a new situation',
+  analyze: 'Break information into parts and relate them',
+  evaluate: 'Judge and justify a decision',
+  create: 'Combine ideas into something new'
+};
+
+// Starting point when the user turns on a target mix: mostly lower levels, some of the higher ones
+export const DEFAULT_BLOOM_DISTRIBUTION: BloomDistribution = {
+  remember: 20,
+  understand: 25,
+  apply: 25,
+  analyze: 15,
+  evaluate: 10,
+  create: 5
+};
+
+// British spellings and the original taxonomy's noun forms, which models often return
+const BLOOM_ALIASES: Record<string, BloomLevel> = {
+  knowledge: 'remember',
+  remembering: 'remember',
+  comprehension: 'understand',
+  understanding: 'understand',
+  application: 'apply',
+  applying: 'apply',
+  analyse: 'analyze',
+  analysis: 'analyze',
+  analyzing: 'analyze',
+  analysing: 'analyze',
+  evaluation: 'evaluate',
+  evaluating: 'evaluate',
+  synthesis: 'create',
+  creating: 'create'
+};
+
+export const parseBloomLevel = (value: unknown): BloomLevel | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((BLOOM_LEVELS as string[]).includes(key)) return key as BloomLevel;
+  return BLOOM_ALIASES[key] || null;
+};
+
+// Splits questionCount across the targeted levels in proportion to their shares; leftover questions go to
+// the levels with the largest remainders
+export const bloomLevelCounts = (
+  distribution: BloomDistribution,
+  questionCount: number
+): Partial<Record<BloomLevel, number>> => {
+  const levels = BLOOM_LEVELS.filter(level => (distribution[level] || 0) > 0);
+  const totalShare = levels.reduce((sum, level) => sum + (distribution[level] || 0), 0);
+  if (totalShare === 0 || questionCount <= 0) return {};
+
+  const exact = levels.map(level => ({ level, count: (distribution[level] || 0) / totalShare * questionCount }));
+  const counts: Partial<Record<BloomLevel, number>> = {};
+  exact.forEach(({ level, count }) => {
+    counts[level] = Math.floor(count);
+  });
+
+  let remaining = questionCount - exact.reduce((sum, { count }) => sum + Math.floor(count), 0);
+  [...exact]
+    .sort((a, b) => (b.count % 1) - (a.count % 1))
+    .forEach(({ level }) => {
+      if (remaining > 0) {
+        counts[level] = (counts[level] || 0) + 1;
+        remaining--;
+      }
+    });
+
+  levels.forEach(level => {
+    if (!counts[level]) delete counts[level];
+  });
+  return counts;
+};
+
+export type BloomLevelPerformance = {
+  level: BloomLevel;
+  correct: number;
+  total: number;
+  marks: number; // Includes partial credit
+};
+
+// Per-level totals in taxonomy order; questions from quizzes generated before tagging are left out
+export const performanceByBloomLevel = (questions: Question[]): BloomLevelPerformance[] => {
+  const totals = new Map<BloomLevel, BloomLevelPerformance>();
+  questions.forEach(question => {
+    const level = parseBloomLevel(question.bloomLevel);
+    if (!level) return;
+    const current = totals.get(level) || { level, correct: 0, total: 0, marks: 0 };
+    current.total++;
+    if (question.isCorrect) current.correct++;
+    current.marks += question.marksAwarded ?? (question.isCorrect ? 1 : 0);
+    totals.set(level, current);
+  });
+
+  return BLOOM_LEVELS
+    .filter(level => totals.has(level))
+    .map(level => {
+      const performance = totals.get(level)!;
+      return { ...performance, marks: Math.round(performance.marks * 100) / 100 };
+    });
+};
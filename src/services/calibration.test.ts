@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Question, QuestionCalibration } from '../types';
+import { questionFingerprint as storedQuestionFingerprint } from '../../supabase/functions/_shared/questionFingerprint.ts';
+import { fitTwoParameterModel, ItemResponse } from '../../supabase/functions/question-calibration/irt.ts';
+import { calibrateQuestions, questionFingerprint } from './calibration';
+import { getQuestionCalibrations } from './supabase';
+
+vi.mock('./supabase', () => ({ getQuestionCalibrations: vi.fn() }));
+
+const multipleChoice: Question = {
+  id: 1,
+  type: 'multiple-choice',
+  text: 'Which planet is largest?',
+  difficulty: 'basic',
+  options: ['Mars', 'Jupiter', 'Venus', 'Earth'],
+  correctAnswer: 'Jupiter'
+};
+
+const multiSelect: Question = {
+  id: 2,
+  type: 'multi-select',
+  text: 'Which are gas giants?',
+  difficulty: 'intermediate',
+  options: ['Mars', 'Jupiter', 'Saturn', 'Earth', 'Venus', 'Mercury'],
+  correctOptions: ['Jupiter', 'Saturn']
+};
+
+const measured: QuestionCalibration = {
+  difficulty: 1.2,
+  discrimination: 0.9,
+  responses: 40,
+  pCorrect: 0.3,
+  label: 'advanced',
+  calibratedAt: new Date('2026-10-01T00:00:00Z')
+};
+
+describe('questionFingerprint', () => {
+  it('ignores case and spacing in the stem and key', async () => {
+    const restyled: Question = { ...multipleChoice, id: 7, text: '  which planet   is LARGEST? ', correctAnswer: 'jupiter' };
+    expect(await questionFingerprint(restyled)).toBe(await questionFingerprint(multipleChoice));
+  });
+
+  it('ignores the order of multi-select answers', async () => {
+    const reordered: Question = { ...multiSelect, correctOptions: ['Saturn', 'Jupiter'] };
+    expect(await questionFingerprint(reordered)).toBe(await questionFingerprint(multiSelect));
+  });
+
+  it('treats a corrected answer key as a new question', async () => {
+    const corrected: Question = { ...multipleChoice, correctAnswer: 'Mars' };
+    expect(await questionFingerprint(corrected)).not.toBe(await questionFingerprint(multipleChoice));
+  });
+
+  it('agrees with the fingerprint of stored results', async () => {
+    expect(await storedQuestionFingerprint({ ...multipleChoice })).toBe(await questionFingerprint(multipleChoice));
+    expect(await storedQuestionFingerprint({ ...multiSelect })).toBe(await questionFingerprint(multiSelect));
+  });
+});
+
+describe('calibrateQuestions', () => {
+  it('swaps the claimed difficulty for the measured one where there is data', async () => {
+    const fingerprint = await questionFingerprint(multipleChoice);
+    vi.mocked(getQuestionCalibrations).mockResolvedValue(new Map([[fingerprint, measured]]));
+
+    const [calibrated, uncalibrated] = await calibrateQuestions([multipleChoice, multiSelect]);
+    expect(calibrated).toMatchObject({ fingerprint, calibration: measured, claimedDifficulty: 'basic', difficulty: 'advanced' });
+    expect(uncalibrated.difficulty).toBe('intermediate');
+    expect(uncalibrated.calibration).toBeUndefined();
+    expect(uncalibrated.fingerprint).toBe(await questionFingerprint(multiSelect));
+  });
+});
+
+describe('fitTwoParameterModel', () => {
+  // 40 students of spread-out ability; each item is answered right by those above its threshold, with a few slips
+  const thresholds: Record<string, number> = { easy: 8, medium: 20, hard: 32 };
+  const responses: ItemResponse[] = Array.from({ length: 40 }, (_, student) =>
+    Object.entries(thresholds).map(([item, threshold]) => ({
+      person: `student-${student}`,
+      item,
+      correct: (student >= threshold) !== (student % 7 === 0)
+    }))
+  ).flat();
+
+  it('orders items by how often they are answered right', () => {
+    const { items } = fitTwoParameterModel(responses);
+    const difficulty = Object.fromEntries(items.map(item => [item.item, item.difficulty]));
+    expect(difficulty.easy).toBeLessThan(difficulty.medium);
+    expect(difficulty.medium).toBeLessThan(difficulty.hard);
+    expect(items.find(item => item.item === 'easy')?.responses).toBe(40);
+  });
+
+  it('ends where a single fit would when resumed from an earlier one', () => {
+    const whole = fitTwoParameterModel(responses, undefined, { maxIterations: 20 });
+    const first = fitTwoParameterModel(responses, undefined, { maxIterations: 10 });
+    const resumed = fitTwoParameterModel(responses, {
+      abilities: first.abilities,
+      items: new Map(first.items.map(item => [item.item, item]))
+    }, { maxIterations: 10 });
+
+    resumed.items.forEach((item, index) => {
+      expect(item.difficulty).toBeCloseTo(whole.items[index].difficulty, 6);
+      expect(item.discrimination).toBeCloseTo(whole.items[index].discrimination, 6);
+    });
+  });
+
+  it('runs at least one iteration even past its deadline', () => {
+    expect(fitTwoParameterModel(responses, undefined, { deadline: 0 }).iterations).toBe(1);
+  });
+});
@@ -0,0 +1,44 @@
+// src/services/calibration.ts
+import { Question } from '../types';
+import { getQuestionCalibrations } from './supabase';
+
+const normalize = (text: unknown): string =>
+  typeof text === 'string' ? text.toLowerCase().replace(/\s+/g, ' ').trim() : '';
+
+const answerKey = (question: Question): string => {
+  if ('correctAnswer' in question && typeof question.correctAnswer === 'string') return question.correctAnswer;
+  if (question.type === 'multi-select') return [...question.correctOptions].sort().join('|');
+  if (question.type === 'sequence') return question.correctSequence.join('|');
+  if (question.type === 'long-answer') return question.modelAnswer;
+  return '';
+};
+
+// SHA-256 of type, stem and answer key, so regenerated copies of a question share their answer history.
+// Must match supabase/functions/_shared/questionFingerprint.ts, which fingerprints stored results.
+export const questionFingerprint = async (question: Question): Promise<string> => {
+  const stem = 'question' in question ? question.question : undefined;
+  const content = [question.type, question.text, stem, answerKey(question)].map(normalize).join('\u0000');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Fingerprints every question and swaps the AI's difficulty claim for the measured one where there is data.
+// Calibration is best-effort: if it cannot be read, the questions keep the labels they came with.
+export const calibrateQuestions = async <T extends Question>(questions: T[]): Promise<T[]> => {
+  const fingerprinted = await Promise.all(questions.map(async question => ({
+    ...question,
+    fingerprint: question.fingerprint || await questionFingerprint(question)
+  })));
+
+  const calibrations = await getQuestionCalibrations(fingerprinted.map(question => question.fingerprint));
+  return fingerprinted.map(question => {
+    const calibration = calibrations.get(question.fingerprint);
+    if (!calibration) return question;
+    return {
+      ...question,
+      calibration,
+      claimedDifficulty: question.claimedDifficulty || question.difficulty,
+      difficulty: calibration.label
+    };
+  });
+};
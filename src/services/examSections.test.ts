@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { ExamSection, Question, QuizPreferences, SectionPerformance } from '../types';
+import { activeExamSections, examSectionsProblem, examSettingsProblem, MAX_EXAM_QUESTIONS, newExamSection, performanceBySectionName, sectionBounds } from './examSections';
+
+const preferences: QuizPreferences = {
+  difficulty: 'medium',
+  questionCount: 10,
+  questionTypes: ['multiple-choice', 'long-answer'],
+  language: 'English',
+  timeLimitEnabled: false,
+  mode: 'exam',
+  answerMode: 'end',
+  negativeMarking: true,
+  negativeMarks: -0.5
+};
+
+const section = (changes: Partial<ExamSection> = {}): ExamSection => ({
+  id: 'physics',
+  name: 'Physics',
+  questionTypes: ['multiple-choice'],
+  questionCount: 10,
+  timeLimit: 20 * 60,
+  negativeMarking: false,
+  negativeMarks: -0.25,
+  ...changes
+});
+
+describe('activeExamSections', () => {
+  it('only applies sections to exams', () => {
+    const sections = [section()];
+    expect(activeExamSections({ ...preferences, sections })).toEqual(sections);
+    expect(activeExamSections({ ...preferences, mode: 'practice', sections })).toEqual([]);
+    expect(activeExamSections(null)).toEqual([]);
+  });
+});
+
+describe('newExamSection', () => {
+  it('starts from the quiz settings without long answers', () => {
+    expect(newExamSection(preferences, 2)).toMatchObject({
+      name: 'Section 2',
+      questionTypes: ['multiple-choice'],
+      negativeMarking: true,
+      negativeMarks: -0.5
+    });
+  });
+
+  it('falls back to multiple choice when only long answers were chosen', () => {
+    expect(newExamSection({ ...preferences, questionTypes: ['long-answer'] }, 1).questionTypes).toEqual(['multiple-choice']);
+  });
+});
+
+describe('examSectionsProblem', () => {
+  it('accepts well-formed sections', () => {
+    expect(examSectionsProblem([section(), section({ id: 'chemistry', name: 'Chemistry', timeLimit: null })])).toBeNull();
+  });
+
+  it('explains what is wrong with a section', () => {
+    expect(examSectionsProblem([section({ name: '  ' })])).toBe('Give every section a name');
+    expect(examSectionsProblem([section({ questionTypes: ['long-answer'] })])).toMatch(/other than long answer/);
+    expect(examSectionsProblem([section({ questionCount: 0 })])).toBe('Every section needs at least one question');
+    expect(examSectionsProblem([section({ timeLimit: 30 })])).toBe('A section time limit must be at least one minute');
+  });
+
+  it('caps the questions across all sections', () => {
+    const sections = [section({ questionCount: MAX_EXAM_QUESTIONS }), section({ id: 'chemistry', name: 'Chemistry', questionCount: 1 })];
+    expect(examSectionsProblem(sections)).toMatch(/at most 50 questions/);
+  });
+});
+
+describe('examSettingsProblem', () => {
+  const markable: QuizPreferences = { ...preferences, questionTypes: ['multiple-choice'] };
+
+  it('accepts settings the server can write an exam under', () => {
+    expect(examSettingsProblem(markable)).toBeNull();
+    expect(examSettingsProblem({ ...preferences, sections: [section()] })).toBeNull();
+    expect(examSettingsProblem({ ...markable, bloomDistribution: { remember: 0 } })).toBeNull();
+  });
+
+  it('names every setting the server would otherwise drop', () => {
+    expect(examSettingsProblem(preferences)).toMatch(/cannot use long-answer questions\. Turn it off/);
+    expect(examSettingsProblem({
+      ...markable,
+      includeDiagrams: true,
+      verifyQuestions: true,
+      bloomDistribution: { remember: 50, apply: 50 }
+    })).toMatch(/cannot use diagrams, answer checks or a cognitive level mix\. Turn them off/);
+    expect(examSettingsProblem({
+      ...markable,
+      images: [{ name: 'circuit.png', url: 'https://example.com/circuit.png', mimeType: 'image/png' }]
+    })).toMatch(/attached images/);
+  });
+});
+
+describe('sectionBounds', () => {
+  const questions = ['physics', 'physics', 'chemistry', 'chemistry', 'chemistry'].map((sectionId, index): Question => ({
+    id: index + 1,
+    type: 'true-false',
+    text: `Statement ${index + 1}`,
+    difficulty: 'basic',
+    options: ['True', 'False'],
+    correctAnswer: 'True',
+    sectionId
+  }));
+
+  it('finds the first and last question of a section', () => {
+    expect(sectionBounds(questions, 'physics')).toEqual({ first: 0, last: 1 });
+    expect(sectionBounds(questions, 'chemistry')).toEqual({ first: 2, last: 4 });
+    expect(sectionBounds(questions, 'maths')).toBeNull();
+  });
+});
+
+describe('performanceBySectionName', () => {
+  const performance = (name: string, correct: number, marks: number): SectionPerformance => ({
+    sectionId: name.toLowerCase(),
+    name,
+    totalQuestions: 10,
+    attempted: 10,
+    correct,
+    marks,
+    negativeMarksDeducted: 0,
+    timeLimit: null,
+    timeTaken: 600
+  });
+
+  it('adds up sections with the same name across exams', () => {
+    const totals = performanceBySectionName([
+      { sectionPerformance: [performance('Physics', 6, 5.5), performance('Chemistry', 9, 9)] },
+      { sectionPerformance: [performance(' Physics ', 8, 7.75)] },
+      { sectionPerformance: null }
+    ]);
+    expect(totals).toEqual([
+      { name: 'Physics', exams: 2, totalQuestions: 20, correct: 14, marks: 13.25, accuracy: 70 },
+      { name: 'Chemistry', exams: 1, totalQuestions: 10, correct: 9, marks: 9, accuracy: 90 }
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+// src/services/examSections.ts
+import { ExamSection, Question, QuestionType, QuizPreferences, SectionPerformance } from '../types';
+
+// The exam-session edge function refuses longer exams
+export const MAX_EXAM_QUESTIONS = 50;
+export const MAX_EXAM_SECTIONS = 6;
+
+// Long answers need the AI grader, which exams run without
+const markableTypes = (section: ExamSection): QuestionType[] =>
+  section.questionTypes.filter(type => type !== 'long-answer');
+
+// Sections only apply to exams; practice and adaptive quizzes ignore them
+export const activeExamSections = (preferences: QuizPreferences | null | undefined): ExamSection[] =>
+  preferences?.mode === 'exam' && preferences.sections ? preferences.sections : [];
+
+// A new section starts from the quiz's own settings, minus long answers, which the server cannot mark
+export const newExamSection = (preferences: QuizPreferences, position: number): ExamSection => {
+  const questionTypes = preferences.questionTypes.filter(type => type !== 'long-answer');
+  return {
+    id: crypto.randomUUID(),
+    name: `Section ${position}`,
+    topic: '',
+    questionTypes: questionTypes.length > 0 ? questionTypes : ['multiple-choice'],
+    questionCount: 10,
+    timeLimit: 20 * 60,
+    negativeMarking: preferences.negativeMarking || false,
+    negativeMarks: preferences.negativeMarks ?? -0.25
+  };
+};
+
+export const sectionQuestionTotal = (sections: ExamSection[]): number =>
+  sections.reduce((sum, section) => sum + section.questionCount, 0);
+
+// Why the sections cannot be used as they are, or null when they are fine
+export const examSectionsProblem = (sections: ExamSection[]): string | null => {
+  if (sections.some(section => !section.name.trim())) return 'Give every section a name';
+  if (sections.some(section => markableTypes(section).length === 0)) {
+    return 'Choose at least one question type other than long answer for every section';
+  }
+  if (sections.some(section => section.questionCount < 1)) return 'Every section needs at least one question';
+  if (sections.some(section => section.timeLimit !== null && section.timeLimit < 60)) return 'A section time limit must be at least one minute';
+  if (sectionQuestionTotal(sections) > MAX_EXAM_QUESTIONS) return `A sectioned exam can have at most ${MAX_EXAM_QUESTIONS} questions in total`;
+  return null;
+};
+
+// Settings the exam-session edge function refuses, since it writes exams without them. Attached images
+// never reach the server, so only this check catches them. Mirrors unsupportedSettings in its settings.ts.
+export const unsupportedExamSettings = (preferences: QuizPreferences): string[] => {
+  const unsupported: string[] = [];
+  if (activeExamSections(preferences).length === 0 && preferences.questionTypes.includes('long-answer')) {
+    unsupported.push('long-answer questions');
+  }
+  if (preferences.includeDiagrams) unsupported.push('diagrams');
+  if (preferences.images?.length) unsupported.push('attached images');
+  if (preferences.verifyQuestions) unsupported.push('answer checks');
+  if (Object.values(preferences.bloomDistribution || {}).some(share => (share || 0) > 0)) {
+    unsupported.push('a cognitive level mix');
+  }
+  return unsupported;
+};
+
+// Why an exam cannot be started with these settings, or null when it can
+export const examSettingsProblem = (preferences: QuizPreferences): string | null => {
+  const unsupported = unsupportedExamSettings(preferences);
+  if (unsupported.length === 0) return null;
+  const list = unsupported.length > 1
+    ? `${unsupported.slice(0, -1).join(', ')} or ${unsupported[unsupported.length - 1]}`
+    : unsupported[0];
+  return `Exams are written on the server, which cannot use ${list}. Turn ${unsupported.length > 1 ? 'them' : 'it'} off in your quiz settings to start an exam.`;
+};
+
+// Indexes of the first and last question of a section, or null when it has none
+export const sectionBounds = (questions: Question[], sectionId: string): { first: number; last: number } | null => {
+  const first = questions.findIndex(question => question.sectionId === sectionId);
+  if (first === -1) return null;
+  let last = first;
+  while (last + 1 < questions.length && questions[last + 1].sectionId === sectionId) last++;
+  return { first, last };
+};
+
+export type SectionTotals = {
+  name: string;
+  exams: number;
+  totalQuestions: number;
+  correct: number;
+  marks: number;
+  accuracy: number; // Percent of the section's questions answered fully right
+};
+
+// Totals per section name across sectioned exams, so every "Physics" section counts together
+export const performanceBySectionName = (results: { sectionPerformance?: SectionPerformance[] | null }[]): SectionTotals[] => {
+  const totals = new Map<string, SectionTotals>();
+  for (const result of results) {
+    for (const section of result.sectionPerformance || []) {
+      const name = section.name.trim() || 'Untitled section';
+      const entry = totals.get(name) || { name, exams: 0, totalQuestions: 0, correct: 0, marks: 0, accuracy: 0 };
+      entry.exams++;
+      entry.totalQuestions += section.totalQuestions;
+      entry.correct += section.correct;
+      entry.marks = Math.round((entry.marks + section.marks) * 100) / 100;
+      totals.set(name, entry);
+    }
+  }
+  return [...totals.values()].map(entry => ({
+    ...entry,
+    accuracy: entry.totalQuestions > 0 ? Math.round((entry.correct / entry.totalQuestions) * 100) : 0
+  }));
+};
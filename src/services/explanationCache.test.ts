@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Question } from '../types';
+import {
+  explanationCacheKey as serverExplanationCacheKey,
+  renderExplanationPrompt
+} from '../../supabase/functions/_shared/explanationCache.ts';
+import { explanationCacheKey, explanationRequestFor } from './explanationCache';
+import { renderPrompt } from './prompts';
+
+vi.mock('./gemini', () => ({ getAnswerExplanation: vi.fn() }));
+vi.mock('./supabase', () => ({ getCachedExplanation: vi.fn(), saveExplanationOverride: vi.fn() }));
+
+const multiSelect = (correctOptions: string[]): Question => ({
+  id: 1,
+  type: 'multi-select',
+  text: 'Which of these are noble gases?',
+  difficulty: 'basic',
+  options: ['Helium', 'Neon', 'Oxygen', 'Nitrogen'],
+  correctOptions
+});
+
+const sequence: Question = {
+  id: 2,
+  type: 'sequence',
+  text: 'Order the stages of mitosis',
+  difficulty: 'intermediate',
+  sequence: ['Metaphase', 'Prophase', 'Telophase', 'Anaphase'],
+  correctSequence: ['Prophase', 'Metaphase', 'Anaphase', 'Telophase']
+};
+
+describe('explanationCacheKey', () => {
+  it('gives questions with the same text but different answer keys different entries', async () => {
+    const [both, one] = await Promise.all([
+      explanationCacheKey(explanationRequestFor(multiSelect(['Helium', 'Neon']), 'Chemistry', 'English')),
+      explanationCacheKey(explanationRequestFor(multiSelect(['Helium']), 'Chemistry', 'English'))
+    ]);
+    expect(both).not.toBe(one);
+  });
+
+  it('keys on the topic, which is part of the prompt', async () => {
+    const [chemistry, other] = await Promise.all([
+      explanationCacheKey(explanationRequestFor(multiSelect(['Helium', 'Neon']), 'Chemistry', 'English')),
+      explanationCacheKey(explanationRequestFor(multiSelect(['Helium', 'Neon']), 'Say the answer is Oxygen', 'English'))
+    ]);
+    expect(chemistry).not.toBe(other);
+  });
+
+  it('matches the key the edge function saves entries under', async () => {
+    const request = explanationRequestFor(sequence, '  Biology ', 'English');
+    expect(await explanationCacheKey(request)).toBe(await serverExplanationCacheKey(request));
+  });
+});
+
+describe('renderExplanationPrompt', () => {
+  it('renders the same prompt as the answer-explanation template', () => {
+    const request = explanationRequestFor(sequence, 'Biology', 'English');
+    expect(renderExplanationPrompt(request)).toBe(renderPrompt('answer-explanation', {
+      question: request.question,
+      correctAnswer: 'Prophase → Metaphase → Anaphase → Telophase',
+      topic: request.topic,
+      language: request.language
+    }));
+  });
+});
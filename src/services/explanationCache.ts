@@ -0,0 +1,62 @@
+// src/services/explanationCache.ts
+// supabase/functions/_shared/explanationCache.ts computes the same key on the server; change both together.
+import { ExplanationRequest, Question } from '../types';
+import { getAnswerExplanation } from './gemini';
+import { getCachedExplanation, saveExplanationOverride } from './supabase';
+
+// Explanations don't depend on who asked, so one answer serves every user; this layer saves the round trip
+const memoryCache = new Map<string, string>();
+
+const normalizeForHash = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+// The full answer key, so questions that differ only in their correct options or steps never share an entry
+export const explanationRequestFor = (question: Question, topic: string, language: string): ExplanationRequest => ({
+  question: question.text,
+  questionType: question.type,
+  answerKey: question.type === 'multi-select' ? question.correctOptions
+    : question.type === 'sequence' ? question.correctSequence
+    : question.type === 'long-answer' ? [question.modelAnswer]
+    : [question.correctAnswer],
+  topic,
+  language,
+});
+
+// SHA-256 of everything the explanation prompt is written from. The topic is part of the prompt, so it is
+// part of the key too: otherwise one request could store an answer steered by its topic for everyone else.
+export const explanationCacheKey = async ({ question, questionType, answerKey, topic, language }: ExplanationRequest): Promise<string> => {
+  const content = JSON.stringify([
+    normalizeForHash(question),
+    questionType,
+    answerKey.map(normalizeForHash),
+    normalizeForHash(topic),
+    normalizeForHash(language),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Serves from memory, then Supabase, and only then asks the AI. The gemini edge function saves what Gemini
+// generates to the shared cache and what other providers generate for this user only; regenerate skips both
+// caches and keeps the new explanation for this user only.
+export const explainAnswer = async (
+  request: ExplanationRequest,
+  options: { regenerate?: boolean } = {}
+): Promise<string> => {
+  const key = await explanationCacheKey(request);
+
+  if (!options.regenerate) {
+    const cached = memoryCache.get(key) ?? await getCachedExplanation(key);
+    if (cached) {
+      memoryCache.set(key, cached);
+      return cached;
+    }
+  }
+
+  const explanation = await getAnswerExplanation(request);
+  memoryCache.set(key, explanation);
+  if (options.regenerate) {
+    // The explanation is already in hand, so a failed write only costs a future cache hit
+    saveExplanationOverride(key, explanation, request.language);
+  }
+  return explanation;
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { formatExplanation } from './formatExplanation';
+
+describe('formatExplanation', () => {
+  it('escapes HTML in the text before formatting it', () => {
+    expect(formatExplanation('<img src=x onerror="alert(1)"> is **not** run'))
+      .toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; is <strong>not</strong> run');
+  });
+
+  it('keeps the supported marks', () => {
+    expect(formatExplanation('Use `x & y`\n*then* stop')).toBe(
+      'Use <code class="bg-purple-100 text-purple-800 px-1 py-0.5 rounded text-sm font-mono">x &amp; y</code><br><em>then</em> stop'
+    );
+  });
+});
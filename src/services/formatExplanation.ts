@@ -0,0 +1,26 @@
+// src/services/formatExplanation.ts
+// Explanations are model text, and shared ones are served to every user, so they are escaped before the
+// few markdown-style marks the UI supports are turned into HTML.
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// HTML for **bold**, *italic*, `code`, numbered and bulleted lines and line breaks; nothing else gets through
+export const formatExplanation = (text: string): string => {
+  if (!text) return text;
+
+  return escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code class="bg-purple-100 text-purple-800 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
+    .replace(/\n/g, '<br>')
+    .replace(/^\d+\.\s/gm, '<span class="font-semibold text-purple-600">$&</span>')
+    .replace(/^[-•]\s/gm, '<span class="text-purple-600">• </span>');
+};
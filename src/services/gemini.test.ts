@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QuizPreferences } from '../types';
+import { createJsonArrayStreamParser, generateQuiz, planQuizBatches, validateGeneratedQuestion } from './gemini';
+import { embedTexts, generateText } from './llm';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+vi.mock('./llm', () => ({ embedTexts: vi.fn(), generateText: vi.fn(), streamText: vi.fn() }));
+
+const multipleChoice = {
+  type: 'multiple-choice',
+  text: 'Which planet is largest?',
+  options: ['Mars', 'Jupiter', 'Venus', 'Earth'],
+  correctAnswer: 'Jupiter',
+  explanation: 'Jupiter has the greatest mass and radius.'
+};
+
+const multiSelect = {
+  type: 'multi-select',
+  text: 'Which are gas giants?',
+  options: ['Mars', 'Jupiter', 'Saturn', 'Earth', 'Venus', 'Mercury'],
+  correctOptions: ['Jupiter', 'Saturn'],
+  explanation: 'Jupiter and Saturn are mostly hydrogen and helium.'
+};
+
+const sequence = {
+  type: 'sequence',
+  text: 'Order the planets from the Sun.',
+  sequence: ['Earth', 'Mercury', 'Mars', 'Venus'],
+  correctSequence: ['Mercury', 'Venus', 'Earth', 'Mars'],
+  explanation: 'Mercury is closest.'
+};
+
+const longAnswer = {
+  type: 'long-answer',
+  text: 'Explain why Jupiter is so large.',
+  modelAnswer: 'It formed beyond the frost line and captured gas early.',
+  rubric: [{ criterion: 'Frost line', weight: 2 }, { criterion: 'Gas capture', weight: 1 }],
+  keywords: ['frost line', 'gas'],
+  wordLimit: 200,
+  explanation: 'Covers formation.'
+};
+
+// Validates against the question's own type unless other types are given
+const ruleFor = (q: unknown, types?: string[], groundingText?: string) =>
+  validateGeneratedQuestion(q, types ?? [String((q as { type?: unknown }).type)], groundingText)?.rule ?? null;
+
+describe('validateGeneratedQuestion', () => {
+  it('accepts well-formed questions of each shape', () => {
+    expect(ruleFor(multipleChoice)).toBeNull();
+    expect(ruleFor(multiSelect)).toBeNull();
+    expect(ruleFor(sequence)).toBeNull();
+    expect(ruleFor(longAnswer)).toBeNull();
+  });
+
+  it('rejects non-objects and items missing base fields', () => {
+    expect(ruleFor(null, ['multiple-choice'])).toBe('missing-base-fields');
+    expect(ruleFor('question', ['multiple-choice'])).toBe('missing-base-fields');
+    expect(ruleFor({ ...multipleChoice, explanation: '' })).toBe('missing-base-fields');
+  });
+
+  it('rejects types that were not requested', () => {
+    expect(ruleFor(multipleChoice, ['true-false'])).toBe('type-not-requested');
+  });
+
+  it('needs the multiple-choice answer to be one of the four options', () => {
+    expect(ruleFor({ ...multipleChoice, correctAnswer: 'Pluto' })).toBe('correct-answer-not-in-options');
+    expect(ruleFor({ ...multipleChoice, options: ['Mars', 'Jupiter'] })).toBe('multiple-choice-shape');
+  });
+
+  it('only accepts True and False, in that order, for true-false', () => {
+    const trueFalse = { type: 'true-false', text: 'Jupiter is a gas giant.', options: ['True', 'False'], correctAnswer: 'True', explanation: 'It is.' };
+    expect(ruleFor(trueFalse)).toBeNull();
+    expect(ruleFor({ ...trueFalse, options: ['False', 'True'] })).toBe('true-false-options');
+    expect(ruleFor({ ...trueFalse, correctAnswer: 'Yes' })).toBe('true-false-answer');
+  });
+
+  it('needs two or three multi-select answers taken from the options', () => {
+    expect(ruleFor({ ...multiSelect, correctOptions: ['Jupiter'] })).toBe('multi-select-correct-count');
+    expect(ruleFor({ ...multiSelect, correctOptions: ['Jupiter', 'Pluto'] })).toBe('multi-select-correct-not-in-options');
+    expect(ruleFor({ ...multiSelect, correctOptions: undefined })).toBe('multi-select-correct-missing');
+  });
+
+  it('needs the sequence steps to match the correct order step for step', () => {
+    expect(ruleFor({ ...sequence, correctSequence: ['Mercury', 'Venus', 'Earth'] })).toBe('sequence-length');
+    expect(ruleFor({ ...sequence, correctSequence: ['Mercury', 'Venus', 'Earth', 'Pluto'] })).toBe('sequence-steps-mismatch');
+  });
+
+  it('needs the fill-blank marker in the text', () => {
+    const fillBlank = { type: 'fill-blank', text: 'The largest planet is _____.', correctAnswer: 'Jupiter', keywords: ['Jupiter'], explanation: 'It is.' };
+    expect(ruleFor(fillBlank)).toBeNull();
+    expect(ruleFor({ ...fillBlank, text: 'The largest planet is?' })).toBe('fill-blank-marker');
+  });
+
+  it('checks the long-answer rubric weights and word limit', () => {
+    expect(ruleFor({ ...longAnswer, rubric: [{ criterion: 'Frost line', weight: 1 }] })).toBe('long-answer-rubric');
+    expect(ruleFor({ ...longAnswer, rubric: [{ criterion: 'Frost line', weight: 1 }, { criterion: 'Gas', weight: 0 }] })).toBe('long-answer-rubric');
+    expect(ruleFor({ ...longAnswer, wordLimit: 20 })).toBe('long-answer-word-limit');
+  });
+
+  it('requires Bloom level and skill only when the prompt asked for them', () => {
+    expect(validateGeneratedQuestion(multipleChoice, ['multiple-choice'], undefined, [], true)?.rule).toBe('cognitive-tags');
+    expect(validateGeneratedQuestion({ ...multipleChoice, bloomLevel: 'apply', skill: 'Comparing sizes' }, ['multiple-choice'], undefined, [], true)).toBeNull();
+  });
+
+  it('needs a source passage that appears in material-based quizzes', () => {
+    const grounding = 'jupiter is the largest planet in the solar system';
+    expect(ruleFor(multipleChoice, ['multiple-choice'], grounding)).toBe('source-passage-missing');
+    expect(ruleFor({ ...multipleChoice, sourcePassage: 'Saturn has rings.' }, ['multiple-choice'], grounding)).toBe('source-passage-not-found');
+    expect(ruleFor({ ...multipleChoice, sourcePassage: 'Jupiter is the LARGEST planet!' }, ['multiple-choice'], grounding)).toBeNull();
+  });
+
+  it('rejects media it cannot show', () => {
+    expect(ruleFor({ ...multipleChoice, media: { kind: 'image', image: 1, alt: 'Photo' } })).toBe('invalid-media');
+    expect(ruleFor({ ...multipleChoice, media: { kind: 'svg', svg: '<svg></svg>' } })).toBe('invalid-media');
+    expect(ruleFor({ ...multipleChoice, media: { kind: 'svg', svg: '<svg></svg>', alt: 'Blank' } })).toBeNull();
+  });
+});
+
+// Feeds the text to a fresh parser in the given chunks and returns the parsed items
+const parseChunks = (...chunks: string[]) => {
+  const items: unknown[] = [];
+  const parser = createJsonArrayStreamParser(rawItem => items.push(JSON.parse(rawItem)));
+  chunks.forEach(parser.push);
+  return { items, started: parser.hasStarted() };
+};
+
+describe('createJsonArrayStreamParser', () => {
+  it('hands over each item once its closing brace arrives, across chunk boundaries', () => {
+    const items: unknown[] = [];
+    const parser = createJsonArrayStreamParser(rawItem => items.push(JSON.parse(rawItem)));
+    parser.push('[{"text": "Fir');
+    expect(items).toEqual([]);
+    parser.push('st"}, {"text"');
+    expect(items).toEqual([{ text: 'First' }]);
+    parser.push(': "Second", "options": ["a", "b"]}]');
+    expect(items).toEqual([{ text: 'First' }, { text: 'Second', options: ['a', 'b'] }]);
+  });
+
+  it('ignores braces, brackets and escaped quotes inside strings', () => {
+    const { items } = parseChunks('[{"text": "Is \\"{x}\\" a [set]?", "a": "}"}', ', {"text": "ok\\\\"}]');
+    expect(items).toEqual([{ text: 'Is "{x}" a [set]?', a: '}' }, { text: 'ok\\' }]);
+  });
+
+  it('splits an escape sequence across chunks', () => {
+    const { items } = parseChunks('[{"text": "say \\', '"hi\\""}]');
+    expect(items).toEqual([{ text: 'say "hi"' }]);
+  });
+
+  it('skips bracketed prose before the array', () => {
+    const { items, started } = parseChunks('Here are [10] questions:\n[', '\n  {"text": "One"}]');
+    expect(started).toBe(true);
+    expect(items).toEqual([{ text: 'One' }]);
+  });
+
+  it('stops at the end of the array', () => {
+    const { items } = parseChunks('```json\n[{"text": "One"}]\n```\nAlso [{"text": "Extra"}]');
+    expect(items).toEqual([{ text: 'One' }]);
+  });
+
+  it('has not started when no array of objects arrives', () => {
+    expect(parseChunks('Sorry, I cannot [help] with that.').started).toBe(false);
+  });
+});
+
+const preferences: QuizPreferences = {
+  topic: 'Planets',
+  difficulty: 'medium',
+  questionCount: 10,
+  questionTypes: ['multiple-choice'],
+  language: 'English',
+  timeLimitEnabled: false,
+  mode: 'practice',
+  answerMode: 'immediate'
+};
+
+const batchSizes = (batches: ReturnType<typeof planQuizBatches>) =>
+  batches.map(batch => Object.values(batch.typeCounts).reduce((sum, count) => sum + (count || 0), 0));
+
+describe('planQuizBatches', () => {
+  it('keeps a quiz of up to ten questions in one request', () => {
+    const batches = planQuizBatches(preferences);
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject({ part: 1, totalParts: 1, typeCounts: { 'multiple-choice': 10 } });
+  });
+
+  it('splits larger quizzes into batches of ten with the remainder last', () => {
+    const batches = planQuizBatches({ ...preferences, questionCount: 25 });
+    expect(batchSizes(batches)).toEqual([10, 10, 5]);
+    expect(batches.map(batch => batch.part)).toEqual([1, 2, 3]);
+    expect(batches.every(batch => batch.totalParts === 3)).toBe(true);
+  });
+
+  it('uses batches of five when long case studies or situations are asked for', () => {
+    const batches = planQuizBatches({ ...preferences, questionCount: 12, questionTypes: ['multiple-choice', 'case-study'] });
+    expect(batchSizes(batches)).toEqual([5, 5, 2]);
+  });
+
+  it('spreads the types evenly over the whole quiz and each batch', () => {
+    const batches = planQuizBatches({ ...preferences, questionCount: 20, questionTypes: ['multiple-choice', 'true-false', 'fill-blank'] });
+    expect(batches.map(batch => batch.typeCounts)).toEqual([
+      { 'multiple-choice': 4, 'true-false': 3, 'fill-blank': 3 },
+      { 'multiple-choice': 3, 'true-false': 4, 'fill-blank': 3 }
+    ]);
+  });
+
+  it('leaves out types that do not fit in a small quiz', () => {
+    const batches = planQuizBatches({ ...preferences, questionCount: 2, questionTypes: ['multiple-choice', 'true-false', 'fill-blank'] });
+    expect(batches[0].typeCounts).toEqual({ 'multiple-choice': 1, 'true-false': 1 });
+  });
+
+  it('gives every batch a different focus', () => {
+    const batches = planQuizBatches({ ...preferences, questionCount: 50 });
+    expect(new Set(batches.map(batch => batch.focus)).size).toBe(batches.length);
+  });
+
+  it('plans nothing for an empty quiz', () => {
+    expect(planQuizBatches({ ...preferences, questionCount: 0 })).toEqual([]);
+  });
+});
+
+describe('generateQuiz past question check', () => {
+  const planets = ['Mercury', 'Venus', 'Mars'].map((planet, index) => ({
+    ...multipleChoice,
+    bloomLevel: 'remember',
+    skill: 'Recalling planets',
+    text: `Question ${index + 1}: which planet is ${['closest to', 'hottest near', 'red beside'][index]} ${planet}?`
+  }));
+
+  it('embeds and looks up a batch of questions with one call each', async () => {
+    vi.mocked(generateText).mockResolvedValueOnce(JSON.stringify(planets)).mockResolvedValue('[]');
+    vi.mocked(embedTexts).mockImplementation(async texts => ({ model: 'test', vectors: texts.map((_, index) => [index, 1]) }));
+    const findPastQuestions = vi.fn(async (embeddings: unknown[]) => embeddings.map((_, index) => index === 1 ? 'Seen it' : null));
+
+    const questions = await generateQuiz({ ...preferences, questionCount: 3 }, [], { findPastQuestions });
+
+    expect(embedTexts).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(embedTexts).mock.calls[0][0]).toHaveLength(3);
+    expect(findPastQuestions).toHaveBeenCalledTimes(1);
+    expect(questions.map(question => question.text)).toEqual([planets[0].text, planets[2].text]);
+  });
+});
@@ -1,611 +1,1073 @@
 // src/services/gemini.ts
-import { QuizPreferences, Question, QuizResult } from '../types';
+import { ChatMessage, CriterionGrade, ExplanationRequest, QuizPreferences, Question, QuestionEmbedding, QuestionType, QuestionVerification, QuizImage, QuizResult, RubricCriterion, StudyMaterial } from '../types';
+import { embedTexts, generateText, LlmImage, streamText } from './llm';
+import { AiError, AiMalformedOutputError, isAiCancelled } from './aiClient';
+import { quizPromptAsksForCognitiveTags, renderPrompt } from './prompts';
+import { isRecord, loadPromptImages, parseQuestionMedia } from './questionMedia';
+import { KEYWORD_MATCH_SCORE, isSettledMatch, matchTextAnswer } from './answerMatcher';
+import { parseBloomLevel } from './bloom';
 
-// Function to generate quiz questions using Gemini API
-export const generateQuiz = async (
-  apiKey: string,
-  preferences: QuizPreferences,
-  historicalQuestions: string[] = [] // Added new parameter
-): Promise<Question[]> => {
-  const { course, topic, subtopic, questionCount, questionTypes, language: quizLanguage, difficulty } = preferences;
-
-  // Generate a unique seed based on current timestamp and random factors
-  const uniqueSeed = Date.now() + Math.random() * 1000000;
-  const sessionId = Math.random().toString(36).substring(2, 15);
-  
-  // Create variety indicators
-  const varietyPrompts = [
-    "Focus on practical applications and real-world scenarios",
-    "Emphasize theoretical concepts and fundamental principles", 
-    "Include problem-solving and analytical thinking questions",
-    "Cover historical context and evolution of concepts",
-    "Focus on current trends and modern developments",
-    "Include comparative analysis and critical thinking",
-    "Emphasize hands-on implementation and technical details",
-    "Cover interdisciplinary connections and broader implications"
-  ];
-  
-  const selectedVariety = varietyPrompts[Math.floor(Math.random() * varietyPrompts.length)];
-  
-  // Add historical questions to the prompt to avoid repetition
-  let historicalAvoidancePrompt = '';
-  if (historicalQuestions.length > 0) {
-    historicalAvoidancePrompt = `
-CRITICAL REPETITION AVOIDANCE:
-DO NOT generate questions that are similar in concept, phrasing, or core idea to the following past questions. Focus on semantic uniqueness, not just lexical differences. Avoid re-using the same examples or scenarios.
-${historicalQuestions.map((q, index) => `${index + 1}. ${q}`).join('\n')}
-`;
-  }
+// One failed validation rule for one generated question
+export type QuestionValidationIssue = {
+  index: number;   // Position of the question in the model output
+  type: string;
+  rule: string;    // Stable rule id, e.g. 'multi-select-correct-count'
+  message: string;
+  repaired: boolean;
+};
 
-  // Advanced prompt with variety mechanisms
-  const prompt = `QUIZ GENERATION SESSION: ${sessionId} | VARIETY SEED: ${uniqueSeed}
-
-Generate a UNIQUE and DIVERSE premium-quality quiz about "${course}${topic ? ` - ${topic}` : ''}${subtopic ? ` (${subtopic})` : ''}" with exactly ${questionCount} questions.
-
-CRITICAL UNIQUENESS REQUIREMENTS:
-1. VARIETY FOCUS: ${selectedVariety}
-2. RANDOMIZATION SEED: ${uniqueSeed} - Use this to ensure different question angles
-3. AVOID COMMON PATTERNS: Do not use typical textbook examples or standard questions
-4. PERSPECTIVE SHIFTS: Approach topics from multiple angles (practical, theoretical, historical, futuristic)
-5. DIFFICULTY VARIATION: Within ${difficulty} level, vary complexity from basic to advanced
-6. CONTEXT DIVERSITY: Use different scenarios, industries, time periods, and applications
-7. QUESTION STEM VARIETY: Use different question formats and phrasings
-8. CONTENT DEPTH: Mix surface-level and deep conceptual understanding
-
-ADVANCED QUESTION DIVERSIFICATION:
-- Use different cognitive levels: Remember, Understand, Apply, Analyze, Evaluate, Create
-- Include questions from different subtopics within the main topic
-- Vary the context: academic, professional, personal, societal applications
-- Use different time frames: historical, current, future implications
-- Include interdisciplinary connections where relevant
-- Mix concrete examples with abstract concepts
-- Use different cultural and geographical contexts when appropriate
-
-UNIQUENESS MECHANISMS:
-1. Question Angles: Approach each concept from unexpected angles
-2. Scenario Variety: Use diverse real-world scenarios and case studies
-3. Temporal Diversity: Include past, present, and future implications
-4. Scale Variation: Mix micro and macro level questions
-5. Application Contexts: Use different industries, situations, and environments
-6. Cognitive Complexity: Vary the thinking processes required
-
-${historicalAvoidancePrompt}
-
-STRICT COMMERCIAL REQUIREMENTS:
-1. CORE PARAMETERS:
-- Course/Stream: ${course}
-${topic ? `- Topic: ${topic}` : '- Topic: General concepts and principles'}
-${subtopic ? `- Subtopic: ${subtopic}` : ''}
-- Language: ${quizLanguage} (flawless grammar)
-- Difficulty: ${difficulty} (with natural variation)
-- Question Types: ONLY ${questionTypes.join(', ')} - DO NOT include any other question types
-- Each question must be unique and not repetitive
-- Include practical applications and real-world scenarios
-- Ensure progressive complexity within the chosen difficulty level
-- AVOID standard textbook questions - be creative and original
-
-2. STRICT QUESTION TYPE REQUIREMENTS:
-
-For multiple-choice:
-- MUST have "text": clear, complete question
-- MUST have "options": array of EXACTLY 4 distinct, complete answers
-- MUST have "correctAnswer": exact match of the correct option
-- MUST have "explanation": detailed explanation of why the answer is correct
-- Ensure the 'correctAnswer' is NOT always the first option in the 'options' array. Randomize the order of options for each question.
-Example:
-{
-  "type": "multiple-choice",
-  "text": "What is the primary function of a CPU in a computer system?",
-  "options": [
-    "Execute instructions and perform calculations",
-    "Store long-term data permanently",
-    "Display graphics on the monitor",
-    "Connect to the internet"
-  ],
-  "correctAnswer": "Execute instructions and perform calculations",
-  "explanation": "The CPU (Central Processing Unit) is the brain of the computer..."
-}
+export class QuizValidationError extends Error {
+  issues: QuestionValidationIssue[];
 
-For true-false:
-- MUST have "text": clear, complete statement to evaluate
-- MUST have "options": ["True", "False"]
-- MUST have "correctAnswer": either "True" or "False"
-- MUST have "explanation": detailed explanation of why true or false
-Example:
-{
-  "type": "true-false",
-  "text": "The binary number system uses only 0s and 1s.",
-  "options": ["True", "False"],
-  "correctAnswer": "True",
-  "explanation": "The binary number system is a base-2 system..."
+  constructor(message: string, issues: QuestionValidationIssue[]) {
+    super(message);
+    this.name = 'QuizValidationError';
+    this.issues = issues;
+  }
 }
 
-For multi-select:
-- MUST have "text": clear question specifying "Select all that apply"
-- MUST have "options": array of EXACTLY 6 complete, distinct options
-- MUST have "correctOptions": array of EXACTLY 2 OR 3 correct options (no more, no less)
-- MUST have "explanation": explain why each correct option is right AND why others are wrong
-Example:
-{
-  "type": "multi-select",
-  "text": "Which of the following are object-oriented programming languages? (Select all that apply)",
-  "options": [
-    "Java",
-    "C",
-    "Python",
-    "Assembly",
-    "Ruby",
-    "COBOL"
-  ],
-  "correctOptions": ["Java", "Python", "Ruby"],
-  "explanation": "Java, Python, and Ruby are object-oriented languages because they support encapsulation, inheritance, and polymorphism. C is procedural, Assembly is low-level, and COBOL is primarily procedural."
-}
+export type GenerateQuizOptions = {
+  onValidationReport?: (issues: QuestionValidationIssue[]) => void;
+  // When set, the quiz is streamed and each validated question is delivered as soon as it is complete
+  onQuestion?: (question: Question) => void;
+  // Aborting stops every outstanding request and rejects with AiCancelledError
+  signal?: AbortSignal;
+  // Looks up, for each embedding, the closest question the user has already seen at or above the similarity
+  // threshold, resolving with its text or null in the same order; matches are rejected and replaced
+  findPastQuestions?: (embeddings: QuestionEmbedding[], threshold: number) => Promise<(string | null)[]>;
+  // Version of the quiz-generation prompt to use; defaults to the active one
+  promptVersion?: number;
+};
 
-For sequence:
-- MUST have "text": clear instruction about what to sequence
-- MUST have "sequence": array of 4-6 complete steps in RANDOM order
-- MUST have "correctSequence": same steps in CORRECT order
-- MUST have "explanation": explain the logic behind EACH step in the sequence
-Example:
-{
-  "type": "sequence",
-  "text": "Arrange the following steps of the TCP three-way handshake in the correct order:",
-  "sequence": [
-    "Client sends ACK",
-    "Server sends SYN-ACK",
-    "Client sends SYN",
-    "Connection established"
-  ],
-  "correctSequence": [
-    "Client sends SYN",
-    "Server sends SYN-ACK",
-    "Client sends ACK",
-    "Connection established"
-  ],
-  "explanation": "1. Client initiates with SYN to request connection\\n2. Server acknowledges and sends its own SYN\\n3. Client acknowledges server's SYN\\n4. Connection is now established and ready for data transfer"
-}
+type ValidationFailure = { rule: string; message: string };
 
-For case-study:
-- MUST have "text": brief introduction
-- MUST have "caseStudy": detailed scenario description (minimum 100 words)
-- MUST have "question": specific question about the case
-- MUST have "options": array of EXACTLY 4 possible solutions
-- MUST have "correctAnswer": the best solution (exact match)
-- MUST have "explanation": detailed analysis of ALL options
-Example:
-{
-  "type": "case-study",
-  "text": "Analyze this e-commerce system scaling scenario:",
-  "caseStudy": "An e-commerce platform experiences sudden traffic spikes during flash sales, causing system slowdowns and occasional crashes. The current architecture uses a monolithic application deployed on a single server with a PostgreSQL database. During peak times, the server CPU reaches 100% utilization, database connections are exhausted, and the application becomes unresponsive. The company wants to handle 10x more concurrent users while maintaining response times under 500ms.",
-  "question": "What is the most effective immediate solution to handle the traffic spikes?",
-  "options": [
-    "Implement horizontal scaling with load balancing",
-    "Upgrade to a more powerful server",
-    "Switch to a NoSQL database",
-    "Add application caching"
-  ],
-  "correctAnswer": "Implement horizontal scaling with load balancing",
-  "explanation": "Analysis of each option:\\n1. Horizontal scaling with load balancing: Best immediate solution as it provides linear scalability, high availability, and can handle traffic spikes effectively.\\n2. Upgrading server: Temporary solution that doesn't solve the fundamental scalability issue and has physical limitations.\\n3. Switching to NoSQL: Major architectural change that doesn't address the immediate CPU bottleneck and requires significant development effort.\\n4. Adding caching: Helpful but insufficient alone for handling concurrent user load and CPU bottleneck."
-}
+// A model item that passed validateGeneratedQuestion; which optional fields are set depends on the type
+type GeneratedQuestion = {
+  type: QuestionType;
+  text: string;
+  explanation: string;
+  question?: string;
+  caseStudy?: string;
+  situation?: string;
+  options?: string[];
+  correctAnswer?: string;
+  correctOptions?: string[];
+  sequence?: string[];
+  correctSequence?: string[];
+  keywords?: string[];
+  modelAnswer?: string;
+  rubric?: RubricCriterion[];
+  wordLimit?: number;
+  difficulty?: unknown;
+  concept?: string;
+  bloomLevel?: unknown;
+  skill?: unknown;
+  sourcePassage?: string;
+  media?: unknown;
+};
 
-For situation:
-- MUST have "text": brief introduction
-- MUST have "situation": detailed scenario description (minimum 100 words)
-- MUST have "question": specific question about the situation
-- MUST have "options": array of EXACTLY 4 possible actions
-- MUST have "correctAnswer": most appropriate action (exact match)
-- MUST have "explanation": detailed analysis of ALL options and their consequences
-Example:
-{
-  "type": "situation",
-  "text": "Handle a critical production incident:",
-  "situation": "You're the lead developer on call when a critical alert triggers at 2 AM. The company's main API is returning 500 errors for 30% of requests, affecting multiple major clients. Initial logs show increased database connection timeouts and memory usage spikes. The last deployment was 6 hours ago, which included both database schema changes and new API endpoints. The backup from 12 hours ago is available, but restoring it would lose 12 hours of customer data. Client impact is estimated at $50,000 per hour of downtime.",
-  "question": "What should be your first action?",
-  "options": [
-    "Immediately roll back the last deployment",
-    "Scale up database resources",
-    "Analyze logs and metrics for root cause",
-    "Restore from the latest backup"
-  ],
-  "correctAnswer": "Analyze logs and metrics for root cause",
-  "explanation": "Analysis of each action and its consequences:\\n1. Rolling back immediately: Risky without understanding the issue, could cause data inconsistencies and might not solve the problem if it's unrelated to the deployment.\\n2. Scaling database resources: Premature solution without understanding if database is the real bottleneck and wastes time and resources if the issue lies elsewhere.\\n3. Analyzing logs and metrics: Best first action as it quickly identifies the root cause, minimizes risk, and ensures the correct solution is implemented.\\n4. Restoring backup: Most disruptive option with guaranteed data loss, should only be used as a last resort after other options are exhausted."
-}
+// Lowercased text with punctuation and spacing flattened, so quoted passages can be matched loosely
+const comparableText = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
 
-For short-answer:
-- MUST have "text": clear, specific question
-- MUST have "correctAnswer": concise, accurate answer (1-3 words typically)
-- MUST have "explanation": detailed explanation of the answer
-- MUST have "keywords": array of key terms that should be present in a correct answer
-Example:
-{
-  "type": "short-answer",
-  "text": "What is the time complexity of binary search algorithm?",
-  "correctAnswer": "O(log n)",
-  "explanation": "Binary search has O(log n) time complexity because it eliminates half of the remaining elements in each iteration, resulting in a logarithmic number of comparisons.",
-  "keywords": ["O(log n)", "logarithmic", "log n"]
-}
+// Returns the first rule a generated question breaks, or null if it is usable as-is.
+// groundingText is the study material run through comparableText, for material-based quizzes;
+// images are the user's uploads that image questions refer to by number; requireCognitiveTags is set for
+// prompt versions that ask for bloomLevel and skill
+export const validateGeneratedQuestion = (
+  q: unknown,
+  questionTypes: string[],
+  groundingText?: string,
+  images: QuizImage[] = [],
+  requireCognitiveTags = false
+): ValidationFailure | null => {
+  if (!isRecord(q) || typeof q.text !== 'string' || !q.text || typeof q.type !== 'string' || !q.type || !q.explanation) {
+    return { rule: 'missing-base-fields', message: 'Missing required base fields (text, type, or explanation)' };
+  }
 
-For fill-blank:
-- MUST have "text": sentence with ONE blank marked as _____ 
-- MUST have "correctAnswer": the word/phrase that fills the blank
-- MUST have "explanation": detailed explanation
-- MUST have "keywords": array of acceptable variations of the answer
-Example:
-{
-  "type": "fill-blank",
-  "text": "The _____ design pattern ensures that a class has only one instance and provides global access to it.",
-  "correctAnswer": "Singleton",
-  "explanation": "The Singleton pattern restricts instantiation of a class to one object and provides a global point of access to that instance.",
-  "keywords": ["Singleton", "singleton"]
-}
+  if (!questionTypes.includes(q.type)) {
+    return { rule: 'type-not-requested', message: `Question type "${q.type}" was not requested` };
+  }
 
-CRITICAL REQUIREMENTS:
-1. Every question MUST include:
-   - Complete "text" field with clear question
-   - Appropriate fields for its type (see examples)
-   - Detailed "explanation" field
-   - All text in ${quizLanguage}
-
-2. Format as valid JSON array with no trailing commas
-3. Use double quotes for strings
-4. Escape quotes within strings
-5. No text outside the JSON array
-6. No missing or null fields
-7. For multi-select questions, ALWAYS include EXACTLY 2 OR 3 correct options - no more, no less
-8. For sequence questions, ALWAYS provide step-by-step explanation
-9. For case-study and situation questions, ALWAYS include detailed scenario (100+ words)
-10. ALWAYS analyze ALL options in explanations for case-study and situation questions
-11. For short-answer and fill-blank questions, ALWAYS include keywords array for flexible matching
-12. CRITICAL: Generate ONLY questions of the specified types: ${questionTypes.join(', ')}`;
+  switch (q.type) {
+    case 'multiple-choice':
+      if (!Array.isArray(q.options) || q.options.length !== 4 || !q.correctAnswer) {
+        return { rule: 'multiple-choice-shape', message: 'Multiple-choice must have exactly 4 options and a correctAnswer' };
+      }
+      if (!q.options.includes(q.correctAnswer)) {
+        return { rule: 'correct-answer-not-in-options', message: 'correctAnswer must match one of the options exactly' };
+      }
+      break;
+
+    case 'true-false':
+      if (!Array.isArray(q.options) || q.options.length !== 2 || 
+          q.options[0] !== 'True' || q.options[1] !== 'False') {
+        return { rule: 'true-false-options', message: 'True-false must have options ["True", "False"]' };
+      }
+      if (q.correctAnswer !== 'True' && q.correctAnswer !== 'False') {
+        return { rule: 'true-false-answer', message: 'correctAnswer must be "True" or "False"' };
+      }
+      break;
 
+    case 'multi-select': {
+      if (!Array.isArray(q.options) || q.options.length !== 6) {
+        return { rule: 'multi-select-options', message: 'Multi-select must have exactly 6 options' };
+      }
+      const options: unknown[] = q.options;
+      if (!Array.isArray(q.correctOptions)) {
+        return { rule: 'multi-select-correct-missing', message: 'Multi-select must have a correctOptions array' };
+      }
+      if (q.correctOptions.length < 2 || q.correctOptions.length > 3) {
+        return { rule: 'multi-select-correct-count', message: `Must have exactly 2 or 3 correct options (found ${q.correctOptions.length})` };
+      }
+      if (!q.correctOptions.every((opt: unknown) => options.includes(opt))) {
+        return { rule: 'multi-select-correct-not-in-options', message: 'correctOptions must match options exactly' };
+      }
+      break;
+    }
+
+    case 'sequence': {
+      if (!Array.isArray(q.sequence) || !Array.isArray(q.correctSequence)) {
+        return { rule: 'sequence-arrays', message: 'Sequence must have sequence and correctSequence arrays' };
+      }
+      if (q.sequence.length < 4 || q.sequence.length > 6 || 
+          q.sequence.length !== q.correctSequence.length) {
+        return { rule: 'sequence-length', message: 'Sequence must have 4-6 matching steps in sequence and correctSequence' };
+      }
+      // Verify all steps exist in both arrays
+      const sequenceSet = new Set([...q.sequence, ...q.correctSequence]);
+      if (sequenceSet.size !== q.sequence.length) {
+        return { rule: 'sequence-steps-mismatch', message: 'sequence and correctSequence must contain the same steps' };
+      }
+      break;
+    }
+
+    case 'case-study':
+      if (typeof q.caseStudy !== 'string' || !q.caseStudy || !q.question || !Array.isArray(q.options) || 
+          q.options.length !== 4 || !q.correctAnswer) {
+        return { rule: 'case-study-shape', message: 'Case-study must have caseStudy, question, exactly 4 options, and correctAnswer' };
+      }
+      if (q.caseStudy.length < 100) {
+        return { rule: 'case-study-length', message: 'Case study description must be at least 100 characters' };
+      }
+      if (!q.options.includes(q.correctAnswer)) {
+        return { rule: 'correct-answer-not-in-options', message: 'correctAnswer must match one of the options exactly' };
+      }
+      break;
+
+    case 'situation':
+      if (typeof q.situation !== 'string' || !q.situation || !q.question || !Array.isArray(q.options) || 
+          q.options.length !== 4 || !q.correctAnswer) {
+        return { rule: 'situation-shape', message: 'Situation must have situation, question, exactly 4 options, and correctAnswer' };
+      }
+      if (q.situation.length < 100) {
+        return { rule: 'situation-length', message: 'Situation description must be at least 100 characters' };
+      }
+      if (!q.options.includes(q.correctAnswer)) {
+        return { rule: 'correct-answer-not-in-options', message: 'correctAnswer must match one of the options exactly' };
+      }
+      break;
+
+    case 'short-answer':
+      if (!q.correctAnswer || !Array.isArray(q.keywords)) {
+        return { rule: 'short-answer-shape', message: 'Short-answer must have correctAnswer and keywords array' };
+      }
+      break;
+
+    case 'long-answer':
+      if (!q.modelAnswer || !Array.isArray(q.rubric) || !Array.isArray(q.keywords)) {
+        return { rule: 'long-answer-shape', message: 'Long-answer must have modelAnswer, rubric and keywords arrays' };
+      }
+      if (q.rubric.length < 2 || q.rubric.length > 6 ||
+          !q.rubric.every((item: { criterion?: unknown; weight?: unknown }) =>
+            typeof item?.criterion === 'string' && item.criterion.trim() && typeof item.weight === 'number' && item.weight > 0)) {
+        return { rule: 'long-answer-rubric', message: 'Rubric must have 2-6 criteria, each with criterion text and a positive numeric weight' };
+      }
+      if (typeof q.wordLimit !== 'number' || q.wordLimit < 50 || q.wordLimit > 1000) {
+        return { rule: 'long-answer-word-limit', message: 'wordLimit must be a number between 50 and 1000' };
+      }
+      break;
+
+    case 'fill-blank':
+      if (!q.correctAnswer || !Array.isArray(q.keywords)) {
+        return { rule: 'fill-blank-shape', message: 'Fill-blank must have correctAnswer and keywords array' };
+      }
+      if (!q.text.includes('_____')) {
+        return { rule: 'fill-blank-marker', message: 'Fill-blank text must contain _____' };
+      }
+      break;
+  }
+
+  if (requireCognitiveTags && (!parseBloomLevel(q.bloomLevel) || typeof q.skill !== 'string' || !q.skill.trim())) {
+    return { rule: 'cognitive-tags', message: 'Question must include a valid bloomLevel and a skill label' };
+  }
+
+  if (groundingText !== undefined) {
+    if (typeof q.sourcePassage !== 'string' || !q.sourcePassage.trim()) {
+      return { rule: 'source-passage-missing', message: 'Question must include the sourcePassage it is based on' };
+    }
+    if (!groundingText.includes(comparableText(q.sourcePassage))) {
+      return { rule: 'source-passage-not-found', message: 'sourcePassage must be copied verbatim from the study material' };
+    }
+  }
+
+  // The question text refers to its diagram, so a broken one cannot just be dropped
+  if (q.media != null && !parseQuestionMedia(q.media, images)) {
+    return { rule: 'invalid-media', message: 'media must be a valid image reference, self-contained <svg> or chart spec with alt text' };
+  }
+
+  return null;
+};
+
+// Pulls the first JSON array of objects out of a model response, skipping bracketed prose before it
+const extractQuestionArray = (generatedText: string): unknown[] => {
+  const jsonMatch = generatedText.match(/\[\s*\{[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new AiMalformedOutputError('No JSON array found in the response');
+  }
+
+  let questions: unknown;
   try {
-    // First try the edge function
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.0 // Lower temperature for more consistent output
-      })
-    });
+    questions = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.error('Parse error:', error);
+    throw new AiMalformedOutputError(`Failed to parse generated questions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    throw new AiMalformedOutputError('Expected a non-empty array of questions');
+  }
+  return questions;
+};
 
-    if (!response.ok) {
-      // --- START MODIFICATION ---
-      if (response.status === 503 || response.status === 429) {
-        throw new Error('Gemini API limit reached or service unavailable. Please try again after some time.');
+// Incrementally scans a streamed JSON array and hands over the raw text of each
+// top-level element as soon as its closing brace arrives
+export const createJsonArrayStreamParser = (onItem: (rawItem: string) => void) => {
+  let buffer = '';
+  let position = 0;
+  let started = false;
+  let finished = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  const push = (chunk: string) => {
+    if (finished) return;
+    buffer += chunk;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      // The array starts at the first "[" that opens an object, so bracketed prose before it is skipped
+      if (!started) {
+        if (char !== '[') continue;
+        const next = buffer.slice(position + 1).match(/\S/);
+        if (!next) break; // Wait for the next chunk to see what follows
+        if (next[0] === '{') started = true;
+        continue;
       }
-      // --- END MODIFICATION ---
-      // Try to get detailed error message from response
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        if (errorData.error) {
-          errorMessage = `Gemini API error: ${errorData.error}`;
-        } else if (errorData.message) {
-          errorMessage = `API error: ${errorData.message}`;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
         }
-      } catch (parseError) {
-        // If we can't parse the error response, try to get text
-        try {
-          const errorText = await response.text();
-          if (errorText) {
-            errorMessage = `API error: ${errorText}`;
-          }
-        } catch (textError) {
-          // Keep the original HTTP error message
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) itemStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) {
+          // Closing bracket of the outer array
+          finished = true;
+          break;
+        }
+        depth--;
+        if (depth === 0 && itemStart >= 0) {
+          onItem(buffer.slice(itemStart, position + 1));
+          itemStart = -1;
         }
       }
-      throw new Error(`Failed to generate quiz: ${errorMessage}`);
     }
 
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API - no content generated');
+    // Drop text that has already been handed over
+    const keepFrom = itemStart >= 0 ? itemStart : position;
+    buffer = buffer.slice(keepFrom);
+    position -= keepFrom;
+    if (itemStart >= 0) itemStart = 0;
+  };
+
+  return {
+    push,
+    hasStarted: () => started,
+  };
+};
+
+const SIMILARITY_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'was', 'were', 'be',
+  'which', 'what', 'how', 'why', 'when', 'that', 'this', 'with', 'by', 'as', 'at', 'from', 'following'
+]);
+const NEAR_DUPLICATE_THRESHOLD = 0.65;
+
+const questionTokens = (q: GeneratedQuestion): Set<string> => {
+  const text = `${q.text || ''} ${q.question || ''}`.toLowerCase();
+  return new Set(
+    text
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 1 && !SIMILARITY_STOP_WORDS.has(token))
+  );
+};
+
+// Jaccard overlap of the question stems; catches reworded repeats across batches
+const isNearDuplicate = (a: Set<string>, b: Set<string>): boolean => {
+  if (a.size === 0 || b.size === 0) return false;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared) >= NEAR_DUPLICATE_THRESHOLD;
+};
+
+const SEMANTIC_DUPLICATE_THRESHOLD = 0.9;
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// True when the embedding paraphrases any of the given ones; vectors from other models are ignored
+const isSemanticDuplicate = (embedding: QuestionEmbedding, others: QuestionEmbedding[]): boolean =>
+  others.some(other =>
+    other.model === embedding.model && cosineSimilarity(other.vector, embedding.vector) >= SEMANTIC_DUPLICATE_THRESHOLD
+  );
+
+const embeddingText = (q: { text?: string; question?: string }): string => [q.text, q.question].filter(Boolean).join('\n');
+
+const toQuestion = (
+  q: GeneratedQuestion,
+  index: number,
+  language: QuizPreferences['language'],
+  extras: Pick<Question, 'embedding' | 'verification' | 'media'> = {}
+): Question => ({
+  id: index + 1,
+  text: q.text,
+  type: q.type,
+  options: q.options,
+  correctAnswer: q.correctAnswer,
+  explanation: q.explanation,
+  difficulty: typeof q.difficulty === 'string' ? q.difficulty.toLowerCase().trim() : q.difficulty,
+  caseStudy: q.caseStudy,
+  situation: q.situation,
+  question: q.question,
+  sequence: q.sequence,
+  correctSequence: q.correctSequence,
+  correctOptions: q.correctOptions,
+  keywords: q.keywords,
+  modelAnswer: q.modelAnswer,
+  rubric: q.rubric,
+  wordLimit: q.wordLimit,
+  concept: q.concept,
+  bloomLevel: parseBloomLevel(q.bloomLevel) || undefined,
+  skill: typeof q.skill === 'string' ? q.skill.trim() : undefined,
+  sourcePassage: q.sourcePassage,
+  ...extras,
+  language
+}) as Question;
+
+// Sub-focus hints; batches of a large quiz each get a different one so they cover different ground
+const VARIETY_FOCUSES = [
+  "Focus on practical applications and real-world scenarios",
+  "Emphasize theoretical concepts and fundamental principles", 
+  "Include problem-solving and analytical thinking questions",
+  "Cover historical context and evolution of concepts",
+  "Focus on current trends and modern developments",
+  "Include comparative analysis and critical thinking",
+  "Emphasize hands-on implementation and technical details",
+  "Cover interdisciplinary connections and broader implications"
+];
+
+// Larger quizzes are split into parallel batches so a single response does not hit the output token limit
+const MAX_QUESTIONS_PER_BATCH = 10;
+const MAX_LONG_FORM_QUESTIONS_PER_BATCH = 5;
+const LONG_FORM_TYPES: QuestionType[] = ['case-study', 'situation'];
+
+type QuizBatch = {
+  part: number;
+  totalParts: number;
+  focus: string;
+  typeCounts: Partial<Record<QuestionType, number>>;
+};
+
+// Spreads questionCount evenly over the requested types, then deals them out to batches
+export const planQuizBatches = (preferences: QuizPreferences): QuizBatch[] => {
+  const { questionCount, questionTypes } = preferences;
+  const batchSize = questionTypes.some(type => LONG_FORM_TYPES.includes(type))
+    ? MAX_LONG_FORM_QUESTIONS_PER_BATCH
+    : MAX_QUESTIONS_PER_BATCH;
+
+  // Interleave types so every batch gets a similar mix
+  const slots: QuestionType[] = Array.from({ length: questionCount }, (_, index) => questionTypes[index % questionTypes.length]);
+  const totalParts = Math.ceil(questionCount / batchSize);
+  const focusOffset = Math.floor(Math.random() * VARIETY_FOCUSES.length);
+
+  return Array.from({ length: totalParts }, (_, part) => {
+    const typeCounts: Partial<Record<QuestionType, number>> = {};
+    slots.slice(part * batchSize, (part + 1) * batchSize).forEach(type => {
+      typeCounts[type] = (typeCounts[type] || 0) + 1;
+    });
+    return {
+      part: part + 1,
+      totalParts,
+      focus: VARIETY_FOCUSES[(focusOffset + part) % VARIETY_FOCUSES.length],
+      typeCounts
+    };
+  });
+};
+
+// The verifier only sees what a student sees, so it solves the question independently of the key
+const studentView = (
+  q: Pick<GeneratedQuestion, 'type' | 'caseStudy' | 'situation' | 'text' | 'question' | 'options' | 'sequence' | 'media'>
+): Record<string, unknown> => ({
+  type: q.type,
+  caseStudy: q.caseStudy,
+  situation: q.situation,
+  text: q.text,
+  question: q.question,
+  options: q.options,
+  sequence: q.sequence,
+  media: q.media
+});
+
+const sameAnswer = (a: unknown, b: unknown): boolean =>
+  typeof a === 'string' && typeof b === 'string' && comparableText(a) === comparableText(b);
+
+// Compares the verifier's independent answer with the generated answer key
+const matchesAnswerKey = (q: GeneratedQuestion, answer: unknown): boolean => {
+  switch (q.type) {
+    case 'multi-select': {
+      const correctOptions = q.correctOptions || [];
+      return Array.isArray(answer) &&
+        answer.length === correctOptions.length &&
+        correctOptions.every(option => answer.some(given => sameAnswer(given, option)));
+    }
+    case 'sequence': {
+      const correctSequence = q.correctSequence || [];
+      return Array.isArray(answer) &&
+        answer.length === correctSequence.length &&
+        answer.every((step, index) => sameAnswer(step, correctSequence[index]));
+    }
+    case 'short-answer':
+    case 'fill-blank': {
+      // Free-text answers are phrased differently, so containment either way counts as agreement
+      const given = typeof answer === 'string' ? comparableText(answer) : '';
+      if (!given) return false;
+      return [q.correctAnswer, ...(q.keywords || [])]
+        .map(accepted => comparableText(String(accepted || '')))
+        .some(accepted => accepted && (given.includes(accepted) || accepted.includes(given)));
     }
+    default:
+      return sameAnswer(answer, q.correctAnswer);
+  }
+};
 
-    const generatedText = data.candidates[0].content.parts[0].text;
-    
-    // Extract JSON from the response text
-    const jsonMatch = generatedText.match(/\[[\s\S]*\]/);
+// Second AI pass: solves the question blind and flags it if the key disagrees or it is ambiguous
+const verifyGeneratedQuestion = async (
+  q: GeneratedQuestion,
+  language: string,
+  material: StudyMaterial | null,
+  images: LlmImage[],
+  signal?: AbortSignal
+): Promise<QuestionVerification> => {
+  try {
+    const responseText = await generateText({
+      prompt: renderPrompt('answer-verification', { question: studentView(q), questionType: q.type, language, material }),
+      images,
+      temperature: 0.0,
+      signal,
+      feature: 'answer-verification'
+    });
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
-      throw new Error('No valid JSON found in Gemini response. Please check your API key and try again.');
+      throw new Error('No JSON object in verifier response');
     }
+    const verdict = JSON.parse(jsonMatch[0]);
 
-    try {
-      const questions = JSON.parse(jsonMatch[0]);
-      
-      if (!Array.isArray(questions) || questions.length === 0) {
-        throw new Error('Invalid questions format - expected array of questions');
-      }
+    if (verdict.ambiguous === true) {
+      return { status: 'flagged', note: verdict.note || 'More than one answer could be defended' };
+    }
+    if (!matchesAnswerKey(q, verdict.answer)) {
+      const verifierAnswer = Array.isArray(verdict.answer) ? verdict.answer.join(', ') : String(verdict.answer ?? '');
+      return { status: 'flagged', note: verdict.note || `An independent check answered "${verifierAnswer}"` };
+    }
+    return { status: 'verified' };
+  } catch (error) {
+    if (isAiCancelled(error)) throw error;
+    console.warn('Question verification failed:', error);
+    return { status: 'unverified' };
+  }
+};
 
-      // Filter questions to ensure only requested types are included
-      const filteredQuestions = questions.filter((q: any) => 
-        questionTypes.includes(q.type)
-      );
+// Function to generate quiz questions using Gemini API
+export const generateQuiz = async (
+  preferences: QuizPreferences,
+  coveredConcepts: string[] = [],
+  options: GenerateQuizOptions = {}
+): Promise<Question[]> => {
+  const { questionCount, questionTypes, language: quizLanguage } = preferences;
+  const material = preferences.source === 'material' && preferences.material?.text ? preferences.material : null;
+  const groundingText = material ? comparableText(material.text) : undefined;
+  const requireCognitiveTags = quizPromptAsksForCognitiveTags(options.promptVersion);
+  const quizImages = preferences.images || [];
+  let promptImages: LlmImage[] = [];
+
+  const requestQuestions = async (prompt: string): Promise<unknown[]> => {
+    const generatedText = await generateText({
+      prompt,
+      images: promptImages,
+      temperature: 0.0, // Lower temperature for more consistent output
+      signal: options.signal,
+      feature: 'quiz-generation'
+    });
+    return extractQuestionArray(generatedText);
+  };
+
+  const isUsable = (q: unknown): q is GeneratedQuestion =>
+    !validateGeneratedQuestion(q, questionTypes, groundingText, quizImages, requireCognitiveTags);
+
+  try {
+    promptImages = await loadPromptImages(quizImages, options.signal);
+    const batches = planQuizBatches(preferences);
+    const isBatched = batches.length > 1;
+
+    // In batched runs each type is capped at its planned share so the merged quiz keeps the requested mix
+    const typeQuota: Partial<Record<QuestionType, number>> = {};
+    batches.forEach(batch => {
+      Object.entries(batch.typeCounts).forEach(([type, count]) => {
+        typeQuota[type as QuestionType] = (typeQuota[type as QuestionType] || 0) + (count || 0);
+      });
+    });
+
+    const accepted: GeneratedQuestion[] = [];
+    const acceptedTokens: Set<string>[] = [];
+    const embeddings = new Map<GeneratedQuestion, QuestionEmbedding>();
+    const verifications = new Map<GeneratedQuestion, QuestionVerification>();
+    const disputed: GeneratedQuestion[] = []; // Flagged by the verifier; only used if no replacement can be found
+    const pendingChecks: Promise<boolean>[] = [];
+    const pastMatches = new Map<GeneratedQuestion, string | null>();
+    let pastCheckEnabled = !!options.findPastQuestions;
+    const itemIndexes = new Map<unknown, number>();
+    let itemCount = 0;
+    let semanticCheckEnabled = true;
+    const reserve: GeneratedQuestion[] = []; // Valid questions beyond their type's quota, used to cover shortfalls
+    const issues: QuestionValidationIssue[] = [];
+    const toRepair: { question: unknown; issue: QuestionValidationIssue }[] = [];
+
+    const countOfType = (type: QuestionType) => accepted.filter(q => q.type === type).length;
+
+    const extrasFor = (q: GeneratedQuestion): Pick<Question, 'embedding' | 'verification' | 'media'> => ({
+      embedding: embeddings.get(q),
+      verification: verifications.get(q),
+      media: parseQuestionMedia(q.media, quizImages) || undefined
+    });
 
-      if (filteredQuestions.length === 0) {
-        throw new Error('No questions of the requested types were generated');
+    // Questions queued for acceptance that have not been embedded yet
+    const awaitingEmbedding: GeneratedQuestion[] = [];
+
+    // Embeds every question waiting in the accept queue with one request and looks them all up among past
+    // questions with one more, so questions that arrive while a check runs share the next round trip.
+    // If the provider cannot embed, fall back to the lexical check only; if the lookup fails, carry on without it.
+    const embedAwaiting = async () => {
+      const group = awaitingEmbedding.splice(0);
+      if (group.length === 0 || !semanticCheckEnabled) return;
+      try {
+        const { model, vectors } = await embedTexts(group.map(embeddingText), options.signal);
+        // Rounded to keep saved quizzes small; far below the precision the threshold needs
+        group.forEach((q, index) => embeddings.set(q, { model, vector: vectors[index].map(value => Math.round(value * 1e4) / 1e4) }));
+      } catch (embeddingError) {
+        if (isAiCancelled(embeddingError)) throw embeddingError;
+        console.warn('Question embedding failed, skipping semantic duplicate check:', embeddingError);
+        semanticCheckEnabled = false;
+        return;
       }
 
-      // Validate each question has the required fields for its type
-      filteredQuestions.forEach((q: any, index: number) => {
-        if (!q.text || !q.type || !q.explanation) {
-          throw new Error(`Question ${index + 1} missing required base fields (text, type, or explanation)`);
+      if (!pastCheckEnabled || !options.findPastQuestions) return;
+      try {
+        const matches = await options.findPastQuestions(group.map(q => embeddings.get(q) as QuestionEmbedding), SEMANTIC_DUPLICATE_THRESHOLD);
+        group.forEach((q, index) => pastMatches.set(q, matches[index] ?? null));
+      } catch (lookupError) {
+        console.warn('Past question lookup failed, skipping the seen-before check:', lookupError);
+        pastCheckEnabled = false;
+      }
+    };
+
+    const accept = async (q: GeneratedQuestion, enforceQuota = isBatched): Promise<boolean> => {
+      if (accepted.length >= questionCount) return false;
+      const tokens = questionTokens(q);
+      if (acceptedTokens.some(existing => isNearDuplicate(existing, tokens))) return false;
+
+      if (!embeddings.has(q)) await embedAwaiting();
+      const embedding = embeddings.get(q);
+      if (embedding) {
+        const pastQuestion = pastMatches.get(q) ?? null;
+        if (pastQuestion !== null) {
+          issues.push({ index: itemIndexes.get(q) ?? itemCount++, type: q.type, rule: 'seen-before', message: `Too similar to a past question: "${pastQuestion}"`, repaired: false });
+          return false;
         }
+        if (isSemanticDuplicate(embedding, accepted.map(item => embeddings.get(item)).filter((e): e is QuestionEmbedding => !!e))) {
+          return false;
+        }
+      }
 
-        switch (q.type) {
-          case 'multiple-choice':
-            if (!Array.isArray(q.options) || q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (multiple-choice) must have exactly 4 options and a correctAnswer`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
-
-          case 'true-false':
-            if (!Array.isArray(q.options) || q.options.length !== 2 || 
-                q.options[0] !== 'True' || q.options[1] !== 'False') {
-              throw new Error(`Question ${index + 1} (true-false) must have options ["True", "False"]`);
-            }
-            if (q.correctAnswer !== 'True' && q.correctAnswer !== 'False') {
-              throw new Error(`Question ${index + 1} correctAnswer must be "True" or "False"`);
-            }
-            break;
-
-          case 'multi-select':
-            if (!Array.isArray(q.options) || q.options.length !== 6) {
-              throw new Error(`Question ${index + 1} (multi-select) must have exactly 6 options`);
-            }
-            if (!Array.isArray(q.correctOptions)) {
-              throw new Error(`Question ${index + 1} must have correctOptions array`);
-            }
-            if (q.correctOptions.length < 2 || q.correctOptions.length > 3) {
-              throw new Error(`Question ${index + 1} must have exactly 2 or 3 correct options (found ${q.correctOptions.length})`);
-            }
-            if (!q.correctOptions.every((opt: string) => q.options.includes(opt))) {
-              throw new Error(`Question ${index + 1} correctOptions must match options exactly`);
-            }
-            break;
-
-          case 'sequence':
-            if (!Array.isArray(q.sequence) || !Array.isArray(q.correctSequence)) {
-              throw new Error(`Question ${index + 1} must have sequence and correctSequence arrays`);
-            }
-            if (q.sequence.length < 4 || q.sequence.length > 6 || 
-                q.sequence.length !== q.correctSequence.length) {
-              throw new Error(`Question ${index + 1} must have 4-6 matching steps in sequence and correctSequence`);
-            }
-            // Verify all steps exist in both arrays
-            const sequenceSet = new Set([...q.sequence, ...q.correctSequence]);
-            if (sequenceSet.size !== q.sequence.length) {
-              throw new Error(`Question ${index + 1} sequence and correctSequence must contain the same steps`);
-            }
-            break;
-
-          case 'case-study':
-            if (!q.caseStudy || !q.question || !Array.isArray(q.options) || 
-                q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (case-study) must have caseStudy, question, exactly 4 options, and correctAnswer`);
-            }
-            if (q.caseStudy.length < 100) {
-              throw new Error(`Question ${index + 1} case study description must be at least 100 characters`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
-
-          case 'situation':
-            if (!q.situation || !q.question || !Array.isArray(q.options) || 
-                q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (situation) must have situation, question, exactly 4 options, and correctAnswer`);
-            }
-            if (q.situation.length < 100) {
-              throw new Error(`Question ${index + 1} situation description must be at least 100 characters`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
-
-          case 'short-answer':
-            if (!q.correctAnswer || !Array.isArray(q.keywords)) {
-              throw new Error(`Question ${index + 1} (short-answer) must have correctAnswer and keywords array`);
-            }
-            break;
-
-          case 'fill-blank':
-            if (!q.correctAnswer || !Array.isArray(q.keywords)) {
-              throw new Error(`Question ${index + 1} (fill-blank) must have correctAnswer and keywords array`);
-            }
-            if (!q.text.includes('_____')) {
-              throw new Error(`Question ${index + 1} (fill-blank) must contain _____ in the text`);
-            }
-            break;
+      if (enforceQuota && countOfType(q.type) >= (typeQuota[q.type] || 0)) {
+        reserve.push(q);
+        return false;
+      }
+      accepted.push(q);
+      acceptedTokens.push(tokens);
+      options.onQuestion?.(toQuestion(q, accepted.length - 1, quizLanguage, extrasFor(q)));
+      return true;
+    };
+
+    // Acceptance awaits embeddings, so it runs one question at a time to keep ids and checks in order
+    let acceptQueue: Promise<unknown> = Promise.resolve();
+    const enqueueAccept = (q: GeneratedQuestion, enforceQuota = isBatched): Promise<boolean> => {
+      if (!embeddings.has(q) && !awaitingEmbedding.includes(q)) awaitingEmbedding.push(q);
+      const result = acceptQueue.then(() => accept(q, enforceQuota));
+      acceptQueue = result;
+      return result;
+    };
+
+    // With verification enabled, disputed questions are held back so a replacement can take their place
+    const verifyAndAccept = (q: GeneratedQuestion, enforceQuota = isBatched, isReplacement = false): Promise<boolean> => {
+      // Long answers have no single key a blind solver could agree with
+      if (!preferences.verifyQuestions || q.type === 'long-answer') {
+        const result = enqueueAccept(q, enforceQuota);
+        pendingChecks.push(result);
+        return result;
+      }
+
+      const check = verifyGeneratedQuestion(q, quizLanguage, material, promptImages, options.signal).then(verification => {
+        if (verification.status === 'flagged') {
+          verifications.set(q, verification);
+          disputed.push(q);
+          issues.push({ index: itemIndexes.get(q) ?? itemCount++, type: q.type, rule: 'verification-disputed', message: verification.note || 'Answer key disputed by verifier', repaired: false });
+          return false;
         }
+        verifications.set(q, isReplacement && verification.status === 'verified' ? { status: 'regenerated' } : verification);
+        return enqueueAccept(q, enforceQuota);
       });
+      pendingChecks.push(check);
+      return check;
+    };
 
-      return filteredQuestions.map((q: any, index: number) => ({
-        id: index + 1,
-        text: q.text,
-        type: q.type,
-        options: q.options,
-        correctAnswer: q.correctAnswer,
-        explanation: q.explanation,
-        difficulty: q.difficulty,
-        caseStudy: q.caseStudy,
-        situation: q.situation,
-        question: q.question,
-        sequence: q.sequence,
-        correctSequence: q.correctSequence,
-        correctOptions: q.correctOptions,
-        keywords: q.keywords,
-        language: quizLanguage
-      }));
-    } catch (error: any) {
-      console.error('Parse error:', error);
-      throw new Error(`Failed to parse generated questions: ${error.message}. Please check your API key and try again.`);
+    // Validate each question on its own so one bad item does not sink the batch
+    const consider = (q: unknown) => {
+      const index = itemCount++;
+      itemIndexes.set(q, index);
+      const failure = validateGeneratedQuestion(q, questionTypes, groundingText, quizImages, requireCognitiveTags);
+      if (!failure) {
+        verifyAndAccept(q as GeneratedQuestion);
+        return;
+      }
+      const issue: QuestionValidationIssue = {
+        index,
+        type: isRecord(q) && typeof q.type === 'string' && q.type ? q.type : 'unknown',
+        ...failure,
+        repaired: false
+      };
+      issues.push(issue);
+      // Questions of the wrong type are replaced by the top-up request instead
+      if (failure.rule !== 'type-not-requested') {
+        toRepair.push({ question: q, issue });
+      }
+    };
+
+    const runBatch = async (batch: QuizBatch) => {
+      const batchPreferences: QuizPreferences = isBatched
+        ? {
+            ...preferences,
+            questionCount: Object.values(batch.typeCounts).reduce((sum, count) => sum + (count || 0), 0),
+            questionTypes: Object.keys(batch.typeCounts) as QuestionType[]
+          }
+        : preferences;
+      const prompt = renderPrompt('quiz-generation', {
+        preferences: batchPreferences,
+        coveredConcepts,
+        varietyFocus: batch.focus,
+        batch
+      }, options.promptVersion);
+
+      if (options.onQuestion) {
+        const parser = createJsonArrayStreamParser(rawItem => {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(rawItem);
+          } catch {
+            // Unparseable items cannot be repaired; the top-up request replaces them
+            issues.push({ index: itemCount++, type: 'unknown', rule: 'malformed-json', message: 'Question is not valid JSON', repaired: false });
+            return;
+          }
+          consider(parsed);
+        });
+
+        await streamText({ prompt, images: promptImages, temperature: 0.0, signal: options.signal, feature: 'quiz-generation' }, delta => parser.push(delta));
+
+        if (!parser.hasStarted()) {
+          throw new AiMalformedOutputError('No JSON array found in the streamed response');
+        }
+      } else {
+        const generated = await requestQuestions(prompt);
+        generated.forEach(consider);
+      }
+    };
+
+    const batchResults = await Promise.allSettled(batches.map(runBatch));
+    const failedBatches = batchResults.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failedBatches.length === batches.length) {
+      throw failedBatches[0].reason;
     }
-  } catch (error: any) {
-    console.error('Quiz generation error:', error);
-    // Provide more specific error messages based on common issues
-    if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-      throw new Error('Invalid API key. Please check your Gemini API key in settings.');
-    } else if (error.message.includes('403') || error.message.includes('Forbidden')) {
-      throw new Error('API key does not have permission to access Gemini API. Please check your API key settings.');
-    } else if (error.message.includes('429') || error.message.includes('Too Many Requests')) {
-      throw new Error('API rate limit exceeded. Please wait a moment and try again.');
-    } else if (error.message.includes('500') || error.message.includes('Internal Server Error')) {
-      throw new Error('Gemini API is temporarily unavailable. Please try again later.');
+    failedBatches.forEach(result => console.warn('Quiz batch failed:', result.reason));
+    await Promise.all(pendingChecks);
+    await acceptQueue;
+
+    if (toRepair.length > 0 && accepted.length < questionCount) {
+      try {
+        const repaired = await requestQuestions(renderPrompt('question-repair', {
+          items: toRepair.map(({ question, issue }) => ({ question, type: issue.type, problem: issue.message })),
+          language: quizLanguage,
+          material
+        }));
+        await Promise.all(repaired.map(async (q, index) => {
+          const item = toRepair[index];
+          if (item && isUsable(q) && q.type === item.issue.type) {
+            item.issue.repaired = await verifyAndAccept(q, false);
+          }
+        }));
+      } catch (repairError) {
+        if (isAiCancelled(repairError)) throw repairError;
+        console.warn('Question repair request failed:', repairError);
+      }
     }
-    // --- START MODIFICATION (Adjust existing 429/503 check if it exists) ---
-    else if (error.message.includes('503')) {
-      throw new Error('Gemini API service unavailable. Please try again after some time.');
+
+    // Surplus questions of over-delivered types are better than another round trip
+    while (reserve.length > 0 && accepted.length < questionCount) {
+      const next = reserve.shift();
+      if (next) await enqueueAccept(next, false);
     }
-    // --- END MODIFICATION ---
-    else if (error.message.includes('network') || error.message.includes('fetch')) {
-      throw new Error('Network error. Please check your internet connection and try again.');
+
+    const shortfall = questionCount - accepted.length;
+    if (shortfall > 0) {
+      try {
+        // Ask for the types that are still under their share, or any requested type if none are
+        const missingTypes = questionTypes.filter(type => countOfType(type) < (typeQuota[type] || 0));
+        const topUp = await requestQuestions(renderPrompt('quiz-generation', {
+          preferences: {
+            ...preferences,
+            questionCount: shortfall,
+            questionTypes: isBatched && missingTypes.length > 0 ? missingTypes : questionTypes
+          },
+          coveredConcepts: [...coveredConcepts, ...accepted.map(q => q.concept || q.text)],
+          varietyFocus: VARIETY_FOCUSES[Math.floor(Math.random() * VARIETY_FOCUSES.length)]
+        }, options.promptVersion));
+        const replacesDisputed = disputed.length > 0;
+        await Promise.all(topUp
+          .filter(isUsable)
+          .map(q => verifyAndAccept(q, false, replacesDisputed)));
+      } catch (topUpError) {
+        if (isAiCancelled(topUpError)) throw topUpError;
+        console.warn('Question top-up request failed:', topUpError);
+      }
+    }
+
+    // A disputed question is still better than a short quiz; it keeps its flag for the results page
+    while (disputed.length > 0 && accepted.length < questionCount) {
+      const next = disputed.shift();
+      if (next) await enqueueAccept(next, false);
+    }
+
+    if (issues.length > 0) {
+      console.warn('Quiz validation report:', issues);
+      options.onValidationReport?.(issues);
     }
-    throw new Error(`Quiz generation failed: ${error.message}`);
+
+    if (accepted.length === 0) {
+      throw new QuizValidationError(
+        issues.length > 0
+          ? `No valid questions were generated (${issues.map(issue => `#${issue.index + 1} ${issue.rule}`).join(', ')})`
+          : 'No questions of the requested types were generated',
+        issues
+      );
+    }
+
+    return accepted.map((q, index) => toQuestion(q, index, quizLanguage, extrasFor(q)));
+  } catch (error) {
+    if (!isAiCancelled(error)) {
+      console.error('Quiz generation error:', error);
+    }
+    // AI errors already carry a user-facing message from the shared client
+    if (error instanceof QuizValidationError || error instanceof AiError) {
+      throw error;
+    }
+    throw new Error(`Quiz generation failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
 // Function to get explanation for an answer
-export const getAnswerExplanation = async (
-  apiKey: string,
-  question: string,
-  correctAnswer: string,
-  topic: string,
-  language: string
+// The edge function renders the same prompt from the request itself before saving the answer to the shared cache
+export const getAnswerExplanation = async (request: ExplanationRequest): Promise<string> => {
+  const { question, questionType, answerKey, topic, language } = request;
+  const correctAnswer = answerKey.join(questionType === 'sequence' ? ' → ' : ', ');
+  const prompt = renderPrompt('answer-explanation', { question, correctAnswer, topic, language });
+
+  try {
+    return await generateText({ prompt, temperature: 0.0, feature: 'explanation', explanation: request });
+  } catch (error: any) {
+    console.error('Explanation error:', error);
+    if (error instanceof AiError) {
+      throw error;
+    }
+    throw new Error(`Failed to get explanation: ${error.message}`);
+  }
+};
+
+export const MAX_HINTS_PER_QUESTION = 3;
+
+const answerKeyText = (q: Question): string => {
+  if (q.type === 'multi-select') return q.correctOptions.join(', ');
+  if (q.type === 'sequence') return q.correctSequence.join(' → ');
+  if (q.type === 'long-answer') return q.modelAnswer;
+  return q.correctAnswer;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Backstop for hints that quote the answer anyway. True/false and sequence answers are visible as options
+// or steps, so mentioning them gives nothing away; a long answer's model answer is too long to be quoted whole.
+const redactAnswer = (hint: string, q: Question): string => {
+  if (q.type === 'true-false' || q.type === 'sequence' || q.type === 'long-answer') return hint;
+  const answers = [...(q.type === 'multi-select' ? q.correctOptions : [q.correctAnswer]), ...(q.keywords || [])]
+    .filter((answer): answer is string => !!answer && answer.trim().length > 1);
+  return answers.reduce(
+    (text, answer) => text.replace(new RegExp(escapeRegExp(answer.trim()), 'gi'), '_____'),
+    hint
+  );
+};
+
+// Hint number `level` (1-based) for a question; each builds on the ones already shown
+export const getQuestionHint = async (
+  question: Question,
+  level: number,
+  previousHints: string[],
+  language: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const prompt = `Explain why "${correctAnswer}" is the correct answer to this ${topic} question: "${question}"
-  
-Requirements:
-- Use ${language} language
-- Be clear and concise
-- Include relevant concepts
-- Explain step-by-step if applicable
-- Add examples if helpful`;
+  const prompt = renderPrompt('question-hint', {
+    question: studentView(question),
+    correctAnswer: answerKeyText(question),
+    level,
+    maxLevel: MAX_HINTS_PER_QUESTION,
+    previousHints,
+    language
+  });
 
   try {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.0
-      })
-    });
+    const hint = await generateText({ prompt, temperature: 0.3, signal, feature: 'hint' });
+    return redactAnswer(hint.trim(), question);
+  } catch (error: any) {
+    if (!isAiCancelled(error)) {
+      console.error('Hint error:', error);
+    }
+    if (error instanceof AiError) {
+      throw error;
+    }
+    throw new Error(`Failed to get hint: ${error.message}`);
+  }
+};
 
-    if (!response.ok) {
-      throw new Error(`Failed to get explanation: ${response.statusText}`);
+// Continues a conversation about one answered question; history is the thread so far, oldest first
+export const askAboutQuestion = async (
+  question: Question,
+  history: ChatMessage[],
+  message: string,
+  language: string,
+  explanation?: string
+): Promise<string> => {
+  const prompt = renderPrompt('question-follow-up', {
+    question: studentView(question),
+    correctAnswer: answerKeyText(question),
+    userAnswer: question.userAnswer || '',
+    explanation: explanation || question.explanation || '',
+    history,
+    message,
+    language
+  });
+
+  try {
+    return await generateText({ prompt, temperature: 0.4, feature: 'follow-up' });
+  } catch (error: any) {
+    console.error('Follow-up chat error:', error);
+    if (error instanceof AiError) {
+      throw error;
     }
+    throw new Error(`Failed to get a reply: ${error.message}`);
+  }
+};
 
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
+// Splits a question's single mark across rubric criteria in proportion to their weights
+const criterionMaxMarks = (rubric: RubricCriterion[]): number[] => {
+  const totalWeight = rubric.reduce((sum, item) => sum + item.weight, 0);
+  return rubric.map(item => totalWeight > 0 ? item.weight / totalWeight : 1 / rubric.length);
+};
+
+const roundMarks = (marks: number): number => Math.round(marks * 100) / 100;
+
+export type TextAnswerEvaluation = {
+  isCorrect: boolean;
+  feedback: string;
+  score: number; // 0-100
+  criteria?: CriterionGrade[]; // Only for rubric-graded answers
+};
+
+// Used when the model cannot be reached or returns something unusable: every criterion gets the share of key terms used
+const keywordRubricGrade = (userAnswer: string, keywords: string[], rubric: RubricCriterion[]): TextAnswerEvaluation => {
+  const answer = comparableText(userAnswer);
+  const terms = keywords.map(comparableText).filter(Boolean);
+  const found = terms.filter(term => answer.includes(term)).length;
+  const fraction = terms.length > 0 ? found / terms.length : 0;
+  const maxMarks = criterionMaxMarks(rubric);
+
+  return {
+    isCorrect: fraction >= 0.5,
+    score: Math.round(fraction * 100),
+    feedback: `Graded by key terms only: your answer uses ${found} of ${terms.length} expected terms.`,
+    criteria: rubric.map((item, index) => ({
+      criterion: item.criterion,
+      marks: roundMarks(maxMarks[index] * fraction),
+      maxMarks: roundMarks(maxMarks[index]),
+      feedback: ''
+    }))
+  };
+};
+
+const gradeAgainstRubric = async (
+  question: string,
+  userAnswer: string,
+  modelAnswer: string,
+  keywords: string[],
+  language: string,
+  rubric: { criteria: RubricCriterion[]; wordLimit?: number }
+): Promise<TextAnswerEvaluation> => {
+  const prompt = renderPrompt('answer-evaluation', {
+    question,
+    userAnswer,
+    correctAnswer: modelAnswer,
+    keywords,
+    language,
+    rubric: rubric.criteria,
+    wordLimit: rubric.wordLimit
+  });
+
+  try {
+    const responseText = await generateText({ prompt, temperature: 0.1, feature: 'answer-grading' });
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    const evaluation = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+    if (!evaluation || !Array.isArray(evaluation.criteria) || evaluation.criteria.length !== rubric.criteria.length) {
+      console.warn('Rubric grading returned an unexpected shape, falling back to key terms');
+      return keywordRubricGrade(userAnswer, keywords, rubric.criteria);
     }
 
-    return data.candidates[0].content.parts[0].text;
+    // Criteria come back in rubric order; the marks themselves are computed here, not trusted from the model
+    const maxMarks = criterionMaxMarks(rubric.criteria);
+    const criteria = rubric.criteria.map((item, index) => {
+      const graded = evaluation.criteria[index] || {};
+      const score = Math.min(100, Math.max(0, Number(graded.score) || 0));
+      return {
+        criterion: item.criterion,
+        marks: roundMarks(maxMarks[index] * score / 100),
+        maxMarks: roundMarks(maxMarks[index]),
+        feedback: typeof graded.feedback === 'string' ? graded.feedback : ''
+      };
+    });
+    const marks = criteria.reduce((sum, item) => sum + item.marks, 0);
+
+    return {
+      isCorrect: marks >= 0.5,
+      score: Math.round(marks * 100),
+      feedback: typeof evaluation.feedback === 'string' ? evaluation.feedback : 'No feedback available',
+      criteria
+    };
   } catch (error: any) {
-    console.error('Explanation error:', error);
-    throw new Error(`Failed to get explanation: ${error.message}`);
+    console.error('Rubric grading error:', error);
+    return keywordRubricGrade(userAnswer, keywords, rubric.criteria);
   }
 };
 
-// Function to evaluate short answer or fill-blank questions
+// Answer-key check without the model: exact, numeric and near-miss spellings score 100; a keyword
+// match earns partial credit but is not counted as correct
+const localTextEvaluation = (userAnswer: string, correctAnswer: string, keywords: string[]): TextAnswerEvaluation => {
+  const { isMatch, method } = matchTextAnswer(userAnswer, correctAnswer, keywords);
+  if (method === 'keyword') {
+    return {
+      isCorrect: false,
+      score: KEYWORD_MATCH_SCORE,
+      feedback: `Your answer "${userAnswer}" contains key concepts but may need refinement. The expected answer is "${correctAnswer}".`
+    };
+  }
+  if (!isMatch) {
+    return {
+      isCorrect: false,
+      score: 0,
+      feedback: `Your answer "${userAnswer}" does not match the expected answer "${correctAnswer}".`
+    };
+  }
+  return { isCorrect: true, score: 100, feedback: `Correct! The expected answer is "${correctAnswer}".` };
+};
+
+// Function to evaluate short answer, fill-blank and long-answer questions; pass the rubric for long answers
+// to get per-criterion marks, with correctAnswer being the model answer
 export const evaluateTextAnswer = async (
-  apiKey: string,
   question: string,
   userAnswer: string,
   correctAnswer: string,
   keywords: string[],
-  language: string
-): Promise<{ isCorrect: boolean; feedback: string; score: number }> => {
-  const prompt = `Evaluate this student answer for the question:
-
-Question: "${question}"
-Correct Answer: "${correctAnswer}"
-Student Answer: "${userAnswer}"
-Key Terms: ${keywords.join(', ')}
-
-Evaluation Criteria:
-1. Check if the student answer contains the core concepts
-2. Look for key terms or their synonyms
-3. Consider spelling variations and abbreviations
-4. Evaluate partial correctness
-5. Provide constructive feedback
-
-Respond in JSON format:
-{
-  "isCorrect": boolean (true if answer demonstrates understanding, even with minor errors),
-  "score": number (0-100, percentage of correctness),
-  "feedback": "detailed explanation in ${language}"
-}
+  language: string,
+  rubric?: { criteria: RubricCriterion[]; wordLimit?: number }
+): Promise<TextAnswerEvaluation> => {
+  if (rubric && rubric.criteria.length > 0) {
+    return gradeAgainstRubric(question, userAnswer, correctAnswer, keywords, language, rubric);
+  }
 
-Be lenient with:
-- Minor spelling mistakes
-- Different word order
-- Synonyms and abbreviations
-- Partial answers that show understanding
+  // Exact and numeric matches are decided locally; the model judges everything else, near misses included
+  const local = localTextEvaluation(userAnswer, correctAnswer, keywords);
+  if (isSettledMatch(matchTextAnswer(userAnswer, correctAnswer, keywords))) {
+    return local;
+  }
 
-Be strict with:
-- Completely wrong concepts
-- Missing core elements
-- Contradictory information`;
+  const prompt = renderPrompt('answer-evaluation', { question, userAnswer, correctAnswer, keywords, language });
 
   try {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.1
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to evaluate answer: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
-    }
-
-    const responseText = data.candidates[0].content.parts[0].text;
+    const responseText = await generateText({ prompt, temperature: 0.1, feature: 'answer-grading' });
     
     // Extract JSON from the response
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
-      // Fallback evaluation
-      const userLower = userAnswer.toLowerCase().trim();
-      const correctLower = correctAnswer.toLowerCase().trim();
-      const hasKeywords = keywords.some(keyword => 
-        userLower.includes(keyword.toLowerCase())
-      );
-      
-      return {
-        isCorrect: userLower === correctLower || hasKeywords,
-        score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-        feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains key concepts but' : 'does not match'} the expected answer "${correctAnswer}".`
-      };
+      return local;
     }
 
     try {
@@ -616,113 +1078,28 @@ Be strict with:
         feedback: evaluation.feedback || 'No feedback available'
       };
     } catch (parseError) {
-      // Fallback evaluation
-      const userLower = userAnswer.toLowerCase().trim();
-      const correctLower = correctAnswer.toLowerCase().trim();
-      const hasKeywords = keywords.some(keyword => 
-        userLower.includes(keyword.toLowerCase())
-      );
-      
-      return {
-        isCorrect: userLower === correctLower || hasKeywords,
-        score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-        feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains key concepts but may need refinement' : 'does not match the expected answer'}. The correct answer is "${correctAnswer}".`
-      };
+      console.error('Answer evaluation parse error:', parseError);
+      return local;
     }
   } catch (error: any) {
     console.error('Answer evaluation error:', error);
-    // Fallback evaluation
-    const userLower = userAnswer.toLowerCase().trim();
-    const correctLower = correctAnswer.toLowerCase().trim();
-    const hasKeywords = keywords && keywords.some(keyword => 
-      userLower.includes(keyword.toLowerCase())
-    );
-    
-    return {
-      isCorrect: userLower === correctLower || hasKeywords,
-      score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-      feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains some correct elements' : 'needs improvement'}. The expected answer is "${correctAnswer}".`
-    };
+    return local;
   }
 };
 
 export const getQuizAnalysisAndRecommendations = async (
-  apiKey: string,
   currentQuizResult: QuizResult,
   historicalQuizResults: QuizResult[],
   preferences: QuizPreferences
 ): Promise<{ strengths: string[]; weaknesses: string[]; recommendations: string[]; comparativePerformance: any }> => {
-  const prompt = `Analyze the user's quiz performance and provide personalized strengths, weaknesses, recommendations, and comparative performance.
-
-Current Quiz Result:
-- Score: ${currentQuizResult.percentage}%
-- Correct Answers: ${currentQuizResult.correctAnswers}/${currentQuizResult.totalQuestions}
-- Time Taken: ${currentQuizResult.totalTimeTaken} seconds
-- Accuracy Rate: ${currentQuizResult.accuracyRate}%
-- Completion Rate: ${currentQuizResult.completionRate}%
-- Question Type Performance: ${JSON.stringify(currentQuizResult.questionTypePerformance)}
-- Quiz Preferences: Course: ${preferences.course}, Topic: ${preferences.topic}, Difficulty: ${preferences.difficulty}, Language: ${preferences.language}
-
-Historical Quiz Results (last ${historicalQuizResults.length} quizzes, sorted by date descending):
-${historicalQuizResults.map((res, index) => `
-  Quiz ${index + 1}:
-  - Date: ${res.quizDate?.toLocaleDateString()}
-  - Score: ${res.percentage}%
-  - Correct: ${res.correctAnswers}/${res.totalQuestions}
-  - Time: ${res.totalTimeTaken}s
-  - Accuracy: ${res.accuracyRate}%
-  - Topic: ${res.topic}
-  - Difficulty: ${res.difficulty}
-  - Question Types: ${JSON.stringify(res.questionTypePerformance)}
-`).join('\n')}
-
-Based on the current quiz and historical data, provide the following in JSON format:
-{
-  "strengths": ["List of specific strengths based on performance patterns"],
-  "weaknesses": ["List of specific weaknesses based on performance patterns"],
-  "recommendations": ["Actionable recommendations for improvement"],
-  "comparativePerformance": {
-    "overall": "How current performance compares to historical average (e.g., 'X% higher than average')",
-    "topicSpecific": "How current performance compares to past quizzes on the same topic (if available)",
-    "difficultySpecific": "How current performance compares to past quizzes of the same difficulty (if available)"
-  }
-}
-
-Consider:
-- Consistency in performance over time.
-- Improvement or decline in specific topics or question types.
-- Efficiency (time taken vs. score).
-- Areas where the user consistently performs well or struggles.
-- Provide actionable and encouraging recommendations.
-- If no historical data, base analysis solely on the current quiz.
-`;
+  const prompt = renderPrompt('quiz-analysis', { currentQuizResult, historicalQuizResults, preferences });
 
   try {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.7 // Higher temperature for more creative analysis
-      })
+    const responseText = await generateText({
+      prompt,
+      temperature: 0.7, // Higher temperature for more creative analysis
+      feature: 'quiz-analysis'
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to get analysis: ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
-    }
-
-    const responseText = data.candidates[0].content.parts[0].text;
     
     // Extract JSON from the response
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -0,0 +1,452 @@
+// src/services/llm.ts
+import { AiFeature, AiProviderId, AiProviderSettings, ExplanationRequest } from '../types';
+import { supabase } from './supabase';
+import { aiFetch, AiCancelledError, AiMalformedOutputError, AiSafetyError, isRetryableAiError } from './aiClient';
+
+export type GenerateRequest = {
+  prompt: string;
+  temperature?: number;
+  signal?: AbortSignal; // Aborting rejects with AiCancelledError
+  feature?: AiFeature; // Attributes the call in the usage dashboard
+  images?: LlmImage[]; // Sent alongside the prompt to models that accept images
+  explanation?: ExplanationRequest; // The edge function renders the prompt from this and saves the answer to the shared cache
+};
+
+// Base64 image data without the data: URL prefix
+export type LlmImage = {
+  mimeType: string;
+  data: string;
+};
+
+// Receives each new piece of model text as it streams in
+export type TextDeltaHandler = (delta: string) => void;
+
+export type EmbedResult = {
+  model: string;
+  vectors: number[][];
+};
+
+// A provider turns a prompt into raw model text; parsing stays with the callers in gemini.ts
+export interface LlmProvider {
+  id: AiProviderId;
+  generate: (request: GenerateRequest) => Promise<string>;
+  // Resolves with the full text once the stream ends
+  stream: (request: GenerateRequest, onDelta: TextDeltaHandler) => Promise<string>;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<EmbedResult>;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+
+export const defaultAiProviderSettings: AiProviderSettings = {
+  provider: 'gemini',
+  fallbackProvider: null,
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  openaiBaseUrl: '',
+  openaiModel: '',
+  ollamaBaseUrl: DEFAULT_OLLAMA_BASE_URL,
+  ollamaModel: DEFAULT_OLLAMA_MODEL,
+};
+
+export const aiProviderLabels: Record<AiProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible API',
+  'ollama': 'Local Ollama server',
+};
+
+export const aiFeatureLabels: Record<AiFeature, string> = {
+  'quiz-generation': 'Quiz generation',
+  'answer-verification': 'Answer key checks',
+  'duplicate-check': 'Duplicate detection',
+  'explanation': 'Explanations',
+  'hint': 'Hints',
+  'follow-up': 'Question follow-ups',
+  'answer-grading': 'Answer grading',
+  'quiz-analysis': 'Quiz analysis',
+  'notes': 'Notes',
+  'other': 'Other',
+};
+
+type GeminiResponse = {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+};
+
+type OpenAiChatResponse = {
+  choices?: { message?: { content?: string } }[];
+};
+
+type OpenAiStreamChunk = {
+  choices?: { delta?: { content?: string } }[];
+};
+
+type GeminiEmbeddingResponse = {
+  embeddings?: { values?: number[] }[];
+};
+
+type OpenAiEmbeddingResponse = {
+  data?: { embedding?: number[] }[];
+};
+
+// Every input text must come back with a vector, otherwise results could be misaligned
+const checkVectors = (vectors: (number[] | undefined)[], count: number, providerName: string): number[][] => {
+  if (vectors.length !== count || vectors.some(vector => !vector || vector.length === 0)) {
+    throw new AiMalformedOutputError(`Invalid embedding response from ${providerName}`);
+  }
+  return vectors as number[][];
+};
+
+// Calls the gemini edge function, which proxies both Gemini and OpenAI-compatible endpoints.
+// The user's session token identifies them, so the function can use their stored Gemini key and meter usage.
+const postToEdgeFunction = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return aiFetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(body)
+  }, { signal });
+};
+
+const callEdgeFunction = async <T>(body: Record<string, unknown>, signal?: AbortSignal): Promise<T> => {
+  const response = await postToEdgeFunction(body, signal);
+  try {
+    return await response.json();
+  } catch (error) {
+    if (signal?.aborted) throw new AiCancelledError();
+    throw new AiMalformedOutputError(error instanceof Error ? error.message : undefined);
+  }
+};
+
+// Reads a streamed body line by line, handing each complete line to onLine
+const readLines = async (response: Response, onLine: (line: string) => void, signal?: AbortSignal): Promise<void> => {
+  if (!response.body) {
+    throw new AiMalformedOutputError('Streaming is not supported by this response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (signal?.aborted) throw new AiCancelledError();
+      throw error;
+    }
+    const { done, value } = chunk;
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    lines.forEach(line => onLine(line.trim()));
+  }
+
+  if (pending.trim()) {
+    onLine(pending.trim());
+  }
+};
+
+// Collects text from a server-sent event stream using a provider-specific payload reader
+const readEventStream = async <T>(
+  response: Response,
+  extractDelta: (payload: T) => string | undefined,
+  onDelta: TextDeltaHandler,
+  signal?: AbortSignal
+): Promise<string> => {
+  let fullText = '';
+
+  await readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+
+    try {
+      const delta = extractDelta(JSON.parse(data));
+      if (delta) {
+        fullText += delta;
+        onDelta(delta);
+      }
+    } catch (parseError) {
+      if (parseError instanceof AiSafetyError) throw parseError;
+      console.warn('Skipping malformed stream event:', parseError);
+    }
+  }, signal);
+
+  return fullText;
+};
+
+// Gemini reports blocked prompts and answers in the body of a successful response
+const geminiText = (payload: GeminiResponse): string | undefined => {
+  const blockReason = payload.promptFeedback?.blockReason;
+  const finishReason = payload.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new AiSafetyError(blockReason || finishReason);
+  }
+  return payload.candidates?.[0]?.content?.parts?.[0]?.text;
+};
+
+// The user's Gemini key is looked up by the edge function and never reaches the browser
+const createGeminiProvider = (settings: AiProviderSettings): LlmProvider => ({
+  id: 'gemini',
+  generate: async ({ prompt, temperature = 0.0, signal, feature, images, explanation }) => {
+    const data = await callEdgeFunction<GeminiResponse>({
+      provider: 'gemini',
+      model: settings.geminiModel || DEFAULT_GEMINI_MODEL,
+      prompt,
+      images,
+      temperature,
+      feature,
+      explanation
+    }, signal);
+
+    const text = geminiText(data);
+    if (!text) {
+      throw new AiMalformedOutputError('Gemini API returned no content');
+    }
+    return text;
+  },
+  stream: async ({ prompt, temperature = 0.0, signal, feature, images }, onDelta) => {
+    const response = await postToEdgeFunction({
+      provider: 'gemini',
+      model: settings.geminiModel || DEFAULT_GEMINI_MODEL,
+      prompt,
+      images,
+      temperature,
+      stream: true,
+      feature
+    }, signal);
+
+    return readEventStream(response, geminiText, onDelta, signal);
+  },
+  embed: async (texts, signal) => {
+    const data = await callEdgeFunction<GeminiEmbeddingResponse>({
+      task: 'embed',
+      provider: 'gemini',
+      model: DEFAULT_GEMINI_EMBEDDING_MODEL,
+      texts,
+      feature: 'duplicate-check'
+    }, signal);
+
+    return {
+      model: `gemini/${DEFAULT_GEMINI_EMBEDDING_MODEL}`,
+      vectors: checkVectors((data.embeddings || []).map(item => item.values), texts.length, 'Gemini API')
+    };
+  }
+});
+
+const createOpenAiCompatibleProvider = (settings: AiProviderSettings): LlmProvider => ({
+  id: 'openai-compatible',
+  generate: async ({ prompt, temperature = 0.0, signal, feature, images, explanation }) => {
+    if (!settings.openaiBaseUrl || !settings.openaiModel) {
+      throw new Error('OpenAI-compatible provider needs a base URL and model');
+    }
+
+    const data = await callEdgeFunction<OpenAiChatResponse>({
+      provider: 'openai-compatible',
+      baseUrl: settings.openaiBaseUrl,
+      model: settings.openaiModel,
+      prompt,
+      images,
+      temperature,
+      feature,
+      explanation
+    }, signal);
+
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new AiMalformedOutputError('OpenAI-compatible API returned no content');
+    }
+    return text;
+  },
+  stream: async ({ prompt, temperature = 0.0, signal, feature, images }, onDelta) => {
+    if (!settings.openaiBaseUrl || !settings.openaiModel) {
+      throw new Error('OpenAI-compatible provider needs a base URL and model');
+    }
+
+    const response = await postToEdgeFunction({
+      provider: 'openai-compatible',
+      baseUrl: settings.openaiBaseUrl,
+      model: settings.openaiModel,
+      prompt,
+      images,
+      temperature,
+      stream: true,
+      feature
+    }, signal);
+
+    return readEventStream(
+      response,
+      (payload: OpenAiStreamChunk) => payload.choices?.[0]?.delta?.content,
+      onDelta,
+      signal
+    );
+  },
+  embed: async (texts, signal) => {
+    if (!settings.openaiBaseUrl) {
+      throw new Error('OpenAI-compatible provider needs a base URL');
+    }
+
+    const data = await callEdgeFunction<OpenAiEmbeddingResponse>({
+      task: 'embed',
+      provider: 'openai-compatible',
+      baseUrl: settings.openaiBaseUrl,
+      model: DEFAULT_OPENAI_EMBEDDING_MODEL,
+      texts,
+      feature: 'duplicate-check'
+    }, signal);
+
+    return {
+      model: `openai/${DEFAULT_OPENAI_EMBEDDING_MODEL}`,
+      vectors: checkVectors((data.data || []).map(item => item.embedding), texts.length, 'OpenAI-compatible API')
+    };
+  }
+});
+
+// Ollama runs on the user's own machine, so it is called directly from the browser. Those calls skip the
+// gemini edge function and with it usage metering and the daily caps; they cost the user nothing, and
+// the AI usage panel says they are not counted.
+const createOllamaProvider = (settings: AiProviderSettings): LlmProvider => {
+  const baseUrl = (settings.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+
+  const requestOllama = ({ prompt, temperature = 0.0, signal, images }: GenerateRequest, stream: boolean): Promise<Response> =>
+    aiFetch(`${baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.ollamaModel || DEFAULT_OLLAMA_MODEL,
+        prompt,
+        // Only multimodal models such as llava use these; others ignore them
+        images: images?.map(image => image.data),
+        stream,
+        options: { temperature }
+      })
+    }, { signal });
+
+  return {
+    id: 'ollama',
+    generate: async (request) => {
+      const response = await requestOllama(request, false);
+      const data = await response.json();
+      if (!data.response) {
+        throw new AiMalformedOutputError('Ollama returned no content');
+      }
+      return data.response;
+    },
+    // Ollama streams newline-delimited JSON rather than server-sent events
+    stream: async (request, onDelta) => {
+      const response = await requestOllama(request, true);
+      let fullText = '';
+      await readLines(response, line => {
+        if (!line) return;
+        try {
+          const delta = JSON.parse(line).response;
+          if (delta) {
+            fullText += delta;
+            onDelta(delta);
+          }
+        } catch (parseError) {
+          console.warn('Skipping malformed Ollama stream line:', parseError);
+        }
+      }, request.signal);
+      return fullText;
+    },
+    embed: async (texts, signal) => {
+      const response = await aiFetch(`${baseUrl}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: DEFAULT_OLLAMA_EMBEDDING_MODEL, input: texts })
+      }, { signal });
+
+      const data: { embeddings?: number[][] } = await response.json();
+      return {
+        model: `ollama/${DEFAULT_OLLAMA_EMBEDDING_MODEL}`,
+        vectors: checkVectors(data.embeddings || [], texts.length, 'Ollama')
+      };
+    }
+  };
+};
+
+export const createLlmProvider = (
+  providerId: AiProviderId,
+  settings: AiProviderSettings
+): LlmProvider => {
+  switch (providerId) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings);
+    case 'ollama':
+      return createOllamaProvider(settings);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+// Settings are per user and are pushed in by useQuizStore once loaded
+let activeSettings: AiProviderSettings = defaultAiProviderSettings;
+
+export const setActiveAiProviderSettings = (settings: AiProviderSettings | null) => {
+  activeSettings = { ...defaultAiProviderSettings, ...(settings || {}) };
+};
+
+export const getActiveAiProviderSettings = (): AiProviderSettings => activeSettings;
+
+// Only the Gemini provider needs a saved Gemini key; the others bring their own credentials
+export const providerNeedsGeminiKey = (settings: AiProviderSettings = activeSettings): boolean =>
+  settings.provider === 'gemini';
+
+// Runs a prompt against the user's active provider; once retries are exhausted on a rate limit
+// or overload, the secondary provider gets one go
+export const generateText = async (request: GenerateRequest): Promise<string> => {
+  const settings = activeSettings;
+  const primary = createLlmProvider(settings.provider, settings);
+
+  try {
+    return await primary.generate(request);
+  } catch (error) {
+    const fallbackId = settings.fallbackProvider;
+    if (!fallbackId || fallbackId === settings.provider || !isRetryableAiError(error)) {
+      throw error;
+    }
+    console.warn(`${aiProviderLabels[settings.provider]} is rate-limited, falling back to ${aiProviderLabels[fallbackId]}`);
+    return createLlmProvider(fallbackId, settings).generate(request);
+  }
+};
+
+// Streaming variant of generateText; falls back only if the primary provider failed before sending anything
+export const streamText = async (
+  request: GenerateRequest,
+  onDelta: TextDeltaHandler
+): Promise<string> => {
+  const settings = activeSettings;
+  const primary = createLlmProvider(settings.provider, settings);
+  let receivedAny = false;
+
+  try {
+    return await primary.stream(request, delta => {
+      receivedAny = true;
+      onDelta(delta);
+    });
+  } catch (error) {
+    const fallbackId = settings.fallbackProvider;
+    if (receivedAny || !fallbackId || fallbackId === settings.provider || !isRetryableAiError(error)) {
+      throw error;
+    }
+    console.warn(`${aiProviderLabels[settings.provider]} is rate-limited, falling back to ${aiProviderLabels[fallbackId]}`);
+    return createLlmProvider(fallbackId, settings).stream(request, onDelta);
+  }
+};
+
+// Embeddings always come from the primary provider so vectors stay comparable across quizzes
+export const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<EmbedResult> => {
+  const settings = activeSettings;
+  return createLlmProvider(settings.provider, settings).embed(texts, signal);
+};
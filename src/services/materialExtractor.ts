@@ -0,0 +1,61 @@
+// src/services/materialExtractor.ts
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Keeps the prompt within what every supported model accepts
+export const MAX_MATERIAL_CHARS = 60000;
+
+export const MATERIAL_FILE_ACCEPT = '.pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain';
+
+const fileExtension = (file: File): string => file.name.split('.').pop()?.toLowerCase() || '';
+
+// The parsers are large, so they are only loaded once the user actually uploads a file
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjsLib = await import('pdfjs-dist');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+  }
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const { default: mammoth } = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value;
+};
+
+// Collapses the whitespace noise PDF and DOCX extraction leaves behind
+export const normalizeMaterialText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Reads an uploaded PDF, DOCX or TXT file in the browser; nothing is uploaded
+export const extractMaterialText = async (file: File): Promise<string> => {
+  let text: string;
+  switch (fileExtension(file)) {
+    case 'pdf':
+      text = await extractPdfText(file);
+      break;
+    case 'docx':
+      text = await extractDocxText(file);
+      break;
+    case 'txt':
+      text = await file.text();
+      break;
+    default:
+      throw new Error('Unsupported file type. Please upload a PDF, DOCX or TXT file.');
+  }
+
+  const normalized = normalizeMaterialText(text);
+  if (!normalized) {
+    throw new Error('No text could be extracted from this file. Scanned PDFs are not supported.');
+  }
+  return normalized;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from '../../supabase/functions/_shared/privateAddress.ts';
+
+// The host as outboundUrlProblem sees it: after URL parsing, without the brackets
+const urlHost = (url: string): string => new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+describe('isPrivateAddress', () => {
+  it('refuses private IPv4 and IPv6 addresses', () => {
+    for (const url of ['https://127.0.0.1/', 'https://169.254.169.254/', 'https://[::1]/', 'https://[::]/', 'https://[fd00::1]/', 'https://[fe80::1]/']) {
+      expect(isPrivateAddress(urlHost(url)), url).toBe(true);
+    }
+  });
+
+  it('judges IPv4-mapped, IPv4-compatible and NAT64 addresses by the IPv4 address inside', () => {
+    // URL parsing turns the dotted forms into hex, e.g. ::ffff:169.254.169.254 into ::ffff:a9fe:a9fe
+    expect(urlHost('https://[::ffff:169.254.169.254]/')).toBe('::ffff:a9fe:a9fe');
+    for (const url of [
+      'https://[::ffff:169.254.169.254]/',
+      'https://[::ffff:127.0.0.1]/',
+      'https://[0:0:0:0:0:ffff:10.0.0.1]/',
+      'https://[::7f00:1]/',
+      'https://[64:ff9b::a9fe:a9fe]/',
+      'https://[64:ff9b::192.168.0.1]/'
+    ]) {
+      expect(isPrivateAddress(urlHost(url)), url).toBe(true);
+    }
+    // Unparsed dotted forms, as a DNS answer would never give them but a caller might
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+  });
+
+  it('lets public addresses through', () => {
+    for (const url of ['https://8.8.8.8/', 'https://[::ffff:8.8.8.8]/', 'https://[64:ff9b::808:808]/', 'https://[2001:4860:4860::8888]/']) {
+      expect(isPrivateAddress(urlHost(url)), url).toBe(false);
+    }
+  });
+
+  it('refuses IPv6 text it cannot read', () => {
+    expect(isPrivateAddress('1::2::3')).toBe(true);
+    expect(isPrivateAddress('12345::1')).toBe(true);
+  });
+});
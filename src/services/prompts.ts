@@ -0,0 +1,784 @@
+// src/services/prompts.ts
+// Named, versioned prompt templates. When a template's wording changes, add a new version next to the old one
+// and point ACTIVE_PROMPT_VERSIONS at it; quiz results record the version so the two can be compared.
+import { ChatMessage, PromptTemplateRef, QuestionType, QuizPreferences, QuizResult, RubricCriterion, StudyMaterial } from '../types';
+import { BLOOM_LEVELS, BLOOM_LEVEL_DESCRIPTIONS, bloomLevelCounts } from './bloom';
+
+// Per-type field rules and examples, shared by the generation and repair prompts
+const QUESTION_TYPE_REQUIREMENTS = `For multiple-choice:
+- MUST have "text": clear, complete question
+- MUST have "options": array of EXACTLY 4 distinct, complete answers
+- MUST have "correctAnswer": exact match of the correct option
+- MUST have "explanation": detailed explanation of why the answer is correct
+- Ensure the 'correctAnswer' is NOT always the first option in the 'options' array. Randomize the order of options for each question.
+Example:
+{
+  "type": "multiple-choice",
+  "text": "What is the primary function of a CPU in a computer system?",
+  "options": [
+    "Execute instructions and perform calculations",
+    "Store long-term data permanently",
+    "Display graphics on the monitor",
+    "Connect to the internet"
+  ],
+  "correctAnswer": "Execute instructions and perform calculations",
+  "explanation": "The CPU (Central Processing Unit) is the brain of the computer..."
+}
+
+For true-false:
+- MUST have "text": clear, complete statement to evaluate
+- MUST have "options": ["True", "False"]
+- MUST have "correctAnswer": either "True" or "False"
+- MUST have "explanation": detailed explanation of why true or false
+Example:
+{
+  "type": "true-false",
+  "text": "The binary number system uses only 0s and 1s.",
+  "options": ["True", "False"],
+  "correctAnswer": "True",
+  "explanation": "The binary number system is a base-2 system..."
+}
+
+For multi-select:
+- MUST have "text": clear question specifying "Select all that apply"
+- MUST have "options": array of EXACTLY 6 complete, distinct options
+- MUST have "correctOptions": array of EXACTLY 2 OR 3 correct options (no more, no less)
+- MUST have "explanation": explain why each correct option is right AND why others are wrong
+Example:
+{
+  "type": "multi-select",
+  "text": "Which of the following are object-oriented programming languages? (Select all that apply)",
+  "options": [
+    "Java",
+    "C",
+    "Python",
+    "Assembly",
+    "Ruby",
+    "COBOL"
+  ],
+  "correctOptions": ["Java", "Python", "Ruby"],
+  "explanation": "Java, Python, and Ruby are object-oriented languages because they support encapsulation, inheritance, and polymorphism. C is procedural, Assembly is low-level, and COBOL is primarily procedural."
+}
+
+For sequence:
+- MUST have "text": clear instruction about what to sequence
+- MUST have "sequence": array of 4-6 complete steps in RANDOM order
+- MUST have "correctSequence": same steps in CORRECT order
+- MUST have "explanation": explain the logic behind EACH step in the sequence
+Example:
+{
+  "type": "sequence",
+  "text": "Arrange the following steps of the TCP three-way handshake in the correct order:",
+  "sequence": [
+    "Client sends ACK",
+    "Server sends SYN-ACK",
+    "Client sends SYN",
+    "Connection established"
+  ],
+  "correctSequence": [
+    "Client sends SYN",
+    "Server sends SYN-ACK",
+    "Client sends ACK",
+    "Connection established"
+  ],
+  "explanation": "1. Client initiates with SYN to request connection\\n2. Server acknowledges and sends its own SYN\\n3. Client acknowledges server's SYN\\n4. Connection is now established and ready for data transfer"
+}
+
+For case-study:
+- MUST have "text": brief introduction
+- MUST have "caseStudy": detailed scenario description (minimum 100 words)
+- MUST have "question": specific question about the case
+- MUST have "options": array of EXACTLY 4 possible solutions
+- MUST have "correctAnswer": the best solution (exact match)
+- MUST have "explanation": detailed analysis of ALL options
+Example:
+{
+  "type": "case-study",
+  "text": "Analyze this e-commerce system scaling scenario:",
+  "caseStudy": "An e-commerce platform experiences sudden traffic spikes during flash sales, causing system slowdowns and occasional crashes. The current architecture uses a monolithic application deployed on a single server with a PostgreSQL database. During peak times, the server CPU reaches 100% utilization, database connections are exhausted, and the application becomes unresponsive. The company wants to handle 10x more concurrent users while maintaining response times under 500ms.",
+  "question": "What is the most effective immediate solution to handle the traffic spikes?",
+  "options": [
+    "Implement horizontal scaling with load balancing",
+    "Upgrade to a more powerful server",
+    "Switch to a NoSQL database",
+    "Add application caching"
+  ],
+  "correctAnswer": "Implement horizontal scaling with load balancing",
+  "explanation": "Analysis of each option:\\n1. Horizontal scaling with load balancing: Best immediate solution as it provides linear scalability, high availability, and can handle traffic spikes effectively.\\n2. Upgrading server: Temporary solution that doesn't solve the fundamental scalability issue and has physical limitations.\\n3. Switching to NoSQL: Major architectural change that doesn't address the immediate CPU bottleneck and requires significant development effort.\\n4. Adding caching: Helpful but insufficient alone for handling concurrent user load and CPU bottleneck."
+}
+
+For situation:
+- MUST have "text": brief introduction
+- MUST have "situation": detailed scenario description (minimum 100 words)
+- MUST have "question": specific question about the situation
+- MUST have "options": array of EXACTLY 4 possible actions
+- MUST have "correctAnswer": most appropriate action (exact match)
+- MUST have "explanation": detailed analysis of ALL options and their consequences
+Example:
+{
+  "type": "situation",
+  "text": "Handle a critical production incident:",
+  "situation": "You're the lead developer on call when a critical alert triggers at 2 AM. The company's main API is returning 500 errors for 30% of requests, affecting multiple major clients. Initial logs show increased database connection timeouts and memory usage spikes. The last deployment was 6 hours ago, which included both database schema changes and new API endpoints. The backup from 12 hours ago is available, but restoring it would lose 12 hours of customer data. Client impact is estimated at $50,000 per hour of downtime.",
+  "question": "What should be your first action?",
+  "options": [
+    "Immediately roll back the last deployment",
+    "Scale up database resources",
+    "Analyze logs and metrics for root cause",
+    "Restore from the latest backup"
+  ],
+  "correctAnswer": "Analyze logs and metrics for root cause",
+  "explanation": "Analysis of each action and its consequences:\\n1. Rolling back immediately: Risky without understanding the issue, could cause data inconsistencies and might not solve the problem if it's unrelated to the deployment.\\n2. Scaling database resources: Premature solution without understanding if database is the real bottleneck and wastes time and resources if the issue lies elsewhere.\\n3. Analyzing logs and metrics: Best first action as it quickly identifies the root cause, minimizes risk, and ensures the correct solution is implemented.\\n4. Restoring backup: Most disruptive option with guaranteed data loss, should only be used as a last resort after other options are exhausted."
+}
+
+For short-answer:
+- MUST have "text": clear, specific question
+- MUST have "correctAnswer": concise, accurate answer (1-3 words typically)
+- MUST have "explanation": detailed explanation of the answer
+- MUST have "keywords": array of key terms that should be present in a correct answer
+Example:
+{
+  "type": "short-answer",
+  "text": "What is the time complexity of binary search algorithm?",
+  "correctAnswer": "O(log n)",
+  "explanation": "Binary search has O(log n) time complexity because it eliminates half of the remaining elements in each iteration, resulting in a logarithmic number of comparisons.",
+  "keywords": ["O(log n)", "logarithmic", "log n"]
+}
+
+For fill-blank:
+- MUST have "text": sentence with ONE blank marked as _____ 
+- MUST have "correctAnswer": the word/phrase that fills the blank
+- MUST have "explanation": detailed explanation
+- MUST have "keywords": array of acceptable variations of the answer
+Example:
+{
+  "type": "fill-blank",
+  "text": "The _____ design pattern ensures that a class has only one instance and provides global access to it.",
+  "correctAnswer": "Singleton",
+  "explanation": "The Singleton pattern restricts instantiation of a class to one object and provides a global point of access to that instance.",
+  "keywords": ["Singleton", "singleton"]
+}`;
+
+const describeTypeCounts = (typeCounts: Partial<Record<QuestionType, number>>): string =>
+  Object.entries(typeCounts).map(([type, count]) => `${count} ${type}`).join(', ');
+
+// Grounds a quiz in the user's own study material
+const materialSection = (material: StudyMaterial): string => `
+SOURCE MATERIAL ("${material.name}"):
+"""
+${material.text}
+"""
+
+MATERIAL GROUNDING RULES:
+- Every question MUST be answerable using ONLY the source material above - do not rely on outside knowledge
+- Every question MUST include a "sourcePassage" field: an exact, verbatim excerpt (1-3 sentences) copied from the material that supports the correct answer
+- The "explanation" MUST cite that passage, e.g. According to the material: "..."
+- If the course or topic below conflicts with the material, follow the material
+`;
+
+// Asks for diagrams, charts and questions about the user's attached images
+const mediaSection = ({ includeDiagrams, images = [] }: QuizPreferences): string => {
+  if (!includeDiagrams && images.length === 0) return '';
+
+  const imageRules = images.length > 0 ? `
+ATTACHED IMAGES:
+${images.length} image(s) are attached to this request, numbered in order: ${images.map((image, index) => `${index + 1}. "${image.name}"`).join(', ')}
+- Ask at least one question about EACH attached image, based on what it actually shows
+- Such a question MUST include: "media": { "kind": "image", "image": <image number>, "alt": "short description of the image" }
+` : '';
+
+  const diagramRules = includeDiagrams ? `
+DIAGRAMS AND CHARTS:
+- Where a visual genuinely helps (e.g. biology structures, maps, physics setups, graphs of data), add a "media" field to the question
+- Use a chart for numeric data: "media": { "kind": "chart", "chart": { "type": "bar" | "line" | "pie", "title": "...", "xLabel": "...", "yLabel": "...", "data": [{ "label": "...", "value": number }] }, "alt": "..." } with 2-12 data points
+- Use SVG for everything else: "media": { "kind": "svg", "svg": "<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 400 300'>...</svg>", "alt": "..." }
+- SVG must use single quotes for attributes, be self-contained and stay under 20000 characters: no scripts, no external images or fonts; label parts with letters or numbers (A, B, 1, 2) and NEVER reveal the answer in the drawing
+- The question text must refer to the visual, e.g. "In the diagram, which part labelled B..."
+` : '';
+
+  return `${imageRules}${diagramRules}
+- "alt" is required on every media object and must describe the visual without giving away the answer
+- Questions without a visual must not include a "media" field
+`;
+};
+
+// Long answers were added after v1 of the generation prompt, so their rules are appended only when requested
+const longAnswerSection = ({ questionTypes }: QuizPreferences): string => {
+  if (!questionTypes.includes('long-answer')) return '';
+
+  return `
+For long-answer:
+- MUST have "text": a descriptive question that needs a structured answer of several sentences or paragraphs
+- MUST have "modelAnswer": a complete answer that would earn full marks, within the word limit
+- MUST have "rubric": array of 3-6 criteria, each { "criterion": "what the answer must do", "weight": number }; weights add up to 10
+- MUST have "wordLimit": number of words allowed, between 100 and 400
+- MUST have "keywords": array of key terms a good answer uses
+- MUST have "explanation": what examiners look for and common mistakes
+Example:
+{
+  "type": "long-answer",
+  "text": "Explain how photosynthesis converts light energy into chemical energy.",
+  "modelAnswer": "Photosynthesis takes place in chloroplasts. In the light-dependent reactions, chlorophyll absorbs light, water is split and ATP and NADPH are produced, releasing oxygen. In the Calvin cycle, ATP and NADPH are used to fix carbon dioxide into glucose, storing the energy in chemical bonds.",
+  "rubric": [
+    { "criterion": "Names the chloroplast and chlorophyll as the site and pigment", "weight": 2 },
+    { "criterion": "Describes the light-dependent reactions and their products", "weight": 4 },
+    { "criterion": "Explains how the Calvin cycle fixes carbon into glucose", "weight": 4 }
+  ],
+  "wordLimit": 150,
+  "keywords": ["chlorophyll", "ATP", "NADPH", "Calvin cycle", "glucose"],
+  "explanation": "A full answer links both stages: light energy is first captured as ATP and NADPH, which then power carbon fixation."
+}
+`;
+};
+
+// Every question is tagged with its cognitive level and skill; a target distribution fixes how many land on each level
+const bloomSection = ({ bloomDistribution, questionCount }: QuizPreferences): string => {
+  const counts = bloomDistribution ? bloomLevelCounts(bloomDistribution, questionCount) : {};
+  const targetRules = Object.keys(counts).length > 0 ? `
+- Cognitive level mix for this quiz: exactly ${Object.entries(counts).map(([level, count]) => `${count} ${level}`).join(', ')}
+- Do not use any other level
+` : '';
+
+  return `
+COGNITIVE LEVEL TAGGING:
+- Every question MUST include "bloomLevel": the Bloom's taxonomy level it actually requires, one of ${BLOOM_LEVELS.map(level => `"${level}"`).join(', ')}
+${BLOOM_LEVELS.map(level => `  - ${level}: ${BLOOM_LEVEL_DESCRIPTIONS[level]}`).join('\n')}
+- Every question MUST include "skill": 2-5 words in English naming the skill it exercises, e.g. "interpreting graphs", "balancing equations"
+- Tag the thinking the question demands, not its topic; recalling a definition is "remember" even on a hard topic
+${targetRules}`;
+};
+
+// Adaptive quizzes draw from a pool that must span every difficulty, so each question states its level
+const adaptivePoolSection = ({ mode, questionCount }: QuizPreferences): string => {
+  if (mode !== 'adaptive') return '';
+
+  const basic = Math.round(questionCount / 3);
+  const advanced = Math.round(questionCount / 3);
+  const intermediate = questionCount - basic - advanced;
+  return `
+ADAPTIVE QUESTION POOL:
+- These questions form a pool for an adaptive test that picks harder or easier questions as the student answers
+- Ignore the single difficulty above: generate exactly ${basic} basic, ${intermediate} intermediate and ${advanced} advanced questions
+- Every question MUST include "difficulty": "basic" | "intermediate" | "advanced"
+- basic: one step, recall or direct application; intermediate: two or three steps or combining ideas; advanced: multi-step reasoning, edge cases or unfamiliar contexts
+`;
+};
+
+// What the verifier must return as "answer" for each question type
+const VERIFIER_ANSWER_FORMATS: Record<string, string> = {
+  'multi-select': 'an array with the exact text of EVERY correct option',
+  'sequence': 'an array with the exact text of every step, in the correct order',
+  'short-answer': 'a short string with the expected answer',
+  'fill-blank': 'a short string with the word or phrase for the blank'
+};
+
+export type QuizPromptVariables = {
+  preferences: QuizPreferences;
+  coveredConcepts: string[]; // Concepts from past quizzes the model should steer away from
+  varietyFocus: string;
+  batch?: { part: number; totalParts: number; typeCounts: Partial<Record<QuestionType, number>> };
+};
+
+export type RepairPromptVariables = {
+  items: { question: unknown; type: string; problem: string }[];
+  language: string;
+  material: StudyMaterial | null;
+};
+
+export type VerificationPromptVariables = {
+  question: Record<string, unknown>; // Only the fields a student sees
+  questionType: string;
+  language: string;
+  material: StudyMaterial | null;
+};
+
+export type ExplanationPromptVariables = {
+  question: string;
+  correctAnswer: string;
+  topic: string;
+  language: string;
+};
+
+export type HintPromptVariables = {
+  question: Record<string, unknown>; // Only the fields a student sees
+  correctAnswer: string;
+  level: number; // 1 is a gentle nudge, the last level is nearly a worked solution
+  maxLevel: number;
+  previousHints: string[];
+  language: string;
+};
+
+export type FollowUpPromptVariables = {
+  question: Record<string, unknown>; // Only the fields a student sees
+  correctAnswer: string;
+  userAnswer: string;
+  explanation: string;
+  history: ChatMessage[];
+  message: string;
+  language: string;
+};
+
+export type EvaluationPromptVariables = {
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+  keywords: string[];
+  language: string;
+  rubric?: RubricCriterion[]; // Long answers are graded per criterion instead of right/wrong
+  wordLimit?: number;
+};
+
+export type AnalysisPromptVariables = {
+  currentQuizResult: QuizResult;
+  historicalQuizResults: QuizResult[];
+  preferences: QuizPreferences;
+};
+
+type PromptVariables = {
+  'quiz-generation': QuizPromptVariables;
+  'question-repair': RepairPromptVariables;
+  'answer-verification': VerificationPromptVariables;
+  'answer-explanation': ExplanationPromptVariables;
+  'question-hint': HintPromptVariables;
+  'question-follow-up': FollowUpPromptVariables;
+  'answer-evaluation': EvaluationPromptVariables;
+  'quiz-analysis': AnalysisPromptVariables;
+};
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export type PromptTemplate<Id extends PromptTemplateId> = {
+  id: Id;
+  version: number;
+  description: string;
+  render: (variables: PromptVariables[Id]) => string;
+};
+
+const renderQuizPromptV1 = ({ preferences, coveredConcepts, varietyFocus, batch }: QuizPromptVariables): string => {
+  const { course, topic, subtopic, questionCount, questionTypes, language: quizLanguage, difficulty } = preferences;
+
+  // Generate a unique seed based on current timestamp and random factors
+  const uniqueSeed = Date.now() + Math.random() * 1000000;
+  const sessionId = Math.random().toString(36).substring(2, 15);
+
+  // Tell each batch which slice of the quiz it owns
+  const batchPrompt = batch && batch.totalParts > 1
+    ? `
+BATCH INSTRUCTIONS:
+This is part ${batch.part} of ${batch.totalParts} of a larger quiz generated in parallel. Other parts cover different sub-areas, so stay within this part's variety focus.
+Question type mix for this part: exactly ${describeTypeCounts(batch.typeCounts)}.
+`
+    : '';
+
+  const materialPrompt = preferences.source === 'material' && preferences.material?.text
+    ? materialSection(preferences.material)
+    : '';
+
+  // Past questions are screened by embedding after generation; the prompt only names what was covered
+  let historicalAvoidancePrompt = '';
+  if (coveredConcepts.length > 0) {
+    historicalAvoidancePrompt = `
+CRITICAL REPETITION AVOIDANCE:
+The user has already been quizzed on these concepts. Prefer other concepts, or test these from a clearly different angle with new examples and scenarios:
+${coveredConcepts.join('; ')}
+`;
+  }
+
+  // Advanced prompt with variety mechanisms
+  return `QUIZ GENERATION SESSION: ${sessionId} | VARIETY SEED: ${uniqueSeed}
+
+Generate a UNIQUE and DIVERSE premium-quality quiz about "${course}${topic ? ` - ${topic}` : ''}${subtopic ? ` (${subtopic})` : ''}" with exactly ${questionCount} questions.
+
+CRITICAL UNIQUENESS REQUIREMENTS:
+1. VARIETY FOCUS: ${varietyFocus}
+2. RANDOMIZATION SEED: ${uniqueSeed} - Use this to ensure different question angles
+3. AVOID COMMON PATTERNS: Do not use typical textbook examples or standard questions
+4. PERSPECTIVE SHIFTS: Approach topics from multiple angles (practical, theoretical, historical, futuristic)
+5. DIFFICULTY VARIATION: Within ${difficulty} level, vary complexity from basic to advanced
+6. CONTEXT DIVERSITY: Use different scenarios, industries, time periods, and applications
+7. QUESTION STEM VARIETY: Use different question formats and phrasings
+8. CONTENT DEPTH: Mix surface-level and deep conceptual understanding
+
+ADVANCED QUESTION DIVERSIFICATION:
+- Use different cognitive levels: Remember, Understand, Apply, Analyze, Evaluate, Create
+- Include questions from different subtopics within the main topic
+- Vary the context: academic, professional, personal, societal applications
+- Use different time frames: historical, current, future implications
+- Include interdisciplinary connections where relevant
+- Mix concrete examples with abstract concepts
+- Use different cultural and geographical contexts when appropriate
+
+UNIQUENESS MECHANISMS:
+1. Question Angles: Approach each concept from unexpected angles
+2. Scenario Variety: Use diverse real-world scenarios and case studies
+3. Temporal Diversity: Include past, present, and future implications
+4. Scale Variation: Mix micro and macro level questions
+5. Application Contexts: Use different industries, situations, and environments
+6. Cognitive Complexity: Vary the thinking processes required
+
+${materialPrompt}
+${historicalAvoidancePrompt}
+${batchPrompt}
+STRICT COMMERCIAL REQUIREMENTS:
+1. CORE PARAMETERS:
+- Course/Stream: ${course}
+${topic ? `- Topic: ${topic}` : '- Topic: General concepts and principles'}
+${subtopic ? `- Subtopic: ${subtopic}` : ''}
+- Language: ${quizLanguage} (flawless grammar)
+- Difficulty: ${difficulty} (with natural variation)
+- Question Types: ONLY ${questionTypes.join(', ')} - DO NOT include any other question types
+- Each question must be unique and not repetitive
+- Include practical applications and real-world scenarios
+- Ensure progressive complexity within the chosen difficulty level
+- AVOID standard textbook questions - be creative and original
+
+2. STRICT QUESTION TYPE REQUIREMENTS:
+
+${QUESTION_TYPE_REQUIREMENTS}
+
+CRITICAL REQUIREMENTS:
+1. Every question MUST include:
+   - Complete "text" field with clear question
+   - Appropriate fields for its type (see examples)
+   - Detailed "explanation" field
+   - Short "concept" field (2-6 words) naming the specific idea the question tests
+   - All text in ${quizLanguage}
+
+2. Format as valid JSON array with no trailing commas
+3. Use double quotes for strings
+4. Escape quotes within strings
+5. No text outside the JSON array
+6. No missing or null fields
+7. For multi-select questions, ALWAYS include EXACTLY 2 OR 3 correct options - no more, no less
+8. For sequence questions, ALWAYS provide step-by-step explanation
+9. For case-study and situation questions, ALWAYS include detailed scenario (100+ words)
+10. ALWAYS analyze ALL options in explanations for case-study and situation questions
+11. For short-answer and fill-blank questions, ALWAYS include keywords array for flexible matching
+12. CRITICAL: Generate ONLY questions of the specified types: ${questionTypes.join(', ')}`;
+};
+
+const quizGenerationV1: PromptTemplate<'quiz-generation'> = {
+  id: 'quiz-generation',
+  version: 1,
+  description: 'Variety-seeded quiz generation with per-type requirements and examples',
+  render: renderQuizPromptV1
+};
+
+// Same as v1, plus optional diagrams, charts and questions about uploaded images
+const quizGenerationV2: PromptTemplate<'quiz-generation'> = {
+  id: 'quiz-generation',
+  version: 2,
+  description: 'Quiz generation v1 with optional image, SVG diagram and chart media',
+  render: variables => `${renderQuizPromptV1(variables)}
+${mediaSection(variables.preferences)}`
+};
+
+// Same as v2, plus rules for rubric-graded long-answer questions
+const quizGenerationV3: PromptTemplate<'quiz-generation'> = {
+  id: 'quiz-generation',
+  version: 3,
+  description: 'Quiz generation v2 with long-answer questions, model answers and rubrics',
+  render: variables => `${renderQuizPromptV1(variables)}
+${longAnswerSection(variables.preferences)}${mediaSection(variables.preferences)}`
+};
+
+// Same as v3, plus Bloom level and skill tags on every question and an optional level mix
+const quizGenerationV4: PromptTemplate<'quiz-generation'> = {
+  id: 'quiz-generation',
+  version: 4,
+  description: 'Quiz generation v3 with Bloom level and skill tags and a target level distribution',
+  render: variables => `${renderQuizPromptV1(variables)}
+${longAnswerSection(variables.preferences)}${mediaSection(variables.preferences)}${bloomSection(variables.preferences)}`
+};
+
+// Same as v4, plus a difficulty-spread question pool for adaptive quizzes
+const quizGenerationV5: PromptTemplate<'quiz-generation'> = {
+  id: 'quiz-generation',
+  version: 5,
+  description: 'Quiz generation v4 with per-question difficulty and an even difficulty spread for adaptive pools',
+  render: variables => `${quizGenerationV4.render(variables)}${adaptivePoolSection(variables.preferences)}`
+};
+
+// Bloom level and skill tags are part of the answer format from quiz-generation v4 on
+export const quizPromptAsksForCognitiveTags = (version: number = ACTIVE_PROMPT_VERSIONS['quiz-generation']): boolean =>
+  version >= quizGenerationV4.version;
+
+const questionRepairV1: PromptTemplate<'question-repair'> = {
+  id: 'question-repair',
+  version: 1,
+  description: 'Fixes only the listed validation problem in each question',
+  render: ({ items, language, material }) => `The following generated quiz questions failed validation. Fix ONLY the listed problem in each question while keeping its topic, type and intent.
+${material ? materialSection(material) : ''}
+${items.map((item, index) => `QUESTION ${index + 1} (type: ${item.type})
+Problem: ${item.problem}
+${JSON.stringify(item.question, null, 2)}`).join('\n\n')}
+
+QUESTION TYPE REQUIREMENTS:
+
+${QUESTION_TYPE_REQUIREMENTS}
+
+Respond with a valid JSON array containing exactly ${items.length} corrected question objects, in the same order as above.
+- All text in ${language}
+- Use double quotes for strings and no trailing commas
+- No text outside the JSON array`
+};
+
+// The verifier only sees what a student sees, so it solves the question independently of the key
+const answerVerificationV1: PromptTemplate<'answer-verification'> = {
+  id: 'answer-verification',
+  version: 1,
+  description: 'Blind re-solve of a generated question to check its answer key',
+  render: ({ question, questionType, language, material }) => `You are an expert examiner checking a ${language} quiz question before students see it. Solve it yourself; no answer key is provided.
+${material ? `
+Answer ONLY from this study material ("${material.name}"):
+"""
+${material.text}
+"""
+` : ''}
+QUESTION:
+${JSON.stringify(question, null, 2)}
+
+Respond with ONLY a JSON object:
+{
+  "answer": ${VERIFIER_ANSWER_FORMATS[questionType] || 'the exact text of the single best option'},
+  "ambiguous": true if more than one answer could reasonably be defended or the question cannot be answered as written, otherwise false,
+  "note": "one short sentence describing any problem, or an empty string"
+}`
+};
+
+// supabase/functions/_shared/explanationCache.ts renders the same text for explanations it caches; change both together
+const answerExplanationV1: PromptTemplate<'answer-explanation'> = {
+  id: 'answer-explanation',
+  version: 1,
+  description: 'Step-by-step explanation of why an answer is correct',
+  render: ({ question, correctAnswer, topic, language }) => `Explain why "${correctAnswer}" is the correct answer to this ${topic} question: "${question}"
+  
+Requirements:
+- Use ${language} language
+- Be clear and concise
+- Include relevant concepts
+- Explain step-by-step if applicable
+- Add examples if helpful`
+};
+
+// The answer key is shared so hints point the right way; the model is told never to state it
+const questionHintV1: PromptTemplate<'question-hint'> = {
+  id: 'question-hint',
+  version: 1,
+  description: 'Progressively stronger hints that never give the answer away',
+  render: ({ question, correctAnswer, level, maxLevel, previousHints, language }) => `You are a patient tutor. A student is stuck on this quiz question and asked for hint ${level} of ${maxLevel}.
+
+QUESTION:
+${JSON.stringify(question, null, 2)}
+
+ANSWER KEY (for your reference only - NEVER reveal it): ${correctAnswer}
+${previousHints.length > 0 ? `
+Hints already given:
+${previousHints.map((hint, index) => `${index + 1}. ${hint}`).join('\n')}
+` : ''}
+Write hint ${level}:
+- Level 1: point to the concept or principle involved
+- Level 2: narrow it down, e.g. what to look for or which options can be ruled out and why
+- Level 3: walk through the reasoning up to the last step, leaving the final answer to the student
+- Go further than the hints already given, without repeating them
+- NEVER state the answer, quote the correct option, or name which option is correct
+- One to three sentences in ${language}, plain text with no heading`
+};
+
+const questionFollowUpV1: PromptTemplate<'question-follow-up'> = {
+  id: 'question-follow-up',
+  version: 1,
+  description: 'Tutor conversation about one answered quiz question',
+  render: ({ question, correctAnswer, userAnswer, explanation, history, message, language }) => `You are a friendly, expert tutor. A student has finished a quiz and wants to talk about one question.
+
+QUESTION:
+${JSON.stringify(question, null, 2)}
+
+CORRECT ANSWER: ${correctAnswer}
+STUDENT'S ANSWER: ${userAnswer || '(skipped)'}
+${explanation ? `EXPLANATION ALREADY SHOWN:
+${explanation}
+` : ''}${history.length > 0 ? `
+CONVERSATION SO FAR:
+${history.map(turn => `${turn.type === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`).join('\n\n')}
+` : ''}
+Student: ${message}
+
+Reply as the tutor:
+- Answer exactly what the student asked, e.g. why another option is wrong, or give a fresh example
+- If the student's answer was wrong, address the misconception behind it
+- Stay on this question and its concept; do not quiz the student on unrelated material
+- Keep it short (under 200 words) and write in ${language}
+- Plain text or simple markdown, without repeating the question`
+};
+
+const answerEvaluationV1: PromptTemplate<'answer-evaluation'> = {
+  id: 'answer-evaluation',
+  version: 1,
+  description: 'Lenient grading of short-answer and fill-blank responses',
+  render: ({ question, userAnswer, correctAnswer, keywords, language }) => `Evaluate this student answer for the question:
+
+Question: "${question}"
+Correct Answer: "${correctAnswer}"
+Student Answer: "${userAnswer}"
+Key Terms: ${keywords.join(', ')}
+
+Evaluation Criteria:
+1. Check if the student answer contains the core concepts
+2. Look for key terms or their synonyms
+3. Consider spelling variations and abbreviations
+4. Evaluate partial correctness
+5. Provide constructive feedback
+
+Respond in JSON format:
+{
+  "isCorrect": boolean (true if answer demonstrates understanding, even with minor errors),
+  "score": number (0-100, percentage of correctness),
+  "feedback": "detailed explanation in ${language}"
+}
+
+Be lenient with:
+- Minor spelling mistakes
+- Different word order
+- Synonyms and abbreviations
+- Partial answers that show understanding
+
+Be strict with:
+- Completely wrong concepts
+- Missing core elements
+- Contradictory information`
+};
+
+// Same as v1 for short answers; long answers are marked against their rubric
+const answerEvaluationV2: PromptTemplate<'answer-evaluation'> = {
+  id: 'answer-evaluation',
+  version: 2,
+  description: 'Answer evaluation v1 plus per-criterion rubric grading of long answers',
+  render: variables => {
+    const { question, userAnswer, correctAnswer, keywords, language, rubric, wordLimit } = variables;
+    if (!rubric || rubric.length === 0) return answerEvaluationV1.render(variables);
+
+    return `Mark this student's answer to a descriptive exam question against the rubric.
+
+Question: "${question}"
+Model Answer: "${correctAnswer}"
+Key Terms: ${keywords.join(', ')}
+${wordLimit ? `Word Limit: ${wordLimit} words\n` : ''}
+Rubric:
+${rubric.map((item, index) => `${index + 1}. ${item.criterion} (weight ${item.weight})`).join('\n')}
+
+Student Answer:
+"""
+${userAnswer}
+"""
+
+Marking rules:
+- Score each criterion separately from 0 to 100 for how fully the answer meets it
+- Credit correct points phrased differently from the model answer
+- Do not credit key terms that are only listed without being explained
+- Content well beyond the word limit should not earn extra credit
+- Ignore spelling and grammar unless they change the meaning
+
+Respond in JSON format:
+{
+  "criteria": [
+    { "criterion": "criterion text, in rubric order", "score": number (0-100), "feedback": "one sentence in ${language}" }
+  ],
+  "feedback": "overall comment in ${language}: what was done well and what was missing"
+}`;
+  }
+};
+
+const quizAnalysisV1: PromptTemplate<'quiz-analysis'> = {
+  id: 'quiz-analysis',
+  version: 1,
+  description: 'Strengths, weaknesses and recommendations from current and past results',
+  render: ({ currentQuizResult, historicalQuizResults, preferences }) => `Analyze the user's quiz performance and provide personalized strengths, weaknesses, recommendations, and comparative performance.
+
+Current Quiz Result:
+- Score: ${currentQuizResult.percentage}%
+- Correct Answers: ${currentQuizResult.correctAnswers}/${currentQuizResult.totalQuestions}
+- Time Taken: ${currentQuizResult.totalTimeTaken} seconds
+- Accuracy Rate: ${currentQuizResult.accuracyRate}%
+- Completion Rate: ${currentQuizResult.completionRate}%
+- Question Type Performance: ${JSON.stringify(currentQuizResult.questionTypePerformance)}
+- Quiz Preferences: Course: ${preferences.course}, Topic: ${preferences.topic}, Difficulty: ${preferences.difficulty}, Language: ${preferences.language}
+
+Historical Quiz Results (last ${historicalQuizResults.length} quizzes, sorted by date descending):
+${historicalQuizResults.map((res, index) => `
+  Quiz ${index + 1}:
+  - Date: ${res.quizDate?.toLocaleDateString()}
+  - Score: ${res.percentage}%
+  - Correct: ${res.correctAnswers}/${res.totalQuestions}
+  - Time: ${res.totalTimeTaken}s
+  - Accuracy: ${res.accuracyRate}%
+  - Topic: ${res.topic}
+  - Difficulty: ${res.difficulty}
+  - Question Types: ${JSON.stringify(res.questionTypePerformance)}
+`).join('\n')}
+
+Based on the current quiz and historical data, provide the following in JSON format:
+{
+  "strengths": ["List of specific strengths based on performance patterns"],
+  "weaknesses": ["List of specific weaknesses based on performance patterns"],
+  "recommendations": ["Actionable recommendations for improvement"],
+  "comparativePerformance": {
+    "overall": "How current performance compares to historical average (e.g., 'X% higher than average')",
+    "topicSpecific": "How current performance compares to past quizzes on the same topic (if available)",
+    "difficultySpecific": "How current performance compares to past quizzes of the same difficulty (if available)"
+  }
+}
+
+Consider:
+- Consistency in performance over time.
+- Improvement or decline in specific topics or question types.
+- Efficiency (time taken vs. score).
+- Areas where the user consistently performs well or struggles.
+- Provide actionable and encouraging recommendations.
+- If no historical data, base analysis solely on the current quiz.
+`
+};
+
+const PROMPT_TEMPLATES: { [Id in PromptTemplateId]: PromptTemplate<Id>[] } = {
+  'quiz-generation': [quizGenerationV1, quizGenerationV2, quizGenerationV3, quizGenerationV4, quizGenerationV5],
+  'question-repair': [questionRepairV1],
+  'answer-verification': [answerVerificationV1],
+  'answer-explanation': [answerExplanationV1],
+  'question-hint': [questionHintV1],
+  'question-follow-up': [questionFollowUpV1],
+  'answer-evaluation': [answerEvaluationV1, answerEvaluationV2],
+  'quiz-analysis': [quizAnalysisV1],
+};
+
+// The version new requests use; older versions stay registered so past results can still be traced to them
+export const ACTIVE_PROMPT_VERSIONS: Record<PromptTemplateId, number> = {
+  'quiz-generation': 5,
+  'question-repair': 1,
+  'answer-verification': 1,
+  'answer-explanation': 1,
+  'question-hint': 1,
+  'question-follow-up': 1,
+  'answer-evaluation': 2,
+  'quiz-analysis': 1,
+};
+
+export const getPromptTemplate = <Id extends PromptTemplateId>(
+  id: Id,
+  version: number = ACTIVE_PROMPT_VERSIONS[id]
+): PromptTemplate<Id> => {
+  const template = (PROMPT_TEMPLATES[id] as PromptTemplate<Id>[]).find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt template ${id} v${version}`);
+  }
+  return template;
+};
+
+export const renderPrompt = <Id extends PromptTemplateId>(
+  id: Id,
+  variables: PromptVariables[Id],
+  version?: number
+): string => getPromptTemplate(id, version).render(variables);
+
+export const activePromptRef = (id: PromptTemplateId): PromptTemplateRef => ({
+  id,
+  version: ACTIVE_PROMPT_VERSIONS[id]
+});
@@ -0,0 +1,86 @@
+// src/services/questionMedia.ts
+import { ChartSpec, QuestionMedia, QuizImage } from '../types';
+import { LlmImage } from './llm';
+
+// The gemini edge function accepts up to 4 images per request; 3 leaves room in the prompt
+export const MAX_QUIZ_IMAGES = 3;
+export const MAX_QUIZ_IMAGE_BYTES = 4 * 1024 * 1024;
+export const QUIZ_IMAGE_ACCEPT = 'image/png,image/jpeg,image/webp,image/gif';
+
+// Generated diagrams are stored with the quiz result, so keep them small
+const MAX_SVG_CHARS = 20000;
+const MAX_CHART_POINTS = 12;
+const CHART_TYPES: ChartSpec['type'][] = ['bar', 'line', 'pie'];
+
+type RawFields = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawFields =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const parseChartSpec = (raw: unknown): ChartSpec | null => {
+  if (!isRecord(raw) || !CHART_TYPES.includes(raw.type as ChartSpec['type']) || !Array.isArray(raw.data)) return null;
+  const data = raw.data
+    .filter((point): point is RawFields => isRecord(point) && typeof point.label === 'string' && Number.isFinite(Number(point.value)))
+    .map(point => ({ label: String(point.label), value: Number(point.value) }));
+  if (data.length < 2 || data.length > MAX_CHART_POINTS || data.length !== raw.data.length) return null;
+
+  return {
+    type: raw.type as ChartSpec['type'],
+    title: optionalText(raw.title),
+    xLabel: optionalText(raw.xLabel),
+    yLabel: optionalText(raw.yLabel),
+    data
+  };
+};
+
+// Turns the model's "media" field into QuestionMedia; image questions name an uploaded image by its 1-based number.
+// Returns null when the media is unusable, so the question can be repaired or replaced.
+export const parseQuestionMedia = (raw: unknown, images: QuizImage[] = []): QuestionMedia | null => {
+  if (!isRecord(raw)) return null;
+  const alt = optionalText(raw.alt);
+  if (!alt) return null;
+  const caption = optionalText(raw.caption);
+
+  switch (raw.kind) {
+    case 'image': {
+      const image = images[Number(raw.image) - 1];
+      return image ? { kind: 'image', url: image.url, alt, caption } : null;
+    }
+    case 'svg': {
+      const svg = typeof raw.svg === 'string' ? raw.svg.trim() : '';
+      if (!/^<svg[\s>]/i.test(svg) || !/<\/svg>$/i.test(svg) || svg.length > MAX_SVG_CHARS) return null;
+      return { kind: 'svg', svg, alt, caption };
+    }
+    case 'chart': {
+      const chart = parseChartSpec(raw.chart);
+      return chart ? { kind: 'chart', chart, alt, caption } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// SVG is shown through an <img>, where browsers never run scripts or load external resources
+export const svgDataUrl = (svg: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Downloads the uploaded images so they can be sent to the model along with the prompt
+export const loadPromptImages = (images: QuizImage[], signal?: AbortSignal): Promise<LlmImage[]> =>
+  Promise.all(images.map(async image => {
+    const response = await fetch(image.url, { signal });
+    if (!response.ok) {
+      throw new Error(`Could not load image "${image.name}" (${response.status})`);
+    }
+    return { mimeType: image.mimeType, data: await blobToBase64(await response.blob()) };
+  }));
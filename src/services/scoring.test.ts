@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Question, ScoringScheme } from '../types';
+import { DEFAULT_SCORING_SCHEME, scoreAnswer, scoreMultiSelect, scoreSequence, scoreTextEvaluation } from './scoring';
+
+const scheme = (changes: Partial<ScoringScheme> = {}): ScoringScheme => ({ ...DEFAULT_SCORING_SCHEME, ...changes });
+
+const OPTIONS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const STEPS = ['one', 'two', 'three', 'four'];
+
+describe('scoreMultiSelect', () => {
+  it('gives full marks for exactly the correct options', () => {
+    expect(scoreMultiSelect(['B', 'A'], ['A', 'B'], OPTIONS, scheme())).toEqual({ marks: 1, isCorrect: true });
+  });
+
+  it('gives a share per correct pick and takes a share per wrong pick', () => {
+    expect(scoreMultiSelect(['A'], ['A', 'B'], OPTIONS, scheme())).toEqual({ marks: 0.5, isCorrect: false });
+    expect(scoreMultiSelect(['A', 'B', 'C'], ['A', 'B'], OPTIONS, scheme())).toEqual({ marks: 0.75, isCorrect: false });
+  });
+
+  it('scores nothing for selecting every option', () => {
+    expect(scoreMultiSelect(OPTIONS, ['A', 'B'], OPTIONS, scheme()).marks).toBe(0);
+  });
+
+  it('gives nothing for a partly right answer under all-or-nothing', () => {
+    expect(scoreMultiSelect(['A'], ['A', 'B'], OPTIONS, scheme({ multiSelect: 'all-or-nothing' }))).toEqual({ marks: 0, isCorrect: false });
+  });
+});
+
+describe('scoreSequence', () => {
+  it('gives full marks for the correct order under every scheme', () => {
+    for (const sequence of ['all-or-nothing', 'position', 'kendall-tau'] as const) {
+      expect(scoreSequence(STEPS, STEPS, scheme({ sequence }))).toEqual({ marks: 1, isCorrect: true });
+    }
+  });
+
+  it('counts steps in the right place for position credit', () => {
+    const answer = ['two', 'one', 'three', 'four'];
+    expect(scoreSequence(answer, STEPS, scheme({ sequence: 'position' }))).toEqual({ marks: 0.5, isCorrect: false });
+  });
+
+  it('costs only one pair for swapping neighbours under kendall-tau', () => {
+    const answer = ['two', 'one', 'three', 'four'];
+    expect(scoreSequence(answer, STEPS, scheme({ sequence: 'kendall-tau' })).marks).toBe(0.83);
+  });
+
+  it('gives nothing for a reversed order under kendall-tau', () => {
+    expect(scoreSequence([...STEPS].reverse(), STEPS, scheme()).marks).toBe(0);
+  });
+
+  it('does not count pairs with a missing step', () => {
+    expect(scoreSequence(['one', 'two'], STEPS, scheme()).marks).toBe(0.17);
+  });
+});
+
+describe('scoreTextEvaluation', () => {
+  it('follows the evaluator score above the threshold', () => {
+    expect(scoreTextEvaluation({ isCorrect: true, score: 80 }, scheme())).toEqual({ marks: 0.8, isCorrect: true });
+  });
+
+  it('gives nothing below the threshold', () => {
+    expect(scoreTextEvaluation({ isCorrect: true, score: 40 }, scheme())).toEqual({ marks: 0, isCorrect: false });
+  });
+
+  it('only follows the verdict under all-or-nothing', () => {
+    expect(scoreTextEvaluation({ isCorrect: false, score: 90 }, scheme({ textAnswer: 'all-or-nothing' }))).toEqual({ marks: 0, isCorrect: false });
+  });
+});
+
+describe('scoreAnswer', () => {
+  const multipleChoice: Question = {
+    id: 1,
+    type: 'multiple-choice',
+    text: 'Which planet is largest?',
+    difficulty: 'basic',
+    options: ['Mars', 'Jupiter', 'Venus', 'Earth'],
+    correctAnswer: 'Jupiter'
+  };
+  const shortAnswer: Question = {
+    id: 2,
+    type: 'short-answer',
+    text: 'What bond forms when electrons are transferred?',
+    difficulty: 'basic',
+    correctAnswer: 'Ionic bond',
+    keywords: ['ionic']
+  };
+
+  it('marks choice questions case-insensitively', () => {
+    expect(scoreAnswer(multipleChoice, 'jupiter', scheme())).toEqual({ marks: 1, isCorrect: true });
+    expect(scoreAnswer(multipleChoice, 'Mars', scheme())).toEqual({ marks: 0, isCorrect: false });
+  });
+
+  it('gives nothing for a blank answer', () => {
+    expect(scoreAnswer(multipleChoice, '  ', scheme())).toEqual({ marks: 0, isCorrect: false });
+  });
+
+  it('reads multi-select and sequence answers in their stored formats', () => {
+    const multiSelect: Question = { id: 3, type: 'multi-select', text: 'Pick the vowels', difficulty: 'basic', options: ['A', 'B', 'E', 'F'], correctOptions: ['A', 'E'] };
+    const sequence: Question = { id: 4, type: 'sequence', text: 'Order the steps', difficulty: 'basic', sequence: STEPS, correctSequence: STEPS };
+    expect(scoreAnswer(multiSelect, 'A,E', scheme())).toEqual({ marks: 1, isCorrect: true });
+    expect(scoreAnswer(sequence, JSON.stringify(STEPS), scheme())).toEqual({ marks: 1, isCorrect: true });
+  });
+
+  it('gives partial credit for a keyword alone', () => {
+    expect(scoreAnswer(shortAnswer, 'It is ionic', scheme())).toEqual({ marks: 0.5, isCorrect: false });
+    expect(scoreAnswer(shortAnswer, 'It is ionic', scheme({ textAnswer: 'all-or-nothing' }))).toEqual({ marks: 0, isCorrect: false });
+  });
+
+  it('gives full marks for an exact text answer', () => {
+    expect(scoreAnswer(shortAnswer, 'ionic bond', scheme())).toEqual({ marks: 1, isCorrect: true });
+  });
+
+  it('leaves long answers to the grader', () => {
+    const longAnswer: Question = { id: 5, type: 'long-answer', text: 'Explain', difficulty: 'basic', modelAnswer: 'Because', rubric: [], wordLimit: 100 };
+    expect(scoreAnswer(longAnswer, 'Some answer', scheme())).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+// src/services/scoring.ts
+import { Question, ScoringScheme } from '../types';
+import { KEYWORD_MATCH_SCORE, matchTextAnswer } from './answerMatcher';
+
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  multiSelect: 'proportional',
+  sequence: 'kendall-tau',
+  textAnswer: 'threshold',
+  textThreshold: 50
+};
+
+// Share of a question's mark each revealed hint costs in practice mode
+export const DEFAULT_HINT_PENALTY = 0.25;
+
+export type AnswerScore = {
+  marks: number;      // 0-1
+  isCorrect: boolean; // Fully right, as opposed to partly
+};
+
+const roundMarks = (marks: number): number => Math.round(Math.min(1, Math.max(0, marks)) * 100) / 100;
+
+const allOrNothing = (isCorrect: boolean): AnswerScore => ({ marks: isCorrect ? 1 : 0, isCorrect });
+
+// Each correct pick earns an equal share of the mark and each wrong pick takes away a share of the
+// wrong options, so selecting every option scores nothing
+export const scoreMultiSelect = (
+  selected: string[],
+  correctOptions: string[],
+  options: string[],
+  scheme: ScoringScheme
+): AnswerScore => {
+  const picked = new Set(selected);
+  const rightPicks = correctOptions.filter(option => picked.has(option)).length;
+  const wrongPicks = selected.filter(option => !correctOptions.includes(option)).length;
+  const isCorrect = rightPicks === correctOptions.length && wrongPicks === 0;
+  if (scheme.multiSelect === 'all-or-nothing' || correctOptions.length === 0) return allOrNothing(isCorrect);
+
+  const wrongOptions = Math.max(1, options.length - correctOptions.length);
+  return { marks: roundMarks(rightPicks / correctOptions.length - wrongPicks / wrongOptions), isCorrect };
+};
+
+// Position credit counts steps in the right place; Kendall-tau credit counts pairs of steps in the
+// right relative order, so one swap of neighbours costs only a little
+export const scoreSequence = (answer: string[], correctSequence: string[], scheme: ScoringScheme): AnswerScore => {
+  const isCorrect = answer.length === correctSequence.length &&
+    correctSequence.every((step, index) => answer[index] === step);
+  const stepCount = correctSequence.length;
+  if (scheme.sequence === 'all-or-nothing' || stepCount < 2) return allOrNothing(isCorrect);
+
+  if (scheme.sequence === 'position') {
+    const inPlace = correctSequence.filter((step, index) => answer[index] === step).length;
+    return { marks: roundMarks(inPlace / stepCount), isCorrect };
+  }
+
+  // Steps left out of the answer cannot be in order with anything
+  let concordant = 0;
+  for (let i = 0; i < stepCount; i++) {
+    for (let j = i + 1; j < stepCount; j++) {
+      const first = answer.indexOf(correctSequence[i]);
+      const second = answer.indexOf(correctSequence[j]);
+      if (first !== -1 && second !== -1 && first < second) concordant++;
+    }
+  }
+  return { marks: roundMarks(concordant / (stepCount * (stepCount - 1) / 2)), isCorrect };
+};
+
+// Credit from the AI evaluator's 0-100 score; below the threshold the answer earns nothing
+export const scoreTextEvaluation = (
+  evaluation: { isCorrect: boolean; score: number },
+  scheme: ScoringScheme
+): AnswerScore => {
+  if (scheme.textAnswer === 'all-or-nothing') return allOrNothing(evaluation.isCorrect);
+
+  const marks = evaluation.score >= scheme.textThreshold ? roundMarks(evaluation.score / 100) : 0;
+  return { marks, isCorrect: evaluation.isCorrect && marks > 0 };
+};
+
+const parseSequenceAnswer = (answer: string): string[] => {
+  try {
+    const steps = JSON.parse(answer);
+    return Array.isArray(steps) ? steps.map(String) : [];
+  } catch (error) {
+    console.error('Failed to parse sequence answer:', error);
+    return [];
+  }
+};
+
+// Scores everything that can be scored without the AI evaluator. Text answers only get the local
+// matcher here, where a keyword alone earns partial credit at most; long answers return null because
+// they always need rubric grading.
+export const scoreAnswer = (question: Question, userAnswer: string, scheme: ScoringScheme): AnswerScore | null => {
+  if (!userAnswer || !userAnswer.trim()) return allOrNothing(false);
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'case-study':
+    case 'situation':
+      return allOrNothing(!!question.correctAnswer && userAnswer.toLowerCase() === question.correctAnswer.toLowerCase());
+    case 'multi-select':
+      return scoreMultiSelect(userAnswer.split(','), question.correctOptions || [], question.options || [], scheme);
+    case 'sequence':
+      return scoreSequence(parseSequenceAnswer(userAnswer), question.correctSequence || [], scheme);
+    case 'short-answer':
+    case 'fill-blank': {
+      if (!question.correctAnswer) return allOrNothing(false);
+      const match = matchTextAnswer(userAnswer, question.correctAnswer, question.keywords);
+      if (match.method === 'keyword') return scoreTextEvaluation({ isCorrect: false, score: KEYWORD_MATCH_SCORE }, scheme);
+      return allOrNothing(match.isMatch);
+    }
+    case 'long-answer':
+      return null;
+    default:
+      return allOrNothing(false);
+  }
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FavoriteQuestion, Question, ReviewSchedule } from '../types';
+import { questionFingerprint } from './calibration';
+import { favoriteCardDrafts, mistakeCardDrafts, reviewAnswerText, scheduleReview } from './spacedRepetition';
+
+vi.mock('./supabase', () => ({ getQuestionCalibrations: vi.fn() }));
+
+const NOW = new Date('2026-10-19T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const newCard: ReviewSchedule = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lapses: 0, dueAt: NOW };
+
+describe('scheduleReview', () => {
+  it('spaces good recalls 1 day, 6 days, then by the ease factor', () => {
+    const first = scheduleReview(newCard, 4, NOW);
+    const second = scheduleReview(first, 4, NOW);
+    const third = scheduleReview(second, 4, NOW);
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toBe(3);
+    expect(third.dueAt.getTime()).toBe(NOW.getTime() + 15 * DAY_MS);
+  });
+
+  it('moves the ease factor down for hard recalls and up for easy ones', () => {
+    expect(scheduleReview(newCard, 3, NOW).easeFactor).toBeCloseTo(2.36, 6);
+    expect(scheduleReview(newCard, 4, NOW).easeFactor).toBeCloseTo(2.5, 6);
+    expect(scheduleReview(newCard, 5, NOW).easeFactor).toBeCloseTo(2.6, 6);
+  });
+
+  it('restarts a lapsed card at one day and counts the lapse', () => {
+    const learned: ReviewSchedule = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 0, dueAt: NOW };
+    const lapsed = scheduleReview(learned, 1, NOW);
+    expect(lapsed).toMatchObject({ intervalDays: 1, repetitions: 0, lapses: 1 });
+    expect(lapsed.dueAt.getTime()).toBe(NOW.getTime() + DAY_MS);
+  });
+
+  it('never lets the ease factor fall below 1.3', () => {
+    const hardCard: ReviewSchedule = { ...newCard, easeFactor: 1.3 };
+    expect(scheduleReview(hardCard, 1, NOW).easeFactor).toBe(1.3);
+  });
+});
+
+const wrongAnswer: Question = {
+  id: 1,
+  type: 'multiple-choice',
+  text: 'Which planet is largest?',
+  difficulty: 'basic',
+  options: ['Mars', 'Jupiter', 'Venus', 'Earth'],
+  correctAnswer: 'Jupiter',
+  explanation: 'Jupiter is the largest planet.',
+  userAnswer: 'Mars',
+  isCorrect: false
+};
+
+describe('reviewAnswerText', () => {
+  it('shows list answers in a readable form', () => {
+    const multiSelect: Question = { id: 2, type: 'multi-select', text: 'Gas giants?', difficulty: 'basic', options: [], correctOptions: ['Jupiter', 'Saturn'] };
+    const sequence: Question = { id: 3, type: 'sequence', text: 'Order', difficulty: 'basic', sequence: [], correctSequence: ['one', 'two'] };
+    expect(reviewAnswerText(multiSelect)).toBe('Jupiter, Saturn');
+    expect(reviewAnswerText(sequence)).toBe('one → two');
+    expect(reviewAnswerText(wrongAnswer)).toBe('Jupiter');
+  });
+});
+
+describe('mistakeCardDrafts', () => {
+  it('makes one card per question answered wrong, keyed by fingerprint', async () => {
+    const right: Question = { ...wrongAnswer, id: 2, text: 'Which planet is smallest?', correctAnswer: 'Mercury', userAnswer: 'Mercury', isCorrect: true };
+    const skipped: Question = { ...wrongAnswer, id: 3, text: 'Which planet is hottest?', userAnswer: '', isCorrect: false };
+    const drafts = await mistakeCardDrafts([
+      { topic: 'Planets', questions: [wrongAnswer, right, skipped] },
+      { topic: null, questions: [{ ...wrongAnswer, id: 9 }] }
+    ]);
+
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({
+      source: 'mistake',
+      sourceKey: await questionFingerprint(wrongAnswer),
+      prompt: 'Which planet is largest?',
+      answer: 'Jupiter',
+      topic: 'Planets'
+    });
+  });
+});
+
+describe('favoriteCardDrafts', () => {
+  it('keys favourite cards by the favourite id', () => {
+    const favorite: FavoriteQuestion = { id: 'fav-1', questionText: 'What is H2O?', answer: 'Water', topic: 'Chemistry', createdAt: NOW };
+    expect(favoriteCardDrafts([favorite])).toEqual([
+      { source: 'favorite', sourceKey: 'fav-1', prompt: 'What is H2O?', answer: 'Water', explanation: undefined, topic: 'Chemistry' }
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+// src/services/spacedRepetition.ts
+import { FavoriteQuestion, Question, ReviewCardDraft, ReviewQuality, ReviewSchedule } from '../types';
+import { questionFingerprint } from './calibration';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// The four buttons shown after the answer is revealed, as SM-2 qualities
+export const REVIEW_GRADES: { quality: ReviewQuality; label: string }[] = [
+  { quality: 1, label: 'Again' },
+  { quality: 3, label: 'Hard' },
+  { quality: 4, label: 'Good' },
+  { quality: 5, label: 'Easy' }
+];
+
+// SM-2: a lapse restarts the card at one day; otherwise 1 day, then 6, then the last interval times the
+// ease factor. The ease factor drifts down for hard recalls and up for easy ones.
+export const scheduleReview = (card: ReviewSchedule, quality: ReviewQuality, now = new Date()): ReviewSchedule => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0, lapses: card.lapses + 1, dueAt: new Date(now.getTime() + DAY_MS) };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * card.easeFactor);
+  return { easeFactor, intervalDays, repetitions, lapses: card.lapses, dueAt: new Date(now.getTime() + intervalDays * DAY_MS) };
+};
+
+// The expected answer in a form that can be shown on the back of a card
+export const reviewAnswerText = (question: Question): string => {
+  switch (question.type) {
+    case 'multi-select':
+      return question.correctOptions.join(', ');
+    case 'sequence':
+      return question.correctSequence.join(' → ');
+    case 'long-answer':
+      return question.modelAnswer;
+    default:
+      return question.correctAnswer;
+  }
+};
+
+// Answered-but-wrong questions from saved quiz results, newest result first. A question missed in
+// several quizzes becomes one card, keyed by its fingerprint.
+export const mistakeCardDrafts = async (
+  results: { topic?: string | null; questions: Question[] }[]
+): Promise<ReviewCardDraft[]> => {
+  const drafts = new Map<string, ReviewCardDraft>();
+  for (const result of results) {
+    for (const question of result.questions) {
+      if (!question.userAnswer?.trim() || question.isCorrect !== false) continue;
+      const sourceKey = question.fingerprint || await questionFingerprint(question);
+      if (drafts.has(sourceKey)) continue;
+      drafts.set(sourceKey, {
+        source: 'mistake',
+        sourceKey,
+        prompt: question.text,
+        answer: reviewAnswerText(question),
+        explanation: question.explanation,
+        topic: result.topic || undefined,
+        question
+      });
+    }
+  }
+  return [...drafts.values()];
+};
+
+export const favoriteCardDrafts = (favorites: FavoriteQuestion[]): ReviewCardDraft[] =>
+  favorites.map(favorite => ({
+    source: 'favorite',
+    sourceKey: favorite.id,
+    prompt: favorite.questionText,
+    answer: favorite.answer,
+    explanation: favorite.explanation,
+    topic: favorite.topic
+  }));
@@ -1,6 +1,8 @@
 // src/services/supabase.ts
 import { createClient } from '@supabase/supabase-js';
-import { ApiKeyData, QuizPreferences, UserProfile, QuizResultData, FavoriteQuestion, QuizResult } from '../types';
+import { aiFetch } from './aiClient';
+import { DEFAULT_HINT_PENALTY } from './scoring';
+import { AiProviderSettings, AiUsageCaps, ApiKeyProvider, AiUsageDay, ApiKeyData, QuizPreferences, UserProfile, QuizResultData, FavoriteQuestion, QuizResult, Question, QuestionEmbedding, QuizImage, ChatMessage, QuestionCalibration, ReviewCard, ReviewCardDraft, ReviewSchedule, QuizSessionSnapshot, StudyMaterial } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -54,28 +56,109 @@ export const testConnection = async () => {
 };
 
 // API Key functions
-export const getApiKey = async (userId: string): Promise<string | null> => {
+// The key itself is only readable by edge functions; the browser sees a masked fingerprint
+const FINGERPRINT_COLUMNS: Record<ApiKeyProvider, string> = {
+  'gemini': 'gemini_api_key_fingerprint',
+  'openai-compatible': 'openai_api_key_fingerprint',
+};
+
+export const getApiKeyFingerprint = async (userId: string, provider: ApiKeyProvider = 'gemini'): Promise<string | null> => {
+  try {
+    const column = FINGERPRINT_COLUMNS[provider];
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(column)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching API key fingerprint:', error);
+      throw error;
+    }
+    return (data as Record<string, string | null> | null)?.[column] || null;
+  } catch (error) {
+    console.error('getApiKeyFingerprint error:', error);
+    throw error;
+  }
+};
+
+type ApiKeyAction =
+  | { action: 'save'; apiKey: string; provider: ApiKeyProvider }
+  | { action: 'test' }
+  | { action: 'delete'; provider: ApiKeyProvider };
+
+const callManageApiKey = async <T>(body: ApiKeyAction): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const response = await aiFetch(`${supabaseUrl}/functions/v1/manage-api-key`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  }, { retries: 0 });
+  return response.json();
+};
+
+// Encrypts and stores the key server-side; resolves with its fingerprint
+export const saveApiKey = async (apiKey: string, provider: ApiKeyProvider = 'gemini'): Promise<string> => {
+  try {
+    const { fingerprint } = await callManageApiKey<{ fingerprint: string }>({ action: 'save', apiKey, provider });
+    return fingerprint;
+  } catch (error) {
+    console.error('saveApiKey error:', error);
+    throw error;
+  }
+};
+
+export const testApiKey = async (): Promise<{ ok: boolean; message: string }> => {
+  try {
+    return await callManageApiKey<{ ok: boolean; message: string }>({ action: 'test' });
+  } catch (error) {
+    console.error('testApiKey error:', error);
+    throw error;
+  }
+};
+
+export const deleteApiKey = async (provider: ApiKeyProvider = 'gemini'): Promise<void> => {
+  try {
+    await callManageApiKey<{ fingerprint: null }>({ action: 'delete', provider });
+  } catch (error) {
+    console.error('deleteApiKey error:', error);
+    throw error;
+  }
+};
+
+// AI provider settings live next to the encrypted keys in the api_keys row
+export const getAiProviderSettings = async (userId: string): Promise<AiProviderSettings | null> => {
   try {
     const { data, error } = await supabase
       .from('api_keys')
-      .select('gemini_api_key')
+      .select('provider_settings')
       .eq('user_id', userId)
       .maybeSingle();
 
     if (error) {
-      console.error('Error fetching API key:', error);
+      console.error('Error fetching AI provider settings:', error);
       throw error;
     }
-    return data?.gemini_api_key || null;
+    if (!data?.provider_settings) return null;
+    // Rows saved before server-side custody may still carry a plaintext OpenAI-compatible key; it is never sent back
+    const settings = { ...data.provider_settings } as AiProviderSettings & { openaiApiKey?: string };
+    delete settings.openaiApiKey;
+    return settings;
   } catch (error) {
-    console.error('getApiKey error:', error);
+    console.error('getAiProviderSettings error:', error);
     throw error;
   }
 };
 
-export const saveApiKey = async (userId: string, apiKey: string) => {
+export const saveAiProviderSettings = async (userId: string, settings: AiProviderSettings) => {
   try {
-    // First try to update existing key
     const { data: existingKey } = await supabase
       .from('api_keys')
       .select('id')
@@ -83,23 +166,87 @@ export const saveApiKey = async (userId: string, apiKey: string) => {
       .maybeSingle();
 
     if (existingKey) {
-      // Update existing key
       return supabase
         .from('api_keys')
-        .update({ gemini_api_key: apiKey })
+        .update({ provider_settings: settings })
         .eq('user_id', userId);
     } else {
-      // Insert new key
       return supabase
         .from('api_keys')
-        .insert({ user_id: userId, gemini_api_key: apiKey });
+        .insert({ user_id: userId, provider_settings: settings });
     }
   } catch (error) {
-    console.error('saveApiKey error:', error);
+    console.error('saveAiProviderSettings error:', error);
+    throw error;
+  }
+};
+
+export const getAiUsageCaps = async (userId: string): Promise<AiUsageCaps | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('usage_caps')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching AI usage caps:', error);
+      throw error;
+    }
+    return data?.usage_caps || null;
+  } catch (error) {
+    console.error('getAiUsageCaps error:', error);
+    throw error;
+  }
+};
+
+export const saveAiUsageCaps = async (userId: string, caps: AiUsageCaps) => {
+  try {
+    const { data: existingKey } = await supabase
+      .from('api_keys')
+      .select('id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const { error } = existingKey
+      ? await supabase.from('api_keys').update({ usage_caps: caps }).eq('user_id', userId)
+      : await supabase.from('api_keys').insert({ user_id: userId, usage_caps: caps });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('saveAiUsageCaps error:', error);
     throw error;
   }
 };
 
+// Daily per-feature totals recorded by the gemini edge function, newest day first
+export const getAiUsageDaily = async (userId: string, days = 7): Promise<AiUsageDay[]> => {
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const { data, error } = await supabase
+    .from('ai_usage_daily')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('day', since.toISOString().slice(0, 10))
+    .order('day', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching AI usage:', error);
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    day: row.day,
+    feature: row.feature,
+    requests: row.requests,
+    promptTokens: row.prompt_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    avgLatencyMs: row.avg_latency_ms,
+  }));
+};
+
 // New function to get a single competition result by competition_id and user_id
 export const getCompetitionResultByCompetitionAndUser = async (competitionId: string, userId: string): Promise<any | null> => {
   try {
@@ -250,7 +397,13 @@ export const getQuizPreferences = async (userId: string): Promise<QuizPreference
       negativeMarking: data.negative_marking || false,
       negativeMarks: data.negative_marks || 0,
       mode: data.mode || 'practice',
-      answerMode: data.mode === 'practice' ? 'immediate' : 'end'
+      answerMode: data.mode === 'practice' ? 'immediate' : 'end',
+      verifyQuestions: data.verify_questions || false,
+      includeDiagrams: data.include_diagrams || false,
+      hintPenalty: data.hint_penalty ?? undefined,
+      scoring: data.scoring || undefined,
+      bloomDistribution: data.bloom_distribution || null,
+      sections: data.exam_sections || null
     };
   } catch (error) {
     console.error('getQuizPreferences error:', error);
@@ -287,7 +440,13 @@ const prefsData = {
   time_limit_enabled: preferences.timeLimitEnabled || false,
   negative_marking: preferences.negativeMarking || false,
   negative_marks: preferences.negativeMarking ? (preferences.negativeMarks || 0) : 0,
-  mode: preferences.mode || 'practice'
+  mode: preferences.mode || 'practice',
+  verify_questions: preferences.verifyQuestions || false,
+  include_diagrams: preferences.includeDiagrams || false,
+  hint_penalty: preferences.hintPenalty ?? DEFAULT_HINT_PENALTY,
+  scoring: preferences.scoring || null,
+  bloom_distribution: preferences.bloomDistribution || null,
+  exam_sections: preferences.sections?.length ? preferences.sections : null
 };
 
     if (existingPrefs) {
@@ -623,6 +782,89 @@ export const removeFavoriteQuestion = async (userId: string, questionId: string)
   }
 };
 
+// Spaced-repetition review cards
+const REVIEW_CARD_COLUMNS = 'id, source, source_key, prompt, answer, explanation, topic, question, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at';
+
+// Adds cards for new mistakes and favourites; existing cards keep their schedule
+export const createReviewCards = async (userId: string, drafts: ReviewCardDraft[]) => {
+  if (drafts.length === 0) return;
+
+  const { error } = await supabase
+    .from('review_cards')
+    .upsert(
+      drafts.map(draft => ({
+        user_id: userId,
+        source: draft.source,
+        source_key: draft.sourceKey,
+        prompt: draft.prompt,
+        answer: draft.answer,
+        explanation: draft.explanation || null,
+        topic: draft.topic || null,
+        question: draft.question || null,
+      })),
+      { onConflict: 'user_id,source_key', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+// Cards whose due date has passed, most overdue first
+export const getDueReviewCards = async (userId: string, limit = 20): Promise<ReviewCard[]> => {
+  const { data, error } = await supabase
+    .from('review_cards')
+    .select(REVIEW_CARD_COLUMNS)
+    .eq('user_id', userId)
+    .lte('due_at', new Date().toISOString())
+    .order('due_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    source: row.source,
+    sourceKey: row.source_key,
+    prompt: row.prompt,
+    answer: row.answer,
+    explanation: row.explanation || undefined,
+    topic: row.topic || undefined,
+    question: row.question || undefined,
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: new Date(row.due_at),
+    lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at) : null,
+  }));
+};
+
+export const countDueReviewCards = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('review_cards')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .lte('due_at', new Date().toISOString());
+
+  if (error) throw error;
+  return count || 0;
+};
+
+export const saveReviewSchedule = async (cardId: string, schedule: ReviewSchedule) => {
+  const { error } = await supabase
+    .from('review_cards')
+    .update({
+      ease_factor: schedule.easeFactor,
+      interval_days: schedule.intervalDays,
+      repetitions: schedule.repetitions,
+      lapses: schedule.lapses,
+      due_at: schedule.dueAt.toISOString(),
+      last_reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', cardId);
+
+  if (error) throw error;
+};
+
 // Enhanced quiz results functions
 export const saveQuizResultToDatabase = async (
   userId: string, 
@@ -654,13 +896,17 @@ export const saveQuizResultToDatabase = async (
       final_score: result.finalScore,
       negative_marking_applied: preferences.negativeMarking || false,
       negative_marks_deducted: result.negativeMarksDeducted || 0,
+      hints_used: result.hintsUsed || 0,
+      hint_penalty_deducted: result.hintPenaltyDeducted || 0,
       
       time_limit_enabled: preferences.timeLimitEnabled || false,
       time_limit_per_question: preferences.timeLimit ? parseInt(preferences.timeLimit) : null,
       total_time_limit: preferences.totalTimeLimit ? parseInt(preferences.totalTimeLimit) : null,
       
       question_type_performance: result.questionTypePerformance,
-      question_details: result.questions,
+      // Embeddings are kept in their own column so result pages do not download them
+      question_details: result.questions.map(question => ({ ...question, embedding: undefined })),
+      question_embeddings: result.questions.map(question => question.embedding || null),
       
       session_id: sessionId,
       device_info: sessionMetadata || {},
@@ -673,6 +919,10 @@ export const saveQuizResultToDatabase = async (
       weaknesses: result.weaknesses, // Added
       recommendations: result.recommendations, // Added
       comparative_performance: result.comparativePerformance, // Added
+      prompt_template_id: result.promptTemplate?.id || null,
+      prompt_template_version: result.promptTemplate?.version || null,
+      scoring_scheme: result.scoring || null,
+      proficiency: result.proficiency || null,
     };
 
     const { data, error } = await supabase
@@ -721,6 +971,8 @@ export const getQuizResultById = async (resultId: string): Promise<QuizResult |
       finalScore: data.final_score,
       rawScore: data.raw_score,
       negativeMarksDeducted: data.negative_marks_deducted,
+      hintsUsed: data.hints_used || 0,
+      hintPenaltyDeducted: data.hint_penalty_deducted || 0,
       totalTimeTaken: data.total_time_taken,
       accuracyRate: data.accuracy_rate,
       completionRate: data.completion_rate,
@@ -741,6 +993,13 @@ export const getQuizResultById = async (resultId: string): Promise<QuizResult |
       negativeMarking: data.negative_marking_applied || undefined,
       negativeMarks: data.negative_marks_deducted || undefined, // Map to deducted marks if needed
       mode: data.mode || undefined,
+      scoring: data.scoring_scheme || undefined,
+      proficiency: data.proficiency || null,
+      examSessionId: data.exam_session_id || null,
+      sectionPerformance: data.section_performance || null,
+      promptTemplate: data.prompt_template_id
+        ? { id: data.prompt_template_id, version: data.prompt_template_version }
+        : null,
     };
   } catch (error) {
     console.error('getQuizResultById error:', error);
@@ -772,6 +1031,306 @@ export const getQuizResultsWithAnalytics = async (userId: string, limit = 50) =>
   }
 };
 
+// Images for image-based questions; the bucket is public so shared results can show them
+export const uploadQuizImage = async (userId: string, file: File): Promise<QuizImage> => {
+  const path = `${userId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  const { error } = await supabase.storage
+    .from('question-media')
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('question-media')
+    .getPublicUrl(path);
+
+  return { name: file.name, url: publicUrl, mimeType: file.type };
+};
+
+// Shared explanation cache, keyed by a hash of the question, its full answer key, topic and language.
+// Only the gemini edge function writes shared entries, from the text it generated itself.
+// The user's own regenerated explanation wins over the shared one; RLS limits overrides to the user's rows
+export const getCachedExplanation = async (contentHash: string): Promise<string | null> => {
+  const [override, shared] = await Promise.all([
+    supabase.from('explanation_overrides').select('explanation').eq('content_hash', contentHash).maybeSingle(),
+    supabase.from('explanation_cache').select('explanation').eq('content_hash', contentHash).maybeSingle()
+  ]);
+
+  if (override.error || shared.error) {
+    console.error('Error reading explanation cache:', override.error || shared.error);
+  }
+  return override.data?.explanation || shared.data?.explanation || null;
+};
+
+// A regenerated explanation is kept for this user only
+export const saveExplanationOverride = async (contentHash: string, explanation: string, language: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = await supabase
+    .from('explanation_overrides')
+    .upsert({
+      user_id: session.user.id,
+      content_hash: contentHash,
+      explanation,
+      language,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,content_hash' });
+
+  if (error) {
+    console.error('Error saving explanation override:', error);
+  }
+};
+
+// Calibrations for the given question fingerprints; fingerprints nobody has answered often enough are absent
+export const getQuestionCalibrations = async (fingerprints: string[]): Promise<Map<string, QuestionCalibration>> => {
+  const calibrations = new Map<string, QuestionCalibration>();
+  if (fingerprints.length === 0) return calibrations;
+
+  const { data, error } = await supabase
+    .from('question_calibrations')
+    .select('*')
+    .in('fingerprint', fingerprints);
+
+  if (error) {
+    console.error('Error reading question calibrations:', error);
+    return calibrations;
+  }
+
+  (data || []).forEach(row => {
+    calibrations.set(row.fingerprint, {
+      difficulty: Number(row.difficulty),
+      discrimination: Number(row.discrimination),
+      responses: row.responses,
+      pCorrect: Number(row.p_correct),
+      label: row.difficulty_label,
+      calibratedAt: new Date(row.calibrated_at),
+    });
+  });
+  return calibrations;
+};
+
+// Asks the question-calibration function to refit from all stored answers; it skips the work if it ran recently
+export const requestQuestionCalibration = async (): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/question-calibration`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+  if (!response.ok) {
+    console.error('Question calibration failed:', await response.text());
+  }
+};
+
+// Raised when the server refuses an exam answer because the deadline has passed
+export class ExamTimeUpError extends Error {
+  constructor() {
+    super('Time is up for this exam');
+    this.name = 'ExamTimeUpError';
+  }
+}
+
+export type ExamSessionView = {
+  sessionId: string;
+  status: 'active' | 'submitted';
+  questions: Question[]; // Without answers or explanations
+  answers: Record<string, string>;
+  startedAt: string;
+  deadlineAt: string | null; // For sectioned exams, the current section's deadline
+  sectionIndex: number;
+  serverTime: string;
+  quizResultId: string | null;
+};
+
+type ExamSessionAction =
+  | { action: 'start'; material: StudyMaterial | null; coveredConcepts: string[] }
+  | { action: 'answer'; sessionId: string; questionId: number; answer: string }
+  | { action: 'advance'; sessionId: string; sectionIndex: number }
+  | { action: 'submit'; sessionId: string }
+  | { action: 'resume'; sessionId: string };
+
+const callExamSession = async <T>(body: ExamSessionAction): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/exam-session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (data.expired) throw new ExamTimeUpError();
+  if (!response.ok) throw new Error(data.error || `Exam session error: ${response.status}`);
+  return data;
+};
+
+// The server writes the exam from the saved quiz settings, keeps the answer key and starts the clock.
+// Material and covered concepts only shape the questions; the timing and marking rules are not sent.
+export const startExamSession = (material: StudyMaterial | null, coveredConcepts: string[]): Promise<ExamSessionView> =>
+  callExamSession<ExamSessionView>({ action: 'start', material, coveredConcepts });
+
+export const recordExamAnswer = async (sessionId: string, questionId: number, answer: string): Promise<void> => {
+  await callExamSession({ action: 'answer', sessionId, questionId, answer });
+};
+
+// Resolves with the id of the quiz result the server saved
+export const submitExamSession = async (sessionId: string): Promise<string | null> => {
+  const { quizResultId } = await callExamSession<{ quizResultId: string | null }>({ action: 'submit', sessionId });
+  return quizResultId;
+};
+
+// Closes the given section of a sectioned exam and starts the next one's clock
+export const advanceExamSection = (sessionId: string, sectionIndex: number): Promise<ExamSessionView> =>
+  callExamSession<ExamSessionView>({ action: 'advance', sessionId, sectionIndex });
+
+export const resumeExamSession = (sessionId: string): Promise<ExamSessionView> =>
+  callExamSession<ExamSessionView>({ action: 'resume', sessionId });
+
+// In-progress solo quizzes, one per user, so an attempt can be continued on another device
+export const getQuizSession = async (userId: string): Promise<QuizSessionSnapshot | null> => {
+  const { data, error } = await supabase
+    .from('quiz_sessions')
+    .select('snapshot')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? data.snapshot : null;
+};
+
+export const saveQuizSession = async (userId: string, snapshot: QuizSessionSnapshot) => {
+  const { error } = await supabase
+    .from('quiz_sessions')
+    .upsert({
+      user_id: userId,
+      session_id: snapshot.id,
+      snapshot,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
+
+// Only removes the row while it still holds this attempt, so a newer quiz started elsewhere survives
+export const deleteQuizSession = async (sessionId: string) => {
+  const { error } = await supabase
+    .from('quiz_sessions')
+    .delete()
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+};
+
+// Follow-up conversation about one question of a saved quiz result, oldest first
+export const getQuestionThread = async (
+  userId: string,
+  quizResultId: string,
+  questionId: number
+): Promise<ChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('chat_history')
+    .select('id, content, type, timestamp')
+    .eq('user_id', userId)
+    .eq('quiz_result_id', quizResultId)
+    .eq('question_id', questionId)
+    .order('timestamp', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.id,
+    type: row.type,
+    content: row.content,
+    timestamp: row.timestamp ? new Date(row.timestamp) : undefined,
+  }));
+};
+
+export const saveQuestionThreadMessage = async (
+  userId: string,
+  quizResultId: string,
+  questionId: number,
+  message: ChatMessage
+) => {
+  const { error } = await supabase
+    .from('chat_history')
+    .insert({
+      user_id: userId,
+      quiz_result_id: quizResultId,
+      question_id: questionId,
+      content: message.content,
+      type: message.type,
+    });
+
+  if (error) throw error;
+};
+
+const MAX_COVERED_CONCEPTS = 80;
+
+// Compact memory of what the user has already been asked, used to keep new quizzes fresh
+export const getPastQuestionMemory = async (
+  userId: string,
+  limit = 200
+): Promise<{ concepts: string[] }> => {
+  try {
+    const { data, error } = await supabase
+      .from('quiz_results')
+      .select('question_details')
+      .eq('user_id', userId)
+      .order('quiz_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching past question memory:', error);
+      throw error;
+    }
+
+    const concepts = new Set<string>();
+    data.forEach(item => {
+      (item.question_details || []).forEach((question: Question) => {
+        // Older quizzes have no concept labels, so fall back to the start of the question
+        const concept = question.concept || question.text?.split(/\s+/).slice(0, 8).join(' ');
+        if (concept) concepts.add(concept);
+      });
+    });
+
+    return { concepts: Array.from(concepts).slice(0, MAX_COVERED_CONCEPTS) };
+  } catch (error) {
+    console.error('getPastQuestionMemory error:', error);
+    throw error;
+  }
+};
+
+// For each embedding, the text of the closest question in the user's recent quizzes that it is at least
+// threshold-similar to, or null. All embeddings are matched in one call that runs in the database, so stored
+// vectors are never downloaded; they must come from the same embedding model.
+export const findPastQuestions = async (embeddings: QuestionEmbedding[], threshold: number): Promise<(string | null)[]> => {
+  if (embeddings.length === 0) return [];
+  const { data, error } = await supabase.rpc('nearest_past_questions', {
+    query_model: embeddings[0].model,
+    query_vectors: embeddings.map(embedding => embedding.vector),
+    match_threshold: threshold
+  });
+
+  if (error) {
+    console.error('Error matching past questions:', error);
+    throw error;
+  }
+  const matches: (string | null)[] = embeddings.map(() => null);
+  (data || []).forEach((match: { query_index: number; question_text: string | null }) => {
+    if (match.query_index >= 0 && match.query_index < matches.length) matches[match.query_index] = match.question_text || '';
+  });
+  return matches;
+};
 
 export const getQuizAnalytics = async (userId: string) => {
   try {
@@ -36,7 +36,7 @@ interface CompetitionStoreState {
   joinCompetition: (competitionCode: string) => Promise<void>;
   leaveCompetition: (competitionId: string) => Promise<void>;
   cancelCompetition: (competitionId: string) => Promise<void>;
-  startCompetition: (competitionId: string, apiKey: string) => Promise<void>;
+  startCompetition: (competitionId: string) => Promise<void>;
   loadParticipants: (competitionId: string) => Promise<void>;
   // Modified signature to include new counts
   updateParticipantProgress: (
@@ -273,7 +273,7 @@ export const useCompetitionStore = create<CompetitionStoreState>((set, get) => (
     }
   },
 
-  startCompetition: async (competitionId, apiKey) => {
+  startCompetition: async (competitionId) => {
     set({ isLoading: true, error: null });
     try {
       const { data: competition, error: fetchError } = await supabase
@@ -290,16 +290,17 @@ export const useCompetitionStore = create<CompetitionStoreState>((set, get) => (
         throw new Error('Competition is not in waiting status.');
       }
 
-      // Call the Supabase Edge Function to generate questions and start the competition
+      // Call the Supabase Edge Function to generate questions and start the competition.
+      // It uses the creator's stored Gemini key, so it needs their session rather than the anon key.
+      const { data: { session } } = await supabase.auth.getSession();
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/start-competition`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
         },
         body: JSON.stringify({
           competitionId,
-          apiKey,
           preferences: competition.quiz_preferences,
         }),
       });
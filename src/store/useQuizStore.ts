@@ -1,22 +1,42 @@
 // src/store/useQuizStore.ts
 import { create } from 'zustand';
-import { ApiKeyData, Question, QuizPreferences, QuizResult } from '../types';
-import { getApiKey, getQuizPreferences, saveApiKey, saveQuizPreferences, saveQuizResultToDatabase, getQuizResultsWithAnalytics, deleteQuizResult } from '../services/supabase';
-import { generateQuiz, getAnswerExplanation, getQuizAnalysisAndRecommendations } from '../services/gemini';
+import { AiProviderSettings, ExamSession, ProficiencyEstimate, PromptTemplateRef, Question, QuizPreferences, QuizResult, QuizSessionSnapshot, ScoringScheme } from '../types';
+import { getApiKeyFingerprint, getAiProviderSettings, saveAiProviderSettings, getQuizPreferences, saveApiKey, testApiKey, deleteApiKey, saveQuizPreferences, saveQuizResultToDatabase, getQuizResultsWithAnalytics, getPastQuestionMemory, findPastQuestions, deleteQuizResult, requestQuestionCalibration, ExamSessionView, ExamTimeUpError, getQuizResultById, recordExamAnswer, resumeExamSession, startExamSession, submitExamSession, advanceExamSection, getQuizSession, saveQuizSession, deleteQuizSession } from '../services/supabase';
+import { evaluateTextAnswer, generateQuiz, GenerateQuizOptions, getQuestionHint, getQuizAnalysisAndRecommendations, MAX_HINTS_PER_QUESTION, QuestionValidationIssue, QuizValidationError, TextAnswerEvaluation } from '../services/gemini';
+import { defaultAiProviderSettings, providerNeedsGeminiKey, setActiveAiProviderSettings } from '../services/llm';
+import { isAiCancelled } from '../services/aiClient';
+import { activePromptRef } from '../services/prompts';
+import { explainAnswer, explanationRequestFor } from '../services/explanationCache';
+import { calibrateQuestions } from '../services/calibration';
+import { DEFAULT_HINT_PENALTY, DEFAULT_SCORING_SCHEME, scoreAnswer, scoreTextEvaluation } from '../services/scoring';
+import { isSettledMatch, matchTextAnswer } from '../services/answerMatcher';
+import { ADAPTIVE_POOL_FACTOR, AdaptiveResponse, pickNextQuestion, toProficiencyEstimate } from '../services/adaptive';
+import { activeExamSections, examSettingsProblem, sectionBounds } from '../services/examSections';
 import { useAuthStore } from './useAuthStore';
 
 // Helper functions for local storage
 const LOCAL_STORAGE_KEY = 'soloQuizState';
 
-const saveQuizStateToLocal = (state: any) => {
+// The in-progress quiz as saved locally and synced to the server
+const toQuizSnapshot = (state: QuizState, savedAt: number): QuizSessionSnapshot => ({
+  id: state.quizSessionId || '',
+  savedAt,
+  preferences: state.preferences,
+  questions: state.questions,
+  currentQuestionIndex: state.currentQuestionIndex,
+  answers: state.answers,
+  totalTimeElapsed: state.totalTimeElapsed, // Save totalTimeElapsed
+  totalTimeRemaining: state.totalTimeRemaining, // Save totalTimeRemaining
+  promptTemplate: state.promptTemplate,
+  hints: state.hints,
+  adaptivePool: state.adaptivePool,
+  adaptiveEstimate: state.adaptiveEstimate,
+  examSession: state.examSession,
+});
+
+const saveQuizStateToLocal = (state: any, savedAt = Date.now()) => {
   try {
-    const serializedState = JSON.stringify({
-      questions: state.questions,
-      currentQuestionIndex: state.currentQuestionIndex,
-      answers: state.answers,
-      totalTimeElapsed: state.totalTimeElapsed, // Save totalTimeElapsed
-      totalTimeRemaining: state.totalTimeRemaining, // Save totalTimeRemaining
-    });
+    const serializedState = JSON.stringify(toQuizSnapshot(state, savedAt));
     localStorage.setItem(LOCAL_STORAGE_KEY, serializedState);
   } catch (e) {
     console.error("Could not save state to local storage", e);
@@ -44,10 +64,102 @@ const clearQuizStateFromLocal = () => {
   }
 };
 
+// Exam answers still on their way to the server; submitting waits for them
+const pendingExamAnswers = new Set<Promise<void>>();
+
+const toExamSession = (view: ExamSessionView): ExamSession => ({
+  id: view.sessionId,
+  deadlineAt: view.deadlineAt,
+  clockOffsetMs: new Date(view.serverTime).getTime() - Date.now(),
+  sectionIndex: view.sectionIndex || 0
+});
+
+// Seconds left before the server stops accepting answers, or null when the exam is untimed
+export const examSecondsLeft = (session: ExamSession): number | null =>
+  session.deadlineAt
+    ? Math.max(0, Math.floor((new Date(session.deadlineAt).getTime() - (Date.now() + session.clockOffsetMs)) / 1000))
+    : null;
+
+// Questions the user may move between: the current section of a sectioned exam, otherwise all of them
+const navigableRange = (state: Pick<QuizState, 'questions' | 'preferences' | 'examSession'>): { first: number; last: number } => {
+  const section = state.examSession ? activeExamSections(state.preferences)[state.examSession.sectionIndex] : undefined;
+  return (section && sectionBounds(state.questions, section.id)) || { first: 0, last: state.questions.length - 1 };
+};
+
+const examAnswers = (view: ExamSessionView): Record<number, string> =>
+  Object.fromEntries(Object.entries(view.answers).map(([questionId, answer]) => [Number(questionId), answer]));
+
+// How often an open quiz is checked for progress to copy to the server
+export const SESSION_SYNC_INTERVAL_MS = 15000;
+
+// Saves and deletes of the synced session run one after another, so a late autosave cannot bring back a finished quiz
+let sessionSyncQueue: Promise<void> = Promise.resolve();
+// Progress at the last autosave; timers alone do not count, so an idle tab cannot overwrite newer progress from another device
+let lastSyncedProgress = '';
+
+const queueSessionSync = (task: () => Promise<void>) => {
+  sessionSyncQueue = sessionSyncQueue
+    .then(task)
+    .catch(error => console.error('Quiz session sync failed:', error));
+};
+
+// Drops the synced copy of an attempt that has ended
+const discardSyncedSession = (sessionId: string | null) => {
+  lastSyncedProgress = '';
+  if (sessionId) queueSessionSync(() => deleteQuizSession(sessionId));
+};
+
+// Store state for a saved or synced attempt. The saved copy of an exam can be edited, so its questions,
+// answers and clock come from the server again.
+const restoredQuizState = async (snapshot: QuizSessionSnapshot): Promise<Partial<QuizState>> => {
+  const restored: Partial<QuizState> = {
+    quizSessionId: snapshot.id || crypto.randomUUID(), // Copies saved before syncing existed have no id
+    questions: snapshot.questions,
+    currentQuestionIndex: snapshot.currentQuestionIndex,
+    answers: snapshot.answers,
+    result: null, // Ensure result is null if loading an ongoing quiz
+    totalTimeElapsed: snapshot.totalTimeElapsed || 0,
+    totalTimeRemaining: snapshot.totalTimeRemaining !== undefined ? snapshot.totalTimeRemaining : null,
+    promptTemplate: snapshot.promptTemplate || null,
+    hints: snapshot.hints || {},
+    adaptivePool: snapshot.adaptivePool || [],
+    adaptiveEstimate: snapshot.adaptiveEstimate || null,
+    examSession: snapshot.examSession || null,
+    // The questions were generated from these, which may since have changed on another device
+    ...(snapshot.preferences ? { preferences: snapshot.preferences } : {}),
+  };
+  if (!snapshot.examSession) return restored;
+
+  const view = await resumeExamSession(snapshot.examSession.id);
+  if (view.status === 'submitted') {
+    clearQuizStateFromLocal();
+    discardSyncedSession(snapshot.id);
+    const result = view.quizResultId ? await getQuizResultById(view.quizResultId) : null;
+    return { ...restored, quizSessionId: null, questions: [], answers: {}, examSession: null, currentQuestionIndex: 0, result };
+  }
+  const examSession = toExamSession(view);
+  // A section may have closed while the exam was away, so the saved position is kept inside the open one
+  const { first, last } = navigableRange({ questions: view.questions, preferences: snapshot.preferences, examSession });
+  const currentQuestionIndex = Math.min(Math.max(snapshot.currentQuestionIndex, first), last);
+  return { ...restored, questions: view.questions, answers: examAnswers(view), examSession, currentQuestionIndex, totalTimeRemaining: examSecondsLeft(examSession) };
+};
+
+// Bumped whenever a generation starts or the quiz is reset, so late streamed questions from an abandoned run are ignored
+let activeGenerationId = 0;
+let activeGenerationController: AbortController | null = null;
+
+// Stops any in-flight generation requests and ignores whatever they still deliver
+const abortActiveGeneration = () => {
+  activeGenerationController?.abort();
+  activeGenerationController = null;
+  activeGenerationId++;
+};
 
 interface QuizState {
   preferences: QuizPreferences | null;
-  apiKey: string | null;
+  apiKeyFingerprint: string | null; // Masked Gemini key; the key itself stays server-side
+  openaiKeyFingerprint: string | null; // Masked OpenAI-compatible key, kept server-side the same way
+  aiProviderSettings: AiProviderSettings;
   questions: Question[];
   currentQuestionIndex: number;
   answers: Record<number, string>;
@@ -55,6 +167,16 @@ interface QuizState {
   isLoading: boolean;
   error: string | null;
   explanation: string | null;
+  generationReport: QuestionValidationIssue[]; // Validation issues from the last quiz generation
+  isStreamingQuestions: boolean; // True while later questions are still arriving
+  promptTemplate: PromptTemplateRef | null; // Quiz-generation prompt used for the current questions
+  hints: Record<number, string[]>; // Hints revealed so far, by question id
+  hintLoadingId: number | null; // Question whose next hint is being fetched
+  adaptivePool: Question[]; // Adaptive mode: every generated question, asked or not
+  adaptiveEstimate: ProficiencyEstimate | null; // Adaptive mode: ability estimate after the answers so far
+  examSession: ExamSession | null; // Exam mode: the server session that holds the answer key
+  quizSessionId: string | null; // Identifies the current attempt across devices
+  resumableSession: QuizSessionSnapshot | null; // Saved attempt offered on the "Continue where you left off" card
   soloQuizHistory: any[]; // New state for solo quiz history
   totalTimeElapsed: number; // Added
   totalTimeRemaining: number | null; // Added
@@ -62,19 +184,36 @@ interface QuizState {
   // Preference actions
   loadApiKey: (userId: string) => Promise<void>;
   saveApiKey: (userId: string, apiKey: string) => Promise<void>;
+  testApiKey: () => Promise<{ ok: boolean; message: string }>;
+  removeApiKey: () => Promise<void>;
+  saveOpenAiKey: (apiKey: string) => Promise<void>;
+  removeOpenAiKey: () => Promise<void>;
+  saveAiProviderSettings: (userId: string, settings: AiProviderSettings) => Promise<void>;
   loadPreferences: (userId: string) => Promise<void>;
   savePreferences: (userId: string, preferences: QuizPreferences) => Promise<void>;
   
   // Quiz actions
   generateQuiz: (userId: string) => Promise<void>;
+  cancelGeneration: () => void;
   answerQuestion: (questionId: number, answer: string) => void;
   nextQuestion: () => void;
+  nextAdaptiveQuestion: () => boolean;
   prevQuestion: () => void;
   finishQuiz: () => void;
   resetQuiz: () => void;
+  advanceExamSection: () => Promise<void>;
+
+  // Cross-device sessions
+  loadResumableSession: (userId: string) => Promise<void>;
+  resumeQuizSession: () => Promise<void>;
+  discardResumableSession: () => void;
+  syncQuizSession: (userId: string, force?: boolean) => void;
   
+  // Hints (practice mode only)
+  requestHint: (questionId: number) => Promise<void>;
+
   // Explanation
-  getExplanation: (questionId: number) => Promise<void>;
+  getExplanation: (question: Question, options?: { regenerate?: boolean }) => Promise<void>; // Takes the question itself: finishQuiz clears questions
   resetExplanation: () => void;
 
   // Solo Quiz History actions
@@ -100,12 +239,27 @@ export const defaultPreferences: QuizPreferences = {
   negativeMarking: false,
   negativeMarks: 0,
   mode: 'practice',
-  answerMode: 'immediate'
+  answerMode: 'immediate',
+  hintPenalty: DEFAULT_HINT_PENALTY,
+  scoring: DEFAULT_SCORING_SCHEME,
+  bloomDistribution: null
 };
 
+// Partial credit adds up fractions, so keep totals to two decimals
+const roundScore = (score: number): number => Math.round(score * 100) / 100;
+
+// Adaptive mode steers on the instant local marking; a skipped question counts as a wrong answer
+const adaptiveResponses = (questions: Question[], answers: Record<number, string>, scoring: ScoringScheme): AdaptiveResponse[] =>
+  questions.map(question => ({
+    question,
+    correct: scoreAnswer(question, answers[question.id] || '', scoring)?.isCorrect === true
+  }));
+
 export const useQuizStore = create<QuizState>((set, get) => ({
   preferences: defaultPreferences,
-  apiKey: null,
+  apiKeyFingerprint: null,
+  openaiKeyFingerprint: null,
+  aiProviderSettings: defaultAiProviderSettings,
   questions: [],
   currentQuestionIndex: 0,
   answers: {},
@@ -113,6 +267,16 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   isLoading: false,
   error: null,
   explanation: null,
+  generationReport: [],
+  isStreamingQuestions: false,
+  promptTemplate: null,
+  hints: {},
+  hintLoadingId: null,
+  adaptivePool: [],
+  adaptiveEstimate: null,
+  examSession: null,
+  quizSessionId: null,
+  resumableSession: null,
   soloQuizHistory: [], // Initialize solo quiz history
   totalTimeElapsed: 0, // Initialize
   totalTimeRemaining: null, // Initialize
@@ -120,8 +284,14 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   loadApiKey: async (userId) => {
     set({ isLoading: true, error: null });
     try {
-      const apiKey = await getApiKey(userId);
-      set({ apiKey });
+      const [apiKeyFingerprint, openaiKeyFingerprint, providerSettings] = await Promise.all([
+        getApiKeyFingerprint(userId),
+        getApiKeyFingerprint(userId, 'openai-compatible'),
+        getAiProviderSettings(userId)
+      ]);
+      const aiProviderSettings = { ...defaultAiProviderSettings, ...(providerSettings || {}) };
+      setActiveAiProviderSettings(aiProviderSettings);
+      set({ apiKeyFingerprint, openaiKeyFingerprint, aiProviderSettings });
     } catch (error: any) {
       set({ error: error.message || 'Failed to load API key' });
     } finally {
@@ -129,17 +299,76 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
   
-  saveApiKey: async (userId, apiKey) => {
+  // userId is kept for symmetry with the other actions; the edge function identifies the user from the session
+  saveApiKey: async (_userId, apiKey) => {
     set({ isLoading: true, error: null });
     try {
-      await saveApiKey(userId, apiKey);
-      set({ apiKey });
+      const apiKeyFingerprint = await saveApiKey(apiKey);
+      set({ apiKeyFingerprint });
     } catch (error: any) {
       set({ error: error.message || 'Failed to save API key' });
     } finally {
       set({ isLoading: false });
     }
   },
+
+  testApiKey: async () => {
+    try {
+      return await testApiKey();
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Failed to test API key' };
+    }
+  },
+
+  removeApiKey: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      await deleteApiKey();
+      set({ apiKeyFingerprint: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to remove API key' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  saveOpenAiKey: async (apiKey) => {
+    set({ isLoading: true, error: null });
+    try {
+      const openaiKeyFingerprint = await saveApiKey(apiKey, 'openai-compatible');
+      set({ openaiKeyFingerprint });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save API key' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  removeOpenAiKey: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      await deleteApiKey('openai-compatible');
+      set({ openaiKeyFingerprint: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to remove API key' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  saveAiProviderSettings: async (userId, settings) => {
+    set({ isLoading: true, error: null });
+    try {
+      const aiProviderSettings = { ...defaultAiProviderSettings, ...settings };
+      await saveAiProviderSettings(userId, aiProviderSettings);
+      setActiveAiProviderSettings(aiProviderSettings);
+      set({ aiProviderSettings });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save AI provider settings' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
   
   loadPreferences: async (userId) => {
     set({ isLoading: true, error: null });
@@ -147,18 +376,22 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       const preferences = await getQuizPreferences(userId);
       set({ preferences: preferences || defaultPreferences });
     
-      // Attempt to load quiz state from local storage
-      const savedState = loadQuizStateFromLocal();
-      if (savedState && savedState.questions.length > 0) {
-        set({
-          questions: savedState.questions,
-          currentQuestionIndex: savedState.currentQuestionIndex,
-          answers: savedState.answers,
-          result: null, // Ensure result is null if loading an ongoing quiz
-          totalTimeElapsed: savedState.totalTimeElapsed || 0, // Load totalTimeElapsed
-          totalTimeRemaining: savedState.totalTimeRemaining !== undefined ? savedState.totalTimeRemaining : null, // Load totalTimeRemaining
-        });
+      // Attempt to load quiz state from local storage, unless another device got further with the same attempt
+      const savedState: QuizSessionSnapshot | undefined = loadQuizStateFromLocal();
+      const syncedState = await getQuizSession(userId).catch(error => {
+        console.error('Failed to load synced quiz session:', error);
+        return null;
+      });
+      const snapshot = syncedState && savedState?.id === syncedState.id && syncedState.savedAt > (savedState.savedAt || 0)
+        ? syncedState
+        : savedState;
+      if (snapshot && snapshot.questions.length > 0) {
+        set(await restoredQuizState(snapshot));
+        if (get().questions.length > 0) saveQuizStateToLocal(get(), snapshot.savedAt);
       }
+
+      // A different attempt saved from another device is offered on the "Continue where you left off" card
+      set({ resumableSession: syncedState && syncedState.id !== get().quizSessionId ? syncedState : null });
     } catch (error: any) {
       set({ error: error.message || 'Failed to load preferences' });
     } finally {
@@ -210,11 +443,12 @@ const validatedPreferences = {
 
   
   generateQuiz: async (userId) => {
-    const { preferences, apiKey } = get();
+    const { preferences, apiKeyFingerprint, aiProviderSettings, quizSessionId } = get();
     clearQuizStateFromLocal(); // Clear previous state before generating a new quiz
-    set({ isLoading: true, error: null, questions: [], answers: {}, result: null, totalTimeElapsed: 0, totalTimeRemaining: null });
+    discardSyncedSession(quizSessionId);
+    set({ isLoading: true, error: null, questions: [], answers: {}, hints: {}, adaptivePool: [], adaptiveEstimate: null, examSession: null, quizSessionId: crypto.randomUUID(), resumableSession: null, result: null, totalTimeElapsed: 0, totalTimeRemaining: null, generationReport: [] });
     
-    if (!preferences || !apiKey) {
+    if (!preferences || (!apiKeyFingerprint && providerNeedsGeminiKey(aiProviderSettings))) {
       set({ 
         error: !preferences 
           ? 'Quiz preferences not set' 
@@ -224,30 +458,107 @@ const validatedPreferences = {
       return;
     }
     
+    abortActiveGeneration();
+    const controller = new AbortController();
+    activeGenerationController = controller;
+    const generationId = activeGenerationId;
+    const isCurrentGeneration = () => generationId === activeGenerationId;
+
     try {
-      // Fetch historical questions to avoid repetition
-      const historicalResults = await getQuizResultsWithAnalytics(userId, 200); // Increased limit to 200
-      const historicalQuestions: string[] = [];
-      historicalResults.forEach((result: any) => {
-        if (result.questions) {
-          result.questions.forEach((q: any) => {
-            historicalQuestions.push(q.text);
-          });
-        }
-      });
+      // Covered concepts steer the prompt; the past question lookup screens out paraphrased repeats
+      const pastQuestions = await getPastQuestionMemory(userId, 200);
+      if (!isCurrentGeneration()) return;
 
-      const questions = await generateQuiz(apiKey, preferences, historicalQuestions);
-      set({ 
-        questions, 
-        currentQuestionIndex: 0,
-        answers: {},
+      // Exams are written and marked on the server under the saved settings, so the answer key never
+      // reaches the browser; only the study material and concepts to steer away from are sent along
+      if (preferences.mode === 'exam') {
+        const settingsProblem = examSettingsProblem(preferences);
+        if (settingsProblem) throw new Error(settingsProblem);
+        const material = preferences.source === 'material' && preferences.material?.text ? preferences.material : null;
+        const view = await startExamSession(material, pastQuestions.concepts);
+        if (!isCurrentGeneration()) return;
+        const examSession = toExamSession(view);
+        set((state) => {
+          const newState = { questions: view.questions, examSession, promptTemplate: null, totalTimeRemaining: examSecondsLeft(examSession) };
+          saveQuizStateToLocal({ ...state, ...newState });
+          return newState;
+        });
+        return;
+      }
+
+      // Adaptive quizzes generate a larger pool across all levels and ask from it one question at a time.
+      // They leave out long answers, which need the AI grader.
+      const isAdaptive = preferences.mode === 'adaptive';
+      const markableTypes = preferences.questionTypes.filter(type => type !== 'long-answer');
+      const generationPreferences: QuizPreferences = isAdaptive
+        ? {
+            ...preferences,
+            questionCount: Math.min(50, preferences.questionCount * ADAPTIVE_POOL_FACTOR),
+            questionTypes: markableTypes.length > 0 ? markableTypes : ['multiple-choice']
+          }
+        : preferences;
+
+      const promptTemplate = activePromptRef('quiz-generation');
+      set({ isStreamingQuestions: true, currentQuestionIndex: 0, promptTemplate });
+      const generationOptions: GenerateQuizOptions = {
+        signal: controller.signal,
+        promptVersion: promptTemplate.version,
+        findPastQuestions,
+        onValidationReport: (generationReport) => {
+          if (isCurrentGeneration()) set({ generationReport });
+        },
+        // Append questions as they stream in so the user can start on Question 1 right away
+        // Adaptive quizzes wait for the whole pool, since the first pick depends on what is in it
+        onQuestion: (question) => {
+          if (isCurrentGeneration() && !isAdaptive) set((state) => ({ questions: [...state.questions, question] }));
+        }
+      };
+      const questions = await generateQuiz(generationPreferences, pastQuestions.concepts, generationOptions);
+      // Measured difficulty replaces the AI's label for questions students have answered before
+      const calibratedQuestions = await calibrateQuestions(questions).catch(error => {
+        console.error('Question calibration lookup failed:', error);
+        return questions;
       });
+      if (isCurrentGeneration() && isAdaptive) {
+        // With no answers yet the estimate sits at the average student
+        const firstQuestion = pickNextQuestion(calibratedQuestions, [], 0);
+        set((state) => {
+          const newState = {
+            adaptivePool: calibratedQuestions,
+            adaptiveEstimate: toProficiencyEstimate([]),
+            questions: firstQuestion ? [firstQuestion] : []
+          };
+          saveQuizStateToLocal({ ...state, ...newState });
+          return newState;
+        });
+      } else if (isCurrentGeneration()) {
+        set((state) => {
+          saveQuizStateToLocal({ ...state, questions: calibratedQuestions });
+          return { questions: calibratedQuestions };
+        });
+      }
     } catch (error: any) {
-      set({ error: error.message || 'Failed to generate quiz' });
+      // A cancelled run was abandoned on purpose, so there is nothing to report
+      if (isCurrentGeneration() && !isAiCancelled(error)) {
+        set({
+          error: error.message || 'Failed to generate quiz',
+          generationReport: error instanceof QuizValidationError ? error.issues : get().generationReport
+        });
+      }
     } finally {
-      set({ isLoading: false });
+      if (isCurrentGeneration()) {
+        activeGenerationController = null;
+        set({ isLoading: false, isStreamingQuestions: false });
+      }
     }
   },
+
+  cancelGeneration: () => {
+    abortActiveGeneration();
+    discardSyncedSession(get().quizSessionId);
+    set({ isLoading: false, isStreamingQuestions: false, questions: [], currentQuestionIndex: 0, answers: {}, hints: {}, adaptivePool: [], adaptiveEstimate: null, examSession: null, quizSessionId: null });
+    clearQuizStateFromLocal();
+  },
   
   answerQuestion: (questionId, answer) => {
     set((state) => {
@@ -260,11 +571,48 @@ const validatedPreferences = {
       saveQuizStateToLocal({ ...state, ...newState }); // Save updated state
       return newState;
     });
+
+    // The server timestamps the answer and turns it away once time is up
+    const { examSession } = get();
+    if (examSession) {
+      const request = recordExamAnswer(examSession.id, questionId, answer)
+        .catch(error => {
+          console.error('Failed to record exam answer:', error);
+          set({ error: error instanceof ExamTimeUpError ? 'Time is up: answers after the deadline are not counted.' : 'Failed to save your answer. Check your connection.' });
+        })
+        .finally(() => pendingExamAnswers.delete(request));
+      pendingExamAnswers.add(request);
+    }
   },
   
+  requestHint: async (questionId) => {
+    const { questions, preferences, hints, hintLoadingId } = get();
+    const question = questions.find(q => q.id === questionId);
+    const previousHints = hints[questionId] || [];
+
+    // Exam mode is for assessment, so hints are never offered there
+    if (!question || !preferences || preferences.mode !== 'practice' || hintLoadingId !== null || previousHints.length >= MAX_HINTS_PER_QUESTION) {
+      return;
+    }
+
+    set({ hintLoadingId: questionId, error: null });
+    try {
+      const hint = await getQuestionHint(question, previousHints.length + 1, previousHints, preferences.language);
+      set((state) => {
+        const newState = { hints: { ...state.hints, [questionId]: [...(state.hints[questionId] || []), hint] } };
+        saveQuizStateToLocal({ ...state, ...newState });
+        return newState;
+      });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to get hint' });
+    } finally {
+      set({ hintLoadingId: null });
+    }
+  },
+
   nextQuestion: () => {
     set((state) => {
-      if (state.currentQuestionIndex < state.questions.length - 1) {
+      if (state.currentQuestionIndex < navigableRange(state).last) {
         const newIndex = state.currentQuestionIndex + 1;
         saveQuizStateToLocal({ ...state, currentQuestionIndex: newIndex }); // Save updated state
         return { currentQuestionIndex: newIndex };
@@ -273,9 +621,28 @@ const validatedPreferences = {
     });
   },
   
+  // Re-estimates ability from the answers so far and asks the most informative unasked question.
+  // Returns false when the quiz should end: the estimate is stable, the question limit is reached or the pool is empty.
+  nextAdaptiveQuestion: () => {
+    const { questions, answers, adaptivePool, preferences } = get();
+    const estimate = toProficiencyEstimate(adaptiveResponses(questions, answers, preferences?.scoring || DEFAULT_SCORING_SCHEME));
+    const upcoming = estimate.stable || questions.length >= (preferences?.questionCount || questions.length)
+      ? null
+      : pickNextQuestion(adaptivePool, questions.map(question => question.id), estimate.ability);
+
+    set((state) => {
+      const newState = upcoming
+        ? { adaptiveEstimate: estimate, questions: [...state.questions, upcoming], currentQuestionIndex: state.questions.length }
+        : { adaptiveEstimate: estimate };
+      saveQuizStateToLocal({ ...state, ...newState });
+      return newState;
+    });
+    return !!upcoming;
+  },
+
   prevQuestion: () => {
   set((state) => {
-    if (state.currentQuestionIndex > 0) {
+    if (state.currentQuestionIndex > navigableRange(state).first) {
       const newIndex = state.currentQuestionIndex - 1;
       saveQuizStateToLocal({ ...state, currentQuestionIndex: newIndex }); // Corrected typo here
       return { currentQuestionIndex: newIndex };
@@ -285,8 +652,63 @@ const validatedPreferences = {
 },
 
   
+  // Sectioned exams: closes the current section for good and opens the next one on its own clock
+  advanceExamSection: async () => {
+    const { examSession, preferences } = get();
+    if (!examSession || examSession.sectionIndex >= activeExamSections(preferences).length - 1) return;
+    try {
+      await Promise.all(pendingExamAnswers);
+      const nextSession = toExamSession(await advanceExamSection(examSession.id, examSession.sectionIndex));
+      set((state) => {
+        const newState = {
+          examSession: nextSession,
+          totalTimeRemaining: examSecondsLeft(nextSession),
+          currentQuestionIndex: navigableRange({ ...state, examSession: nextSession }).first
+        };
+        saveQuizStateToLocal({ ...state, ...newState });
+        return newState;
+      });
+    } catch (error) {
+      console.error('Failed to move to the next section:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to move to the next section' });
+    }
+  },
+
   finishQuiz: async () => {
-    const { questions, answers, preferences, totalTimeElapsed, apiKey } = get();
+    const { questions, answers, preferences, totalTimeElapsed, apiKeyFingerprint, aiProviderSettings, promptTemplate, hints, examSession, quizSessionId } = get();
+
+  // Exams are marked by the server from the answers it received in time; the saved result is shown as is
+  if (examSession) {
+    try {
+      await Promise.all(pendingExamAnswers);
+      const quizResultId = await submitExamSession(examSession.id);
+      const result = quizResultId ? await getQuizResultById(quizResultId) : null;
+      if (!result) throw new Error('The exam was submitted but its result could not be loaded');
+
+      requestQuestionCalibration().catch(error => console.error('Failed to request question calibration:', error));
+      abortActiveGeneration();
+      set({
+        result,
+        isStreamingQuestions: false,
+        currentQuestionIndex: 0,
+        totalTimeElapsed: 0,
+        totalTimeRemaining: null,
+        questions: [],
+        answers: {},
+        hints: {},
+        examSession: null,
+        quizSessionId: null,
+      });
+      clearQuizStateFromLocal();
+      discardSyncedSession(quizSessionId);
+    } catch (error) {
+      // A failed save leaves the session open on the server, so submitting again can still succeed
+      console.error('Failed to submit exam:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to submit exam' });
+    }
+    return;
+  }
+  const canUseAi = !!apiKeyFingerprint || !providerNeedsGeminiKey(aiProviderSettings);
   
   console.log('Starting finishQuiz with:', { questionsCount: questions.length, answersCount: Object.keys(answers).length });
   
@@ -297,9 +719,44 @@ const validatedPreferences = {
   
   let correctAnswers = 0;
   let finalScore = 0;
+  let earnedMarks = 0;
+  let negativeMarksDeducted = 0;
   let questionsAttempted = 0;
   let questionsSkipped = 0;
-  const questionTypePerformance: Record<string, { correct: number; total: number }> = {};
+  let hintsUsed = 0;
+  let hintPenaltyDeducted = 0;
+  const hintPenaltyPerHint = preferences?.mode === 'practice' ? (preferences.hintPenalty ?? DEFAULT_HINT_PENALTY) : 0;
+  const questionTypePerformance: Record<string, { correct: number; total: number; marks: number }> = {};
+  const scoring = preferences?.scoring || DEFAULT_SCORING_SCHEME;
+  const localScores = new Map(questions.map(question => [question.id, scoreAnswer(question, answers[question.id] || '', scoring)]));
+
+  // Long answers are marked against their rubric. Near-miss spellings and keyword hits always get a second
+  // look from the evaluator; answers the local check rejects get one when partial credit is on
+  const aiGrades = new Map<number, TextAnswerEvaluation>();
+  await Promise.all(questions.map(async question => {
+    const userAnswer = answers[question.id];
+    if (!userAnswer || !userAnswer.trim()) return;
+    if (question.type === 'long-answer') {
+      aiGrades.set(question.id, await evaluateTextAnswer(
+        question.text,
+        userAnswer,
+        question.modelAnswer,
+        question.keywords || [],
+        preferences?.language || 'English',
+        { criteria: question.rubric, wordLimit: question.wordLimit }
+      ));
+    } else if ((question.type === 'short-answer' || question.type === 'fill-blank') && canUseAi) {
+      const match = matchTextAnswer(userAnswer, question.correctAnswer, question.keywords);
+      if (isSettledMatch(match) || (match.method === null && scoring.textAnswer !== 'threshold')) return;
+      aiGrades.set(question.id, await evaluateTextAnswer(
+        question.text,
+        userAnswer,
+        question.correctAnswer,
+        question.keywords || [],
+        preferences?.language || 'English'
+      ));
+    }
+  }));
   
   const questionsWithAnswers = questions.map(question => {
     const userAnswer = answers[question.id];
@@ -313,79 +770,47 @@ const validatedPreferences = {
     
     // Initialize question type tracking
     if (!questionTypePerformance[question.type]) {
-      questionTypePerformance[question.type] = { correct: 0, total: 0 };
+      questionTypePerformance[question.type] = { correct: 0, total: 0, marks: 0 };
     }
     questionTypePerformance[question.type].total++;
+
+    // Every question is worth one mark; partly right answers can earn part of it
+    const grade = aiGrades.get(question.id);
+    const { marks: marksAwarded, isCorrect } = grade
+      ? (question.type === 'long-answer' ? { marks: grade.score / 100, isCorrect: grade.isCorrect } : scoreTextEvaluation(grade, scoring))
+      : localScores.get(question.id) || { marks: 0, isCorrect: false };
     
-    let isCorrect = false;
-    
-    // Handle different question types correctly
-    switch (question.type) {
-      case 'multiple-choice':
-      case 'true-false':
-      case 'case-study':
-      case 'situation':
-        isCorrect = userAnswer && question.correctAnswer && 
-                   userAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
-        break;
-        
-      case 'multi-select':
-        if (userAnswer && question.correctOptions) {
-          const userOptions = userAnswer.split(',').sort();
-          const correctOptions = question.correctOptions.sort();
-          isCorrect = userOptions.length === correctOptions.length &&
-                     userOptions.every((opt, index) => opt === correctOptions[index]);
-        }
-        break;
-        
-      case 'sequence':
-        if (userAnswer && question.correctSequence) {
-          try {
-            const userSequence = JSON.parse(userAnswer); // Parse the JSON string
-            isCorrect = userSequence.length === question.correctSequence.length &&
-                        userSequence.every((step: string, index: number) => step === question.correctSequence![index]);
-          } catch (e) {
-            console.error("Failed to parse sequence answer in finishQuiz:", e);
-            isCorrect = false;
-          }
-         }
-        break;
-        
-      case 'short-answer':
-      case 'fill-blank':
-        if (userAnswer && question.correctAnswer) {
-          const userLower = userAnswer.toLowerCase().trim();
-          const correctLower = question.correctAnswer.toLowerCase().trim();
-          isCorrect = userLower === correctLower;
-          
-          if (!isCorrect && question.keywords) {
-            isCorrect = question.keywords.some(keyword => 
-              userLower.includes(keyword.toLowerCase())
-            );
-          }
-        }
-        break;
-        
-      default:
-        isCorrect = false;
-    }
-    
+    // Hints only cost marks that were earned, and never more than that
+    const questionHints = (hints[question.id] || []).length;
+    const hintPenalty = marksAwarded > 0 ? Math.min(marksAwarded, questionHints * hintPenaltyPerHint) : 0;
+    hintsUsed += questionHints;
+    hintPenaltyDeducted += hintPenalty;
+    earnedMarks += marksAwarded;
+
+    questionTypePerformance[question.type].marks = roundScore(questionTypePerformance[question.type].marks + marksAwarded);
     if (isCorrect) {
       correctAnswers++;
-      finalScore += 1;
       questionTypePerformance[question.type].correct++;
+    }
+    if (marksAwarded > 0) {
+      finalScore += marksAwarded - hintPenalty;
     } else if (userAnswer && preferences?.negativeMarking) {
       finalScore += preferences.negativeMarks || 0;
+      negativeMarksDeducted += Math.abs(preferences.negativeMarks || 0);
     }
     
     return {
       ...question,
       userAnswer,
-      isCorrect
+      isCorrect,
+      marksAwarded,
+      ...(grade ? { gradingFeedback: grade.feedback, rubricGrades: grade.criteria } : {}),
+      ...(questionHints > 0 ? { hintsUsed: questionHints, hintPenalty } : {})
     };
   });
   
-  finalScore = Math.max(0, finalScore);
+  finalScore = roundScore(Math.max(0, finalScore));
+  earnedMarks = roundScore(earnedMarks);
   
   const accuracyRate = questionsAttempted > 0 ? (correctAnswers / questionsAttempted) * 100 : 0;
   const completionRate = questions.length > 0 ? (questionsAttempted / questions.length) * 100 : 0;
@@ -396,11 +821,10 @@ const validatedPreferences = {
   let recommendations: string[] = [];
   let comparativePerformance: any = {};
 
-  if (user && preferences && apiKey) {
+  if (user && preferences && canUseAi) {
     try {
       const historicalResults = await getQuizResultsWithAnalytics(user.id, 10); // Fetch last 10 quizzes
       const analysis = await getQuizAnalysisAndRecommendations(
-        apiKey,
         { // Current quiz result structure for AI
           totalQuestions: questions.length,
           correctAnswers,
@@ -410,8 +834,10 @@ const validatedPreferences = {
           questions: questionsWithAnswers,
           questionTypePerformance,
           finalScore,
-          rawScore: correctAnswers,
-          negativeMarksDeducted: preferences?.negativeMarking ? Math.abs((correctAnswers - finalScore) * (preferences.negativeMarks || 0)) : 0,
+          rawScore: earnedMarks,
+          negativeMarksDeducted,
+          hintsUsed,
+          hintPenaltyDeducted,
           totalTimeTaken: totalTimeElapsed,
           accuracyRate,
           completionRate,
@@ -473,9 +899,10 @@ const validatedPreferences = {
     questions: questionsWithAnswers,
     questionTypePerformance,
     finalScore,
-    rawScore: correctAnswers,
-    negativeMarksDeducted: preferences?.negativeMarking ? 
-      Math.abs((correctAnswers - finalScore) * (preferences.negativeMarks || 0)) : 0,
+    rawScore: earnedMarks,
+    negativeMarksDeducted,
+    hintsUsed,
+    hintPenaltyDeducted,
     totalTimeTaken: totalTimeElapsed, // Added
     accuracyRate, // Added
     completionRate, // Added
@@ -496,14 +923,22 @@ const validatedPreferences = {
     negativeMarking: preferences?.negativeMarking,
     negativeMarks: preferences?.negativeMarks,
     mode: preferences?.mode,
+    scoring,
+    promptTemplate,
   };
   
+  if (preferences?.mode === 'adaptive') {
+    result.proficiency = toProficiencyEstimate(questionsWithAnswers.map(question => ({ question, correct: question.isCorrect })));
+  }
+  
   console.log('Quiz result created:', result);
   
   // Save to database
   if (user && preferences) {
     saveQuizResultToDatabase(user.id, result, preferences)
       .then(data => {
+        // New answers shift the difficulty estimates; the function throttles itself
+        requestQuestionCalibration().catch(error => console.error('Failed to request question calibration:', error));
         if (data?.id) {
           set({ result: { ...result, id: data.id } }); // Update result with ID from DB
         } else {
@@ -516,56 +951,129 @@ const validatedPreferences = {
   }
 
   // Clear questions to prevent re-generation and reset state
+  abortActiveGeneration();
   set({ 
+    isStreamingQuestions: false,
     currentQuestionIndex: 0, // Reset question index
     totalTimeElapsed: 0, // Reset total time elapsed
     totalTimeRemaining: null, // Reset total time remaining
     questions: [], // Clear questions
     answers: {}, // Clear answers
+    hints: {},
+    adaptivePool: [],
+    adaptiveEstimate: null,
+    examSession: null,
+    quizSessionId: null,
   });
   clearQuizStateFromLocal();
+  discardSyncedSession(quizSessionId);
 },
 
 
   
   resetQuiz: () => {
+    abortActiveGeneration();
+    discardSyncedSession(get().quizSessionId);
     set({
       questions: [],
       currentQuestionIndex: 0,
       answers: {},
+      hints: {},
+      adaptivePool: [],
+      adaptiveEstimate: null,
+      examSession: null,
+      quizSessionId: null,
       result: null,
       error: null,
       totalTimeElapsed: 0, // Reset total time elapsed
       totalTimeRemaining: null, // Reset total time remaining
+      isStreamingQuestions: false,
+      generationReport: [],
     });
     clearQuizStateFromLocal(); // Clear local storage state
   },
+
+  // For pages that show the "Continue where you left off" card without loading the quiz itself
+  loadResumableSession: async (userId) => {
+    try {
+      const syncedState = await getQuizSession(userId);
+      const savedState: QuizSessionSnapshot | undefined = loadQuizStateFromLocal();
+      const newest = syncedState && (!savedState?.questions?.length || syncedState.savedAt > (savedState.savedAt || 0))
+        ? syncedState
+        : savedState;
+      set({ resumableSession: newest && newest.questions.length > 0 ? newest : null });
+    } catch (error) {
+      // The card is a convenience, so a failure here only gets logged
+      console.error('Failed to load synced quiz session:', error);
+    }
+  },
+
+  // Loads the attempt from the card in place of whatever this device had open
+  resumeQuizSession: async () => {
+    const { resumableSession } = get();
+    if (!resumableSession) return;
+
+    abortActiveGeneration();
+    set({ isLoading: true, error: null });
+    try {
+      set({ ...(await restoredQuizState(resumableSession)), resumableSession: null, isStreamingQuestions: false, generationReport: [] });
+      if (get().questions.length > 0) saveQuizStateToLocal(get(), resumableSession.savedAt);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to resume the quiz' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // "Start fresh" on the card forgets the attempt on this device and on the server
+  discardResumableSession: () => {
+    const { resumableSession, quizSessionId, resetQuiz } = get();
+    if (!resumableSession) return;
+
+    if (resumableSession.id === quizSessionId) {
+      resetQuiz();
+    } else {
+      discardSyncedSession(resumableSession.id);
+      if (loadQuizStateFromLocal()?.id === resumableSession.id) clearQuizStateFromLocal();
+    }
+    set({ resumableSession: null });
+  },
+
+  // Autosave for other devices. Runs on a timer while a quiz is open and only uploads when the user has made
+  // progress; force also sends the timers, for when the page is hidden.
+  syncQuizSession: (userId, force = false) => {
+    const state = get();
+    // A half-streamed quiz could not be finished on another device
+    if (!state.quizSessionId || state.isStreamingQuestions || state.questions.length === 0) return;
+
+    const progress = JSON.stringify([state.quizSessionId, state.currentQuestionIndex, state.answers, state.hints, state.questions.length]);
+    if (!force && progress === lastSyncedProgress) return;
+    lastSyncedProgress = progress;
+
+    const savedAt = Date.now();
+    saveQuizStateToLocal(state, savedAt);
+    const snapshot = toQuizSnapshot(state, savedAt);
+    queueSessionSync(() => saveQuizSession(userId, snapshot));
+  },
   
-  getExplanation: async (questionId) => {
-    const { questions, apiKey, preferences } = get();
+  getExplanation: async (question, options) => {
+    const { apiKeyFingerprint, aiProviderSettings, preferences } = get();
     set({ isLoading: true, error: null, explanation: null });
     
-    const question = questions.find(q => q.id === questionId);
-    
-    if (!question || !apiKey || !preferences) {
+    if ((!apiKeyFingerprint && providerNeedsGeminiKey(aiProviderSettings)) || !preferences) {
       set({ 
-        error: !question 
-          ? 'Question not found' 
-          : !apiKey 
-            ? 'API key not set'
-            : 'Preferences not set',
+        error: !preferences 
+          ? 'Preferences not set' 
+          : 'API key not set',
         isLoading: false 
       });
       return;
     }
     
     try {
-      const explanation = await getAnswerExplanation(
-        apiKey,
-        question.text,
-        question.correctAnswer || 'N/A',
-        preferences.topic || preferences.course,
-        preferences.language
+      const explanation = await explainAnswer(
+        explanationRequestFor(question, preferences.topic || preferences.course, preferences.language),
+        options
       );
       
       set({ explanation });
@@ -604,6 +1112,7 @@ const validatedPreferences = {
         recommendations: item.recommendations || [], // Added
         comparativePerformance: item.comparative_performance || {}, // Added
         questionTypePerformance: item.question_type_performance || {},
+        sectionPerformance: item.section_performance || [],
         questions: item.question_details || [], // Already mapped in supabase.ts, but ensure default
         quizDate: item.quiz_date ? new Date(item.quiz_date) : null,
         // Ensure other fields from QuizResult type are mapped if needed
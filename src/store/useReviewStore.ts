@@ -0,0 +1,93 @@
+// src/store/useReviewStore.ts
+import { create } from 'zustand';
+import { ReviewCard, ReviewQuality } from '../types';
+import { countDueReviewCards, createReviewCards, getDueReviewCards, getFavoriteQuestions, getQuizResultsWithAnalytics, saveReviewSchedule } from '../services/supabase';
+import { favoriteCardDrafts, mistakeCardDrafts, scheduleReview } from '../services/spacedRepetition';
+
+// How far back mistakes are picked up from, and how many cards one session asks
+const RECENT_RESULTS = 50;
+const SESSION_SIZE = 20;
+
+interface ReviewState {
+  dueCards: ReviewCard[]; // This session's cards, most overdue first
+  currentIndex: number;
+  reviewedCount: number;
+  dueCount: number; // Cards due now across the whole deck
+  isLoading: boolean;
+  error: string | null;
+
+  loadDueCount: (userId: string) => Promise<void>;
+  startReview: (userId: string) => Promise<void>;
+  gradeCard: (quality: ReviewQuality) => Promise<void>;
+  resetReview: () => void;
+}
+
+// Turns recent mistakes and all favourites into cards; cards that already exist keep their schedule
+const syncReviewCards = async (userId: string) => {
+  const [results, favorites] = await Promise.all([
+    getQuizResultsWithAnalytics(userId, RECENT_RESULTS),
+    getFavoriteQuestions(userId)
+  ]);
+  const mistakes = await mistakeCardDrafts(results);
+  await createReviewCards(userId, [...mistakes, ...favoriteCardDrafts(favorites)]);
+};
+
+export const useReviewStore = create<ReviewState>((set, get) => ({
+  dueCards: [],
+  currentIndex: 0,
+  reviewedCount: 0,
+  dueCount: 0,
+  isLoading: false,
+  error: null,
+
+  loadDueCount: async (userId) => {
+    try {
+      await syncReviewCards(userId);
+      set({ dueCount: await countDueReviewCards(userId) });
+    } catch (error) {
+      // The badge is a convenience, so a failure here only gets logged
+      console.error('Failed to load due review cards:', error);
+    }
+  },
+
+  startReview: async (userId) => {
+    set({ isLoading: true, error: null, dueCards: [], currentIndex: 0, reviewedCount: 0 });
+    try {
+      await syncReviewCards(userId);
+      const [dueCards, dueCount] = await Promise.all([
+        getDueReviewCards(userId, SESSION_SIZE),
+        countDueReviewCards(userId)
+      ]);
+      set({ dueCards, dueCount });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load review cards' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Reschedules the current card from how well it was recalled and moves on to the next one
+  gradeCard: async (quality) => {
+    const { dueCards, currentIndex } = get();
+    const card = dueCards[currentIndex];
+    if (!card) return;
+
+    const schedule = scheduleReview(card, quality);
+    set({ error: null });
+    try {
+      await saveReviewSchedule(card.id, schedule);
+      set((state) => ({
+        dueCards: state.dueCards.map(dueCard => dueCard.id === card.id ? { ...dueCard, ...schedule, lastReviewedAt: new Date() } : dueCard),
+        currentIndex: state.currentIndex + 1,
+        reviewedCount: state.reviewedCount + 1,
+        dueCount: Math.max(0, state.dueCount - 1)
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save the review' });
+    }
+  },
+
+  resetReview: () => {
+    set({ dueCards: [], currentIndex: 0, reviewedCount: 0, error: null });
+  },
+}));
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { supabase } from '../services/supabase';
+import { getApiKeyFingerprint, supabase } from '../services/supabase';
+import { aiFetch } from '../services/aiClient';
+import { generateText, providerNeedsGeminiKey } from '../services/llm';
 
 interface StudyAidsState {
   isLoading: boolean;
@@ -143,7 +145,8 @@ export const useStudyAidsStore = create<StudyAidsState>((set, get) => ({
         throw new Error('No active session');
       }
 
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/evaluate`, {
+      // Evaluating a full answer sheet can take a while, so allow longer than a normal AI call
+      const response = await aiFetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/evaluate`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -155,12 +158,7 @@ export const useStudyAidsStore = create<StudyAidsState>((set, get) => ({
           subject,
           topic,
         }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
-      }
+      }, { timeoutMs: 180000 });
 
       const evaluationResult = await response.json();
 
@@ -207,14 +205,8 @@ export const useStudyAidsStore = create<StudyAidsState>((set, get) => ({
   createNote: async (userId, data) => {
     set({ isLoading: true, error: null });
     try {
-      // Get API key for AI processing
-      const { data: apiKeyData, error: apiKeyError } = await supabase
-        .from('api_keys')
-        .select('gemini_api_key')
-        .eq('user_id', userId)
-        .single();
-
-      if (apiKeyError || !apiKeyData?.gemini_api_key) {
+      // The key stays server-side; only check that one has been saved
+      if (providerNeedsGeminiKey() && !(await getApiKeyFingerprint(userId))) {
         throw new Error('Gemini API key not found. Please set up your API key in the API Settings page.');
       }
 
@@ -284,46 +276,19 @@ Provide a comprehensive response in JSON format with the following structure:
 
 Make sure the content is educational, accurate, and helpful for students studying ${data.course}.`;
 
-          const response = await fetch(
-            'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-goog-api-key': apiKeyData.gemini_api_key,
-              },
-              body: JSON.stringify({
-                contents: [{
-                  parts: [{
-                    text: prompt
-                  }]
-                }],
-                generationConfig: {
-                  temperature: 0.3,
-                  topK: 40,
-                  topP: 0.95,
-                  maxOutputTokens: 2048,
-                }
-              })
-            }
-          );
-
-          if (response.ok) {
-            const result = await response.json();
-            const responseText = result.candidates[0].content.parts[0].text;
-            
-            // Try to extract JSON from the response
-            const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              try {
-                generatedContent = JSON.parse(jsonMatch[0]);
-              } catch (parseError) {
-                console.warn('Failed to parse AI response as JSON:', parseError);
-                generatedContent = { summary: responseText };
-              }
-            } else {
+          const responseText = await generateText({ prompt, temperature: 0.3, feature: 'notes' });
+
+          // Try to extract JSON from the response
+          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+          if (jsonMatch) {
+            try {
+              generatedContent = JSON.parse(jsonMatch[0]);
+            } catch (parseError) {
+              console.warn('Failed to parse AI response as JSON:', parseError);
               generatedContent = { summary: responseText };
             }
+          } else {
+            generatedContent = { summary: responseText };
           }
         } catch (aiError) {
           console.warn('AI content generation failed:', aiError);
@@ -547,6 +512,7 @@ Make sure the content is educational, accurate, and helpful for students studyin
         .from('chat_history')
         .select('*')
         .eq('user_id', userId)
+        .is('quiz_result_id', null) // Follow-ups about quiz questions live with their result
         .order('timestamp', { ascending: true });
         
       if (error) throw error;
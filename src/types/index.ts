@@ -25,6 +25,52 @@ export type ApiKeyData = {
   geminiApiKey: string;
 };
 
+// LLM providers that can serve quiz generation, explanations and evaluation
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'ollama';
+
+// Providers whose API key is kept encrypted server-side; Ollama runs locally and needs none
+export type ApiKeyProvider = 'gemini' | 'openai-compatible';
+
+export type AiProviderSettings = {
+  provider: AiProviderId;
+  fallbackProvider?: AiProviderId | null; // Used when the primary provider is rate-limited
+  geminiModel?: string;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  ollamaBaseUrl?: string;
+  ollamaModel?: string;
+};
+
+// Which part of the app made an AI call, so usage can be metered per feature
+export type AiFeature =
+  | 'quiz-generation'
+  | 'answer-verification'
+  | 'duplicate-check'
+  | 'explanation'
+  | 'hint'
+  | 'follow-up'
+  | 'answer-grading'
+  | 'quiz-analysis'
+  | 'notes'
+  | 'other';
+
+// Self-imposed daily limits, enforced by the gemini edge function; null means no limit
+export type AiUsageCaps = {
+  dailyRequests: number | null;
+  dailyTokens: number | null;
+};
+
+// One row of the ai_usage_daily view: a feature's totals for one UTC day
+export type AiUsageDay = {
+  day: string;
+  feature: AiFeature;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  avgLatencyMs: number;
+};
+
 // Supported languages for quiz generation
 export type QuizLanguage = 'English' | 'Hindi' | 'Malayalam' | 'Tamil' | 'Telugu' | 'Spanish' | 'French' | 'German' | 'Chinese' | 'Japanese';
 
@@ -48,8 +94,70 @@ export type QuizPreferences = {
   totalTimeLimit?: string | null;  // Keep as string
   negativeMarking?: boolean;
   negativeMarks?: number;
-  mode: 'practice' | 'exam';
+  mode: 'practice' | 'exam' | 'adaptive'; // adaptive picks each question to match the running ability estimate
   answerMode: 'immediate' | 'end';
+  source?: 'topic' | 'material'; // 'material' grounds every question in the user's own text
+  material?: StudyMaterial | null;
+  verifyQuestions?: boolean; // Re-solve each generated question with a second AI pass
+  includeDiagrams?: boolean; // Let the AI attach generated diagrams and charts where they help
+  images?: QuizImage[]; // User-uploaded images sent to the model; some questions are asked about them
+  hintPenalty?: number; // Marks taken off a correct answer for each hint used (practice mode only)
+  scoring?: ScoringScheme;
+  bloomDistribution?: BloomDistribution | null; // Target mix of cognitive levels; null lets the AI choose
+  sections?: ExamSection[] | null; // Exam mode only: generate, time and mark each section with its own rules
+};
+
+// One part of a sectioned exam, e.g. Physics in an entrance test. Sections are taken in order, each on its
+// own clock; once a section is finished or its time runs out it cannot be reopened.
+export type ExamSection = {
+  id: string;
+  name: string;
+  topic?: string; // Falls back to the quiz topic
+  questionTypes: QuestionType[];
+  questionCount: number;
+  timeLimit: number | null; // Seconds; null leaves the section untimed
+  negativeMarking: boolean;
+  negativeMarks: number; // Stored negative, like QuizPreferences.negativeMarks
+};
+
+// Per-section totals of a sectioned exam, worked out by the server when it marks the exam
+export type SectionPerformance = {
+  sectionId: string;
+  name: string;
+  totalQuestions: number;
+  attempted: number;
+  correct: number;
+  marks: number; // After partial credit and negative marks
+  negativeMarksDeducted: number;
+  timeLimit: number | null; // Seconds
+  timeTaken: number; // Seconds on the section's clock
+};
+
+// Cognitive levels of the revised Bloom's taxonomy, from recall up to original work
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// Relative share of questions per level; levels left out or at 0 get no questions
+export type BloomDistribution = Partial<Record<BloomLevel, number>>;
+
+// How partly right answers are scored; every question is still worth at most one mark
+export type ScoringScheme = {
+  multiSelect: 'all-or-nothing' | 'proportional'; // proportional: each correct pick earns a share, each wrong pick costs one
+  sequence: 'all-or-nothing' | 'position' | 'kendall-tau'; // position: steps in the right place; kendall-tau: pairs in the right order
+  textAnswer: 'all-or-nothing' | 'threshold'; // threshold: the evaluator's score counts once it reaches textThreshold
+  textThreshold: number; // 0-100
+};
+
+// Study material pasted or uploaded by the user; text is extracted in the browser
+export type StudyMaterial = {
+  name: string;
+  text: string;
+};
+
+// Image uploaded to the question-media bucket for a quiz; the URL is public so result pages can show it
+export type QuizImage = {
+  name: string;
+  url: string;
+  mimeType: string;
 };
 
 
@@ -58,6 +166,7 @@ export type QuestionType =
   | 'true-false'      // True/False questions
   | 'fill-blank'      // Fill in the blank
   | 'short-answer'    // 1-2 word answers
+  | 'long-answer'     // Descriptive answer graded against a rubric
   | 'sequence'        // Arrange items in correct order
   | 'case-study'      // Analyze real-world scenarios
   | 'situation'       // Choose best action in a scenario
@@ -74,8 +183,74 @@ interface BaseQuestion {
   language?: QuizLanguage;
   keywords?: string[]; // For flexible answer matching
   isCorrect?: boolean; // Added for tracking correctness
+  concept?: string; // Short label of the idea being tested
+  bloomLevel?: BloomLevel; // Cognitive level the question targets
+  skill?: string; // Short label of the skill exercised, e.g. "interpreting graphs"
+  sourcePassage?: string; // Verbatim excerpt of the study material the question is based on
+  embedding?: QuestionEmbedding; // Saved to quiz_results.question_embeddings, not question_details
+  verification?: QuestionVerification;
+  fingerprint?: string; // Same for every copy of this question; see services/calibration.ts
+  calibration?: QuestionCalibration; // Present once enough students have answered it
+  claimedDifficulty?: BaseQuestion['difficulty']; // The AI's own label, kept when calibration re-labels the question
+  media?: QuestionMedia; // Diagram, chart or image the question refers to
+  hintsUsed?: number; // Hints revealed before answering; each costs QuizPreferences.hintPenalty
+  hintPenalty?: number; // Marks this question lost to hints
+  marksAwarded?: number; // Out of 1, before hint penalties; fractional for rubric-graded answers
+  gradingFeedback?: string; // Grader's comment on a free-text answer
+  rubricGrades?: CriterionGrade[];
+  sectionId?: string; // Sectioned exams: the ExamSection the question belongs to
 }
 
+// One weighted point the grader looks for in a long answer
+export type RubricCriterion = {
+  criterion: string;
+  weight: number; // Relative share of the question's mark
+};
+
+// Marks given for one rubric criterion; maxMarks of all criteria add up to the question's mark
+export type CriterionGrade = {
+  criterion: string;
+  marks: number;
+  maxMarks: number;
+  feedback: string;
+};
+
+// Visual part of a question: an uploaded image, a generated SVG diagram or a chart drawn from data
+export type QuestionMedia =
+  | { kind: 'image'; url: string; alt: string; caption?: string }
+  | { kind: 'svg'; svg: string; alt: string; caption?: string }
+  | { kind: 'chart'; chart: ChartSpec; alt: string; caption?: string };
+
+export type ChartSpec = {
+  type: 'bar' | 'line' | 'pie';
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  data: { label: string; value: number }[];
+};
+
+// Empirical difficulty from a two-parameter IRT fit over every stored answer to the question
+export type QuestionCalibration = {
+  difficulty: number;     // 0 is the average student; positive is harder
+  discrimination: number; // How sharply the question separates stronger from weaker students
+  responses: number;
+  pCorrect: number;       // 0-1
+  label: 'basic' | 'intermediate' | 'advanced';
+  calibratedAt: Date;
+};
+
+// Outcome of the optional verifier pass that solves each question without seeing the answer key
+export type QuestionVerification = {
+  status: 'verified' | 'regenerated' | 'flagged' | 'unverified';
+  note?: string;
+};
+
+// Semantic vector of a question; vectors are only comparable when the model matches
+export type QuestionEmbedding = {
+  model: string;
+  vector: number[];
+};
+
 // Multiple choice question
 interface MultipleChoiceQuestion extends BaseQuestion {
   type: 'multiple-choice';
@@ -104,6 +279,14 @@ interface ShortAnswerQuestion extends BaseQuestion {
   keywords: string[]; // Key terms that should be present
 }
 
+// Long answer question
+interface LongAnswerQuestion extends BaseQuestion {
+  type: 'long-answer';
+  modelAnswer: string;       // What a full-marks answer covers
+  rubric: RubricCriterion[];
+  wordLimit: number;
+}
+
 // Sequence question
 interface SequenceQuestion extends BaseQuestion {
   type: 'sequence';
@@ -142,11 +325,21 @@ export type Question =
   | TrueFalseQuestion 
   | FillBlankQuestion 
   | ShortAnswerQuestion
+  | LongAnswerQuestion
   | SequenceQuestion 
   | CaseStudyQuestion 
   | SituationQuestion
   | MultiSelectQuestion;
 
+// What an answer explanation is written from; all of it goes into the shared cache key
+export type ExplanationRequest = {
+  question: string;
+  questionType: QuestionType;
+  answerKey: string[]; // Every correct option, step or model answer, in order
+  topic: string;
+  language: string;
+};
+
   export type QuizResult = {
   id: string; // Added for tracking quiz result ID
   totalQuestions: number;
@@ -155,10 +348,12 @@ export type Question =
   questionsSkipped: number;
   percentage: number;
   questions: Question[];
-  questionTypePerformance: Record<string, { correct: number; total: number }>;
+  questionTypePerformance: Record<string, { correct: number; total: number; marks?: number }>; // marks includes partial credit
   finalScore: number;
   rawScore: number;
   negativeMarksDeducted?: number;
+  hintsUsed?: number;
+  hintPenaltyDeducted?: number;
   totalTimeTaken: number; // Added
   accuracyRate: number; // Added
   completionRate: number; // Added
@@ -178,9 +373,55 @@ export type Question =
   totalTimeLimit?: string | null;
   negativeMarking?: boolean;
   negativeMarks?: number;
-  mode?: 'practice' | 'exam';
+  mode?: 'practice' | 'exam' | 'adaptive';
+  scoring?: ScoringScheme;
+  proficiency?: ProficiencyEstimate | null; // Adaptive quizzes only
+  examSessionId?: string | null; // Set when the server marked this exam; see supabase/functions/exam-session
+  sectionPerformance?: SectionPerformance[] | null; // Sectioned exams only
+  promptTemplate?: PromptTemplateRef | null; // Quiz-generation prompt the questions came from
 };
 
+// Exam running on the server. The browser holds only the redacted questions; the deadline is server time.
+export type ExamSession = {
+  id: string;
+  deadlineAt: string | null; // For sectioned exams, the deadline of the current section
+  clockOffsetMs: number; // Server clock minus browser clock when the session started
+  sectionIndex: number; // Section being answered; always 0 for exams without sections
+};
+
+export type ProficiencyLevel = 'beginner' | 'developing' | 'proficient' | 'advanced' | 'expert';
+
+// Ability measured by an adaptive quiz, on the same scale as QuestionCalibration.difficulty
+export type ProficiencyEstimate = {
+  ability: number;
+  standardError: number;
+  level: ProficiencyLevel;
+  questionsAsked: number;
+  stable: boolean; // False when the quiz ran out of questions before the estimate settled
+};
+
+// Identifies one version of a prompt template from services/prompts.ts
+export type PromptTemplateRef = {
+  id: string;
+  version: number;
+};
+
+// An in-progress solo quiz as saved to local storage and synced to the server for other devices
+export type QuizSessionSnapshot = {
+  id: string; // Set when the quiz is generated, so two copies of the same attempt can be told apart
+  savedAt: number; // Epoch milliseconds; the newer copy of the same attempt wins
+  preferences: QuizPreferences | null;
+  questions: Question[];
+  currentQuestionIndex: number;
+  answers: Record<number, string>;
+  totalTimeElapsed: number;
+  totalTimeRemaining: number | null;
+  promptTemplate: PromptTemplateRef | null;
+  hints: Record<number, string[]>;
+  adaptivePool: Question[];
+  adaptiveEstimate: ProficiencyEstimate | null;
+  examSession: ExamSession | null;
+};
 
 export type QuizResultData = {
   id: string;
@@ -191,6 +432,14 @@ export type QuizResultData = {
   timeTaken?: number;
 };
 
+// One message of a follow-up conversation about a quiz question, stored in chat_history
+export type ChatMessage = {
+  id?: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp?: Date;
+};
+
 export type FavoriteQuestion = {
   id: string;
   questionText: string;
@@ -200,6 +449,33 @@ export type FavoriteQuestion = {
   createdAt: Date;
 };
 
+// SM-2 recall grade: below 3 is a lapse and sends the card back to the start
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type ReviewSchedule = {
+  easeFactor: number; // Interval multiplier, never below 1.3
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+  dueAt: Date;
+};
+
+// A question to review: one the user got wrong in a quiz, or one they saved as a favourite
+export type ReviewCard = ReviewSchedule & {
+  id: string;
+  source: 'mistake' | 'favorite';
+  sourceKey: string; // Question fingerprint for mistakes, favourite id for favourites
+  prompt: string;
+  answer: string;
+  explanation?: string;
+  topic?: string;
+  question?: Question; // Full question for mistakes, so options and media can be shown
+  lastReviewedAt: Date | null;
+};
+
+// What a card needs before it has a schedule; the database fills in the SM-2 defaults
+export type ReviewCardDraft = Pick<ReviewCard, 'source' | 'sourceKey' | 'prompt' | 'answer' | 'explanation' | 'topic' | 'question'>;
+
 export type Country = {
   code: string;
   name: string;
@@ -0,0 +1,96 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { decode, encode } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+
+// Provider keys are stored AES-GCM encrypted; the secret is a base64 encoded 32 byte key set with `supabase secrets set`
+const ENCRYPTION_SECRET_ENV = 'API_KEY_ENCRYPTION_KEY'
+const CIPHERTEXT_VERSION = 'v1'
+
+const getEncryptionKey = (): Promise<CryptoKey> => {
+  const secret = Deno.env.get(ENCRYPTION_SECRET_ENV)
+  if (!secret) {
+    throw new Error(`${ENCRYPTION_SECRET_ENV} is not configured`)
+  }
+  return crypto.subtle.importKey('raw', decode(secret), 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+export const encryptApiKey = async (apiKey: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(apiKey)
+  )
+  return `${CIPHERTEXT_VERSION}:${encode(iv)}:${encode(ciphertext)}`
+}
+
+export const decryptApiKey = async (stored: string): Promise<string> => {
+  const [version, iv, ciphertext] = stored.split(':')
+  if (version !== CIPHERTEXT_VERSION || !iv || !ciphertext) {
+    throw new Error('Unrecognised API key ciphertext')
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: decode(iv) },
+    await getEncryptionKey(),
+    decode(ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+// Enough for the user to recognise which key is saved without revealing it
+export const fingerprintApiKey = (apiKey: string): string =>
+  apiKey.length > 8 ? `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}` : '…'
+
+// Resolves the signed-in user from the request's bearer token; the anon key resolves to no user
+export const getRequestUserId = async (supabase: SupabaseClient, req: Request): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+  const { data, error } = await supabase.auth.getUser(token)
+  return error ? null : data.user?.id ?? null
+}
+
+// Providers whose keys are held here, and the columns each one's key is kept in
+export type KeyProvider = 'gemini' | 'openai-compatible'
+
+const KEY_COLUMNS: Record<KeyProvider, { encrypted: string; fingerprint: string }> = {
+  'gemini': { encrypted: 'gemini_api_key_encrypted', fingerprint: 'gemini_api_key_fingerprint' },
+  'openai-compatible': { encrypted: 'openai_api_key_encrypted', fingerprint: 'openai_api_key_fingerprint' },
+}
+
+export const isKeyProvider = (value: unknown): value is KeyProvider =>
+  typeof value === 'string' && value in KEY_COLUMNS
+
+// Column values that save a key; null clears it
+export const apiKeyColumns = async (provider: KeyProvider, apiKey: string | null): Promise<Record<string, string | null>> => ({
+  [KEY_COLUMNS[provider].encrypted]: apiKey ? await encryptApiKey(apiKey) : null,
+  [KEY_COLUMNS[provider].fingerprint]: apiKey ? fingerprintApiKey(apiKey) : null,
+})
+
+export const storeApiKey = async (supabase: SupabaseClient, userId: string, provider: KeyProvider, apiKey: string): Promise<string> => {
+  const keyColumns = await apiKeyColumns(provider, apiKey)
+
+  const { data: existingKey } = await supabase
+    .from('api_keys')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const { error } = existingKey
+    ? await supabase.from('api_keys').update(keyColumns).eq('user_id', userId)
+    : await supabase.from('api_keys').insert({ user_id: userId, ...keyColumns })
+
+  if (error) throw error
+  return fingerprintApiKey(apiKey)
+}
+
+export const loadApiKey = async (supabase: SupabaseClient, userId: string, provider: KeyProvider): Promise<string | null> => {
+  const column = KEY_COLUMNS[provider].encrypted
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(column)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  const stored = (data as Record<string, string | null> | null)?.[column]
+  return stored ? decryptApiKey(stored) : null
+}
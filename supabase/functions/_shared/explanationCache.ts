@@ -0,0 +1,52 @@
+// Shared explanation cache for edge functions. The key must stay in step with explanationCacheKey in
+// src/services/explanationCache.ts and the prompt with answer-explanation in src/services/prompts.ts.
+
+export type ExplanationRequest = {
+  question: string
+  questionType: string
+  answerKey: string[]
+  topic: string
+  language: string
+}
+
+const MAX_FIELD_LENGTH = 20000
+
+const isBoundedString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_FIELD_LENGTH
+
+export const isExplanationRequest = (value: unknown): value is ExplanationRequest => {
+  const request = value as ExplanationRequest | null
+  return !!request &&
+    isBoundedString(request.question) &&
+    isBoundedString(request.questionType) &&
+    Array.isArray(request.answerKey) && request.answerKey.length > 0 && request.answerKey.every(isBoundedString) &&
+    isBoundedString(request.topic) &&
+    isBoundedString(request.language)
+}
+
+const normalizeForHash = (text: string): string => text.trim().replace(/\s+/g, ' ')
+
+export const explanationCacheKey = async ({ question, questionType, answerKey, topic, language }: ExplanationRequest): Promise<string> => {
+  const content = JSON.stringify([
+    normalizeForHash(question),
+    questionType,
+    answerKey.map(normalizeForHash),
+    normalizeForHash(topic),
+    normalizeForHash(language),
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Rendered here rather than taken from the request, so a cached entry can only be an answer to its own key
+export const renderExplanationPrompt = ({ question, questionType, answerKey, topic, language }: ExplanationRequest): string => {
+  const correctAnswer = answerKey.join(questionType === 'sequence' ? ' → ' : ', ')
+  return `Explain why "${correctAnswer}" is the correct answer to this ${topic} question: "${question}"
+  
+Requirements:
+- Use ${language} language
+- Be clear and concise
+- Include relevant concepts
+- Explain step-by-step if applicable
+- Add examples if helpful`
+}
@@ -0,0 +1,40 @@
+// Checks for user-supplied URLs that an edge function will call, such as an OpenAI-compatible base URL.
+// Without them a user could point the function at the project's own network or the cloud metadata service.
+// Limit: a host name is checked against its DNS answer, but fetch looks the name up again when it connects.
+// A name whose records change between the two lookups (DNS rebinding) can still reach a private address;
+// Deno's fetch cannot be pinned to the checked address without giving up certificate checks for the name.
+
+import { ipv4Parts, isPrivateAddress } from './privateAddress.ts'
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa']
+
+const resolveAddresses = async (host: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')])
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : [])
+}
+
+// Returns why the URL may not be called, or null when it is a public https address.
+// The host is resolved here too, so a public name pointing at a private address is refused as well.
+export const outboundUrlProblem = async (rawUrl: unknown): Promise<string | null> => {
+  let url: URL
+  try {
+    url = new URL(String(rawUrl))
+  } catch {
+    return 'Base URL is not a valid URL'
+  }
+
+  if (url.protocol !== 'https:') return 'Base URL must use https'
+  if (url.username || url.password) return 'Base URL must not contain credentials'
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  if (host === 'localhost' || BLOCKED_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    return 'Base URL must be a public address'
+  }
+  if (ipv4Parts(host) || host.includes(':')) {
+    return isPrivateAddress(host) ? 'Base URL must be a public address' : null
+  }
+
+  const addresses = await resolveAddresses(host)
+  if (addresses.length === 0) return 'Base URL host could not be resolved'
+  return addresses.some(isPrivateAddress) ? 'Base URL must be a public address' : null
+}
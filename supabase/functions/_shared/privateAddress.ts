@@ -0,0 +1,70 @@
+// Whether an IP address is one an edge function must not call: loopback, private, link-local and the like.
+// Kept free of Deno APIs so the browser test suite can cover it.
+
+export const ipv4Parts = (host: string): number[] | null => {
+  const match = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (!match) return null
+  const parts = match.slice(1).map(Number)
+  return parts.every(part => part <= 255) ? parts : null
+}
+
+// Loopback, private, link-local (including 169.254.169.254), carrier-grade NAT, multicast and reserved ranges
+const isPrivateIpv4 = ([a, b]: number[]): boolean =>
+  a === 0 || a === 10 || a === 127 || a >= 224 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19))
+
+// The 16 bytes of an IPv6 address, or null when it is not one. URL parsing rewrites a dotted IPv4 tail to
+// hex (::ffff:127.0.0.1 becomes ::ffff:7f00:1), so both spellings are read.
+const ipv6Bytes = (address: string): number[] | null => {
+  let host = address.toLowerCase().replace(/%.*$/, '')
+  const dotted = host.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const parts = ipv4Parts(dotted[2])
+    if (!parts) return null
+    host = `${dotted[1]}${((parts[0] << 8) | parts[1]).toString(16)}:${((parts[2] << 8) | parts[3]).toString(16)}`
+  }
+
+  const halves = host.split('::')
+  if (halves.length > 2) return null
+  const groups = (half: string) => half === '' ? [] : half.split(':')
+  const head = groups(halves[0])
+  const tail = halves.length === 2 ? groups(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const words = [...head, ...Array(missing).fill('0'), ...tail]
+  if (!words.every(word => /^[0-9a-f]{1,4}$/.test(word))) return null
+  return words.flatMap(word => {
+    const value = parseInt(word, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+const startsWith = (bytes: number[], prefix: number[]): boolean => prefix.every((byte, index) => bytes[index] === byte)
+
+// IPv4-mapped ::ffff:0:0/96, IPv4-compatible ::/96 and NAT64 64:ff9b::/96 addresses reach the IPv4 address
+// in their last four bytes, so they are judged by it
+const EMBEDDED_IPV4_PREFIXES = [
+  [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [0, 0x64, 0xff, 0x9b, 0, 0, 0, 0, 0, 0, 0, 0],
+]
+
+const isPrivateIpv6 = (address: string): boolean => {
+  const bytes = ipv6Bytes(address)
+  if (!bytes) return true
+  // :: and ::1 fall in ::/96 and are refused as 0.0.0.0 and 0.0.0.1
+  if (EMBEDDED_IPV4_PREFIXES.some(prefix => startsWith(bytes, prefix))) return isPrivateIpv4(bytes.slice(12))
+  // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return (bytes[0] & 0xfe) === 0xfc || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || bytes[0] === 0xff
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  const ipv4 = ipv4Parts(address)
+  if (ipv4) return isPrivateIpv4(ipv4)
+  return address.includes(':') ? isPrivateIpv6(address) : false
+}
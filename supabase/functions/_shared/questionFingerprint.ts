@@ -0,0 +1,21 @@
+// Identifies the same question across quizzes and competitions. Must stay in step with
+// questionFingerprint in src/services/calibration.ts, which tags questions in the browser.
+
+export type StoredQuestion = Record<string, unknown>
+
+const normalize = (text: unknown): string =>
+  typeof text === 'string' ? text.toLowerCase().replace(/\s+/g, ' ').trim() : ''
+
+const answerKey = (question: StoredQuestion): string => {
+  if (typeof question.correctAnswer === 'string') return question.correctAnswer
+  if (Array.isArray(question.correctOptions)) return [...question.correctOptions].map(String).sort().join('|')
+  if (Array.isArray(question.correctSequence)) return question.correctSequence.map(String).join('|')
+  return typeof question.modelAnswer === 'string' ? question.modelAnswer : ''
+}
+
+// SHA-256 of type, stem and answer key; a question whose key was corrected counts as a new item
+export const questionFingerprint = async (question: StoredQuestion): Promise<string> => {
+  const content = [question.type, question.text, question.question, answerKey(question)].map(normalize).join('\u0000')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
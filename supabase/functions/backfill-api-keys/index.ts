@@ -0,0 +1,78 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { apiKeyColumns } from '../_shared/apiKeys.ts'
+
+const PAGE_SIZE = 500
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+type ApiKeyRow = {
+  id: string
+  gemini_api_key?: string | null // Only until migration 20261019360000 drops the column
+  gemini_api_key_encrypted: string | null
+  openai_api_key_encrypted: string | null
+  provider_settings: Record<string, unknown> | null
+}
+
+// One-time move of keys saved before server-side custody: plaintext Gemini keys and OpenAI-compatible keys
+// kept in provider_settings are encrypted into their custody columns and the plaintext is cleared. A key
+// that was already saved encrypted wins over the plaintext copy. Safe to run more than once.
+// Run it with the service role key after deploying the functions, then apply 20261019360000:
+//   curl -X POST "$SUPABASE_URL/functions/v1/backfill-api-keys" -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Only the service role can run the key backfill' }, 401)
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+    let geminiKeys = 0
+    let openaiKeys = 0
+
+    // Rows drop out of the filter once they are cleaned, so every round reads the first page again
+    for (;;) {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select('*')
+        .or('gemini_api_key.not.is.null,provider_settings->openaiApiKey.not.is.null')
+        .order('id')
+        .limit(PAGE_SIZE)
+      if (error) throw error
+      const rows = (data || []) as ApiKeyRow[]
+      if (rows.length === 0) break
+
+      for (const row of rows) {
+        const changes: Record<string, unknown> = {}
+
+        if (row.gemini_api_key !== undefined && row.gemini_api_key !== null) {
+          const plaintext = row.gemini_api_key.trim()
+          if (plaintext && !row.gemini_api_key_encrypted) {
+            Object.assign(changes, await apiKeyColumns('gemini', plaintext))
+            geminiKeys++
+          }
+          changes.gemini_api_key = null
+        }
+
+        const settings = row.provider_settings
+        if (settings && 'openaiApiKey' in settings) {
+          const { openaiApiKey, ...rest } = settings
+          const plaintext = typeof openaiApiKey === 'string' ? openaiApiKey.trim() : ''
+          if (plaintext && !row.openai_api_key_encrypted) {
+            Object.assign(changes, await apiKeyColumns('openai-compatible', plaintext))
+            openaiKeys++
+          }
+          changes.provider_settings = rest
+        }
+
+        const { error: updateError } = await supabase.from('api_keys').update(changes).eq('id', row.id)
+        if (updateError) throw updateError
+      }
+    }
+
+    return jsonResponse({ geminiKeys, openaiKeys })
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500)
+  }
+})
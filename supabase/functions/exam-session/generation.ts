@@ -0,0 +1,365 @@
+// Writes exam questions on the server, so the answer key never reaches the browser. The model is called
+// through the gemini function with the caller's own token, which keeps key custody, usage caps and metering
+// in one place. The prompt and checks follow the quiz-generation prompt and validateGeneratedQuestion in the
+// browser (src/services/prompts.ts, src/services/gemini.ts), for the question types an exam can mark.
+// Diagrams, answer checks and a cognitive level mix are not implemented here; loadExamPreferences refuses
+// exams that ask for them. Repeats are steered away from through the covered concepts in the prompt rather
+// than the browser's embedding comparison, and the prompt is versioned on its own as EXAM_PROMPT_TEMPLATE.
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { questionFingerprint, StoredQuestion } from '../_shared/questionFingerprint.ts'
+import { ExamSection } from './grading.ts'
+import { ExamPreferences, ExamSetupError } from './settings.ts'
+
+export const EXAM_PROMPT_TEMPLATE = { id: 'exam-generation', version: 1 }
+
+const MAX_QUESTIONS_PER_BATCH = 10
+const MAX_MATERIAL_CHARS = 60000
+const MAX_COVERED_CONCEPTS = 80
+
+export type StudyMaterial = { name: string; text: string }
+
+type AiProvider = {
+  provider: 'gemini' | 'openai-compatible'
+  model?: string
+  baseUrl?: string
+}
+
+type ModelResponse = {
+  error?: string
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+  choices?: { message?: { content?: string } }[]
+}
+
+// One call's share of the exam: its topic, its mix of types and which section the questions belong to
+type Batch = {
+  topic: string
+  subtopic: string
+  typeCounts: Record<string, number>
+  sectionId?: string
+  part: number
+  totalParts: number
+}
+
+const TYPE_RULES: Record<string, string> = {
+  'multiple-choice': `For multiple-choice:
+- "text": clear, complete question
+- "options": EXACTLY 4 distinct, complete answers, in random order
+- "correctAnswer": the correct option, copied exactly`,
+  'true-false': `For true-false:
+- "text": a complete statement to evaluate
+- "options": ["True", "False"]
+- "correctAnswer": "True" or "False"`,
+  'multi-select': `For multi-select:
+- "text": a question saying "Select all that apply"
+- "options": EXACTLY 6 distinct, complete options
+- "correctOptions": EXACTLY 2 OR 3 of the options, copied exactly`,
+  'sequence': `For sequence:
+- "text": what to put in order
+- "sequence": 4-6 steps in RANDOM order
+- "correctSequence": the same steps in the CORRECT order`,
+  'case-study': `For case-study:
+- "text": brief introduction
+- "caseStudy": detailed scenario of at least 100 words
+- "question": specific question about the case
+- "options": EXACTLY 4 possible solutions
+- "correctAnswer": the best solution, copied exactly`,
+  'situation': `For situation:
+- "text": brief introduction
+- "situation": detailed scenario of at least 100 words
+- "question": specific question about the situation
+- "options": EXACTLY 4 possible actions
+- "correctAnswer": the most appropriate action, copied exactly`,
+  'short-answer': `For short-answer:
+- "text": clear, specific question
+- "correctAnswer": concise answer, typically 1-3 words
+- "keywords": key terms a correct answer contains`,
+  'fill-blank': `For fill-blank:
+- "text": a sentence with ONE blank marked as _____
+- "correctAnswer": the word or phrase for the blank
+- "keywords": acceptable variations of the answer`,
+}
+
+const VARIETY_FOCUSES = [
+  'Focus on practical applications and real-world scenarios',
+  'Emphasize theoretical concepts and fundamental principles',
+  'Include problem-solving and analytical thinking questions',
+  'Include comparative analysis and critical thinking',
+  'Emphasize hands-on implementation and technical details',
+  'Cover interdisciplinary connections and broader implications',
+]
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Lowercased text with punctuation and spacing flattened, so quoted passages can be matched loosely
+const comparableText = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+
+// The provider the user picked in API settings. A local Ollama server is only reachable from the browser.
+const loadProvider = async (supabase: SupabaseClient, userId: string): Promise<AiProvider> => {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('provider_settings')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+
+  const settings = data?.provider_settings || {}
+  if (settings.provider === 'ollama') {
+    throw new ExamSetupError('Exams are written on the server, which cannot reach a local Ollama server. Choose Gemini or an OpenAI-compatible API in API settings.')
+  }
+  if (settings.provider === 'openai-compatible') {
+    return { provider: 'openai-compatible', model: settings.openaiModel, baseUrl: settings.openaiBaseUrl }
+  }
+  return { provider: 'gemini', model: settings.geminiModel || undefined }
+}
+
+const callModel = async (authorization: string, provider: AiProvider, prompt: string): Promise<string> => {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/gemini`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': authorization },
+    body: JSON.stringify({ ...provider, prompt, temperature: 0.0, feature: 'quiz-generation' }),
+  })
+  const data: ModelResponse | null = await response.json().catch(() => null)
+  if (!response.ok) {
+    // Missing keys, bad provider settings and used-up caps are for the user to fix; anything else is upstream
+    const status = response.status === 400 || response.status === 429 ? response.status : 502
+    throw new ExamSetupError(data?.error || `AI request failed: ${response.status}`, status)
+  }
+  const parts = data?.candidates?.[0]?.content?.parts
+  return parts ? parts.map(part => part.text || '').join('') : data?.choices?.[0]?.message?.content || ''
+}
+
+const extractQuestionArray = (text: string): unknown[] => {
+  const jsonMatch = text.match(/\[[\s\S]*\]/)
+  if (!jsonMatch) return []
+  try {
+    const parsed = JSON.parse(jsonMatch[0])
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '')
+
+const hasOptions = (q: Record<string, unknown>, count: number): boolean =>
+  isStringList(q.options) && new Set(q.options).size === count
+
+// Whether a generated question can be marked as it stands
+const isUsableQuestion = (q: unknown, typeCounts: Record<string, number>, groundingText?: string): q is StoredQuestion => {
+  if (!isRecord(q) || typeof q.type !== 'string' || !(q.type in typeCounts)) return false
+  if (typeof q.text !== 'string' || !q.text.trim() || typeof q.explanation !== 'string' || !q.explanation.trim()) return false
+  const correctAnswer = typeof q.correctAnswer === 'string' ? q.correctAnswer : ''
+
+  switch (q.type) {
+    case 'multiple-choice':
+      if (!hasOptions(q, 4) || !(q.options as string[]).includes(correctAnswer)) return false
+      break
+    case 'true-false':
+      if (!isStringList(q.options) || q.options.join('|') !== 'True|False' || !['True', 'False'].includes(correctAnswer)) return false
+      break
+    case 'multi-select': {
+      const options = hasOptions(q, 6) ? q.options as string[] : []
+      if (!isStringList(q.correctOptions) || q.correctOptions.length < 2 || q.correctOptions.length > 3) return false
+      if (!q.correctOptions.every(option => options.includes(option))) return false
+      break
+    }
+    case 'sequence':
+      if (!isStringList(q.sequence) || !isStringList(q.correctSequence)) return false
+      if (q.sequence.length < 4 || q.sequence.length > 6 || q.sequence.length !== q.correctSequence.length) return false
+      if (new Set([...q.sequence, ...q.correctSequence]).size !== q.sequence.length) return false
+      break
+    case 'case-study':
+    case 'situation': {
+      const scenario = q.type === 'case-study' ? q.caseStudy : q.situation
+      if (typeof scenario !== 'string' || scenario.length < 100 || typeof q.question !== 'string' || !q.question.trim()) return false
+      if (!hasOptions(q, 4) || !(q.options as string[]).includes(correctAnswer)) return false
+      break
+    }
+    case 'short-answer':
+    case 'fill-blank':
+      if (!correctAnswer.trim() || !Array.isArray(q.keywords)) return false
+      if (q.type === 'fill-blank' && !q.text.includes('_____')) return false
+      break
+  }
+
+  if (groundingText !== undefined) {
+    if (typeof q.sourcePassage !== 'string' || !q.sourcePassage.trim()) return false
+    if (!groundingText.includes(comparableText(q.sourcePassage))) return false
+  }
+  return true
+}
+
+const renderExamPrompt = (
+  preferences: ExamPreferences,
+  batch: Batch,
+  count: number,
+  coveredConcepts: string[],
+  material: StudyMaterial | null
+): string => {
+  const { course = '', difficulty = 'medium', language = 'English' } = preferences
+  const types = Object.keys(batch.typeCounts)
+  const typeMix = Object.entries(batch.typeCounts).map(([type, typeCount]) => `${typeCount} ${type}`).join(', ')
+
+  const materialRules = material ? `
+SOURCE MATERIAL ("${material.name}"):
+"""
+${material.text}
+"""
+
+- Every question MUST be answerable using ONLY the source material above
+- Every question MUST include "sourcePassage": an exact, verbatim excerpt (1-3 sentences) from the material that supports the answer
+` : ''
+
+  const avoidance = coveredConcepts.length > 0 ? `
+The user has already been quizzed on these concepts. Prefer other concepts, or test them from a clearly different angle:
+${coveredConcepts.join('; ')}
+` : ''
+
+  return `EXAM GENERATION SESSION: ${crypto.randomUUID()}
+
+Write exactly ${count} exam questions about "${course}${batch.topic ? ` - ${batch.topic}` : ''}${batch.subtopic ? ` (${batch.subtopic})` : ''}".
+${batch.totalParts > 1 ? `This is part ${batch.part} of ${batch.totalParts} of the exam. ${VARIETY_FOCUSES[(batch.part - 1) % VARIETY_FOCUSES.length]}.\n` : ''}
+- Language: ${language} (flawless grammar)
+- Difficulty: ${difficulty}
+- Question types: ONLY ${types.join(', ')}; the mix is ${typeMix}
+- Each question must be unique, original and not a standard textbook example
+${materialRules}${avoidance}
+QUESTION TYPE RULES:
+
+${types.map(type => TYPE_RULES[type]).join('\n\n')}
+
+Every question MUST include "type", "text", a detailed "explanation" and a short "concept" (2-6 words) naming the idea it tests.
+All text in ${language}.
+Return ONLY a valid JSON array of question objects: double quotes, escaped quotes inside strings, no trailing commas and no text outside the array.`
+}
+
+// Interleaves the types so every batch of a part gets a similar mix
+const planBatches = (topic: string, subtopic: string, questionTypes: string[], questionCount: number, sectionId?: string): Batch[] => {
+  const slots = Array.from({ length: questionCount }, (_, index) => questionTypes[index % questionTypes.length])
+  const totalParts = Math.ceil(questionCount / MAX_QUESTIONS_PER_BATCH)
+  return Array.from({ length: totalParts }, (_, part) => {
+    const typeCounts: Record<string, number> = {}
+    slots.slice(part * MAX_QUESTIONS_PER_BATCH, (part + 1) * MAX_QUESTIONS_PER_BATCH).forEach(type => {
+      typeCounts[type] = (typeCounts[type] || 0) + 1
+    })
+    return { topic, subtopic, typeCounts, sectionId, part: part + 1, totalParts }
+  })
+}
+
+const sectionBatches = (preferences: ExamPreferences, section: ExamSection): Batch[] =>
+  planBatches(
+    section.topic || preferences.topic || '',
+    section.topic ? '' : preferences.subtopic || '',
+    section.questionTypes,
+    section.questionCount,
+    section.id
+  )
+
+// How many questions of each type a batch still needs, leaving out the types it already has enough of
+const missingTypeCounts = (typeCounts: Record<string, number>, accepted: StoredQuestion[]): Record<string, number> => {
+  const missing: Record<string, number> = {}
+  Object.entries(typeCounts).forEach(([type, typeCount]) => {
+    const remaining = typeCount - accepted.filter(question => question.type === type).length
+    if (remaining > 0) missing[type] = remaining
+  })
+  return missing
+}
+
+// Exam settings use easy/medium/hard; questions are labelled basic/intermediate/advanced
+const QUESTION_DIFFICULTIES: Record<string, string> = { easy: 'basic', medium: 'intermediate', hard: 'advanced' }
+
+// The model's own label where it is a question difficulty, otherwise the one the exam was set up with
+const questionDifficulty = (claimed: unknown, examDifficulty?: string): string => {
+  const label = typeof claimed === 'string' ? claimed.toLowerCase().trim() : ''
+  if (Object.values(QUESTION_DIFFICULTIES).includes(label)) return label
+  return QUESTION_DIFFICULTIES[examDifficulty || ''] || 'intermediate'
+}
+
+// Swaps the AI's difficulty label for the measured one where students have answered the question before
+const calibrate = async (supabase: SupabaseClient, questions: StoredQuestion[]): Promise<StoredQuestion[]> => {
+  const fingerprints = await Promise.all(questions.map(questionFingerprint))
+  const fingerprinted: StoredQuestion[] = questions.map((question, index) => ({ ...question, fingerprint: fingerprints[index] }))
+  const { data, error } = await supabase
+    .from('question_calibrations')
+    .select('*')
+    .in('fingerprint', fingerprints)
+  if (error) {
+    console.error('Error reading question calibrations:', error)
+    return fingerprinted
+  }
+
+  const calibrations = new Map((data || []).map(row => [row.fingerprint, row]))
+  return fingerprinted.map((question, index) => {
+    const row = calibrations.get(fingerprints[index])
+    if (!row) return question
+    return {
+      ...question,
+      calibration: {
+        difficulty: Number(row.difficulty),
+        discrimination: Number(row.discrimination),
+        responses: row.responses,
+        pCorrect: Number(row.p_correct),
+        label: row.difficulty_label,
+        calibratedAt: row.calibrated_at,
+      },
+      claimedDifficulty: question.difficulty,
+      difficulty: row.difficulty_label,
+    }
+  })
+}
+
+// Writes every question of the exam, in section order. Batches run in parallel and each asks once more for
+// whatever its first answer fell short by; an exam is never started with fewer questions than it should have.
+export const generateExamQuestions = async (
+  supabase: SupabaseClient,
+  authorization: string,
+  userId: string,
+  preferences: ExamPreferences,
+  coveredConcepts: string[],
+  rawMaterial: unknown
+): Promise<StoredQuestion[]> => {
+  const provider = await loadProvider(supabase, userId)
+  const material = isRecord(rawMaterial) && typeof rawMaterial.text === 'string' && rawMaterial.text.trim()
+    ? { name: String(rawMaterial.name || 'Study material'), text: rawMaterial.text.slice(0, MAX_MATERIAL_CHARS) }
+    : null
+  const groundingText = material ? comparableText(material.text) : undefined
+  const concepts = coveredConcepts.filter(concept => typeof concept === 'string').map(concept => concept.slice(0, 120)).slice(0, MAX_COVERED_CONCEPTS)
+
+  const sections = preferences.sections || []
+  const batches = sections.length > 0
+    ? sections.flatMap(section => sectionBatches(preferences, section))
+    : planBatches(preferences.topic || '', preferences.subtopic || '', preferences.questionTypes || ['multiple-choice'], preferences.questionCount || 5)
+
+  const writeBatch = async (batch: Batch): Promise<StoredQuestion[]> => {
+    const accepted: StoredQuestion[] = []
+    for (let attempt = 0; attempt < 2; attempt++) {
+      // A second attempt asks only for the types the first answer fell short on, and only as many as are missing
+      const missing = missingTypeCounts(batch.typeCounts, accepted)
+      const count = Object.values(missing).reduce((sum, typeCount) => sum + typeCount, 0)
+      if (count === 0) break
+      const text = await callModel(authorization, provider, renderExamPrompt(preferences, { ...batch, typeCounts: missing }, count, concepts, material))
+      for (const q of extractQuestionArray(text)) {
+        if (!isUsableQuestion(q, missing, groundingText) || missing[q.type as string] === 0) continue
+        missing[q.type as string]--
+        // The prompt never asks for media, so anything attached anyway has not been checked and is left out
+        accepted.push({ ...q, media: undefined, sectionId: batch.sectionId })
+      }
+    }
+    if (Object.keys(missingTypeCounts(batch.typeCounts, accepted)).length > 0) {
+      throw new ExamSetupError('The AI did not write enough usable questions for this exam. Please try again.', 502)
+    }
+    return accepted
+  }
+
+  const written = (await Promise.all(batches.map(writeBatch))).flat()
+  const questions = written.map((question, index) => ({
+    ...question,
+    id: index + 1,
+    difficulty: questionDifficulty(question.difficulty, preferences.difficulty),
+    language: preferences.language,
+  }))
+  return calibrate(supabase, questions)
+}
@@ -0,0 +1,213 @@
+// Server-side marking for exam sessions. Mirrors scoreAnswer and finishQuiz in the browser
+// (src/services/scoring.ts, src/store/useQuizStore.ts), minus the AI evaluator: text answers are marked
+// by the local matcher alone.
+import { KEYWORD_MATCH_SCORE, matchTextAnswer } from '../_shared/answerMatcher.ts'
+import { StoredQuestion } from '../_shared/questionFingerprint.ts'
+
+export type ScoringScheme = {
+  multiSelect: 'all-or-nothing' | 'proportional'
+  sequence: 'all-or-nothing' | 'position' | 'kendall-tau'
+  textAnswer: 'all-or-nothing' | 'threshold'
+  textThreshold: number
+}
+
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  multiSelect: 'proportional',
+  sequence: 'kendall-tau',
+  textAnswer: 'threshold',
+  textThreshold: 50
+}
+
+type AnswerScore = { marks: number; isCorrect: boolean }
+
+const roundMarks = (marks: number) => Math.round(Math.min(1, Math.max(0, marks)) * 100) / 100
+const roundScore = (score: number) => Math.round(score * 100) / 100
+
+const allOrNothing = (isCorrect: boolean): AnswerScore => ({ marks: isCorrect ? 1 : 0, isCorrect })
+
+const stringList = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : []
+
+const scoreMultiSelect = (selected: string[], correctOptions: string[], options: string[], scheme: ScoringScheme): AnswerScore => {
+  const picked = new Set(selected)
+  const rightPicks = correctOptions.filter(option => picked.has(option)).length
+  const wrongPicks = selected.filter(option => !correctOptions.includes(option)).length
+  const isCorrect = rightPicks === correctOptions.length && wrongPicks === 0
+  if (scheme.multiSelect === 'all-or-nothing' || correctOptions.length === 0) return allOrNothing(isCorrect)
+
+  const wrongOptions = Math.max(1, options.length - correctOptions.length)
+  return { marks: roundMarks(rightPicks / correctOptions.length - wrongPicks / wrongOptions), isCorrect }
+}
+
+const scoreSequence = (answer: string[], correctSequence: string[], scheme: ScoringScheme): AnswerScore => {
+  const isCorrect = answer.length === correctSequence.length &&
+    correctSequence.every((step, index) => answer[index] === step)
+  const stepCount = correctSequence.length
+  if (scheme.sequence === 'all-or-nothing' || stepCount < 2) return allOrNothing(isCorrect)
+
+  if (scheme.sequence === 'position') {
+    const inPlace = correctSequence.filter((step, index) => answer[index] === step).length
+    return { marks: roundMarks(inPlace / stepCount), isCorrect }
+  }
+
+  let concordant = 0
+  for (let i = 0; i < stepCount; i++) {
+    for (let j = i + 1; j < stepCount; j++) {
+      const first = answer.indexOf(correctSequence[i])
+      const second = answer.indexOf(correctSequence[j])
+      if (first !== -1 && second !== -1 && first < second) concordant++
+    }
+  }
+  return { marks: roundMarks(concordant / (stepCount * (stepCount - 1) / 2)), isCorrect }
+}
+
+// A keyword alone is partial evidence: it earns what an evaluator score of KEYWORD_MATCH_SCORE would
+const scoreKeywordMatch = (scheme: ScoringScheme): AnswerScore => {
+  if (scheme.textAnswer === 'all-or-nothing') return allOrNothing(false)
+  return { marks: KEYWORD_MATCH_SCORE >= scheme.textThreshold ? roundMarks(KEYWORD_MATCH_SCORE / 100) : 0, isCorrect: false }
+}
+
+const parseSequenceAnswer = (answer: string): string[] => {
+  try {
+    return stringList(JSON.parse(answer))
+  } catch {
+    return []
+  }
+}
+
+export const scoreAnswer = (question: StoredQuestion, userAnswer: string, scheme: ScoringScheme): AnswerScore => {
+  if (!userAnswer.trim()) return allOrNothing(false)
+  const correctAnswer = typeof question.correctAnswer === 'string' ? question.correctAnswer : ''
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'case-study':
+    case 'situation':
+      return allOrNothing(!!correctAnswer && userAnswer.toLowerCase() === correctAnswer.toLowerCase())
+    case 'multi-select':
+      return scoreMultiSelect(userAnswer.split(','), stringList(question.correctOptions), stringList(question.options), scheme)
+    case 'sequence':
+      return scoreSequence(parseSequenceAnswer(userAnswer), stringList(question.correctSequence), scheme)
+    case 'short-answer':
+    case 'fill-blank': {
+      if (!correctAnswer) return allOrNothing(false)
+      const match = matchTextAnswer(userAnswer, correctAnswer, stringList(question.keywords))
+      return match.method === 'keyword' ? scoreKeywordMatch(scheme) : allOrNothing(match.isMatch)
+    }
+    default:
+      return allOrNothing(false)
+  }
+}
+
+// One part of a sectioned exam; see ExamSection in src/types/index.ts
+export type ExamSection = {
+  id: string
+  name: string
+  topic?: string
+  questionTypes: string[]
+  questionCount: number
+  timeLimit: number | null
+  negativeMarking: boolean
+  negativeMarks: number
+}
+
+export type ExamSettings = {
+  negativeMarking?: boolean
+  negativeMarks?: number
+  scoring?: ScoringScheme | null
+  sections?: ExamSection[] | null
+}
+
+export type SectionPerformance = {
+  sectionId: string
+  name: string
+  totalQuestions: number
+  attempted: number
+  correct: number
+  marks: number
+  negativeMarksDeducted: number
+  timeLimit: number | null
+  timeTaken: number
+}
+
+// Same totals the browser computes in finishQuiz; negativeMarks is stored as a negative number.
+// In a sectioned exam each question follows its own section's negative marking.
+export const gradeExam = (questions: StoredQuestion[], answers: Record<string, string>, settings: ExamSettings) => {
+  const scheme = settings.scoring || DEFAULT_SCORING_SCHEME
+  const sections = settings.sections || []
+  const sectionPerformance: SectionPerformance[] = sections.map(section => ({
+    sectionId: section.id,
+    name: section.name,
+    totalQuestions: 0,
+    attempted: 0,
+    correct: 0,
+    marks: 0,
+    negativeMarksDeducted: 0,
+    timeLimit: section.timeLimit,
+    timeTaken: 0
+  }))
+  const questionTypePerformance: Record<string, { correct: number; total: number; marks: number }> = {}
+  let correctAnswers = 0
+  let questionsAttempted = 0
+  let earnedMarks = 0
+  let finalScore = 0
+  let negativeMarksDeducted = 0
+
+  const gradedQuestions = questions.map((question): StoredQuestion => {
+    const type = String(question.type)
+    const userAnswer = answers[String(question.id)] || ''
+    const { marks, isCorrect } = scoreAnswer(question, userAnswer, scheme)
+    const sectionIndex = sections.findIndex(section => section.id === question.sectionId)
+    const negativeSettings = sectionIndex >= 0 ? sections[sectionIndex] : settings
+    const section = sectionPerformance[sectionIndex]
+
+    if (userAnswer.trim()) questionsAttempted++
+    questionTypePerformance[type] ||= { correct: 0, total: 0, marks: 0 }
+    questionTypePerformance[type].total++
+    questionTypePerformance[type].marks = roundScore(questionTypePerformance[type].marks + marks)
+    if (isCorrect) {
+      correctAnswers++
+      questionTypePerformance[type].correct++
+    }
+
+    earnedMarks += marks
+    let scored = 0
+    let deducted = 0
+    if (marks > 0) {
+      scored = marks
+    } else if (userAnswer.trim() && negativeSettings.negativeMarking) {
+      scored = negativeSettings.negativeMarks || 0
+      deducted = Math.abs(negativeSettings.negativeMarks || 0)
+    }
+    finalScore += scored
+    negativeMarksDeducted += deducted
+
+    if (section) {
+      section.totalQuestions++
+      if (userAnswer.trim()) section.attempted++
+      if (isCorrect) section.correct++
+      section.marks = roundScore(section.marks + scored)
+      section.negativeMarksDeducted = roundScore(section.negativeMarksDeducted + deducted)
+    }
+
+    return { ...question, userAnswer: userAnswer || undefined, isCorrect, marksAwarded: marks }
+  })
+
+  const totalQuestions = questions.length
+  finalScore = roundScore(Math.max(0, finalScore))
+  return {
+    questions: gradedQuestions,
+    questionTypePerformance,
+    sectionPerformance,
+    totalQuestions,
+    correctAnswers,
+    questionsAttempted,
+    questionsSkipped: totalQuestions - questionsAttempted,
+    rawScore: roundScore(earnedMarks),
+    finalScore,
+    negativeMarksDeducted,
+    percentage: totalQuestions > 0 ? Math.round((finalScore / totalQuestions) * 100) : 0,
+    accuracyRate: questionsAttempted > 0 ? (correctAnswers / questionsAttempted) * 100 : 0,
+    completionRate: totalQuestions > 0 ? (questionsAttempted / totalQuestions) * 100 : 0
+  }
+}
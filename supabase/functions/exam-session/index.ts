@@ -0,0 +1,382 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/apiKeys.ts'
+import { StoredQuestion } from '../_shared/questionFingerprint.ts'
+import { EXAM_PROMPT_TEMPLATE, generateExamQuestions } from './generation.ts'
+import { ExamSection, gradeExam, SectionPerformance } from './grading.ts'
+import { ExamPreferences, ExamSetupError, loadExamPreferences } from './settings.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+
+// Matches the leeway record_exam_answer gives answers sent just before a deadline
+const GRACE_MS = 15000
+
+// The only question fields the browser sees while the exam is running: what to answer and how to lay it out.
+// Answers, explanations, rubrics, concept tags and the fingerprint (a hash of the answer key, so options could be
+// tried against it) stay in the session row until it is submitted.
+const VISIBLE_FIELDS = [
+  'id', 'type', 'text', 'question', 'caseStudy', 'situation', 'options', 'sequence', 'sectionId', 'difficulty', 'language', 'media', 'wordLimit'
+]
+
+const redactQuestion = (question: StoredQuestion): StoredQuestion =>
+  Object.fromEntries(VISIBLE_FIELDS.filter(field => field in question).map(field => [field, question[field]]))
+
+type ExamSession = {
+  id: string
+  user_id: string
+  status: 'active' | 'submitted'
+  questions: StoredQuestion[]
+  preferences: ExamPreferences
+  answers: Record<string, { answer: string; answeredAt: string }>
+  started_at: string
+  deadline_at: string | null
+  section_index: number
+  section_log: { startedAt: string; endedAt?: string }[]
+  quiz_result_id: string | null
+}
+
+// Whole-exam time budget in seconds; a per-question limit becomes that many seconds per question
+const timeBudgetSeconds = (preferences: ExamPreferences, questionCount: number): number | null => {
+  if (!preferences.timeLimitEnabled) return null
+  const total = parseInt(preferences.totalTimeLimit || '', 10)
+  if (total > 0) return total
+  const perQuestion = parseInt(preferences.timeLimit || '', 10)
+  return perQuestion > 0 ? perQuestion * questionCount : null
+}
+
+const examSections = (preferences: ExamPreferences): ExamSection[] =>
+  Array.isArray(preferences.sections) ? preferences.sections : []
+
+const sectionDeadline = (section: ExamSection, startsAt: number): string | null =>
+  section.timeLimit && section.timeLimit > 0 ? new Date(startsAt + section.timeLimit * 1000).toISOString() : null
+
+// Where a sectioned exam stands now: sections whose time ran out while nobody asked are closed, and each
+// following section is taken to have started when the one before it ended
+const caughtUpSections = (session: ExamSession, sections: ExamSection[], now: number) => {
+  let sectionIndex = session.section_index || 0
+  let deadlineAt = session.deadline_at
+  const sectionLog = [...(session.section_log || [])]
+  while (deadlineAt && sectionIndex < sections.length - 1 && now > new Date(deadlineAt).getTime() + GRACE_MS) {
+    sectionLog[sectionIndex] = { ...sectionLog[sectionIndex], endedAt: deadlineAt }
+    sectionIndex++
+    sectionLog[sectionIndex] = { startedAt: deadlineAt }
+    deadlineAt = sectionDeadline(sections[sectionIndex], new Date(deadlineAt).getTime())
+  }
+  return { sectionIndex, deadlineAt, sectionLog }
+}
+
+// Moves the session to the section given, unless another request already moved it on
+const moveToSection = async (
+  supabase: SupabaseClient,
+  session: ExamSession,
+  next: { sectionIndex: number; deadlineAt: string | null; sectionLog: ExamSession['section_log'] }
+): Promise<ExamSession> => {
+  const { data, error } = await supabase
+    .from('exam_sessions')
+    .update({ section_index: next.sectionIndex, deadline_at: next.deadlineAt, section_log: next.sectionLog })
+    .eq('id', session.id)
+    .eq('section_index', session.section_index)
+    .select('*')
+  if (error) throw error
+  if (data && data.length > 0) return data[0] as ExamSession
+  return (await loadSession(supabase, session.id, session.user_id)) || session
+}
+
+// Closes sections whose time has run out before the session is used
+const syncSections = async (supabase: SupabaseClient, session: ExamSession): Promise<ExamSession> => {
+  const sections = examSections(session.preferences || {})
+  if (session.status !== 'active' || sections.length === 0) return session
+  const next = caughtUpSections(session, sections, Date.now())
+  return next.sectionIndex === session.section_index ? session : moveToSection(supabase, session, next)
+}
+
+// Seconds spent in each section, from the section log; sections never reached took no time
+const sectionTimes = (session: ExamSession, sections: ExamSection[], now: number): number[] => {
+  const { sectionLog, deadlineAt } = caughtUpSections(session, sections, now)
+  return sections.map((_, index) => {
+    const entry = sectionLog[index]
+    if (!entry?.startedAt) return 0
+    const endedAt = entry.endedAt
+      ? new Date(entry.endedAt).getTime()
+      : deadlineAt ? Math.min(now, new Date(deadlineAt).getTime()) : now
+    return Math.max(0, Math.round((endedAt - new Date(entry.startedAt).getTime()) / 1000))
+  })
+}
+
+const loadSession = async (supabase: SupabaseClient, sessionId: unknown, userId: string): Promise<ExamSession | null> => {
+  if (typeof sessionId !== 'string') return null
+  const { data, error } = await supabase
+    .from('exam_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return data as ExamSession | null
+}
+
+const sessionView = (session: ExamSession) => ({
+  sessionId: session.id,
+  status: session.status,
+  questions: session.questions.map(redactQuestion),
+  answers: Object.fromEntries(Object.entries(session.answers || {}).map(([id, entry]) => [id, entry.answer])),
+  startedAt: session.started_at,
+  deadlineAt: session.deadline_at,
+  sectionIndex: session.section_index || 0,
+  serverTime: new Date().toISOString(),
+  quizResultId: session.quiz_result_id
+})
+
+// Same rule-based feedback the browser falls back to when the AI analysis is unavailable
+const basicFeedback = (accuracyRate: number) =>
+  accuracyRate >= 80
+    ? { strengths: ['Strong understanding of the topics.'], weaknesses: [], recommendations: ['Continue challenging yourself with advanced questions.'] }
+    : accuracyRate >= 60
+      ? { strengths: ['Good foundational knowledge.'], weaknesses: [], recommendations: ['Review incorrect answers and focus on understanding concepts.'] }
+      : { strengths: [], weaknesses: ['Needs improvement in core concepts.'], recommendations: ['Revisit study materials and practice more fundamental questions.'] }
+
+// Marks the recorded answers into a quiz_results row; only the service role can link a result to a session
+const examResult = (session: ExamSession): Record<string, unknown> => {
+  const preferences = session.preferences || {}
+  const answers = Object.fromEntries(Object.entries(session.answers || {}).map(([id, entry]) => [id, entry.answer]))
+  const graded = gradeExam(session.questions, answers, preferences)
+
+  const now = Date.now()
+  const sections = examSections(preferences)
+  const times = sectionTimes(session, sections, now)
+  const sectionPerformance: SectionPerformance[] = graded.sectionPerformance
+    .map((section, index) => ({ ...section, timeTaken: times[index] }))
+  const sectionTimeLimits = sections.map(section => section.timeLimit || 0)
+  const totalSectionTime = sectionTimeLimits.reduce((sum, limit) => sum + limit, 0)
+
+  const endedAt = session.deadline_at ? Math.min(now, new Date(session.deadline_at).getTime()) : now
+  const totalTimeTaken = sections.length > 0
+    ? times.reduce((sum, time) => sum + time, 0)
+    : Math.max(0, Math.round((endedAt - new Date(session.started_at).getTime()) / 1000))
+
+  return {
+    user_id: session.user_id,
+    course: preferences.course || '',
+    topic: preferences.topic,
+    subtopic: preferences.subtopic,
+    difficulty: preferences.difficulty,
+    question_types: preferences.questionTypes,
+    language: preferences.language,
+    mode: 'exam',
+
+    total_questions: graded.totalQuestions,
+    questions_attempted: graded.questionsAttempted,
+    questions_skipped: graded.questionsSkipped,
+    questions_correct: graded.correctAnswers,
+    questions_incorrect: graded.questionsAttempted - graded.correctAnswers,
+
+    raw_score: graded.rawScore,
+    percentage_score: graded.percentage,
+    final_score: graded.finalScore,
+    negative_marking_applied: sections.length > 0
+      ? sections.some(section => section.negativeMarking)
+      : preferences.negativeMarking || false,
+    negative_marks_deducted: graded.negativeMarksDeducted,
+    hints_used: 0,
+    hint_penalty_deducted: 0,
+
+    ...(sections.length > 0
+      ? { time_limit_enabled: totalSectionTime > 0, time_limit_per_question: null, total_time_limit: totalSectionTime || null }
+      : {
+          time_limit_enabled: preferences.timeLimitEnabled || false,
+          time_limit_per_question: preferences.timeLimit ? parseInt(preferences.timeLimit, 10) : null,
+          total_time_limit: preferences.totalTimeLimit ? parseInt(preferences.totalTimeLimit, 10) : null,
+        }),
+
+    question_type_performance: graded.questionTypePerformance,
+    section_performance: sections.length > 0 ? sectionPerformance : null,
+    question_details: graded.questions.map(question => ({ ...question, embedding: undefined })),
+    question_embeddings: graded.questions.map(question => question.embedding || null),
+
+    session_id: `exam_${session.id}`,
+    device_info: {},
+
+    completed_at: new Date(now).toISOString(),
+    total_time_taken: totalTimeTaken,
+    accuracy_rate: graded.accuracyRate,
+    completion_rate: graded.completionRate,
+    ...basicFeedback(graded.accuracyRate),
+    comparative_performance: {},
+    prompt_template_id: preferences.promptTemplate?.id || null,
+    prompt_template_version: preferences.promptTemplate?.version || null,
+    scoring_scheme: preferences.scoring || null,
+    exam_session_id: session.id,
+  }
+}
+
+// Runs exam-mode quizzes against the server: it writes the questions and keeps the answer key, sets the clock
+// and marking from the user's saved settings, timestamps every answer with the
+// database clock, refuses answers after the deadline and does the marking. Sectioned exams run one
+// section at a time, each on its own deadline.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const userId = await getRequestUserId(supabase, req)
+    if (!userId) {
+      return jsonResponse({ error: 'Please sign in to take an exam' }, 401)
+    }
+
+    const body = await req.json()
+
+    switch (body.action) {
+      case 'start': {
+        // The browser only adds study material and concepts to steer away from; the rules come from saved settings
+        const settings = await loadExamPreferences(supabase, userId)
+        const preferences: ExamPreferences = { ...settings, promptTemplate: EXAM_PROMPT_TEMPLATE }
+        const questions = await generateExamQuestions(
+          supabase,
+          req.headers.get('Authorization') || '',
+          userId,
+          preferences,
+          Array.isArray(body.coveredConcepts) ? body.coveredConcepts : [],
+          body.material
+        )
+        const sections = examSections(preferences)
+        const budget = timeBudgetSeconds(preferences, questions.length)
+
+        const startedAt = new Date()
+        const { data, error } = await supabase
+          .from('exam_sessions')
+          .insert({
+            user_id: userId,
+            questions,
+            preferences,
+            started_at: startedAt.toISOString(),
+            deadline_at: sections.length > 0
+              ? sectionDeadline(sections[0], startedAt.getTime())
+              : budget ? new Date(startedAt.getTime() + budget * 1000).toISOString() : null,
+            section_index: 0,
+            section_log: sections.length > 0 ? [{ startedAt: startedAt.toISOString() }] : [],
+          })
+          .select('*')
+          .single()
+        if (error) throw error
+        return jsonResponse(sessionView(data as ExamSession))
+      }
+
+      case 'answer': {
+        const loaded = await loadSession(supabase, body.sessionId, userId)
+        if (!loaded) {
+          return jsonResponse({ error: 'Exam session not found' }, 404)
+        }
+        if (loaded.status !== 'active') {
+          return jsonResponse({ error: 'This exam has already been submitted' }, 409)
+        }
+        const question = loaded.questions.find(question => String(question.id) === String(body.questionId))
+        if (!question) {
+          return jsonResponse({ error: 'Unknown question' }, 400)
+        }
+
+        const session = await syncSections(supabase, loaded)
+        const sections = examSections(session.preferences || {})
+        const questionSection = Math.max(0, sections.findIndex(section => section.id === question.sectionId))
+        if (questionSection < session.section_index) {
+          return jsonResponse({ error: 'This section is closed', expired: true }, 409)
+        }
+        if (questionSection > session.section_index) {
+          return jsonResponse({ error: 'This section has not started yet' }, 409)
+        }
+
+        // The deadline and section are checked in the same statement that records the answer, against the database clock
+        const { data: accepted, error } = await supabase.rpc('record_exam_answer', {
+          p_session_id: session.id,
+          p_question_id: String(body.questionId),
+          p_answer: typeof body.answer === 'string' ? body.answer : '',
+          p_section_index: questionSection,
+        })
+        if (error) throw error
+        if (!accepted) {
+          return jsonResponse({ error: 'Time is up for this exam', expired: true }, 409)
+        }
+        return jsonResponse({ accepted: true, serverTime: new Date().toISOString() })
+      }
+
+      case 'submit': {
+        const session = await loadSession(supabase, body.sessionId, userId)
+        if (!session) {
+          return jsonResponse({ error: 'Exam session not found' }, 404)
+        }
+        if (session.status === 'submitted') {
+          return jsonResponse({ quizResultId: session.quiz_result_id })
+        }
+
+        // Closing the session and saving its result happen in one transaction: a double submit gets the first
+        // result back, and a failed save leaves the session open to submit again
+        const { data: quizResultId, error } = await supabase.rpc('submit_exam_session', {
+          p_session_id: session.id,
+          p_result: examResult(session),
+        })
+        if (error) throw error
+        return jsonResponse({ quizResultId })
+      }
+
+      case 'advance': {
+        const loaded = await loadSession(supabase, body.sessionId, userId)
+        if (!loaded) {
+          return jsonResponse({ error: 'Exam session not found' }, 404)
+        }
+        if (loaded.status !== 'active') {
+          return jsonResponse({ error: 'This exam has already been submitted' }, 409)
+        }
+        const session = await syncSections(supabase, loaded)
+        const sections = examSections(session.preferences || {})
+        // Already past the section being finished, e.g. its time ran out or another tab moved on
+        if (session.section_index !== body.sectionIndex) {
+          return jsonResponse(sessionView(session))
+        }
+        if (session.section_index >= sections.length - 1) {
+          return jsonResponse({ error: 'This is the last section; submit the exam instead' }, 400)
+        }
+
+        const now = new Date()
+        const sectionIndex = session.section_index + 1
+        const sectionLog = [...(session.section_log || [])]
+        sectionLog[session.section_index] = { ...sectionLog[session.section_index], endedAt: now.toISOString() }
+        sectionLog[sectionIndex] = { startedAt: now.toISOString() }
+        const advanced = await moveToSection(supabase, session, {
+          sectionIndex,
+          deadlineAt: sectionDeadline(sections[sectionIndex], now.getTime()),
+          sectionLog,
+        })
+        return jsonResponse(sessionView(advanced))
+      }
+
+      case 'resume': {
+        const loaded = await loadSession(supabase, body.sessionId, userId)
+        if (!loaded) {
+          return jsonResponse({ error: 'Exam session not found' }, 404)
+        }
+        return jsonResponse(sessionView(await syncSections(supabase, loaded)))
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    if (error instanceof ExamSetupError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+    console.error('Exam session error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
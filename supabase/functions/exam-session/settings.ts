@@ -0,0 +1,148 @@
+// The rules an exam runs under: what to ask, the clock and the marking. They are read from the user's saved
+// quiz preferences and checked here, never taken from the request, so a client cannot turn the timer off or
+// change the marking for an exam already under way. Mirrors examSectionsProblem and examSettingsProblem in
+// src/services/examSections.ts.
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { DEFAULT_SCORING_SCHEME, ExamSection, ExamSettings, ScoringScheme } from './grading.ts'
+
+export const MAX_QUESTIONS = 50
+const MAX_SECTIONS = 6
+
+// Long answers need the AI grader, which exams run without
+export const MARKABLE_TYPES = [
+  'multiple-choice', 'true-false', 'short-answer', 'fill-blank', 'multi-select', 'sequence', 'case-study', 'situation'
+]
+
+export type ExamPreferences = ExamSettings & {
+  course?: string
+  topic?: string
+  subtopic?: string
+  difficulty?: string
+  language?: string
+  questionCount?: number
+  questionTypes?: string[]
+  timeLimitEnabled?: boolean
+  timeLimit?: string | null
+  totalTimeLimit?: string | null
+  promptTemplate?: { id: string; version: number } | null
+}
+
+// Raised for exam setup problems the user can fix, such as unsaved settings or a missing API key
+export class ExamSetupError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'ExamSetupError'
+  }
+}
+
+const markableTypes = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((type): type is string => MARKABLE_TYPES.includes(type)) : []
+
+// Negative marks are stored negative; anything outside one mark per question is clamped
+const negativeMarks = (value: unknown): number => Math.min(0, Math.max(-1, Number(value) || 0))
+
+const positiveSeconds = (value: unknown): number | null => {
+  const seconds = parseInt(String(value ?? ''), 10)
+  return seconds > 0 ? seconds : null
+}
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback
+
+const scoringScheme = (raw: Partial<ScoringScheme> | null): ScoringScheme => ({
+  multiSelect: pick(raw?.multiSelect, ['all-or-nothing', 'proportional'], DEFAULT_SCORING_SCHEME.multiSelect),
+  sequence: pick(raw?.sequence, ['all-or-nothing', 'position', 'kendall-tau'], DEFAULT_SCORING_SCHEME.sequence),
+  textAnswer: pick(raw?.textAnswer, ['all-or-nothing', 'threshold'], DEFAULT_SCORING_SCHEME.textAnswer),
+  textThreshold: Math.min(100, Math.max(0, Number(raw?.textThreshold ?? DEFAULT_SCORING_SCHEME.textThreshold) || 0))
+})
+
+const parseSection = (raw: Record<string, unknown>): ExamSection => ({
+  id: String(raw.id || crypto.randomUUID()),
+  name: typeof raw.name === 'string' ? raw.name.trim() : '',
+  topic: typeof raw.topic === 'string' ? raw.topic.trim() : '',
+  questionTypes: markableTypes(raw.questionTypes),
+  questionCount: Math.max(0, parseInt(String(raw.questionCount ?? ''), 10) || 0),
+  timeLimit: positiveSeconds(raw.timeLimit),
+  negativeMarking: raw.negativeMarking === true,
+  negativeMarks: negativeMarks(raw.negativeMarks)
+})
+
+const sectionsProblem = (sections: ExamSection[]): string | null => {
+  if (sections.length > MAX_SECTIONS) return `An exam can have at most ${MAX_SECTIONS} sections`
+  if (sections.some(section => !section.name)) return 'Give every section a name'
+  if (sections.some(section => section.questionTypes.length === 0)) {
+    return 'Choose at least one question type other than long answer for every section'
+  }
+  if (sections.some(section => section.questionCount < 1)) return 'Every section needs at least one question'
+  if (sections.some(section => section.timeLimit !== null && section.timeLimit < 60)) return 'A section time limit must be at least one minute'
+  if (sections.reduce((sum, section) => sum + section.questionCount, 0) > MAX_QUESTIONS) {
+    return `A sectioned exam can have at most ${MAX_QUESTIONS} questions in total`
+  }
+  return null
+}
+
+// Quiz settings the server cannot honour when it writes an exam. An exam that asks for them is refused
+// rather than written without them, so what the user chose is never quietly dropped.
+const unsupportedSettings = (data: Record<string, unknown>, sections: ExamSection[]): string[] => {
+  const unsupported: string[] = []
+  if (sections.length === 0 && Array.isArray(data.question_types) && data.question_types.includes('long-answer')) {
+    unsupported.push('long-answer questions')
+  }
+  if (data.include_diagrams === true) unsupported.push('diagrams')
+  if (data.verify_questions === true) unsupported.push('answer checks')
+  const bloom = data.bloom_distribution
+  if (bloom && typeof bloom === 'object' && Object.values(bloom).some(share => Number(share) > 0)) {
+    unsupported.push('a cognitive level mix')
+  }
+  return unsupported
+}
+
+// The user's saved exam settings, in the shape the session stores and marks by
+export const loadExamPreferences = async (supabase: SupabaseClient, userId: string): Promise<ExamPreferences> => {
+  const { data, error } = await supabase
+    .from('quiz_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  if (!data || data.mode !== 'exam') {
+    throw new ExamSetupError('Save your quiz settings in exam mode before starting an exam')
+  }
+
+  const sections: ExamSection[] = Array.isArray(data.exam_sections) ? data.exam_sections.map(parseSection) : []
+  const problem = sections.length > 0 ? sectionsProblem(sections) : null
+  if (problem) throw new ExamSetupError(problem)
+
+  const unsupported = unsupportedSettings(data, sections)
+  if (unsupported.length > 0) {
+    const list = unsupported.length > 1
+      ? `${unsupported.slice(0, -1).join(', ')} or ${unsupported[unsupported.length - 1]}`
+      : unsupported[0]
+    throw new ExamSetupError(`Exams are written on the server, which cannot use ${list}. Turn ${unsupported.length > 1 ? 'them' : 'it'} off in your quiz settings to start an exam.`)
+  }
+
+  const questionTypes = markableTypes(data.question_types)
+  const timeLimit = positiveSeconds(data.time_limit)
+  const totalTimeLimit = positiveSeconds(data.total_time_limit)
+  const negativeMarking = data.negative_marking === true
+  return {
+    course: data.course || '',
+    topic: data.topic || '',
+    subtopic: data.subtopic || '',
+    difficulty: data.difficulty || 'medium',
+    language: data.language || 'English',
+    questionCount: sections.length > 0
+      ? sections.reduce((sum, section) => sum + section.questionCount, 0)
+      : Math.max(1, Math.min(MAX_QUESTIONS, data.question_count || 5)),
+    questionTypes: sections.length > 0
+      ? [...new Set(sections.flatMap(section => section.questionTypes))]
+      : questionTypes.length > 0 ? questionTypes : ['multiple-choice'],
+    timeLimitEnabled: data.time_limit_enabled === true && (timeLimit !== null || totalTimeLimit !== null),
+    timeLimit: timeLimit ? String(timeLimit) : null,
+    totalTimeLimit: totalTimeLimit ? String(totalTimeLimit) : null,
+    negativeMarking,
+    negativeMarks: negativeMarking ? negativeMarks(data.negative_marks) : 0,
+    scoring: scoringScheme(data.scoring),
+    sections: sections.length > 0 ? sections : null,
+  }
+}
@@ -1,21 +1,305 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { getRequestUserId, loadApiKey } from '../_shared/apiKeys.ts'
+import { explanationCacheKey, ExplanationRequest, isExplanationRequest, renderExplanationPrompt } from '../_shared/explanationCache.ts'
+import { outboundUrlProblem } from '../_shared/outboundUrl.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash'
+const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004'
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined
+
+type Usage = {
+  promptTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+const emptyUsage: Usage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 }
+
+type UsagePayload = {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }
+}
+
+// Gemini reports usageMetadata, OpenAI-compatible servers report usage; either may be absent
+const readUsage = (payload: UsagePayload | null): Usage | null => {
+  const gemini = payload?.usageMetadata
+  if (gemini) {
+    return {
+      promptTokens: gemini.promptTokenCount || 0,
+      outputTokens: gemini.candidatesTokenCount || 0,
+      totalTokens: gemini.totalTokenCount || 0,
+    }
+  }
+  const openai = payload?.usage
+  if (openai) {
+    return {
+      promptTokens: openai.prompt_tokens || 0,
+      outputTokens: openai.completion_tokens || 0,
+      totalTokens: openai.total_tokens || (openai.prompt_tokens || 0) + (openai.completion_tokens || 0),
+    }
+  }
+  return null
+}
+
+const usageFromEvent = (line: string): Usage | null => {
+  const trimmed = line.trim()
+  if (!trimmed.startsWith('data:')) return null
+  try {
+    return readUsage(JSON.parse(trimmed.slice(5)))
+  } catch {
+    return null
+  }
+}
+
+// Reads the metering copy of a streamed response; usage arrives on the last events, so the latest report wins
+const readStreamUsage = async (body: ReadableStream<Uint8Array>): Promise<Usage> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let pending = ''
+  let usage = emptyUsage
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    pending += value
+    const lines = pending.split('\n')
+    pending = lines.pop() || ''
+    lines.forEach(line => {
+      usage = usageFromEvent(line) || usage
+    })
+  }
+  return usageFromEvent(pending) || usage
+}
+
+// Lets usage writes finish after the response has been sent
+const runInBackground = (promise: Promise<unknown>) => {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise)
+  }
+}
+
+type UsageReservation = { usageId: string | null; capMessage: string | null }
+
+// Checks the user's own daily caps and records the request in one database call, so parallel requests
+// cannot all pass the check before any of them is counted. If the reservation fails the request goes
+// ahead and is recorded afterwards rather than blocking the user.
+const reserveUsage = async (supabase: SupabaseClient, userId: string, feature: string, provider: string, model: string): Promise<UsageReservation> => {
+  const { data, error } = await supabase.rpc('reserve_ai_usage', {
+    target_user_id: userId,
+    usage_feature: feature,
+    usage_provider: provider,
+    usage_model: model,
+  })
+
+  if (error) {
+    console.error('Failed to reserve AI usage:', error)
+    return { usageId: null, capMessage: null }
+  }
+  const reservation = data?.[0]
+  return { usageId: reservation?.usage_id || null, capMessage: reservation?.cap_message || null }
+}
+
+// Base64 image data sent with a prompt, e.g. a diagram the quiz should ask about
+type PromptImage = {
+  mimeType: string
+  data: string
+}
+
+const MAX_PROMPT_IMAGES = 4
+
+const callGemini = (model: string, apiKey: string, prompt: string, images: PromptImage[], temperature: number, stream: boolean) =>
+  fetch(
+    stream
+      ? `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`
+      : `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            { text: prompt },
+            ...images.map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } }))
+          ]
+        }],
+        generationConfig: {
+          temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 8192,
+        }
+      })
+    }
+  )
+
+// Any server exposing the OpenAI chat completions API (OpenAI, Groq, OpenRouter, vLLM, LM Studio...)
+const callOpenAiCompatible = (baseUrl: string, model: string, apiKey: string | undefined, prompt: string, images: PromptImage[], temperature: number, stream: boolean) =>
+  fetch(
+    `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      // A redirect could lead to an address outboundUrlProblem would have refused
+      redirect: 'error',
+      body: JSON.stringify({
+        model,
+        // Plain string content keeps text-only servers working; images need the multi-part form
+        messages: [{
+          role: 'user',
+          content: images.length === 0 ? prompt : [
+            { type: 'text', text: prompt },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+          ]
+        }],
+        temperature,
+        max_tokens: 8192,
+        stream,
+        // Without this, streamed responses carry no token counts to meter
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      })
+    }
+  )
+
+const callGeminiEmbeddings = (model: string, apiKey: string, texts: string[]) =>
+  fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        requests: texts.map(text => ({
+          model: `models/${model}`,
+          content: { parts: [{ text }] }
+        }))
+      })
+    }
+  )
+
+const callOpenAiEmbeddings = (baseUrl: string, model: string, apiKey: string | undefined, texts: string[]) =>
+  fetch(
+    `${baseUrl.replace(/\/+$/, '')}/embeddings`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      // A redirect could lead to an address outboundUrlProblem would have refused
+      redirect: 'error',
+      body: JSON.stringify({ model, input: texts })
+    }
+  )
+
+type GeneratedPayload = {
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+  choices?: { message?: { content?: string } }[]
+}
+
+// Saves an explanation this function generated. Only Gemini answers go to the shared cache: an OpenAI-compatible
+// server is chosen by the caller, who could make it return anything, so its answers are kept for that user only.
+// Shared entries are written once: a later answer for the same key, such as one the user asked to regenerate,
+// does not replace what others are served.
+const saveExplanation = async (
+  supabase: SupabaseClient,
+  userId: string,
+  provider: string,
+  request: ExplanationRequest,
+  payload: GeneratedPayload
+) => {
+  const explanation = payload.candidates?.[0]?.content?.parts?.[0]?.text || payload.choices?.[0]?.message?.content
+  if (!explanation) return
+
+  const contentHash = await explanationCacheKey(request)
+  const { error } = provider === 'gemini'
+    ? await supabase
+        .from('explanation_cache')
+        .upsert({
+          content_hash: contentHash,
+          explanation,
+          language: request.language,
+          created_by: userId,
+        }, { onConflict: 'content_hash', ignoreDuplicates: true })
+    : await supabase
+        .from('explanation_overrides')
+        .upsert({
+          user_id: userId,
+          content_hash: contentHash,
+          explanation,
+          language: request.language,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,content_hash' })
+  if (error) {
+    console.error('Failed to save explanation:', error)
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { prompt, apiKey, temperature = 0.0 } = await req.json()
+    const {
+      prompt: requestPrompt,
+      images = [],
+      temperature = 0.0,
+      provider = 'gemini',
+      model,
+      baseUrl,
+      stream = false,
+      task = 'generate',
+      texts,
+      feature = 'other',
+      explanation
+    } = await req.json()
 
-    if (!prompt || !apiKey) {
+    const isEmbedding = task === 'embed'
+    // An explanation meant for the shared cache is written from the server's own prompt, never the caller's
+    const cachesExplanation = explanation !== undefined && explanation !== null
+    const prompt = cachesExplanation && isExplanationRequest(explanation) ? renderExplanationPrompt(explanation) : requestPrompt
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const userId = await getRequestUserId(supabase, req)
+
+    if (!userId) {
       return new Response(
-        JSON.stringify({ error: 'Missing prompt or API key' }),
+        JSON.stringify({ error: 'Please sign in to use AI features' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (provider !== 'gemini' && provider !== 'openai-compatible') {
+      return new Response(
+        JSON.stringify({ error: 'Unknown provider' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (isEmbedding ? !Array.isArray(texts) || texts.length === 0 : !prompt) {
+      return new Response(
+        JSON.stringify({ error: isEmbedding ? 'Missing texts to embed' : 'Missing prompt' }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -23,35 +307,120 @@ serve(async (req) => {
       )
     }
 
-    const response = await fetch(
-      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': apiKey,
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 8192,
-          }
-        })
+    if (cachesExplanation && (isEmbedding || stream || images.length > 0 || !isExplanationRequest(explanation))) {
+      return new Response(
+        JSON.stringify({ error: 'An explanation needs its question, question type, answer key, topic and language, and no images' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const validImages = Array.isArray(images) && images.length <= MAX_PROMPT_IMAGES &&
+      images.every((image: PromptImage) => typeof image?.data === 'string' && /^image\/[\w.+-]+$/.test(image?.mimeType))
+    if (!validImages) {
+      return new Response(
+        JSON.stringify({ error: `Up to ${MAX_PROMPT_IMAGES} images, each with an image MIME type and base64 data` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (provider === 'openai-compatible' && (!baseUrl || (!model && !isEmbedding))) {
+      return new Response(
+        JSON.stringify({ error: 'Missing base URL or model for OpenAI-compatible provider' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const urlProblem = provider === 'openai-compatible' ? await outboundUrlProblem(baseUrl) : null
+    if (urlProblem) {
+      return new Response(
+        JSON.stringify({ error: urlProblem }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Keys never leave the server; an OpenAI-compatible server may not need one
+    const apiKey = await loadApiKey(supabase, userId, provider)
+    if (provider === 'gemini' && !apiKey) {
+      return new Response(
+        JSON.stringify({ error: 'No Gemini API key saved. Please add one in API settings.', code: 'missing_api_key' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const resolvedModel = isEmbedding
+      ? model || (provider === 'openai-compatible' ? DEFAULT_OPENAI_EMBEDDING_MODEL : DEFAULT_GEMINI_EMBEDDING_MODEL)
+      : model || DEFAULT_GEMINI_MODEL
+
+    const { usageId, capMessage } = await reserveUsage(supabase, userId, String(feature).slice(0, 40), provider, resolvedModel)
+    if (capMessage) {
+      return new Response(
+        JSON.stringify({ error: `${capMessage}. You can change your caps in API settings.`, code: 'usage_cap_reached' }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+    const startedAt = Date.now()
+
+    // Fills in the reserved row once the provider has answered
+    const recordUsage = async (usage: Usage, status: number) => {
+      const settled = {
+        prompt_tokens: usage.promptTokens,
+        output_tokens: usage.outputTokens,
+        total_tokens: usage.totalTokens,
+        latency_ms: Date.now() - startedAt,
+        status,
       }
-    )
+      const { error } = usageId
+        ? await supabase.from('ai_usage').update(settled).eq('id', usageId)
+        : await supabase.from('ai_usage').insert({
+            user_id: userId,
+            feature: String(feature).slice(0, 40),
+            provider,
+            model: resolvedModel,
+            ...settled,
+          })
+      if (error) {
+        console.error('Failed to record AI usage:', error)
+      }
+    }
+
+    let response: Response
+    if (provider === 'openai-compatible') {
+      response = isEmbedding
+        ? await callOpenAiEmbeddings(baseUrl, resolvedModel, apiKey || undefined, texts)
+        : await callOpenAiCompatible(baseUrl, resolvedModel, apiKey || undefined, prompt, images, temperature, stream)
+    } else if (apiKey) {
+      response = isEmbedding
+        ? await callGeminiEmbeddings(resolvedModel, apiKey, texts)
+        : await callGemini(resolvedModel, apiKey, prompt, images, temperature, stream)
+    } else {
+      // Refused with missing_api_key above; a Gemini call never goes out without a key
+      throw new Error('Gemini API key missing')
+    }
 
     if (!response.ok) {
+      runInBackground(recordUsage(emptyUsage, response.status))
       const errorText = await response.text()
-      console.error('Gemini API error:', errorText)
+      console.error(`${provider} API error:`, errorText)
       return new Response(
-        JSON.stringify({ error: `Gemini API error: ${response.status}` }),
+        JSON.stringify({ error: `${provider === 'gemini' ? 'Gemini' : 'OpenAI-compatible'} API error: ${response.status}` }),
         { 
           status: response.status, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -59,8 +428,25 @@ serve(async (req) => {
       )
     }
 
+    // Streamed responses are server-sent events; pass them through untouched and meter a copy
+    if (stream && response.body) {
+      const [clientBody, meterBody] = response.body.tee()
+      runInBackground(readStreamUsage(meterBody).then(usage => recordUsage(usage, response.status)))
+      return new Response(clientBody, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        }
+      })
+    }
+
     const data = await response.json()
-    
+    runInBackground(recordUsage(readUsage(data) || emptyUsage, response.status))
+    if (cachesExplanation) {
+      runInBackground(saveExplanation(supabase, userId, provider, explanation, data))
+    }
+
     return new Response(
       JSON.stringify(data),
       { 
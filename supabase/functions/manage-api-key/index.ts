@@ -0,0 +1,94 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { apiKeyColumns, getRequestUserId, isKeyProvider, loadApiKey, storeApiKey } from '../_shared/apiKeys.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+
+// Listing models is the cheapest call that proves a key is valid and enabled for the Gemini API
+const testGeminiKey = async (apiKey: string): Promise<{ ok: boolean; message: string }> => {
+  const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+    headers: { 'x-goog-api-key': apiKey }
+  })
+
+  if (response.ok) {
+    return { ok: true, message: 'Your Gemini API key works.' }
+  }
+
+  console.error('Gemini key test failed:', await response.text())
+  if (response.status === 400 || response.status === 401 || response.status === 403) {
+    return { ok: false, message: 'Google rejected this API key. Check that it is correct and the Gemini API is enabled.' }
+  }
+  if (response.status === 429) {
+    return { ok: false, message: 'The key is valid but currently rate-limited.' }
+  }
+  return { ok: false, message: `Gemini API error: ${response.status}` }
+}
+
+// Saves, tests and removes a user's Gemini or OpenAI-compatible key. The browser only ever gets back the fingerprint.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const userId = await getRequestUserId(supabase, req)
+    if (!userId) {
+      return jsonResponse({ error: 'Please sign in to manage your API key' }, 401)
+    }
+
+    const { action, apiKey, provider = 'gemini' } = await req.json()
+    if (!isKeyProvider(provider)) {
+      return jsonResponse({ error: 'Unknown provider' }, 400)
+    }
+
+    switch (action) {
+      case 'save': {
+        const trimmedKey = typeof apiKey === 'string' ? apiKey.trim() : ''
+        if (!trimmedKey) {
+          return jsonResponse({ error: 'Missing API key' }, 400)
+        }
+        const fingerprint = await storeApiKey(supabase, userId, provider, trimmedKey)
+        return jsonResponse({ fingerprint })
+      }
+
+      // Only Gemini has one fixed endpoint a key can be tried against
+      case 'test': {
+        if (provider !== 'gemini') {
+          return jsonResponse({ error: 'Only Gemini keys can be tested' }, 400)
+        }
+        const savedKey = await loadApiKey(supabase, userId, provider)
+        if (!savedKey) {
+          return jsonResponse({ ok: false, message: 'No Gemini API key saved yet.' })
+        }
+        return jsonResponse(await testGeminiKey(savedKey))
+      }
+
+      case 'delete': {
+        const { error } = await supabase
+          .from('api_keys')
+          .update(await apiKeyColumns(provider, null))
+          .eq('user_id', userId)
+        if (error) throw error
+        return jsonResponse({ fingerprint: null })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
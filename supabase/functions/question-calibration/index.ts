@@ -0,0 +1,207 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { getRequestUserId } from '../_shared/apiKeys.ts'
+import { matchTextAnswer } from '../_shared/answerMatcher.ts'
+import { questionFingerprint, StoredQuestion } from '../_shared/questionFingerprint.ts'
+import { FitStart, fitTwoParameterModel, ItemEstimate, ItemResponse } from './irt.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+
+// Items answered fewer times than this are too noisy to label
+const MIN_RESPONSES = 5
+// Any signed-in user can ask for a refresh, but the whole history is refitted at most this often
+const RECALIBRATION_INTERVAL_MS = 60 * 60 * 1000
+const PAGE_SIZE = 1000
+const MAX_ROWS = 20000
+// Each run continues from the saved estimates and stops well inside the edge function CPU limit;
+// a large history converges over several runs instead of in one
+const FIT_BUDGET_MS = 800
+const MAX_ITERATIONS_PER_RUN = 10
+
+// Same cut-offs as src/services/calibration.ts: within half a unit of the average student is intermediate
+const difficultyLabel = (difficulty: number): 'basic' | 'intermediate' | 'advanced' =>
+  difficulty < -0.5 ? 'basic' : difficulty > 0.5 ? 'advanced' : 'intermediate'
+
+const fetchRows = async <T>(supabase: SupabaseClient, table: string, columns: string, orderColumn = 'id'): Promise<T[]> => {
+  const rows: T[] = []
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order(orderColumn)
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data as T[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+const normalizeAnswer = (answer: string) => answer.toLowerCase().trim()
+
+// Competition answers are stored raw, so they are marked here the way the quiz screen marks them.
+// Text answers go through the shared matcher; those that needed the AI evaluator are marked wrong.
+const isCompetitionAnswerCorrect = (question: StoredQuestion, answer: string): boolean => {
+  switch (question.type) {
+    case 'multi-select': {
+      const correctOptions = Array.isArray(question.correctOptions) ? question.correctOptions.map(String) : []
+      const selected = answer.split(',')
+      return selected.length === correctOptions.length && correctOptions.every(option => selected.includes(option))
+    }
+    case 'sequence': {
+      const correctSequence = Array.isArray(question.correctSequence) ? question.correctSequence.map(String) : []
+      try {
+        return JSON.stringify(JSON.parse(answer)) === JSON.stringify(correctSequence)
+      } catch {
+        return false
+      }
+    }
+    case 'short-answer':
+    case 'fill-blank': {
+      const keywords = Array.isArray(question.keywords) ? question.keywords.map(String) : []
+      return matchTextAnswer(answer, String(question.correctAnswer ?? ''), keywords).isMatch
+    }
+    default:
+      return normalizeAnswer(answer) === normalizeAnswer(String(question.correctAnswer ?? ''))
+  }
+}
+
+const hasAnswer = (answer: unknown): answer is string => typeof answer === 'string' && answer.trim() !== ''
+
+// Every answered question becomes one response; skipped questions say nothing about difficulty
+const collectResponses = async (supabase: SupabaseClient): Promise<ItemResponse[]> => {
+  const responses: ItemResponse[] = []
+
+  const quizResults = await fetchRows<{ user_id: string; question_details: StoredQuestion[] | null }>(
+    supabase, 'quiz_results', 'user_id, question_details'
+  )
+  for (const result of quizResults) {
+    for (const question of result.question_details || []) {
+      if (!hasAnswer(question.userAnswer)) continue
+      responses.push({
+        person: result.user_id,
+        item: typeof question.fingerprint === 'string' ? question.fingerprint : await questionFingerprint(question),
+        correct: question.isCorrect === true
+      })
+    }
+  }
+
+  const competitionResults = await fetchRows<{
+    user_id: string
+    question_details: StoredQuestion[] | null
+    answers: Record<string, unknown> | null
+  }>(supabase, 'competition_results', 'user_id, question_details, answers')
+  for (const result of competitionResults) {
+    for (const question of result.question_details || []) {
+      const answer = result.answers?.[String(question.id)]
+      if (!hasAnswer(answer)) continue
+      responses.push({
+        person: result.user_id,
+        item: await questionFingerprint(question),
+        correct: isCompetitionAnswerCorrect(question, answer)
+      })
+    }
+  }
+
+  return responses
+}
+
+// The previous run's item and ability estimates, so this run picks up where it stopped
+const loadFitStart = async (supabase: SupabaseClient): Promise<FitStart> => {
+  const [items, abilities] = await Promise.all([
+    fetchRows<{ fingerprint: string; difficulty: number; discrimination: number }>(
+      supabase, 'question_calibrations', 'fingerprint, difficulty, discrimination', 'fingerprint'
+    ),
+    fetchRows<{ user_id: string; ability: number }>(supabase, 'learner_abilities', 'user_id, ability', 'user_id')
+  ])
+  return {
+    items: new Map(items.map(row => [row.fingerprint, { difficulty: Number(row.difficulty), discrimination: Number(row.discrimination) }])),
+    abilities: new Map(abilities.map(row => [row.user_id, Number(row.ability)]))
+  }
+}
+
+const saveAbilities = async (supabase: SupabaseClient, abilities: Map<string, number>) => {
+  const updatedAt = new Date().toISOString()
+  const rows = [...abilities.entries()].map(([userId, ability]) => ({ user_id: userId, ability, updated_at: updatedAt }))
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('learner_abilities')
+      .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'user_id' })
+    if (error) throw error
+  }
+}
+
+const saveEstimates = async (supabase: SupabaseClient, estimates: ItemEstimate[]) => {
+  const calibratedAt = new Date().toISOString()
+  const rows = estimates.map(estimate => ({
+    fingerprint: estimate.item,
+    difficulty: estimate.difficulty,
+    discrimination: estimate.discrimination,
+    responses: estimate.responses,
+    p_correct: estimate.pCorrect,
+    difficulty_label: difficultyLabel(estimate.difficulty),
+    calibrated_at: calibratedAt
+  }))
+
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('question_calibrations')
+      .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'fingerprint' })
+    if (error) throw error
+  }
+}
+
+// Refits difficulty and discrimination for every question fingerprint from all stored answers,
+// a few iterations per run starting from the last run's estimates
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const userId = await getRequestUserId(supabase, req)
+    if (!userId) {
+      return jsonResponse({ error: 'Please sign in to calibrate questions' }, 401)
+    }
+
+    const { data: latest } = await supabase
+      .from('question_calibrations')
+      .select('calibrated_at')
+      .order('calibrated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (latest && Date.now() - new Date(latest.calibrated_at).getTime() < RECALIBRATION_INTERVAL_MS) {
+      return jsonResponse({ calibrated: 0, skipped: true })
+    }
+
+    const [responses, start] = await Promise.all([collectResponses(supabase), loadFitStart(supabase)])
+
+    // Rarely seen items are dropped before fitting so they cannot distort the ability scale
+    const counts = new Map<string, number>()
+    responses.forEach(response => counts.set(response.item, (counts.get(response.item) || 0) + 1))
+    const fit = fitTwoParameterModel(
+      responses.filter(response => (counts.get(response.item) || 0) >= MIN_RESPONSES),
+      start,
+      { maxIterations: MAX_ITERATIONS_PER_RUN, deadline: Date.now() + FIT_BUDGET_MS }
+    )
+
+    await saveEstimates(supabase, fit.items)
+    await saveAbilities(supabase, fit.abilities)
+    return jsonResponse({ calibrated: fit.items.length, responses: responses.length, iterations: fit.iterations, skipped: false })
+  } catch (error) {
+    console.error('Question calibration error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,140 @@
+// Two-parameter logistic IRT: P(correct) = 1 / (1 + e^(-a(θ - b))) for a student of ability θ on an
+// item of difficulty b and discrimination a. Fitted by joint maximum likelihood with weak normal priors,
+// which keep estimates finite for students or items that are always right or always wrong.
+// A fit can resume from the estimates of an earlier one, so the work can be spread over several runs.
+
+export type ItemResponse = {
+  person: string
+  item: string
+  correct: boolean
+}
+
+export type ItemEstimate = {
+  item: string
+  difficulty: number     // b, on the same scale as ability; 0 is the average student
+  discrimination: number // a; near 0 means the item barely separates strong and weak students
+  responses: number
+  pCorrect: number       // Share of responses that were correct
+}
+
+// Estimates from an earlier fit; people and items missing from it start from scratch
+export type FitStart = {
+  abilities: Map<string, number>
+  items: Map<string, { difficulty: number; discrimination: number }>
+}
+
+export type FitResult = {
+  items: ItemEstimate[]
+  abilities: Map<string, number>
+  iterations: number
+}
+
+const ITERATIONS = 40
+const ABILITY_PRIOR_VARIANCE = 1
+const DIFFICULTY_PRIOR_VARIANCE = 4
+const DISCRIMINATION_PRIOR_MEAN = 1
+const DISCRIMINATION_PRIOR_VARIANCE = 0.25
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const probability = (ability: number, difficulty: number, discrimination: number) =>
+  1 / (1 + Math.exp(-discrimination * (ability - difficulty)))
+
+// One Newton step on a single parameter, given the gradient and the (negative) second derivative
+const newtonStep = (value: number, gradient: number, curvature: number) =>
+  curvature < 0 ? value - gradient / curvature : value
+
+// Stops after maxIterations, or at the first iteration boundary past deadline (a Date.now() timestamp)
+export const fitTwoParameterModel = (
+  responses: ItemResponse[],
+  start?: FitStart,
+  { maxIterations = ITERATIONS, deadline = Infinity }: { maxIterations?: number; deadline?: number } = {}
+): FitResult => {
+  const byPerson = new Map<string, ItemResponse[]>()
+  const byItem = new Map<string, ItemResponse[]>()
+  const addTo = (groups: Map<string, ItemResponse[]>, key: string, response: ItemResponse) => {
+    const group = groups.get(key)
+    if (group) group.push(response)
+    else groups.set(key, [response])
+  }
+  responses.forEach(response => {
+    addTo(byPerson, response.person, response)
+    addTo(byItem, response.item, response)
+  })
+
+  const ability = new Map<string, number>()
+  byPerson.forEach((_, person) => ability.set(person, start?.abilities.get(person) ?? 0))
+
+  // New items start at the difficulty their raw success rate implies
+  const difficulty = new Map<string, number>()
+  const discrimination = new Map<string, number>()
+  byItem.forEach((itemResponses, item) => {
+    const previous = start?.items.get(item)
+    if (previous) {
+      difficulty.set(item, previous.difficulty)
+      discrimination.set(item, previous.discrimination)
+      return
+    }
+    const pCorrect = (itemResponses.filter(r => r.correct).length + 0.5) / (itemResponses.length + 1)
+    difficulty.set(item, clamp(-Math.log(pCorrect / (1 - pCorrect)), -4, 4))
+    discrimination.set(item, DISCRIMINATION_PRIOR_MEAN)
+  })
+
+  let iteration = 0
+  for (; iteration < maxIterations && (iteration === 0 || Date.now() < deadline); iteration++) {
+    byPerson.forEach((personResponses, person) => {
+      const theta = ability.get(person)!
+      let gradient = -theta / ABILITY_PRIOR_VARIANCE
+      let curvature = -1 / ABILITY_PRIOR_VARIANCE
+      personResponses.forEach(({ item, correct }) => {
+        const a = discrimination.get(item)!
+        const p = probability(theta, difficulty.get(item)!, a)
+        gradient += a * (Number(correct) - p)
+        curvature -= a * a * p * (1 - p)
+      })
+      ability.set(person, clamp(newtonStep(theta, gradient, curvature), -4, 4))
+    })
+
+    // The scale is only defined up to a shift and stretch, so pin abilities at mean 0 and standard deviation 1;
+    // otherwise the shrunken abilities of students with few answers inflate every discrimination
+    const thetas = [...ability.values()]
+    const meanAbility = thetas.reduce((sum, theta) => sum + theta, 0) / Math.max(1, thetas.length)
+    const spread = Math.sqrt(thetas.reduce((sum, theta) => sum + (theta - meanAbility) ** 2, 0) / Math.max(1, thetas.length))
+    ability.forEach((theta, person) => ability.set(person, spread > 0.01 ? (theta - meanAbility) / spread : theta - meanAbility))
+
+    byItem.forEach((itemResponses, item) => {
+      const a = discrimination.get(item)!
+      const b = difficulty.get(item)!
+
+      let bGradient = -b / DIFFICULTY_PRIOR_VARIANCE
+      let bCurvature = -1 / DIFFICULTY_PRIOR_VARIANCE
+      let aGradient = -(a - DISCRIMINATION_PRIOR_MEAN) / DISCRIMINATION_PRIOR_VARIANCE
+      let aCurvature = -1 / DISCRIMINATION_PRIOR_VARIANCE
+      itemResponses.forEach(({ person, correct }) => {
+        const theta = ability.get(person)!
+        const p = probability(theta, b, a)
+        const residual = Number(correct) - p
+        const information = p * (1 - p)
+        bGradient -= a * residual
+        bCurvature -= a * a * information
+        aGradient += (theta - b) * residual
+        aCurvature -= (theta - b) * (theta - b) * information
+      })
+
+      difficulty.set(item, clamp(newtonStep(b, bGradient, bCurvature), -4, 4))
+      discrimination.set(item, clamp(newtonStep(a, aGradient, aCurvature), 0.05, 4))
+    })
+  }
+
+  return {
+    items: [...byItem.entries()].map(([item, itemResponses]) => ({
+      item,
+      difficulty: difficulty.get(item)!,
+      discrimination: discrimination.get(item)!,
+      responses: itemResponses.length,
+      pCorrect: itemResponses.filter(r => r.correct).length / itemResponses.length
+    })),
+    abilities: ability,
+    iterations: iteration
+  }
+}
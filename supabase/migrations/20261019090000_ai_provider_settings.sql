@@ -0,0 +1,16 @@
+/*
+  # AI provider settings
+
+  1. Changes
+    - `api_keys.provider_settings` (jsonb): the user's selected LLM provider
+      (gemini, openai-compatible or ollama), its model/base URL and an optional
+      fallback provider used when the primary one is rate-limited.
+    - `api_keys.gemini_api_key` becomes nullable so users running only a local
+      or OpenAI-compatible model can save settings without a Gemini key.
+*/
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS provider_settings jsonb;
+
+ALTER TABLE api_keys
+  ALTER COLUMN gemini_api_key DROP NOT NULL;
@@ -0,0 +1,11 @@
+/*
+  # Question embeddings
+
+  1. Changes
+    - `quiz_results.question_embeddings` (jsonb): array aligned with `question_details`,
+      each entry `{ model, vector }` or null. Used to reject new questions that paraphrase
+      ones the user has already answered.
+*/
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS question_embeddings jsonb DEFAULT '[]'::jsonb;
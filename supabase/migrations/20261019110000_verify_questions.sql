@@ -0,0 +1,12 @@
+/*
+  # Question verification preference
+
+  1. Changes
+    - `quiz_preferences.verify_questions` (boolean): when enabled, every generated
+      question is re-solved by a second AI pass and disputed answer keys are
+      replaced or flagged. The outcome is stored per question in
+      `quiz_results.question_details[].verification`.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS verify_questions boolean DEFAULT false;
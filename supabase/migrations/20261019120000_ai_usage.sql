@@ -0,0 +1,62 @@
+/*
+  # AI usage metering
+
+  1. New Tables
+    - `ai_usage`: one row per AI request proxied by the gemini edge function,
+      with the feature that made it, provider, model, token counts reported by
+      the provider, latency and the upstream HTTP status.
+
+  2. New Views
+    - `ai_usage_daily`: per user, UTC day and feature totals used by the usage
+      panel on the API settings page.
+
+  3. Changes
+    - `api_keys.usage_caps` (jsonb): optional self-imposed daily request and
+      token limits. The edge function refuses new requests once either is hit.
+
+  4. Security
+    - Users can read their own usage. Rows are only written by the edge
+      function with the service role, so there is no insert policy.
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text NOT NULL DEFAULT 'other',
+  provider text NOT NULL,
+  model text,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  latency_ms integer,
+  status integer,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_created_idx
+  ON ai_usage (user_id, created_at DESC);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own AI usage"
+  ON ai_usage
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE VIEW ai_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  (created_at AT TIME ZONE 'utc')::date AS day,
+  feature,
+  count(*)::integer AS requests,
+  coalesce(sum(prompt_tokens), 0)::integer AS prompt_tokens,
+  coalesce(sum(output_tokens), 0)::integer AS output_tokens,
+  coalesce(sum(total_tokens), 0)::integer AS total_tokens,
+  coalesce(avg(latency_ms), 0)::integer AS avg_latency_ms
+FROM ai_usage
+GROUP BY user_id, (created_at AT TIME ZONE 'utc')::date, feature;
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS usage_caps jsonb;
@@ -0,0 +1,41 @@
+/*
+  # Prompt template versions on quiz results
+
+  1. Changes
+    - `quiz_results.prompt_template_id` (text) and
+      `quiz_results.prompt_template_version` (integer): the quiz-generation
+      prompt from `src/services/prompts.ts` that produced the quiz. Null for
+      quizzes taken before templates were versioned.
+
+  2. New Views
+    - `prompt_template_stats`: quiz count, score distribution and the share of
+      questions flagged by the answer-key verifier, per template version, so
+      prompt versions can be compared side by side. It runs with the caller's
+      permissions, so users only see their own quizzes.
+*/
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS prompt_template_id text,
+  ADD COLUMN IF NOT EXISTS prompt_template_version integer;
+
+CREATE INDEX IF NOT EXISTS quiz_results_prompt_template_idx
+  ON quiz_results (prompt_template_id, prompt_template_version);
+
+CREATE OR REPLACE VIEW prompt_template_stats
+WITH (security_invoker = true) AS
+SELECT
+  prompt_template_id,
+  prompt_template_version,
+  count(*)::integer AS quizzes,
+  round(avg(percentage_score)::numeric, 1) AS avg_percentage,
+  round(stddev_samp(percentage_score)::numeric, 1) AS stddev_percentage,
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY percentage_score) AS median_percentage,
+  sum(total_questions)::integer AS questions,
+  sum((
+    SELECT count(*)
+    FROM jsonb_array_elements(question_details::jsonb) AS question
+    WHERE question -> 'verification' ->> 'status' = 'flagged'
+  ))::integer AS flagged_questions
+FROM quiz_results
+WHERE prompt_template_id IS NOT NULL
+GROUP BY prompt_template_id, prompt_template_version;
@@ -0,0 +1,38 @@
+/*
+  # Server-side custody of Gemini API keys
+
+  1. Changes
+    - `api_keys.gemini_api_key_encrypted` (text): AES-GCM ciphertext written by
+      the `manage-api-key` edge function. The encryption secret lives only in
+      the `API_KEY_ENCRYPTION_KEY` function secret.
+    - `api_keys.gemini_api_key_fingerprint` (text): masked form of the key
+      (first and last four characters) shown in API settings.
+    - Existing plaintext keys get a fingerprint now. They stay plaintext until
+      the one-time `backfill-api-keys` edge function encrypts them and clears
+      the plaintext column.
+
+  2. Security
+    - Browsers can no longer read or write the key columns. Signed-in users
+      keep access to their provider settings, usage caps and fingerprint;
+      saving, testing and removing a key goes through `manage-api-key`.
+*/
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS gemini_api_key_encrypted text,
+  ADD COLUMN IF NOT EXISTS gemini_api_key_fingerprint text;
+
+UPDATE api_keys
+SET gemini_api_key_fingerprint = left(gemini_api_key, 4) || '…' || right(gemini_api_key, 4)
+WHERE gemini_api_key IS NOT NULL
+  AND gemini_api_key_fingerprint IS NULL;
+
+REVOKE SELECT, INSERT, UPDATE ON api_keys FROM anon, authenticated;
+
+GRANT SELECT (id, user_id, provider_settings, usage_caps, gemini_api_key_fingerprint)
+  ON api_keys TO authenticated;
+
+GRANT INSERT (user_id, provider_settings, usage_caps)
+  ON api_keys TO authenticated;
+
+GRANT UPDATE (provider_settings, usage_caps)
+  ON api_keys TO authenticated;
@@ -0,0 +1,71 @@
+/*
+  # Explanation cache
+
+  1. New Tables
+    - `explanation_cache`: AI explanations keyed by `content_hash`, a SHA-256 of
+      the question text, question type, full answer key (every correct
+      option, step or model answer), topic and language. Explanations do not
+      depend on who asked, so every user and competition participant reuses
+      the same entry. The gemini edge function saves an explanation Gemini
+      wrote here, after generating it from a prompt it renders from those
+      same fields. An entry is written once.
+    - `explanation_overrides`: an explanation kept for one user, keyed by user
+      and `content_hash`, and served to that user in place of the shared
+      entry. "Regenerate" writes here, and so does the gemini edge function
+      for answers from an OpenAI-compatible server, which the caller chooses.
+
+  2. Security
+    - Any signed-in user can read `explanation_cache`; only the service role
+      writes it. Anyone can compute a key, so a browser-written entry could
+      serve any text to everyone for good.
+    - Users can read and write only their own overrides.
+*/
+
+CREATE TABLE IF NOT EXISTS explanation_cache (
+  content_hash text PRIMARY KEY,
+  explanation text NOT NULL,
+  language text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE explanation_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read cached explanations"
+  ON explanation_cache
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON explanation_cache FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS explanation_overrides (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_hash text NOT NULL,
+  explanation text NOT NULL,
+  language text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, content_hash)
+);
+
+ALTER TABLE explanation_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own explanation overrides"
+  ON explanation_overrides
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save own explanation overrides"
+  ON explanation_overrides
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can replace own explanation overrides"
+  ON explanation_overrides
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
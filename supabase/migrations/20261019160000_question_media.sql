@@ -0,0 +1,32 @@
+/*
+  # Image-based questions
+
+  1. Changes
+    - `quiz_preferences.include_diagrams` (boolean): lets quiz generation attach
+      SVG diagrams and charts to questions where a visual helps. The media is
+      stored with each question in `quiz_results.question_details[].media`.
+
+  2. Storage
+    - `question-media` bucket: images users upload for a quiz. It is public so
+      result and shared pages can show the image without signing URLs.
+    - Signed-in users can upload only into a folder named after their user id.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS include_diagrams boolean DEFAULT false;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('question-media', 'question-media', true, 4194304, ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own question images"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'question-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own question images"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'question-media' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,18 @@
+/*
+  # Progressive hints
+
+  1. Changes
+    - `quiz_preferences.hint_penalty` (numeric): marks taken off a correct
+      answer for each hint used in practice mode, capped at the question's mark.
+    - `quiz_results.hints_used` (integer) and
+      `quiz_results.hint_penalty_deducted` (numeric): totals for the quiz.
+      Per-question counts are stored in `question_details[].hintsUsed` and
+      `question_details[].hintPenalty`.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS hint_penalty numeric DEFAULT 0.25;
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS hints_used integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS hint_penalty_deducted numeric DEFAULT 0;
@@ -0,0 +1,17 @@
+/*
+  # Follow-up chats about quiz questions
+
+  1. Changes
+    - `chat_history.quiz_result_id` (uuid): the quiz result a message was asked
+      from; null for messages in the general study chat.
+    - `chat_history.question_id` (integer): the question of that result the
+      thread is about.
+    - Index for loading one question's thread in order.
+*/
+
+ALTER TABLE chat_history
+  ADD COLUMN IF NOT EXISTS quiz_result_id uuid REFERENCES quiz_results(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS question_id integer;
+
+CREATE INDEX IF NOT EXISTS chat_history_question_thread_idx
+  ON chat_history (quiz_result_id, question_id, timestamp);
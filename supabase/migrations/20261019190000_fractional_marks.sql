@@ -0,0 +1,13 @@
+/*
+  # Fractional marks
+
+  1. Changes
+    - `quiz_results.raw_score` and `quiz_results.final_score` become numeric:
+      long-answer questions are graded against a rubric and can earn part of
+      a mark. Per-question marks are stored in `question_details[].marksAwarded`,
+      with the per-criterion breakdown in `question_details[].rubricGrades`.
+*/
+
+ALTER TABLE quiz_results
+  ALTER COLUMN raw_score TYPE numeric USING raw_score::numeric,
+  ALTER COLUMN final_score TYPE numeric USING final_score::numeric;
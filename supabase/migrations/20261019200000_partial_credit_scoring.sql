@@ -0,0 +1,16 @@
+/*
+  # Partial credit scoring
+
+  1. Changes
+    - `quiz_preferences.scoring` (jsonb): the user's scoring scheme per question
+      type (multi-select, sequence, text answers); null means the app default.
+    - `quiz_results.scoring_scheme` (jsonb): the scheme a result was scored with.
+      Per-type marks including partial credit are stored in
+      `question_type_performance[type].marks`.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS scoring jsonb;
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS scoring_scheme jsonb;
@@ -0,0 +1,13 @@
+/*
+  # Bloom's taxonomy levels
+
+  1. Changes
+    - `quiz_preferences.bloom_distribution` (jsonb): target share of questions per
+      cognitive level, e.g. {"remember": 20, "apply": 50, "analyze": 30}; null lets
+      the AI mix levels on its own.
+    - Each generated question now carries `bloomLevel` and `skill`; both are stored
+      inside `quiz_results.question_details`, so no new result columns are needed.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS bloom_distribution jsonb;
@@ -0,0 +1,35 @@
+/*
+  # Question difficulty calibration
+
+  1. New Tables
+    - `question_calibrations`: empirical difficulty and discrimination per question
+      fingerprint (SHA-256 of type, question text and answer key), fitted with a
+      two-parameter IRT model over every answer in `quiz_results.question_details`
+      and `competition_results.answers` by the `question-calibration` edge function.
+      `difficulty_label` replaces the model's own basic/intermediate/advanced claim.
+
+  2. Security
+    - Any signed-in user can read calibrations; only the edge function (service
+      role) writes them.
+*/
+
+CREATE TABLE IF NOT EXISTS question_calibrations (
+  fingerprint text PRIMARY KEY,
+  difficulty numeric NOT NULL,
+  discrimination numeric NOT NULL,
+  responses integer NOT NULL,
+  p_correct numeric NOT NULL,
+  difficulty_label text NOT NULL CHECK (difficulty_label IN ('basic', 'intermediate', 'advanced')),
+  calibrated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS question_calibrations_calibrated_at_idx
+  ON question_calibrations (calibrated_at DESC);
+
+ALTER TABLE question_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read question calibrations"
+  ON question_calibrations
+  FOR SELECT
+  TO authenticated
+  USING (true);
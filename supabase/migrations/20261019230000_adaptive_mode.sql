@@ -0,0 +1,13 @@
+/*
+  # Adaptive quiz mode
+
+  1. Changes
+    - `quiz_preferences.mode` and `quiz_results.mode` may now also be
+      `adaptive`; both are plain text columns, so no constraint changes.
+    - `quiz_results.proficiency` (jsonb): ability estimate for adaptive
+      quizzes, `{ ability, standardError, level, questionsAsked, stable }`.
+      Null for practice and exam quizzes.
+*/
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS proficiency jsonb;
@@ -0,0 +1,65 @@
+/*
+  # Spaced-repetition review cards
+
+  1. New Tables
+    - `review_cards`: one card per question a user answered wrong
+      (`source = 'mistake'`, keyed by question fingerprint) or saved as a
+      favourite (`source = 'favorite'`, keyed by the favourite's id).
+      `question` holds the full question for mistakes so options and media
+      can be shown again.
+    - SM-2 schedule: `ease_factor`, `interval_days`, `repetitions`, `lapses`
+      and `due_at`. New cards are due immediately.
+
+  2. Security
+    - Users can read, add, update and delete only their own cards.
+*/
+
+CREATE TABLE IF NOT EXISTS review_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('mistake', 'favorite')),
+  source_key text NOT NULL,
+  prompt text NOT NULL,
+  answer text NOT NULL DEFAULT '',
+  explanation text,
+  topic text,
+  question jsonb,
+  ease_factor numeric NOT NULL DEFAULT 2.5,
+  interval_days integer NOT NULL DEFAULT 0,
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_at timestamptz NOT NULL DEFAULT now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS review_cards_user_due_idx
+  ON review_cards (user_id, due_at);
+
+ALTER TABLE review_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own review cards"
+  ON review_cards
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own review cards"
+  ON review_cards
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own review cards"
+  ON review_cards
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own review cards"
+  ON review_cards
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
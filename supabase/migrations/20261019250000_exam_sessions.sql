@@ -0,0 +1,90 @@
+/*
+  # Server-authoritative exam sessions
+
+  1. New Tables
+    - `exam_sessions`: one row per exam-mode quiz, holding the full questions
+      including the answer key, the quiz settings, the server start time and
+      deadline, and every answer with the time the server received it.
+      Written and read only by the exam-session edge function.
+
+  2. New Functions
+    - `record_exam_answer(session, question, answer)`: stores one answer,
+      stamped with the database clock, unless the session has been submitted
+      or its deadline (plus 15 seconds for network delay) has passed.
+      Returns whether the answer was accepted. Service role only.
+
+  3. Changes
+    - `quiz_results.exam_session_id` (uuid): set when the result was marked by
+      the server from an exam session. A trigger keeps clients from setting
+      it and from editing results that have it, so its presence means the
+      score has not been tampered with.
+
+  4. Security
+    - RLS is enabled on `exam_sessions` with no policies: the answer key never
+      reaches the browser while an exam is running.
+*/
+
+CREATE TABLE IF NOT EXISTS exam_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'submitted')),
+  questions jsonb NOT NULL,
+  preferences jsonb NOT NULL DEFAULT '{}',
+  answers jsonb NOT NULL DEFAULT '{}',
+  started_at timestamptz NOT NULL DEFAULT now(),
+  deadline_at timestamptz,
+  submitted_at timestamptz,
+  quiz_result_id uuid REFERENCES quiz_results(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS exam_sessions_user_idx
+  ON exam_sessions (user_id, created_at DESC);
+
+ALTER TABLE exam_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION record_exam_answer(p_session_id uuid, p_question_id text, p_answer text)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE exam_sessions
+  SET answers = answers || jsonb_build_object(
+    p_question_id,
+    jsonb_build_object('answer', p_answer, 'answeredAt', now())
+  )
+  WHERE id = p_session_id
+    AND status = 'active'
+    AND (deadline_at IS NULL OR now() <= deadline_at + interval '15 seconds');
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_exam_answer(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS exam_session_id uuid REFERENCES exam_sessions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION protect_exam_results()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.exam_session_id := NULL;
+  ELSIF OLD.exam_session_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Server-marked exam results cannot be changed';
+  ELSE
+    NEW.exam_session_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_exam_results ON quiz_results;
+CREATE TRIGGER protect_exam_results
+  BEFORE INSERT OR UPDATE ON quiz_results
+  FOR EACH ROW EXECUTE FUNCTION protect_exam_results();
@@ -0,0 +1,51 @@
+/*
+  # Synced in-progress quiz sessions
+
+  1. New Tables
+    - `quiz_sessions`: the solo quiz a user is part-way through, one row per
+      user. `snapshot` holds the questions, answers, current question and
+      timers the browser also keeps in local storage; `session_id`
+      identifies the attempt so devices can tell whether they hold the same
+      one. The row is replaced by each autosave and removed when the quiz
+      is finished or abandoned.
+
+  2. Security
+    - Users can read, add, update and delete only their own session.
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_sessions (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL,
+  snapshot jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quiz_sessions_session_id_idx
+  ON quiz_sessions (session_id);
+
+ALTER TABLE quiz_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own quiz session"
+  ON quiz_sessions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own quiz session"
+  ON quiz_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quiz session"
+  ON quiz_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quiz session"
+  ON quiz_sessions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
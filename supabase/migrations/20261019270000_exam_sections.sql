@@ -0,0 +1,51 @@
+/*
+  # Sectioned exams
+
+  1. Changes
+    - `quiz_preferences.exam_sections` (jsonb): the sections of an exam, each with
+      its own question types, count, time limit and negative marking; null for a
+      single flat exam.
+    - `exam_sessions.section_index` (integer): the section being answered. For
+      sectioned exams `deadline_at` is that section's deadline.
+    - `exam_sessions.section_log` (jsonb): when each section started and ended,
+      e.g. [{"startedAt": "...", "endedAt": "..."}], for time taken per section.
+    - `quiz_results.section_performance` (jsonb): per-section totals worked out
+      by the server when it marks a sectioned exam.
+
+  2. Changed Functions
+    - `record_exam_answer` now also takes the section the question belongs to and
+      refuses the answer once the session has moved past that section, so a
+      finished or timed-out section cannot be reopened.
+*/
+
+ALTER TABLE quiz_preferences
+  ADD COLUMN IF NOT EXISTS exam_sections jsonb;
+
+ALTER TABLE exam_sessions
+  ADD COLUMN IF NOT EXISTS section_index integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS section_log jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE quiz_results
+  ADD COLUMN IF NOT EXISTS section_performance jsonb;
+
+DROP FUNCTION IF EXISTS record_exam_answer(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION record_exam_answer(p_session_id uuid, p_question_id text, p_answer text, p_section_index integer)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE exam_sessions
+  SET answers = answers || jsonb_build_object(
+    p_question_id,
+    jsonb_build_object('answer', p_answer, 'answeredAt', now())
+  )
+  WHERE id = p_session_id
+    AND status = 'active'
+    AND section_index = p_section_index
+    AND (deadline_at IS NULL OR now() <= deadline_at + interval '15 seconds');
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_exam_answer(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
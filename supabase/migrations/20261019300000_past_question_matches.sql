@@ -0,0 +1,72 @@
+/*
+  # Server-side past question matching
+
+  1. Changes
+    - Enables the `vector` extension.
+    - `nearest_past_questions(query_model, query_vectors, match_threshold)`:
+      compares every embedding of a generation batch with the embeddings in
+      the caller's 200 most recent quiz results. For each query vector that
+      has one, it returns its zero-based `query_index` and the text of the
+      closest past question at or above the cosine similarity threshold.
+      Quiz generation makes one call per batch instead of downloading every
+      stored vector.
+
+  2. Security
+    - Runs as the caller, so row level security limits it to their own
+      results; `auth.uid()` is applied as well.
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION nearest_past_questions(
+  query_model text,
+  query_vectors jsonb,
+  match_threshold double precision DEFAULT 0.9
+)
+RETURNS TABLE (query_index integer, question_text text, similarity double precision)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH recent AS (
+    SELECT question_details, question_embeddings
+    FROM quiz_results
+    WHERE user_id = auth.uid()
+      AND jsonb_typeof(question_embeddings) = 'array'
+    ORDER BY quiz_date DESC
+    LIMIT 200
+  ),
+  past AS (
+    SELECT
+      recent.question_details -> (stored.position::int - 1) ->> 'text' AS question_text,
+      stored.embedding -> 'vector' AS vector
+    FROM recent
+    CROSS JOIN LATERAL jsonb_array_elements(recent.question_embeddings) WITH ORDINALITY AS stored(embedding, position)
+    -- Vectors from other embedding models are not comparable
+    WHERE stored.embedding ->> 'model' = query_model
+  ),
+  queries AS (
+    SELECT (query.position - 1)::int AS query_index, query.vector
+    FROM jsonb_array_elements(query_vectors) WITH ORDINALITY AS query(vector, position)
+    -- A quiz has at most 50 questions
+    LIMIT 50
+  ),
+  scored AS (
+    SELECT
+      queries.query_index,
+      past.question_text,
+      CASE
+        WHEN jsonb_array_length(past.vector) = jsonb_array_length(queries.vector)
+          THEN 1 - ((past.vector::text)::vector <=> (queries.vector::text)::vector)
+      END AS similarity
+    FROM queries
+    CROSS JOIN past
+  )
+  SELECT DISTINCT ON (scored.query_index) scored.query_index, scored.question_text, scored.similarity
+  FROM scored
+  WHERE scored.similarity >= match_threshold
+  ORDER BY scored.query_index, scored.similarity DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION nearest_past_questions(text, jsonb, double precision) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION nearest_past_questions(text, jsonb, double precision) TO authenticated;
@@ -0,0 +1,21 @@
+/*
+  # Learner abilities for incremental calibration
+
+  1. New Tables
+    - `learner_abilities`: each user's ability estimate on the IRT scale of
+      `question_calibrations`. The `question-calibration` edge function runs
+      a few fitting iterations per call, starting from these and the saved
+      item estimates, instead of refitting the whole history in one request.
+
+  2. Security
+    - Only the edge function (service role) reads and writes the table, so
+      row level security is enabled with no policies.
+*/
+
+CREATE TABLE IF NOT EXISTS learner_abilities (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  ability numeric NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE learner_abilities ENABLE ROW LEVEL SECURITY;
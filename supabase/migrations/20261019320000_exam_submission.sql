@@ -0,0 +1,41 @@
+/*
+  # Atomic exam submission
+
+  1. New Functions
+    - `submit_exam_session(session, result)`: closes an active exam session,
+      saves its marked result and links the two in one transaction. If the
+      result cannot be saved the session stays active, so submitting again can
+      still succeed. A session that was already submitted returns its saved
+      result instead of a second one. `result` holds quiz_results columns by
+      name; columns it leaves out get their defaults. Service role only.
+*/
+
+CREATE OR REPLACE FUNCTION submit_exam_session(p_session_id uuid, p_result jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_columns text;
+  v_result_id uuid;
+BEGIN
+  UPDATE exam_sessions
+  SET status = 'submitted', submitted_at = now()
+  WHERE id = p_session_id AND status = 'active';
+
+  IF NOT FOUND THEN
+    SELECT quiz_result_id INTO v_result_id FROM exam_sessions WHERE id = p_session_id;
+    RETURN v_result_id;
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(p_result) AS key;
+  EXECUTE format(
+    'INSERT INTO quiz_results (%s) SELECT %s FROM jsonb_populate_record(NULL::quiz_results, $1) RETURNING id',
+    v_columns, v_columns
+  ) INTO v_result_id USING p_result;
+
+  UPDATE exam_sessions SET quiz_result_id = v_result_id WHERE id = p_session_id;
+  RETURN v_result_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_exam_session(uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Reserve AI usage before the model call
+
+  1. Changes
+    - `reserve_ai_usage(target_user_id, usage_feature, usage_provider,
+      usage_model)`: checks the user's daily caps and, if they are not used
+      up, inserts the request's `ai_usage` row in the same transaction. It
+      returns the new row's id, or a message naming the cap that is used up.
+      The user's `api_keys` row is locked while it runs, so parallel requests
+      from one quiz are counted one after another and cannot all slip under
+      the request cap.
+    - A reserved row has a null `status` until the edge function settles it
+      with the token counts, latency and upstream status.
+
+  2. Security
+    - Only the service role may call it; the gemini edge function does.
+*/
+
+CREATE OR REPLACE FUNCTION reserve_ai_usage(
+  target_user_id uuid,
+  usage_feature text,
+  usage_provider text,
+  usage_model text
+)
+RETURNS TABLE (usage_id uuid, cap_message text)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  caps jsonb;
+  used_requests integer;
+  used_tokens integer;
+  new_id uuid;
+BEGIN
+  SELECT api_keys.usage_caps INTO caps
+  FROM api_keys
+  WHERE api_keys.user_id = target_user_id
+  FOR UPDATE;
+
+  IF coalesce((caps ->> 'dailyRequests')::integer, 0) > 0 OR coalesce((caps ->> 'dailyTokens')::integer, 0) > 0 THEN
+    -- Days are counted in UTC, as in ai_usage_daily
+    SELECT count(*)::integer, coalesce(sum(ai_usage.total_tokens), 0)::integer
+    INTO used_requests, used_tokens
+    FROM ai_usage
+    WHERE ai_usage.user_id = target_user_id
+      AND ai_usage.created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+
+    IF coalesce((caps ->> 'dailyRequests')::integer, 0) > 0 AND used_requests >= (caps ->> 'dailyRequests')::integer THEN
+      RETURN QUERY SELECT NULL::uuid, format('You have reached your daily cap of %s AI requests', caps ->> 'dailyRequests');
+      RETURN;
+    END IF;
+    -- Token counts are only known once a request settles, so requests already in flight are not included
+    IF coalesce((caps ->> 'dailyTokens')::integer, 0) > 0 AND used_tokens >= (caps ->> 'dailyTokens')::integer THEN
+      RETURN QUERY SELECT NULL::uuid, format('You have reached your daily cap of %s AI tokens', caps ->> 'dailyTokens');
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO ai_usage (user_id, feature, provider, model)
+  VALUES (target_user_id, usage_feature, usage_provider, usage_model)
+  RETURNING ai_usage.id INTO new_id;
+
+  RETURN QUERY SELECT new_id, NULL::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_ai_usage(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_ai_usage(uuid, text, text, text) TO service_role;
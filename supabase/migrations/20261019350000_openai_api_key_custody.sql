@@ -0,0 +1,22 @@
+/*
+  # Server-side custody of OpenAI-compatible API keys
+
+  1. Changes
+    - `api_keys.openai_api_key_encrypted` (text): AES-GCM ciphertext written by
+      the `manage-api-key` edge function, with the same secret as Gemini keys.
+    - `api_keys.openai_api_key_fingerprint` (text): masked form of the key
+      shown in API settings.
+    - The gemini edge function now loads the key itself instead of taking it
+      from the request body. Keys saved in `provider_settings.openaiApiKey`
+      are moved into these columns by the `backfill-api-keys` edge function.
+
+  2. Security
+    - Browsers can read the fingerprint but not the key; saving and removing
+      it goes through `manage-api-key`.
+*/
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS openai_api_key_encrypted text,
+  ADD COLUMN IF NOT EXISTS openai_api_key_fingerprint text;
+
+GRANT SELECT (openai_api_key_fingerprint) ON api_keys TO authenticated;
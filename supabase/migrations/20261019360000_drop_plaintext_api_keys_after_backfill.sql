@@ -0,0 +1,41 @@
+/*
+  # Drop plaintext API keys after the backfill
+
+  1. Changes
+    - Stops with an error while any plaintext key is left: a Gemini key in
+      `api_keys.gemini_api_key` or an OpenAI-compatible key in
+      `provider_settings.openaiApiKey`. Deploy the edge functions, run the
+      one-time `backfill-api-keys` function with the service role key, which
+      encrypts those keys into their custody columns and clears the
+      plaintext, then apply this migration again.
+    - `api_keys.gemini_api_key` is dropped; `gemini_api_key_encrypted` is now
+      the only copy of a key.
+
+  2. Security
+    - No provider key is left readable in the database, even with the service
+      role, without the `API_KEY_ENCRYPTION_KEY` function secret.
+*/
+
+DO $$
+DECLARE
+  plaintext_keys integer;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'api_keys' AND column_name = 'gemini_api_key'
+  ) THEN
+    EXECUTE 'SELECT count(*) FROM api_keys WHERE gemini_api_key IS NOT NULL' INTO plaintext_keys;
+    IF plaintext_keys > 0 THEN
+      RAISE EXCEPTION '% plaintext Gemini keys remain; run the backfill-api-keys edge function with the service role key, then apply this migration again', plaintext_keys;
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO plaintext_keys FROM api_keys WHERE provider_settings ? 'openaiApiKey';
+  IF plaintext_keys > 0 THEN
+    RAISE EXCEPTION '% plaintext OpenAI-compatible keys remain; run the backfill-api-keys edge function with the service role key, then apply this migration again', plaintext_keys;
+  END IF;
+END;
+$$;
+
+ALTER TABLE api_keys
+  DROP COLUMN IF EXISTS gemini_api_key;